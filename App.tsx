@@ -1,59 +1,101 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { 
   Menu, X, Upload, Camera, FileText, Sun, Moon, 
-  ChevronRight, Share2, Download, AlertCircle, CheckCircle, 
-  BookOpen, Calculator, Beaker, Zap, Settings, Copy, Check 
+  ChevronRight, Share2, 
+  BookOpen, Calculator, Beaker, Zap, Settings, Languages, Clock, RotateCcw 
 } from 'lucide-react';
-import ReactMarkdown from 'react-markdown';
-import { generateSolution } from './services/geminiService';
+import { generateSolutionStream } from './services/geminiService';
+import { parseSolutionResponse } from './services/solutionParser';
+import { verifySolution, buildVerificationFeedback } from './services/verificationService';
 import { AdPlaceholder } from './components/AdPlaceholder';
+import { SolveErrorPanel } from './components/SolveErrorPanel';
+import { ConsensusCompare } from './components/ConsensusCompare';
+import { SolutionView } from './components/SolutionView';
+import { TutorView } from './components/TutorView';
+import { PracticeQuiz } from './components/PracticeQuiz';
+import { SubjectChip } from './components/SubjectChip';
+import { ExportMenu } from './components/ExportMenu';
+import { ImageEditor } from './components/ImageEditor';
+import { CameraCapture } from './components/CameraCapture';
+import { AttachmentStrip } from './components/AttachmentStrip';
+import { WorksheetBatch } from './components/WorksheetBatch';
+import { FollowUpChat } from './components/FollowUpChat';
+import { MathInput } from './components/MathInput';
 import { AboutPage, ContactPage, PrivacyPolicy, TermsConditions, Disclaimer } from './components/LegalComponents';
-import { PageRoute, SolveStatus, AdConfig } from './types';
+import { HistoryPage } from './components/HistoryPage';
+import { SolutionPage } from './components/SolutionPage';
+import { saveHistoryEntry, updateHistoryEntry, createThumbnail } from './services/historyStore';
+import { Route, parsePath, pathForRoute } from './services/router';
+import { buildShareUrl } from './services/shareLink';
+import { toExportable } from './services/exportService';
+import { ImageProcessingError } from './services/imageProcessing';
+import { MAX_ATTACHMENTS, prepareAttachments } from './services/attachments';
+import { classifyByKeywords, classifyProblem } from './services/classificationService';
+import { SolverError, toSolverError } from './services/solverErrors';
+import { HIGH_ACCURACY_SAMPLES, majoritySample, solveWithConsensus } from './services/consensusService';
+import { toSolverInput } from './services/mathInput';
+import { PageRoute, SolveStatus, AdConfig, VerificationResult, HistoryEntry, InputAttachment, FollowUpMessage, SolutionStep, SolveMode, ProblemClassification, ConsensusResult } from './types';
 import { DEFAULT_AD_CONFIG } from './constants';
-
-// --- Utility Components ---
-
-const CopyButton = ({ text, className = "" }: { text: string, className?: string }) => {
-  const [copied, setCopied] = useState(false);
-  
-  const handleCopy = () => {
-    navigator.clipboard.writeText(text);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
-
-  return (
-    <button 
-      onClick={handleCopy} 
-      className={`p-1.5 sm:p-2 rounded-lg transition-colors flex items-center gap-1 ${copied ? 'text-green-600 bg-green-50 dark:bg-green-900/30' : 'text-gray-400 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700'} ${className}`}
-      title="Copy to clipboard"
-    >
-      {copied ? <Check size={16} /> : <Copy size={16} />}
-      <span className="sr-only">Copy</span>
-    </button>
-  );
-};
+import { I18nContext, LANGUAGES, UI_LANGUAGES, createTranslator, detectUiLanguage, languageByCode, saveUiLanguage } from './services/i18n';
 
 // --- Main Application ---
 
 const App: React.FC = () => {
   // State
   const [theme, setTheme] = useState<'light' | 'dark'>('light');
-  const [page, setPage] = useState<PageRoute>('home');
+  const [route, setRoute] = useState<Route>(() => parsePath(window.location.pathname));
+  const page = route.page;
   const [menuOpen, setMenuOpen] = useState(false);
   const [solveStatus, setSolveStatus] = useState<SolveStatus>(SolveStatus.IDLE);
   
   // Input State
   const [inputText, setInputText] = useState('');
-  const [selectedImage, setSelectedImage] = useState<string | null>(null);
-  const [language, setLanguage] = useState('English');
+  const [attachments, setAttachments] = useState<InputAttachment[]>([]);
+  const [isPreparingImage, setIsPreparingImage] = useState(false);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [editingAttachmentId, setEditingAttachmentId] = useState<string | null>(null);
+  const [showCamera, setShowCamera] = useState(false);
+  // Interface language; the solution language follows it until the student picks another
+  const [uiLanguage, setUiLanguage] = useState(detectUiLanguage);
+  const [language, setLanguage] = useState(() => languageByCode(uiLanguage).name);
   const [result, setResult] = useState<string>('');
+  const [verification, setVerification] = useState<VerificationResult | null>(null);
+  const [autoResolve, setAutoResolve] = useState(false);
+  // Solve mode only: several independent samples, majority answer shown
+  const [highAccuracy, setHighAccuracy] = useState(false);
+  const [consensus, setConsensus] = useState<ConsensusResult | null>(null);
+  // Samples finished so far while high accuracy mode is still waiting for the rest
+  const [samplesSettled, setSamplesSettled] = useState<number | null>(null);
+  const [showComparison, setShowComparison] = useState(false);
+  const [worksheetMode, setWorksheetMode] = useState(false);
+  const [mode, setMode] = useState<SolveMode>('solve');
+  // Keyword guess while typing, model result after solving, or the student's own pick
+  const [classification, setClassification] = useState<ProblemClassification | null>(null);
+  // Set while a worksheet batch is open; the batch view replaces the form
+  const [worksheetImages, setWorksheetImages] = useState<string[] | null>(null);
+  const [isResolving, setIsResolving] = useState(false);
+  // When the answer on screen came from the solution cache, the time it was first solved
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
+  const [solveError, setSolveError] = useState<SolverError | null>(null);
+  const [historyId, setHistoryId] = useState<string | null>(null);
+  const [followUps, setFollowUps] = useState<FollowUpMessage[]>([]);
+  const [followUpDraft, setFollowUpDraft] = useState('');
   
   // Ad Config State (Simulated Admin)
   const [showAdConfig, setShowAdConfig] = useState(false);
   const [adConfig, setAdConfig] = useState<AdConfig>(DEFAULT_AD_CONFIG);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const solveControllerRef = useRef<AbortController | null>(null);
+  const solutionRef = useRef<HTMLDivElement>(null);
+  const followUpInputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Keep the page in sync with the browser back/forward buttons
+  useEffect(() => {
+    const handlePopState = () => setRoute(parsePath(window.location.pathname));
+    window.addEventListener('popstate', handlePopState);
+    return () => window.removeEventListener('popstate', handlePopState);
+  }, []);
 
   // Initialize Theme
   useEffect(() => {
@@ -62,6 +104,15 @@ const App: React.FC = () => {
     }
   }, []);
 
+  const i18n = useMemo(() => ({ language: languageByCode(uiLanguage), t: createTranslator(uiLanguage) }), [uiLanguage]);
+  const { t } = i18n;
+
+  // Arabic and Urdu flip the whole layout
+  useEffect(() => {
+    document.documentElement.lang = uiLanguage;
+    document.documentElement.dir = i18n.language.rtl ? 'rtl' : 'ltr';
+  }, [uiLanguage, i18n.language.rtl]);
+
   useEffect(() => {
     if (theme === 'dark') {
       document.documentElement.classList.add('dark');
@@ -70,186 +121,344 @@ const App: React.FC = () => {
     }
   }, [theme]);
 
-  // Trigger MathJax Typeset when result changes
-  useEffect(() => {
-    if (result && (window as any).MathJax) {
-      // Use setTimeout to ensure DOM is updated by ReactMarkdown first
-      setTimeout(() => {
-        (window as any).MathJax.typesetPromise && (window as any).MathJax.typesetPromise();
-      }, 100);
+  // Handlers
+  const handleUiLanguageChange = (code: string) => {
+    setUiLanguage(code);
+    saveUiLanguage(code);
+    setLanguage(languageByCode(code).name);
+  };
+
+  const goTo = (to: PageRoute) => {
+    const next: Route = { page: to };
+    if (pathForRoute(next) !== window.location.pathname) {
+      window.history.pushState(null, '', pathForRoute(next));
     }
-  }, [result]);
+    setRoute(next);
+    window.scrollTo(0, 0);
+  };
 
-  // Handlers
-  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        setSelectedImage(reader.result as string);
-      };
-      reader.readAsDataURL(file);
+  // Shared by the file picker, drag-and-drop and paste; new files go after the existing ones
+  const addFiles = async (files: File[]) => {
+    if (files.length === 0) return;
+    const slotsLeft = MAX_ATTACHMENTS - attachments.length;
+    if (slotsLeft <= 0) {
+      alert(t('upload.limit', { count: MAX_ATTACHMENTS }));
+      return;
+    }
+
+    setIsPreparingImage(true);
+    try {
+      const added = await prepareAttachments(files, slotsLeft);
+      setAttachments(current => [...current, ...added]);
+    } catch (error) {
+      console.error("Image Processing Error:", error);
+      alert(error instanceof ImageProcessingError ? error.message : t('upload.failed'));
+    } finally {
+      setIsPreparingImage(false);
     }
   };
 
-  const handleSolve = async () => {
-    if (!inputText && !selectedImage) {
-      alert("Please enter a question or upload an image.");
+  const openCamera = () => {
+    if (attachments.length >= MAX_ATTACHMENTS) {
+      alert(t('upload.limit', { count: MAX_ATTACHMENTS }));
       return;
     }
+    setShowCamera(true);
+  };
 
-    setSolveStatus(SolveStatus.ANALYZING);
-    setResult('');
-    
-    // Simulate analyzing phase for UX
-    setTimeout(async () => {
-      try {
-        setSolveStatus(SolveStatus.SOLVING);
-        const aiResponse = await generateSolution(inputText, selectedImage, language);
-        setResult(aiResponse);
-        setSolveStatus(SolveStatus.COMPLETED);
-      } catch (error) {
-        setResult("Error: " + (error as Error).message);
-        setSolveStatus(SolveStatus.ERROR);
-      }
-    }, 1500);
+  // A camera scan is already straightened and downscaled, so it skips prepareAttachments
+  const handleCameraCapture = (dataUrl: string) => {
+    setShowCamera(false);
+    setAttachments(current => [...current, { id: crypto.randomUUID(), dataUrl, label: t('camera.label') }]);
   };
 
-  const handleDownloadPDF = () => {
-    window.print();
+  const handleImageUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    // Allow picking the same file again after removing it
+    e.target.value = '';
+    addFiles(files);
   };
 
-  const handleShare = () => {
-    if (navigator.share) {
-      navigator.share({
-        title: 'TechyStudent Solution',
-        text: 'Check out this solution from TechyStudent AI!',
-        url: window.location.href,
-      });
-    } else {
-      navigator.clipboard.writeText(window.location.href);
-      alert("Link copied to clipboard!");
-    }
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDraggingFiles(false);
+    addFiles(Array.from(e.dataTransfer.files));
   };
 
-  const resetForm = () => {
-    setInputText('');
-    setSelectedImage(null);
+  // Pasting a screenshot anywhere on the question form adds it; pasted text is left alone
+  useEffect(() => {
+    if (page !== 'home' || solveStatus !== SolveStatus.IDLE) return;
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files || [])
+        .filter(file => file.type.startsWith('image/') || file.type === 'application/pdf');
+      if (files.length === 0) return;
+      e.preventDefault();
+      addFiles(files);
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [page, solveStatus, attachments.length]);
+
+  // bypassCache is "Solve again" on a cached answer
+  const handleSolve = async (bypassCache = false) => {
+    if (!inputText && attachments.length === 0) {
+      alert(t('form.empty'));
+      return;
+    }
+
+    if (worksheetMode && attachments.length) {
+      setWorksheetImages(attachments.map(a => a.dataUrl));
+      return;
+    }
+
+    const controller = new AbortController();
+    solveControllerRef.current = controller;
+    // Typed math goes to the model as LaTeX; the student's own text is kept for display and history
+    const question = toSolverInput(inputText);
+
+    setSolveStatus(SolveStatus.ANALYZING);
     setResult('');
-    setSolveStatus(SolveStatus.IDLE);
-  };
+    setVerification(null);
+    setIsResolving(false);
+    setCachedAt(null);
+    setSolveError(null);
+    setConsensus(null);
+    setShowComparison(false);
+    // Follow-ups, practice and tutor state belong to the new entry once it is saved
+    setHistoryId(null);
+    setFollowUps([]);
+    setFollowUpDraft('');
+
+    const streamSolution = async (subject: ProblemClassification | null, feedback?: string) => {
+      // Re-render on every chunk so step cards appear as soon as their headers arrive
+      let aiResponse = '';
+      for await (const chunk of generateSolutionStream(question, attachments.map(a => a.dataUrl), language, { signal: controller.signal, feedback, mode, classification: subject, bypassCache, onCacheHit: setCachedAt })) {
+        aiResponse += chunk;
+        setResult(aiResponse);
+        setSolveStatus(SolveStatus.SOLVING);
+      }
+      return aiResponse;
+    };
 
-  // Helper to parse the result string into sections
-  const parseResult = (text: string) => {
-    const parsed = {
-      steps: [] as { title: string, content: string }[],
-      finalAnswer: '',
-      fallback: false
+    // The first sample streams as usual; the majority answer replaces it once every sample is in
+    const solveWithSamples = async (subject: ProblemClassification | null) => {
+      setSamplesSettled(0);
+      try {
+        const samples = await solveWithConsensus(question, attachments.map(a => a.dataUrl), language, {
+          signal: controller.signal,
+          mode,
+          classification: subject,
+          bypassCache,
+          onCacheHit: setCachedAt,
+          onPrimaryChunk: text => {
+            setResult(text);
+            setSolveStatus(SolveStatus.SOLVING);
+          },
+          onSampleSettled: setSamplesSettled
+        });
+        setConsensus(samples);
+        setResult(majoritySample(samples).rawResponse);
+        return samples;
+      } finally {
+        setSamplesSettled(null);
+      }
     };
 
-    if (!text) return null;
+    // Only Mathematics answers are checked. Markdown responses carry no subject,
+    // so they are checked too but only a conclusive result is shown.
+    const checkAnswer = (aiResponse: string) => {
+      const parsed = parseSolutionResponse(aiResponse);
+      const subject = parsed?.solution?.subject;
+      if (!parsed?.finalAnswer || (subject && subject !== 'Mathematics')) return null;
 
-    // 1. Extract Final Answer
-    // Look for ## Final Answer or **Final Answer** case insensitive
-    const finalAnswerRegex = /(?:##|\*\*)\s*Final Answer/i;
-    const finalMatch = text.match(finalAnswerRegex);
-    let stepsText = text;
+      const check = verifySolution(parsed.solution?.problemStatement || question, parsed.finalAnswer);
+      return subject || check.status !== 'unverified' ? { check, finalAnswer: parsed.finalAnswer } : null;
+    };
 
-    if (finalMatch && finalMatch.index !== undefined) {
-      // Extract everything after the match, trim leading colons/whitespace
-      parsed.finalAnswer = text.substring(finalMatch.index + finalMatch[0].length).replace(/^[:\s*]+/, '').trim();
-      stepsText = text.substring(0, finalMatch.index).trim();
-    }
+    try {
+      // A subject the student picked is kept; otherwise the model classifies (keywords if it fails)
+      const subject = classification?.source === 'user'
+        ? classification
+        : await classifyProblem(question, attachments.map(a => a.dataUrl), controller.signal);
+      setClassification(subject);
+
+      let samples = highAccuracy && mode === 'solve' ? await solveWithSamples(subject) : null;
+      let aiResponse = samples ? majoritySample(samples).rawResponse : await streamSolution(subject);
+      let outcome = checkAnswer(aiResponse);
+
+      // One automatic retry with the failed check fed back to the model
+      if (autoResolve && outcome?.check.status === 'contradicted') {
+        setIsResolving(true);
+        setCachedAt(null);
+        setConsensus(null);
+        samples = null;
+        setResult('');
+        setSolveStatus(SolveStatus.ANALYZING);
+        aiResponse = await streamSolution(subject, buildVerificationFeedback(outcome.finalAnswer, outcome.check));
+        outcome = checkAnswer(aiResponse);
+      }
 
-    // 2. Extract Solution Steps section content
-    const stepsHeaderRegex = /##\s*Solution Steps/i;
-    const stepsMatch = stepsText.match(stepsHeaderRegex);
-    
-    let contentToParse = stepsText;
-    if (stepsMatch && stepsMatch.index !== undefined) {
-      contentToParse = stepsText.substring(stepsMatch.index + stepsMatch[0].length).trim();
+      setVerification(outcome?.check || null);
+      setSolveStatus(SolveStatus.COMPLETED);
+      saveToHistory(aiResponse, outcome?.check || null, subject, samples);
+    } catch (error) {
+      // Cancelled by the user - handleCancelSolve already restored the form
+      if (controller.signal.aborted) return;
+      setResult('');
+      setSolveError(toSolverError(error));
+      setSolveStatus(SolveStatus.ERROR);
+    } finally {
+      if (solveControllerRef.current === controller) {
+        solveControllerRef.current = null;
+      }
     }
+  };
 
-    // 3. Robust Step Splitting
-    let rawSteps: string[] = [];
-    
-    // Determine the primary step format to avoid mixed splitting
-    // Check for Markdown headers first (### Step 1...)
-    if (/(?:^|\n)###\s+/.test(contentToParse)) {
-       rawSteps = contentToParse.split(/(?:^|\n)(?=###\s+)/).filter(s => s.trim());
-    } 
-    // Check for Bold headers (**Step 1**)
-    else if (/(?:^|\n)\*\*(?:Step|Step\s+\d+).*?\*\*/i.test(contentToParse)) {
-       rawSteps = contentToParse.split(/(?:^|\n)(?=\*\*(?:Step|Step\s+\d+).*?\*\*)/i).filter(s => s.trim());
-    }
-    // Check for "Step N:" pattern
-    else if (/(?:^|\n)Step\s+\d+[:.]/i.test(contentToParse)) {
-       rawSteps = contentToParse.split(/(?:^|\n)(?=Step\s+\d+[:.])/i).filter(s => s.trim());
-    }
-    // Check for Numbered list "1. " pattern if it looks like steps
-    else if (/(?:^|\n)\d+\.\s+[A-Z]/.test(contentToParse)) {
-       rawSteps = contentToParse.split(/(?:^|\n)(?=\d+\.\s+)/).filter(s => s.trim());
+  // Failures only cost the history entry, never the solution on screen
+  const saveToHistory = async (aiResponse: string, check: VerificationResult | null, subject: ProblemClassification | null, samples: ConsensusResult | null) => {
+    const parsed = parseSolutionResponse(aiResponse);
+    if (!parsed) return;
+
+    const id = crypto.randomUUID();
+    setHistoryId(id);
+
+    try {
+      await saveHistoryEntry({
+        id,
+        createdAt: Date.now(),
+        inputText,
+        thumbnail: attachments.length ? await createThumbnail(attachments[0].dataUrl) : null,
+        language,
+        subject: parsed.solution?.subject || subject?.subject || '',
+        topic: parsed.solution?.topic || subject?.topic || undefined,
+        rawResponse: aiResponse,
+        steps: parsed.steps,
+        finalAnswer: parsed.finalAnswer,
+        verification: check,
+        favorite: false,
+        followUps: [],
+        mode,
+        ...(samples && { consensus: samples })
+      });
+    } catch (error) {
+      console.error("History Save Error:", error);
     }
-    else {
-       // Fallback: No obvious step structure
-       rawSteps = [contentToParse];
+  };
+
+  // Shows a past solution in the result view without calling the model again
+  const openHistoryEntry = (entry: HistoryEntry) => {
+    solveControllerRef.current?.abort();
+    solveControllerRef.current = null;
+    setInputText(entry.inputText);
+    setAttachments([]);
+    setWorksheetImages(null);
+    setLanguage(entry.language);
+    setClassification(entry.subject ? { subject: entry.subject, topic: entry.topic || '', source: 'model' } : null);
+    setMode(entry.mode || 'solve');
+    setResult(entry.rawResponse);
+    setVerification(entry.verification);
+    setIsResolving(false);
+    setCachedAt(null);
+    setConsensus(entry.consensus || null);
+    setShowComparison(false);
+    setHistoryId(entry.id);
+    setFollowUps(entry.followUps || []);
+    setFollowUpDraft('');
+    setSolveStatus(SolveStatus.COMPLETED);
+    goTo('home');
+  };
+
+  // Stops an in-flight solve but keeps the typed question and image for editing
+  const handleCancelSolve = () => {
+    solveControllerRef.current?.abort();
+    solveControllerRef.current = null;
+    setResult('');
+    setVerification(null);
+    setSolveStatus(SolveStatus.IDLE);
+  };
+
+  // Follow-ups are stored with the solution's history entry as the conversation grows
+  const handleFollowUpsChange = (messages: FollowUpMessage[]) => {
+    setFollowUps(messages);
+    if (historyId) {
+      updateHistoryEntry(historyId, { followUps: messages })
+        .catch(error => console.error("History Save Error:", error));
     }
+  };
 
-    parsed.steps = rawSteps.map(rawStep => {
-      // Clean up the raw step
-      const lines = rawStep.trim().split('\n');
-      let header = lines[0].trim();
-      let content = lines.slice(1).join('\n').trim();
-      
-      // Clean up the title from the header line
-      // Remove Markdown headers
-      let title = header.replace(/^###\s*/, '').replace(/\*\*/g, '');
-      
-      // Identify "Step N" or "1." prefix
-      // Regex: Start of line, "Step" optional space digits, optional chars like ":", ".", "-"
-      const prefixRegex = /^(?:Step\s*\d+|Step\s+[A-Z]|\d+\.)[:.\s-]*/i;
-      const prefixMatch = title.match(prefixRegex);
-      
-      if (prefixMatch) {
-        title = title.substring(prefixMatch[0].length).trim();
-      }
+  const handleExplainStep = (step: SolutionStep, index: number) => {
+    setFollowUpDraft(t('followUp.explainStep', { number: index + 1, title: step.title }));
+    followUpInputRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    followUpInputRef.current?.focus({ preventScroll: true });
+  };
 
-      // Handle single-line steps or empty content
-      if (!content) {
-          // If the rest of the header is substantial, treat it as content
-          if (title.length > 0) {
-              content = title;
-              title = "Explanation";
-          }
-      }
-      
-      // Fallback for empty title
-      if (!title) {
-        title = "Step Details";
-      }
+  // The link carries the solution itself, so the recipient sees the same steps read-only
+  const handleShare = async () => {
+    const url = await buildShareUrl(historyId || 'shared', { inputText, language, rawResponse: result, verification });
+    if (navigator.share) {
+      navigator.share({
+        title: t('share.title'),
+        text: t('share.text'),
+        url,
+      });
+    } else {
+      navigator.clipboard.writeText(url);
+      alert(t('share.copied'));
+    }
+  };
 
-      return { title, content };
-    }).filter(s => s.content && s.content.length > 0);
-
-    // If parsing failed to produce steps but we have text (and it wasn't just "Solution Steps"), 
-    // treat the whole thing as one step if reasonable, or fallback.
-    if (parsed.steps.length === 0) {
-        if (contentToParse.trim().length > 0) {
-             // Just one block of text?
-             parsed.steps.push({ title: "Analysis", content: contentToParse });
-        } else if (!parsed.finalAnswer) {
-             parsed.fallback = true;
-        }
+  // The subject chip follows the typed question until the student edits it
+  const handleInputTextChange = (text: string) => {
+    setInputText(text);
+    if (classification?.source !== 'user') {
+      setClassification(classifyByKeywords(text));
     }
+  };
 
-    return parsed;
+  const resetForm = () => {
+    solveControllerRef.current?.abort();
+    solveControllerRef.current = null;
+    setInputText('');
+    setClassification(null);
+    setAttachments([]);
+    setWorksheetImages(null);
+    setResult('');
+    setVerification(null);
+    setCachedAt(null);
+    setSolveError(null);
+    setConsensus(null);
+    setShowComparison(false);
+    setHistoryId(null);
+    setFollowUps([]);
+    setFollowUpDraft('');
+    setSolveStatus(SolveStatus.IDLE);
   };
 
-  const parsedData = result ? parseResult(result) : null;
+  const isStreaming = solveStatus === SolveStatus.SOLVING;
+  const parsedData = parseSolutionResponse(result, isStreaming);
+  const editingAttachment = attachments.find(a => a.id === editingAttachmentId);
+  const solution = parsedData?.solution;
+  // Keep the spinner up until the first step card can be drawn
+  const showLoading = solveStatus === SolveStatus.ANALYZING || (isStreaming && !parsedData?.steps.length);
+  const showResult = (solveStatus === SolveStatus.COMPLETED || (isStreaming && !!parsedData?.steps.length)) && parsedData;
+
+  const LanguageSwitcher = () => (
+    <label className="flex items-center gap-1 text-gray-600 dark:text-gray-300" title={t('header.uiLanguage')}>
+      <Languages size={18} />
+      <select
+        value={uiLanguage}
+        onChange={(e) => handleUiLanguageChange(e.target.value)}
+        className="bg-transparent text-sm font-medium focus:outline-none cursor-pointer"
+        aria-label={t('header.uiLanguage')}
+      >
+        {UI_LANGUAGES.map(option => <option key={option.code} value={option.code}>{option.nativeName}</option>)}
+      </select>
+    </label>
+  );
 
   const NavLink = ({ to, label }: { to: PageRoute, label: string }) => (
     <button 
-      onClick={() => { setPage(to); setMenuOpen(false); }}
+      onClick={() => { goTo(to); setMenuOpen(false); }}
       className={`text-lg font-medium hover:text-primary-600 dark:hover:text-primary-400 transition ${page === to ? 'text-primary-600 dark:text-primary-400' : 'text-gray-600 dark:text-gray-300'}`}
     >
       {label}
@@ -257,19 +466,20 @@ const App: React.FC = () => {
   );
 
   const FooterLink = ({ to, label }: { to: PageRoute, label: string }) => (
-    <button onClick={() => setPage(to)} className="text-sm text-gray-500 hover:text-primary-600 dark:hover:text-primary-400 transition">
+    <button onClick={() => goTo(to)} className="text-sm text-gray-500 hover:text-primary-600 dark:hover:text-primary-400 transition">
       {label}
     </button>
   );
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="min-h-screen flex flex-col font-sans selection:bg-primary-100 selection:text-primary-900">
       
       {/* Header */}
       <header className="sticky top-0 z-50 bg-white/90 dark:bg-gray-900/90 backdrop-blur-md border-b border-gray-200 dark:border-gray-800 shadow-sm no-print">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
           <div className="flex justify-between items-center h-16">
-            <div className="flex items-center gap-2 cursor-pointer" onClick={() => setPage('home')}>
+            <div className="flex items-center gap-2 cursor-pointer" onClick={() => goTo('home')}>
               <div className="bg-gradient-to-tr from-primary-600 to-secondary-500 p-2 rounded-lg text-white">
                 <Calculator size={24} />
               </div>
@@ -280,13 +490,16 @@ const App: React.FC = () => {
 
             {/* Desktop Nav */}
             <div className="hidden md:flex items-center gap-8">
-              <NavLink to="home" label="Solver" />
-              <NavLink to="about" label="About" />
-              <NavLink to="contact" label="Contact" />
+              <NavLink to="home" label={t('nav.solver')} />
+              <NavLink to="history" label={t('nav.history')} />
+              <NavLink to="about" label={t('nav.about')} />
+              <NavLink to="contact" label={t('nav.contact')} />
+              <LanguageSwitcher />
               
               <button 
                 onClick={() => setTheme(theme === 'light' ? 'dark' : 'light')}
                 className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition"
+                title={t('header.theme')}
               >
                 {theme === 'light' ? <Moon size={20} /> : <Sun size={20} />}
               </button>
@@ -294,9 +507,11 @@ const App: React.FC = () => {
 
             {/* Mobile Menu Button */}
             <div className="md:hidden flex items-center gap-4">
+               <LanguageSwitcher />
                <button 
                 onClick={() => setTheme(theme === 'light' ? 'dark' : 'light')}
                 className="p-2 rounded-full hover:bg-gray-100 dark:hover:bg-gray-800 transition"
+                title={t('header.theme')}
               >
                 {theme === 'light' ? <Moon size={20} /> : <Sun size={20} />}
               </button>
@@ -310,11 +525,12 @@ const App: React.FC = () => {
         {/* Mobile Nav Drawer */}
         {menuOpen && (
           <div className="md:hidden absolute top-16 left-0 w-full bg-white dark:bg-gray-900 border-b border-gray-200 dark:border-gray-800 p-4 flex flex-col gap-4 shadow-lg animate-in slide-in-from-top-2">
-            <NavLink to="home" label="Home" />
-            <NavLink to="about" label="About Us" />
-            <NavLink to="contact" label="Contact" />
-            <NavLink to="privacy" label="Privacy Policy" />
-            <NavLink to="terms" label="Terms & Conditions" />
+            <NavLink to="home" label={t('nav.home')} />
+            <NavLink to="history" label={t('nav.history')} />
+            <NavLink to="about" label={t('nav.aboutUs')} />
+            <NavLink to="contact" label={t('nav.contact')} />
+            <NavLink to="privacy" label={t('nav.privacy')} />
+            <NavLink to="terms" label={t('nav.terms')} />
           </div>
         )}
       </header>
@@ -328,15 +544,15 @@ const App: React.FC = () => {
             {!result && (
               <div className="text-center mb-12 animate-in fade-in zoom-in duration-500">
                 <h1 className="text-4xl sm:text-5xl font-extrabold text-gray-900 dark:text-white mb-6">
-                  Master Your <span className="text-transparent bg-clip-text bg-gradient-to-r from-primary-500 to-secondary-500">Homework</span> with AI
+                  {t('hero.titleBefore')} <span className="text-transparent bg-clip-text bg-gradient-to-r from-primary-500 to-secondary-500">{t('hero.titleHighlight')}</span> {t('hero.titleAfter')}
                 </h1>
                 <p className="text-lg text-gray-600 dark:text-gray-400 max-w-2xl mx-auto mb-8">
-                  Instant step-by-step solutions for Math, Physics, and Chemistry. Upload a photo or type your question. Free & Fast.
+                  {t('hero.subtitle')}
                 </p>
                 <div className="flex justify-center gap-4 text-sm font-medium text-gray-500 dark:text-gray-400">
-                  <span className="flex items-center gap-1"><BookOpen size={16} className="text-primary-500" /> Math</span>
-                  <span className="flex items-center gap-1"><Beaker size={16} className="text-secondary-500" /> Chemistry</span>
-                  <span className="flex items-center gap-1"><Zap size={16} className="text-yellow-500" /> Physics</span>
+                  <span className="flex items-center gap-1"><BookOpen size={16} className="text-primary-500" /> {t('hero.math')}</span>
+                  <span className="flex items-center gap-1"><Beaker size={16} className="text-secondary-500" /> {t('hero.chemistry')}</span>
+                  <span className="flex items-center gap-1"><Zap size={16} className="text-yellow-500" /> {t('hero.physics')}</span>
                 </div>
               </div>
             )}
@@ -345,35 +561,51 @@ const App: React.FC = () => {
             <div className={`bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 overflow-hidden transition-all duration-500 ${result ? 'mt-4' : ''}`}>
               
               {/* Input Section - Hide if solving or result is showing (optional, keeping visible for now for UX but simplified) */}
-              {solveStatus === SolveStatus.IDLE && (
+              {solveStatus === SolveStatus.IDLE && !worksheetImages && (
                 <div className="p-6 sm:p-8 space-y-6">
                   {/* Image Upload Area */}
                   <div 
-                    className={`relative border-2 border-dashed rounded-xl p-8 text-center transition-colors cursor-pointer group ${
-                      selectedImage 
+                    className={`relative border-2 border-dashed rounded-xl text-center transition-colors group ${
+                      attachments.length ? 'p-4' : 'p-8 cursor-pointer'
+                    } ${
+                      isDraggingFiles
+                        ? 'border-primary-500 bg-primary-100 dark:bg-primary-900/30'
+                        : attachments.length 
                         ? 'border-primary-500 bg-primary-50 dark:bg-primary-900/10' 
                         : 'border-gray-300 dark:border-gray-600 hover:border-primary-400 hover:bg-gray-50 dark:hover:bg-gray-700/50'
                     }`}
-                    onClick={() => fileInputRef.current?.click()}
+                    onClick={() => { if (!attachments.length) fileInputRef.current?.click(); }}
+                    onDragOver={(e) => {
+                      // Thumbnails being reordered are not files
+                      if (!e.dataTransfer.types.includes('Files')) return;
+                      e.preventDefault();
+                      setIsDraggingFiles(true);
+                    }}
+                    onDragLeave={(e) => { if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false); }}
+                    onDrop={handleDrop}
                   >
                     <input 
                       type="file" 
                       ref={fileInputRef} 
                       className="hidden" 
-                      accept="image/*" 
+                      accept="image/*,.heic,.heif,application/pdf" 
+                      multiple
                       onChange={handleImageUpload} 
                     />
                     
-                    {selectedImage ? (
-                      <div className="relative h-48 w-full flex items-center justify-center">
-                        <img src={selectedImage} alt="Upload" className="h-full object-contain rounded-lg shadow-sm" />
-                        <button 
-                          onClick={(e) => { e.stopPropagation(); setSelectedImage(null); }}
-                          className="absolute top-2 right-2 bg-red-500 text-white p-1 rounded-full hover:bg-red-600"
-                        >
-                          <X size={16} />
-                        </button>
+                    {isPreparingImage ? (
+                      <div className="h-48 flex flex-col items-center justify-center gap-3 text-gray-500 dark:text-gray-400">
+                        <span className="w-8 h-8 border-4 border-primary-500 border-t-transparent rounded-full animate-spin"></span>
+                        <p className="text-sm">{t('upload.preparing')}</p>
                       </div>
+                    ) : attachments.length ? (
+                      <AttachmentStrip
+                        attachments={attachments}
+                        onChange={setAttachments}
+                        onEdit={(attachment) => setEditingAttachmentId(attachment.id)}
+                        onAdd={() => fileInputRef.current?.click()}
+                        onCapture={openCamera}
+                      />
                     ) : (
                       <div className="space-y-4">
                         <div className="mx-auto h-16 w-16 bg-primary-100 dark:bg-primary-900/30 rounded-full flex items-center justify-center text-primary-600 dark:text-primary-400 group-hover:scale-110 transition-transform">
@@ -381,29 +613,35 @@ const App: React.FC = () => {
                         </div>
                         <div>
                           <p className="text-lg font-semibold text-gray-700 dark:text-gray-200">
-                            Drop an image here or click to upload
+                            {t('upload.prompt')}
                           </p>
                           <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
-                            Supports JPG, PNG, WEBP
+                            {t('upload.formats', { count: MAX_ATTACHMENTS })}
                           </p>
                         </div>
+                        <button
+                          onClick={(e) => { e.stopPropagation(); openCamera(); }}
+                          className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-600 text-sm font-medium text-gray-700 dark:text-gray-200 hover:border-primary-400 hover:text-primary-600 transition"
+                        >
+                          <Camera size={16} />
+                          {t('camera.open')}
+                        </button>
                       </div>
                     )}
                   </div>
 
                   <div className="relative flex py-2 items-center">
                     <div className="flex-grow border-t border-gray-200 dark:border-gray-700"></div>
-                    <span className="flex-shrink-0 mx-4 text-gray-400 text-sm">OR TYPE QUESTION</span>
+                    <span className="flex-shrink-0 mx-4 text-gray-400 text-sm">{t('form.or')}</span>
                     <div className="flex-grow border-t border-gray-200 dark:border-gray-700"></div>
                   </div>
 
                   {/* Text Input */}
                   <div>
-                    <textarea
+                    <MathInput
                       value={inputText}
-                      onChange={(e) => setInputText(e.target.value)}
-                      placeholder="Type your Math, Physics, or Chemistry question here..."
-                      className="w-full h-32 p-4 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50 focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none transition"
+                      onChange={handleInputTextChange}
+                      placeholder={t('form.placeholder')}
                     />
                   </div>
 
@@ -413,26 +651,77 @@ const App: React.FC = () => {
                       value={language}
                       onChange={(e) => setLanguage(e.target.value)}
                       className="px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:ring-2 focus:ring-primary-500"
+                      title={t('form.solveLanguage')}
+                    >
+                      {LANGUAGES.map(option => (
+                        <option key={option.code} value={option.name}>
+                          {option.nativeName === option.name ? option.name : `${option.nativeName} (${option.name})`}
+                        </option>
+                      ))}
+                    </select>
+
+                    <SubjectChip value={classification} onChange={setClassification} />
+
+                    <select 
+                      value={mode}
+                      onChange={(e) => setMode(e.target.value as SolveMode)}
+                      className="px-4 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:ring-2 focus:ring-primary-500"
+                      title={t('form.modeHint')}
                     >
-                      <option value="English">English</option>
-                      <option value="Hindi">Hindi</option>
-                      <option value="Spanish">Spanish</option>
+                      <option value="solve">{t('form.modeSolve')}</option>
+                      <option value="tutor">{t('form.modeTutor')}</option>
                     </select>
 
+                    <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 cursor-pointer" title={t('form.autoResolveHint')}>
+                      <input 
+                        type="checkbox" 
+                        checked={autoResolve} 
+                        onChange={(e) => setAutoResolve(e.target.checked)}
+                        className="rounded text-primary-600 focus:ring-primary-500"
+                      />
+                      {t('form.autoResolve')}
+                    </label>
+
+                    <label className={`flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 ${mode === 'solve' ? 'cursor-pointer' : 'opacity-50'}`} title={t('form.highAccuracyHint', { count: HIGH_ACCURACY_SAMPLES })}>
+                      <input 
+                        type="checkbox" 
+                        checked={highAccuracy && mode === 'solve'} 
+                        disabled={mode !== 'solve'}
+                        onChange={(e) => setHighAccuracy(e.target.checked)}
+                        className="rounded text-primary-600 focus:ring-primary-500"
+                      />
+                      {t('form.highAccuracy')}
+                    </label>
+
+                    <label className={`flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300 ${attachments.length ? 'cursor-pointer' : 'opacity-50'}`} title={t('form.worksheetHint')}>
+                      <input 
+                        type="checkbox" 
+                        checked={worksheetMode && attachments.length > 0} 
+                        disabled={attachments.length === 0}
+                        onChange={(e) => setWorksheetMode(e.target.checked)}
+                        className="rounded text-primary-600 focus:ring-primary-500"
+                      />
+                      {t('form.worksheet')}
+                    </label>
+
                     <button 
-                      onClick={handleSolve}
-                      disabled={!inputText && !selectedImage}
+                      onClick={() => handleSolve()}
+                      disabled={!inputText && attachments.length === 0}
                       className="flex-1 sm:flex-none px-8 py-3 bg-gradient-to-r from-primary-600 to-secondary-600 hover:from-primary-700 hover:to-secondary-700 text-white rounded-xl font-semibold shadow-lg shadow-primary-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all transform active:scale-95 flex items-center justify-center gap-2"
                     >
                       <Zap size={20} />
-                      Solve Now
+                      {worksheetMode && attachments.length ? t('form.findQuestions') : t('form.solve')}
                     </button>
                   </div>
                 </div>
               )}
 
+              {worksheetImages && (
+                <WorksheetBatch images={worksheetImages} language={language} onExit={() => setWorksheetImages(null)} />
+              )}
+
               {/* Loading State */}
-              {(solveStatus === SolveStatus.ANALYZING || solveStatus === SolveStatus.SOLVING) && (
+              {showLoading && (
                 <div className="p-12 text-center">
                   <div className="relative w-20 h-20 mx-auto mb-6">
                     <div className="absolute inset-0 border-4 border-gray-200 rounded-full"></div>
@@ -442,120 +731,138 @@ const App: React.FC = () => {
                     </div>
                   </div>
                   <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-2">
-                    {solveStatus === SolveStatus.ANALYZING ? "Scanning Question..." : "AI Computing Solution..."}
+                    {isResolving
+                      ? t('loading.resolving')
+                      : solveStatus === SolveStatus.ANALYZING ? t('loading.scanning') : t('loading.computing')}
                   </h3>
                   <p className="text-gray-500 dark:text-gray-400">
-                    Please wait while we crunch the numbers.
+                    {t('loading.wait')}
                   </p>
+                  <button 
+                    onClick={handleCancelSolve}
+                    className="mt-6 px-6 py-2 text-sm font-medium text-gray-600 dark:text-gray-300 border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition"
+                  >
+                    {t('loading.cancel')}
+                  </button>
                 </div>
               )}
 
               {/* Result State */}
-              {solveStatus === SolveStatus.COMPLETED && parsedData && (
-                <div className="solution-container relative bg-white dark:bg-gray-800 animate-in fade-in slide-in-from-bottom-4">
+              {showResult && (
+                <div ref={solutionRef} className="solution-container relative bg-white dark:bg-gray-800 animate-in fade-in slide-in-from-bottom-4">
                   
                   {/* Result Header */}
                   <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30 no-print">
-                     <button 
-                      onClick={resetForm}
-                      className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400"
-                    >
-                      <ChevronRight className="rotate-180" size={16} />
-                      New Question
-                    </button>
-                    <div className="flex gap-2">
-                      <button onClick={handleShare} className="p-2 text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition" title="Share Link">
-                        <Share2 size={18} />
-                      </button>
-                      <button onClick={handleDownloadPDF} className="p-2 text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-lg flex items-center gap-2 transition" title="Print / Save PDF">
-                        <Download size={18} />
-                        <span className="hidden sm:inline text-xs font-semibold">PDF</span>
-                      </button>
-                    </div>
-                  </div>
-
-                  <div className="p-6 sm:p-8">
-                     {/* Disclaimer in Result */}
-                    <div className="mb-6 flex gap-3 p-4 bg-yellow-50 dark:bg-yellow-900/10 rounded-lg border border-yellow-100 dark:border-yellow-900/30 text-xs text-yellow-800 dark:text-yellow-200 print-only">
-                      <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
-                      <p>AI-generated content. Verify steps before submission. For educational use only.</p>
-                    </div>
-
-                    {parsedData.fallback ? (
-                      // Fallback for unstructured response
-                      <div className="prose dark:prose-invert max-w-none prose-headings:text-primary-700 dark:prose-headings:text-primary-400 prose-p:text-gray-700 dark:prose-p:text-gray-300 prose-code:bg-gray-100 dark:prose-code:bg-gray-700 prose-code:text-primary-600 dark:prose-code:text-primary-300 prose-pre:bg-gray-900 prose-pre:text-gray-100">
-                        <ReactMarkdown>{result}</ReactMarkdown>
-                      </div>
+                    {isStreaming ? (
+                      <>
+                        <span className="flex items-center gap-2 text-sm font-medium text-primary-600 dark:text-primary-400">
+                          <span className="w-4 h-4 border-2 border-primary-500 border-t-transparent rounded-full animate-spin"></span>
+                          {samplesSettled !== null
+                            ? t('result.sampling', { settled: samplesSettled, total: HIGH_ACCURACY_SAMPLES })
+                            : t('result.writing')}
+                        </span>
+                        <button 
+                          onClick={handleCancelSolve}
+                          className="flex items-center gap-1 text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-red-600 dark:hover:text-red-400"
+                        >
+                          <X size={16} />
+                          {t('loading.cancel')}
+                        </button>
+                      </>
                     ) : (
-                      // Structured Result View
-                      <div className="space-y-8">
-                        
-                        {/* Ad in content */}
-                        <AdPlaceholder slot={adConfig.slots.content} label="Sponsored" className="mb-6 mt-0" />
-
-                        {/* Steps */}
-                        <div>
-                          <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-6 flex items-center gap-2">
-                             <span className="bg-primary-100 dark:bg-primary-900/50 text-primary-600 dark:text-primary-400 p-1.5 rounded-lg"><BookOpen size={20}/></span>
-                             Step-by-Step Solution
-                          </h3>
-                          
-                          <div className="space-y-6">
-                            {parsedData.steps.map((step, index) => (
-                              <div key={index} className="group relative bg-gray-50 dark:bg-gray-700/30 rounded-xl p-5 border border-gray-100 dark:border-gray-700 hover:border-primary-200 dark:hover:border-primary-700/50 transition-all">
-                                <div className="flex justify-between items-start mb-3">
-                                  <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
-                                    <span className="flex items-center justify-center w-6 h-6 rounded-full bg-primary-600 text-white text-xs">{index + 1}</span>
-                                    {step.title}
-                                  </h4>
-                                  <CopyButton text={`Step ${index + 1}: ${step.title}\n${step.content}`} />
-                                </div>
-                                <div className="prose dark:prose-invert max-w-none text-gray-600 dark:text-gray-300">
-                                  <ReactMarkdown>{step.content}</ReactMarkdown>
-                                </div>
-                              </div>
-                            ))}
-                          </div>
-                        </div>
-
-                        {/* Final Answer */}
-                        <div className="mt-8">
-                          <div className="bg-gradient-to-br from-primary-50 to-white dark:from-gray-800 dark:to-gray-800 border border-primary-100 dark:border-primary-900/50 rounded-xl p-6 shadow-sm">
-                            <div className="flex justify-between items-start mb-4">
-                              <h3 className="text-lg font-bold text-primary-700 dark:text-primary-400 flex items-center gap-2">
-                                <CheckCircle size={20} />
-                                Final Answer
-                              </h3>
-                              <CopyButton text={parsedData.finalAnswer} />
-                            </div>
-                            <div className="text-xl sm:text-2xl font-medium text-gray-900 dark:text-white prose dark:prose-invert max-w-none">
-                              <ReactMarkdown>{parsedData.finalAnswer}</ReactMarkdown>
-                            </div>
-                          </div>
+                      <>
+                        <button 
+                          onClick={resetForm}
+                          className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400"
+                        >
+                          <ChevronRight className="rotate-180 rtl:rotate-0" size={16} />
+                          {t('result.newQuestion')}
+                        </button>
+                        <div className="flex items-center gap-2">
+                          {cachedAt && (
+                            <>
+                              <span className="hidden sm:flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400" title={new Date(cachedAt).toLocaleString(uiLanguage)}>
+                                <Clock size={14} />
+                                {t('result.cached')}
+                              </span>
+                              <button
+                                onClick={() => handleSolve(true)}
+                                className="flex items-center gap-1 px-2 py-1 text-sm font-medium text-primary-600 dark:text-primary-400 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition"
+                              >
+                                <RotateCcw size={16} />
+                                {t('result.solveAgain')}
+                              </button>
+                            </>
+                          )}
+                          <button onClick={handleShare} className="p-2 text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-600 rounded-lg transition" title={t('result.share')}>
+                            <Share2 size={18} />
+                          </button>
+                          <ExportMenu solutions={[toExportable(inputText, parsedData)]} getPdfTarget={() => solutionRef.current} />
                         </div>
-
-                      </div>
+                      </>
                     )}
-
                   </div>
+
+                  {mode === 'tutor' ? (
+                    <TutorView
+                      key={historyId || 'current'}
+                      rawResponse={result}
+                      parsed={parsedData}
+                      question={inputText}
+                      language={language}
+                      isStreaming={isStreaming}
+                      verification={verification}
+                      adSlot={adConfig.slots.content}
+                      onExplainStep={solveStatus === SolveStatus.COMPLETED ? handleExplainStep : undefined}
+                    />
+                  ) : (
+                    <SolutionView 
+                      rawResponse={result} 
+                      parsed={parsedData} 
+                      isStreaming={isStreaming} 
+                      verification={verification} 
+                      adSlot={adConfig.slots.content} 
+                      onExplainStep={solveStatus === SolveStatus.COMPLETED ? handleExplainStep : undefined}
+                      question={inputText}
+                      consensus={consensus}
+                      onCompare={() => setShowComparison(true)}
+                    />
+                  )}
+
+                  {showComparison && consensus && (
+                    <ConsensusCompare consensus={consensus} question={inputText} onClose={() => setShowComparison(false)} />
+                  )}
+
+                  {solveStatus === SolveStatus.COMPLETED && (
+                    <FollowUpChat
+                      context={{ inputText, images: attachments.map(a => a.dataUrl), rawResponse: result, language }}
+                      messages={followUps}
+                      onMessagesChange={handleFollowUpsChange}
+                      draft={followUpDraft}
+                      onDraftChange={setFollowUpDraft}
+                      inputRef={followUpInputRef}
+                    />
+                  )}
+
+                  {solveStatus === SolveStatus.COMPLETED && (
+                    <PracticeQuiz key={historyId || 'current'} inputText={inputText} rawResponse={result} language={language} />
+                  )}
                 </div>
               )}
 
                {/* Error State */}
-               {solveStatus === SolveStatus.ERROR && (
-                 <div className="p-8 text-center">
-                   <div className="mx-auto w-16 h-16 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center text-red-500 mb-4">
-                     <AlertCircle size={32} />
-                   </div>
-                   <h3 className="text-lg font-bold text-red-600 dark:text-red-400 mb-2">Oops! Something went wrong.</h3>
-                   <p className="text-gray-600 dark:text-gray-300 mb-6">{result}</p>
-                   <button 
-                    onClick={resetForm}
-                    className="px-6 py-2 bg-gray-900 dark:bg-gray-700 text-white rounded-lg hover:opacity-90"
-                   >
-                     Try Again
-                   </button>
-                 </div>
+               {solveStatus === SolveStatus.ERROR && solveError && (
+                 <SolveErrorPanel
+                   error={solveError}
+                   onRetry={() => handleSolve()}
+                   onEdit={handleCancelSolve}
+                   onCrop={attachments.length ? () => {
+                     handleCancelSolve();
+                     setEditingAttachmentId(attachments[0].id);
+                   } : undefined}
+                   onContact={() => goTo('contact')}
+                   onReset={resetForm}
+                 />
                )}
             </div>
 
@@ -568,6 +875,8 @@ const App: React.FC = () => {
           </div>
         ) : (
           <div className="animate-in fade-in slide-in-from-right-4">
+             {page === 'history' && <HistoryPage onOpen={openHistoryEntry} />}
+             {page === 'solution' && route.solutionId && <SolutionPage solutionId={route.solutionId} onSolveOwn={() => goTo('home')} />}
              {page === 'about' && <AboutPage />}
              {page === 'contact' && <ContactPage />}
              {page === 'privacy' && <PrivacyPolicy />}
@@ -577,6 +886,21 @@ const App: React.FC = () => {
         )}
       </main>
 
+      {editingAttachment && (
+        <ImageEditor
+          image={editingAttachment.dataUrl}
+          onApply={(edited) => {
+            setAttachments(current => current.map(a => a.id === editingAttachment.id ? { ...a, dataUrl: edited } : a));
+            setEditingAttachmentId(null);
+          }}
+          onCancel={() => setEditingAttachmentId(null)}
+        />
+      )}
+
+      {showCamera && (
+        <CameraCapture onCapture={handleCameraCapture} onCancel={() => setShowCamera(false)} />
+      )}
+
       {/* Footer */}
       <footer className="bg-white dark:bg-gray-900 border-t border-gray-200 dark:border-gray-800 py-12 no-print">
         <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
@@ -589,7 +913,7 @@ const App: React.FC = () => {
                 <span className="text-lg font-bold text-gray-900 dark:text-white">TechyStudent</span>
               </div>
               <p className="text-sm text-gray-500 dark:text-gray-400 mb-6 max-w-sm">
-                Empowering students with instant, accurate, and explained solutions for a brighter academic future.
+                {t('footer.tagline')}
               </p>
               <div className="flex gap-4">
                 {/* Social placeholders */}
@@ -598,31 +922,31 @@ const App: React.FC = () => {
             </div>
             
             <div>
-              <h4 className="font-semibold text-gray-900 dark:text-white mb-4">Legal</h4>
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-4">{t('footer.legal')}</h4>
               <div className="flex flex-col gap-2 items-start">
-                <FooterLink to="privacy" label="Privacy Policy" />
-                <FooterLink to="terms" label="Terms & Conditions" />
-                <FooterLink to="disclaimer" label="Disclaimer" />
+                <FooterLink to="privacy" label={t('nav.privacy')} />
+                <FooterLink to="terms" label={t('nav.terms')} />
+                <FooterLink to="disclaimer" label={t('nav.disclaimer')} />
               </div>
             </div>
 
             <div>
-              <h4 className="font-semibold text-gray-900 dark:text-white mb-4">Company</h4>
+              <h4 className="font-semibold text-gray-900 dark:text-white mb-4">{t('footer.company')}</h4>
               <div className="flex flex-col gap-2 items-start">
-                <FooterLink to="about" label="About Us" />
-                <FooterLink to="contact" label="Contact" />
+                <FooterLink to="about" label={t('nav.aboutUs')} />
+                <FooterLink to="contact" label={t('nav.contact')} />
                 <button 
                   onClick={() => setShowAdConfig(!showAdConfig)}
                   className="text-sm text-gray-400 hover:text-gray-600 flex items-center gap-1 mt-2"
                 >
-                  <Settings size={12} /> <span className="text-xs">Config</span>
+                  <Settings size={12} /> <span className="text-xs">{t('footer.config')}</span>
                 </button>
               </div>
             </div>
           </div>
           
           <div className="mt-12 pt-8 border-t border-gray-100 dark:border-gray-800 text-center text-sm text-gray-400">
-            <p>&copy; {new Date().getFullYear()} TechyStudent. All rights reserved.</p>
+            <p>{t('footer.rights', { year: new Date().getFullYear() })}</p>
           </div>
         </div>
       </footer>
@@ -632,12 +956,12 @@ const App: React.FC = () => {
         <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/50 p-4">
           <div className="bg-white dark:bg-gray-900 rounded-xl p-6 w-full max-w-md shadow-2xl">
             <div className="flex justify-between items-center mb-4">
-              <h3 className="text-lg font-bold">Site Configuration</h3>
+              <h3 className="text-lg font-bold">{t('config.title')}</h3>
               <button onClick={() => setShowAdConfig(false)}><X size={20} /></button>
             </div>
             <div className="space-y-4">
               <div>
-                <label className="block text-xs font-medium text-gray-500 mb-1">AdSense Publisher ID</label>
+                <label className="block text-xs font-medium text-gray-500 mb-1">{t('config.publisherId')}</label>
                 <input 
                   type="text" 
                   value={adConfig.publisherId} 
@@ -646,19 +970,20 @@ const App: React.FC = () => {
                 />
               </div>
               <p className="text-xs text-gray-400">
-                This is a demo configuration panel. In a real deployment, these values would be stored in environment variables or a database.
+                {t('config.note')}
               </p>
               <button 
                 onClick={() => setShowAdConfig(false)}
                 className="w-full bg-primary-600 text-white py-2 rounded-lg font-medium"
               >
-                Save Settings
+                {t('config.save')}
               </button>
             </div>
           </div>
         </div>
       )}
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { Camera, ChevronLeft, ChevronRight, Pencil, Plus, X } from 'lucide-react';
+import { InputAttachment } from '../types';
+import { MAX_ATTACHMENTS, moveAttachment } from '../services/attachments';
+import { useI18n } from '../services/i18n';
+
+interface AttachmentStripProps {
+  attachments: InputAttachment[];
+  onChange: (attachments: InputAttachment[]) => void;
+  onEdit: (attachment: InputAttachment) => void;
+  onAdd: () => void;
+  // Opens the camera scanner; no camera tile when absent
+  onCapture?: () => void;
+}
+
+// Thumbnails in the order they are sent. Drag to reorder on desktop; the arrow buttons also work on touch screens.
+export const AttachmentStrip: React.FC<AttachmentStripProps> = ({ attachments, onChange, onEdit, onAdd, onCapture }) => {
+  const { t } = useI18n();
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+
+  const handleDrop = (e: React.DragEvent, index: number) => {
+    // Only reorders; files dropped from outside bubble up to the drop zone
+    if (dragIndex === null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    onChange(moveAttachment(attachments, dragIndex, index));
+    setDragIndex(null);
+  };
+
+  const iconButtonClass = "p-1 rounded-full bg-white/90 dark:bg-gray-800/90 text-gray-700 dark:text-gray-200 shadow hover:text-primary-600 disabled:opacity-30";
+
+  return (
+    <div className="flex gap-3 overflow-x-auto pb-2" onClick={(e) => e.stopPropagation()}>
+      {attachments.map((attachment, index) => (
+        <div
+          key={attachment.id}
+          draggable
+          onDragStart={() => setDragIndex(index)}
+          onDragEnd={() => setDragIndex(null)}
+          onDragOver={(e) => { if (dragIndex !== null) e.preventDefault(); }}
+          onDrop={(e) => handleDrop(e, index)}
+          className={`group relative flex-shrink-0 w-32 rounded-lg border bg-white dark:bg-gray-800 overflow-hidden cursor-grab transition ${
+            dragIndex === index ? 'opacity-40 border-primary-400' : 'border-gray-200 dark:border-gray-600'
+          }`}
+        >
+          <img src={attachment.dataUrl} alt={attachment.label} draggable={false} className="w-full h-32 object-contain bg-gray-50 dark:bg-gray-700" />
+          <span className="absolute top-1 left-1 w-5 h-5 rounded-full bg-primary-600 text-white text-xs font-bold flex items-center justify-center">
+            {index + 1}
+          </span>
+          <div className="absolute top-1 right-1 flex gap-1">
+            <button onClick={() => onEdit(attachment)} className={iconButtonClass} title={t('attachments.edit')}>
+              <Pencil size={12} />
+            </button>
+            <button
+              onClick={() => onChange(attachments.filter(a => a.id !== attachment.id))}
+              className="p-1 rounded-full bg-red-500 text-white shadow hover:bg-red-600"
+              title={t('attachments.remove')}
+            >
+              <X size={12} />
+            </button>
+          </div>
+          <div className="flex items-center justify-between gap-1 px-1 py-1 border-t border-gray-100 dark:border-gray-700">
+            <button
+              onClick={() => onChange(moveAttachment(attachments, index, index - 1))}
+              disabled={index === 0}
+              className={iconButtonClass}
+              title={t('attachments.earlier')}
+            >
+              <ChevronLeft size={12} className="rtl:rotate-180" />
+            </button>
+            <span className="flex-grow truncate text-[10px] text-gray-500 dark:text-gray-400 text-center" title={attachment.label}>
+              {attachment.label}
+            </span>
+            <button
+              onClick={() => onChange(moveAttachment(attachments, index, index + 1))}
+              disabled={index === attachments.length - 1}
+              className={iconButtonClass}
+              title={t('attachments.later')}
+            >
+              <ChevronRight size={12} className="rtl:rotate-180" />
+            </button>
+          </div>
+        </div>
+      ))}
+
+      {attachments.length < MAX_ATTACHMENTS && (
+        <button
+          onClick={onAdd}
+          className="flex-shrink-0 w-32 h-[9.5rem] rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-400 hover:border-primary-400 hover:text-primary-600 flex flex-col items-center justify-center gap-1 transition"
+        >
+          <Plus size={20} />
+          <span className="text-xs font-medium">{t('attachments.add')}</span>
+        </button>
+      )}
+
+      {onCapture && attachments.length < MAX_ATTACHMENTS && (
+        <button
+          onClick={onCapture}
+          className="flex-shrink-0 w-32 h-[9.5rem] rounded-lg border-2 border-dashed border-gray-300 dark:border-gray-600 text-gray-400 hover:border-primary-400 hover:text-primary-600 flex flex-col items-center justify-center gap-1 transition"
+        >
+          <Camera size={20} />
+          <span className="text-xs font-medium">{t('attachments.scan')}</span>
+        </button>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,207 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Aperture, Check, Contrast, RotateCcw, X, Zap } from 'lucide-react';
+import { CameraError, CameraErrorReason, FrameSource, frameToDataUrl, openFrameSource, readFrame } from '../services/cameraCapture';
+import { ANALYSIS_DIMENSION, Quad, SteadinessTracker, analyzeFrame, binarize, downscale, warpDocument } from '../services/documentScanner';
+import { MAX_IMAGE_DIMENSION } from '../services/imageProcessing';
+import { useI18n } from '../services/i18n';
+
+interface CameraCaptureProps {
+  onCapture: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+type Phase = 'starting' | 'live' | 'processing' | 'review' | 'error';
+
+// Roughly 8 analyses a second: smooth enough for the outline, light enough for phones
+const ANALYSIS_INTERVAL_MS = 125;
+
+// Live camera with the detected page outlined; takes the picture once the page is
+// held steady, then straightens it and (optionally) turns it into a black and white scan
+export const CameraCapture: React.FC<CameraCaptureProps> = ({ onCapture, onCancel }) => {
+  const { t } = useI18n();
+  const [phase, setPhase] = useState<Phase>('starting');
+  const [errorReason, setErrorReason] = useState<CameraErrorReason>('failed');
+  const [quad, setQuad] = useState<Quad | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [autoCapture, setAutoCapture] = useState(true);
+  const [scanMode, setScanMode] = useState(true);
+  const [captured, setCaptured] = useState<string | null>(null);
+  const sourceRef = useRef<FrameSource | null>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const quadRef = useRef<Quad | null>(null);
+
+  const fail = (err: unknown) => {
+    console.error("Camera Error:", err);
+    setErrorReason(err instanceof CameraError ? err.reason : 'failed');
+    setPhase('error');
+  };
+
+  useEffect(() => {
+    let cancelled = false;
+    let opened: FrameSource | null = null;
+
+    openFrameSource().then(source => {
+      opened = source;
+      if (cancelled) {
+        source.stop();
+        return;
+      }
+      sourceRef.current = source;
+      source.element.className = 'block max-h-[60vh] max-w-full';
+      previewRef.current?.appendChild(source.element);
+      setPhase('live');
+    }).catch(fail);
+
+    return () => {
+      cancelled = true;
+      opened?.stop();
+      opened?.element.remove();
+      sourceRef.current = null;
+    };
+  }, []);
+
+  // Straightens the page and hands back the finished image; without a detected page the whole frame is kept
+  const capture = (page: Quad | null) => {
+    const source = sourceRef.current;
+    if (!source) return;
+    setPhase('processing');
+    // Let the "processing" state paint before the pixel work blocks the thread
+    setTimeout(() => {
+      try {
+        const frame = readFrame(source, MAX_IMAGE_DIMENSION * 2);
+        if (!frame) throw new CameraError('failed', "The camera has not sent a picture yet.");
+        const flat = page ? warpDocument(frame, page, MAX_IMAGE_DIMENSION) : downscale(frame, MAX_IMAGE_DIMENSION);
+        setCaptured(scanMode ? frameToDataUrl(binarize(flat), 'image/png') : frameToDataUrl(flat, 'image/jpeg'));
+        setPhase('review');
+      } catch (err) {
+        fail(err);
+      }
+    }, 0);
+  };
+
+  useEffect(() => {
+    if (phase !== 'live') return;
+    const tracker = new SteadinessTracker();
+    const timer = setInterval(() => {
+      const source = sourceRef.current;
+      const frame = source && readFrame(source, ANALYSIS_DIMENSION);
+      if (!frame) return;
+
+      const analysis = analyzeFrame(frame);
+      const page = analysis.document?.quad || null;
+      const steadiness = tracker.update(analysis);
+      quadRef.current = page;
+      setQuad(page);
+      setProgress(steadiness);
+      if (autoCapture && page && steadiness >= 1) {
+        clearInterval(timer);
+        capture(page);
+      }
+    }, ANALYSIS_INTERVAL_MS);
+    return () => clearInterval(timer);
+  }, [phase, autoCapture, scanMode]);
+
+  const retake = () => {
+    setCaptured(null);
+    setQuad(null);
+    setProgress(0);
+    setPhase('live');
+  };
+
+  const status = phase === 'starting'
+    ? t('camera.starting')
+    : !quad ? t('camera.searching') : autoCapture ? t('camera.holdSteady') : t('camera.found');
+
+  const toolButtonClass = "flex items-center gap-1.5 px-3 py-2 rounded-lg text-sm text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition";
+  const toggleClass = (on: boolean) => `${toolButtonClass} ${on ? 'bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300' : ''}`;
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-3xl bg-white dark:bg-gray-800 rounded-2xl shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700">
+          <h2 className="font-bold text-gray-800 dark:text-gray-100">{t('camera.title')}</h2>
+          <button onClick={onCancel} className="p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition" title={t('camera.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 bg-gray-900 flex flex-col items-center gap-3">
+          {phase === 'error' ? (
+            <p className="py-16 px-4 text-center text-gray-200">{t(`camera.error.${errorReason}`)}</p>
+          ) : (
+            <>
+              {/* The camera element stays mounted through review so "Retake" doesn't restart the camera */}
+              <div className={`relative ${phase === 'review' ? 'hidden' : ''}`}>
+                <div ref={previewRef} />
+                {quad && (
+                  <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 1 1" preserveAspectRatio="none">
+                    <polygon
+                      points={quad.map(p => `${p.x},${p.y}`).join(' ')}
+                      fill={progress > 0 ? 'rgba(34, 197, 94, 0.15)' : 'rgba(59, 130, 246, 0.12)'}
+                      stroke={progress > 0 ? '#22c55e' : '#3b82f6'}
+                      strokeWidth={3}
+                      vectorEffect="non-scaling-stroke"
+                    />
+                  </svg>
+                )}
+                {phase === 'processing' && (
+                  <div className="absolute inset-0 flex items-center justify-center bg-black/40">
+                    <span className="w-8 h-8 border-4 border-white border-t-transparent rounded-full animate-spin"></span>
+                  </div>
+                )}
+              </div>
+              {phase === 'review' && captured && (
+                <img src={captured} alt={t('camera.title')} className="block max-h-[60vh] max-w-full bg-white" />
+              )}
+              {phase !== 'review' && (
+                <div className="w-full max-w-sm">
+                  <p className="text-center text-sm text-gray-200 mb-2">{phase === 'processing' ? t('camera.processing') : status}</p>
+                  {autoCapture && (
+                    <div className="h-1 rounded-full bg-gray-700 overflow-hidden">
+                      <div className="h-full bg-green-500 transition-all" style={{ width: `${progress * 100}%` }} />
+                    </div>
+                  )}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 flex flex-wrap items-center gap-3 border-t border-gray-100 dark:border-gray-700">
+          {phase === 'review' && captured ? (
+            <div className="flex gap-2 ml-auto rtl:ml-0 rtl:mr-auto">
+              <button onClick={retake} className={toolButtonClass}>
+                <RotateCcw size={16} /> {t('camera.retake')}
+              </button>
+              <button
+                onClick={() => onCapture(captured)}
+                className="flex items-center gap-1 px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white text-sm font-semibold transition"
+              >
+                <Check size={16} /> {t('camera.use')}
+              </button>
+            </div>
+          ) : (
+            <>
+              <button onClick={() => setAutoCapture(!autoCapture)} className={toggleClass(autoCapture)} aria-pressed={autoCapture}>
+                <Zap size={16} /> {t('camera.auto')}
+              </button>
+              <button onClick={() => setScanMode(!scanMode)} className={toggleClass(scanMode)} aria-pressed={scanMode}>
+                <Contrast size={16} /> {t('camera.scanMode')}
+              </button>
+              <button
+                onClick={() => capture(quadRef.current)}
+                disabled={phase !== 'live'}
+                className="flex items-center gap-1 px-4 py-2 ml-auto rtl:ml-0 rtl:mr-auto rounded-lg bg-primary-600 hover:bg-primary-700 text-white text-sm font-semibold transition disabled:opacity-60"
+              >
+                <Aperture size={16} /> {t('camera.capture')}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,52 @@
+import React from 'react';
+import { AlertTriangle, FlaskConical } from 'lucide-react';
+import { ChemistryCheck, formatEquation, prettyFormula } from '../services/chemistry';
+import { useI18n } from '../services/i18n';
+
+const formatMass = (value: number) => `${value.toFixed(2)} g/mol`;
+
+// Balance checks and molar masses for the equations and formulas in one step or answer
+export const ChemistryNotes: React.FC<{ check: ChemistryCheck }> = ({ check }) => {
+  const { t } = useI18n();
+  return (
+    <div className="mt-4 space-y-2 text-sm not-prose">
+      {check.equations.map(({ equation, status, balanced }, index) => (
+        <div
+          key={`eq${index}`}
+          className={`rounded-lg px-3 py-2 border ${
+            status === 'balanced'
+              ? 'border-green-100 bg-green-50 text-green-800 dark:border-green-900/40 dark:bg-green-900/20 dark:text-green-300'
+              : 'border-red-100 bg-red-50 text-red-800 dark:border-red-900/40 dark:bg-red-900/20 dark:text-red-300'
+          }`}
+        >
+          <div className="flex items-center gap-2 font-medium">
+            {status === 'balanced' ? <FlaskConical size={14} /> : <AlertTriangle size={14} />}
+            <span>{formatEquation(equation)}</span>
+          </div>
+          <p className="mt-1 text-xs">
+            {status === 'balanced' && t('chemistry.balanced')}
+            {status === 'unbalanced' && balanced && <>{t('chemistry.corrected')} <span className="font-semibold">{formatEquation(equation, balanced)}</span></>}
+            {status === 'unbalanceable' && t('chemistry.unbalanceable')}
+          </p>
+          <p className="mt-1 text-xs text-gray-600 dark:text-gray-400">
+            {[...equation.reactants, ...equation.products]
+              .filter((species, i, all) => all.findIndex(other => other.formula === species.formula) === i)
+              .map(species => `${prettyFormula(species.formula)}: ${formatMass(species.molarMass)}`)
+              .join(' · ')}
+          </p>
+        </div>
+      ))}
+      {check.molarMasses.map((claim, index) => (
+        <p
+          key={`mm${index}`}
+          className={`flex items-center gap-2 text-xs ${claim.wrong ? 'text-red-700 dark:text-red-300' : 'text-gray-600 dark:text-gray-400'}`}
+        >
+          {claim.wrong ? <AlertTriangle size={14} /> : <FlaskConical size={14} />}
+          {claim.wrong
+            ? t('chemistry.massWrong', { formula: prettyFormula(claim.formula), computed: formatMass(claim.computed), stated: claim.stated })
+            : t('chemistry.massRight', { formula: prettyFormula(claim.formula), computed: formatMass(claim.computed) })}
+        </p>
+      ))}
+    </div>
+  );
+};
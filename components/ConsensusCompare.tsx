@@ -0,0 +1,49 @@
+import React, { useMemo } from 'react';
+import { Columns, X } from 'lucide-react';
+import { SolutionView } from './SolutionView';
+import { ConsensusResult } from '../types';
+import { parseSolutionResponse } from '../services/solutionParser';
+import { useI18n } from '../services/i18n';
+
+interface ConsensusCompareProps {
+  consensus: ConsensusResult;
+  question: string;
+  onClose: () => void;
+}
+
+// One column per distinct final answer, showing the first sample that reached it
+export const ConsensusCompare: React.FC<ConsensusCompareProps> = ({ consensus, question, onClose }) => {
+  const { t } = useI18n();
+  const columns = useMemo(() => consensus.groups.map(members => {
+    const sample = consensus.samples[members[0]];
+    return { members, sample, parsed: parseSolutionResponse(sample.rawResponse) };
+  }), [consensus]);
+
+  return (
+    <div className="border-t border-gray-100 dark:border-gray-700 p-4 sm:p-6 bg-gray-50 dark:bg-gray-900/40 no-print">
+      <div className="flex items-center justify-between mb-4">
+        <h3 className="flex items-center gap-2 text-lg font-bold text-gray-800 dark:text-gray-100">
+          <Columns size={20} />
+          {t('consensus.title', { answers: columns.length, total: consensus.samples.length })}
+        </h3>
+        <button onClick={onClose} className="p-2 text-gray-500 hover:bg-gray-200 dark:hover:bg-gray-700 rounded-lg" title={t('consensus.close')}>
+          <X size={18} />
+        </button>
+      </div>
+      <div className={`grid grid-cols-1 gap-4 ${columns.length > 2 ? 'lg:grid-cols-3' : 'lg:grid-cols-2'}`}>
+        {columns.map(({ members, sample, parsed }, index) => (
+          <div key={members[0]} className="bg-white dark:bg-gray-800 rounded-xl border border-gray-200 dark:border-gray-700 overflow-hidden">
+            <div className={`px-4 py-2 text-sm font-semibold ${index === 0 ? 'bg-primary-50 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300' : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-200'}`}>
+              {index === 0 ? t('consensus.shown') : t('consensus.alternative', { number: index })} · {t('consensus.share', { count: members.length, total: consensus.samples.length })} · {sample.modelId}
+            </div>
+            {parsed ? (
+              <SolutionView rawResponse={sample.rawResponse} parsed={parsed} question={question} />
+            ) : (
+              <pre className="p-4 text-xs whitespace-pre-wrap text-gray-600 dark:text-gray-300">{sample.rawResponse}</pre>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React, { useState } from 'react';
+import { Copy, Check } from 'lucide-react';
+import { useI18n } from '../services/i18n';
+
+export const CopyButton = ({ text, className = "" }: { text: string, className?: string }) => {
+  const { t } = useI18n();
+  const [copied, setCopied] = useState(false);
+  
+  const handleCopy = () => {
+    navigator.clipboard.writeText(text);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <button 
+      onClick={handleCopy} 
+      className={`p-1.5 sm:p-2 rounded-lg transition-colors flex items-center gap-1 ${copied ? 'text-green-600 bg-green-50 dark:bg-green-900/30' : 'text-gray-400 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700'} no-print ${className}`}
+      title={t('copy.title')}
+    >
+      {copied ? <Check size={16} /> : <Copy size={16} />}
+      <span className="sr-only">{t('copy.label')}</span>
+    </button>
+  );
+};
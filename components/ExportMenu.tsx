@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Download, FileText, FileCode, Layers, Printer, ChevronDown } from 'lucide-react';
+import {
+  ExportableSolution, toLatex, toMarkdown, toAnkiCsv, exportPdf, exportFilename, downloadFile
+} from '../services/exportService';
+import { useI18n } from '../services/i18n';
+
+interface ExportMenuProps {
+  // Several solutions (a worksheet) are exported into one file
+  solutions: ExportableSolution[];
+  // The rendered solution, captured as-is for the PDF so MathJax output is kept
+  getPdfTarget: () => HTMLElement | null;
+}
+
+export const ExportMenu: React.FC<ExportMenuProps> = ({ solutions, getPdfTarget }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const [generatingPdf, setGeneratingPdf] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const closeOnOutsideClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => document.removeEventListener('mousedown', closeOnOutsideClick);
+  }, [open]);
+
+  const handlePdf = async () => {
+    const target = getPdfTarget();
+    if (!target) return;
+    setGeneratingPdf(true);
+    try {
+      await exportPdf(target, exportFilename(solutions, 'pdf'));
+    } catch (err) {
+      console.error("PDF Export Error:", err);
+      alert(t('export.pdfFailed'));
+    } finally {
+      setGeneratingPdf(false);
+    }
+  };
+
+  const options = [
+    { label: 'PDF', icon: Download, run: handlePdf },
+    { label: 'LaTeX (.tex)', icon: FileCode, run: () => downloadFile(exportFilename(solutions, 'tex'), toLatex(solutions), 'application/x-tex') },
+    { label: 'Markdown (.md)', icon: FileText, run: () => downloadFile(exportFilename(solutions, 'md'), toMarkdown(solutions), 'text/markdown') },
+    { label: solutions.length > 1 ? t('export.ankiMany') : t('export.anki'), icon: Layers, run: () => downloadFile(exportFilename(solutions, 'csv'), toAnkiCsv(solutions), 'text/csv') },
+    { label: t('export.print'), icon: Printer, run: () => window.print() }
+  ];
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        disabled={generatingPdf}
+        className="p-2 text-primary-600 hover:bg-primary-50 dark:hover:bg-primary-900/30 rounded-lg flex items-center gap-2 transition disabled:opacity-60"
+        title={t('export.button')}
+      >
+        {generatingPdf ? (
+          <span className="w-4 h-4 border-2 border-primary-500 border-t-transparent rounded-full animate-spin"></span>
+        ) : (
+          <Download size={18} />
+        )}
+        <span className="hidden sm:inline text-xs font-semibold">{generatingPdf ? t('export.generating') : t('export.button')}</span>
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <div className="absolute right-0 rtl:right-auto rtl:left-0 mt-2 w-48 py-1 bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-100 dark:border-gray-700 z-20">
+          {options.map(({ label, icon: Icon, run }) => (
+            <button
+              key={label}
+              onClick={() => { setOpen(false); run(); }}
+              className="w-full flex items-center gap-3 px-4 py-2 text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-50 dark:hover:bg-gray-700 transition"
+            >
+              <Icon size={16} className="text-gray-400" />
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
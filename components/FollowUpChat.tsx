@@ -0,0 +1,132 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { MessageCircle, Send } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { FollowUpMessage } from '../types';
+import { FollowUpContext, askFollowUp } from '../services/followUpService';
+import { SolverError, toSolverError } from '../services/solverErrors';
+import { useI18n } from '../services/i18n';
+import { SolveErrorNotice } from './SolveErrorPanel';
+
+interface FollowUpChatProps {
+  context: FollowUpContext;
+  messages: FollowUpMessage[];
+  onMessagesChange: (messages: FollowUpMessage[]) => void;
+  // Controlled so "Explain this step" on a step card can pre-fill the question
+  draft: string;
+  onDraftChange: (draft: string) => void;
+  inputRef?: React.Ref<HTMLTextAreaElement>;
+}
+
+export const FollowUpChat: React.FC<FollowUpChatProps> = ({ context, messages, onMessagesChange, draft, onDraftChange, inputRef }) => {
+  const { t } = useI18n();
+  const [pending, setPending] = useState(false);
+  const [error, setError] = useState<SolverError | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Same MathJax pass as SolutionView, once per new answer
+  useEffect(() => {
+    if (messages.length && (window as any).MathJax) {
+      setTimeout(() => {
+        (window as any).MathJax.typesetPromise && (window as any).MathJax.typesetPromise();
+      }, 100);
+    }
+  }, [messages.length]);
+
+  const handleAsk = async () => {
+    const question = draft.trim();
+    if (!question || pending) return;
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const asked: FollowUpMessage[] = [...messages, { role: 'user', content: question, createdAt: Date.now() }];
+    onMessagesChange(asked);
+    onDraftChange('');
+    setPending(true);
+    setError(null);
+
+    try {
+      const answer = await askFollowUp(context, messages, question, controller.signal);
+      onMessagesChange([...asked, { role: 'assistant', content: answer, createdAt: Date.now() }]);
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      // Put the question back so it can be re-sent as-is
+      onMessagesChange(messages);
+      onDraftChange(question);
+      setError(toSolverError(err));
+    } finally {
+      setPending(false);
+    }
+  };
+
+  return (
+    <div className="px-6 sm:px-8 pb-8 no-print">
+      <div className="border-t border-gray-100 dark:border-gray-700 pt-6">
+        <h3 className="text-lg font-bold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+          <MessageCircle size={20} className="text-primary-600 dark:text-primary-400" />
+          {t('followUp.title')}
+        </h3>
+
+        {messages.length > 0 && (
+          <div className="space-y-4 mb-4">
+            {messages.map((message, index) => (
+              <div key={index} className={`flex ${message.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] rounded-xl px-4 py-3 ${
+                  message.role === 'user'
+                    ? 'bg-primary-600 text-white'
+                    : 'bg-gray-50 dark:bg-gray-700/30 border border-gray-100 dark:border-gray-700'
+                }`}>
+                  {message.role === 'user' ? (
+                    <p className="whitespace-pre-wrap">{message.content}</p>
+                  ) : (
+                    <div className="prose dark:prose-invert max-w-none text-gray-700 dark:text-gray-300">
+                      <ReactMarkdown>{message.content}</ReactMarkdown>
+                    </div>
+                  )}
+                </div>
+              </div>
+            ))}
+            {pending && (
+              <div className="flex items-center gap-2 text-sm text-gray-500 dark:text-gray-400">
+                <span className="w-4 h-4 border-2 border-primary-500 border-t-transparent rounded-full animate-spin"></span>
+                {t('followUp.thinking')}
+              </div>
+            )}
+          </div>
+        )}
+
+        {error && (
+          <div className="mb-3">
+            <SolveErrorNotice error={error} onRetry={handleAsk} />
+          </div>
+        )}
+
+        <div className="flex gap-2">
+          <textarea
+            ref={inputRef}
+            value={draft}
+            onChange={(e) => onDraftChange(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter' && !e.shiftKey) {
+                e.preventDefault();
+                handleAsk();
+              }
+            }}
+            rows={2}
+            placeholder={t('followUp.placeholder')}
+            className="flex-grow p-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50 focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none transition"
+          />
+          <button
+            onClick={handleAsk}
+            disabled={!draft.trim() || pending}
+            className="px-4 rounded-xl bg-primary-600 hover:bg-primary-700 text-white disabled:opacity-50 disabled:cursor-not-allowed transition"
+            title={t('followUp.send')}
+          >
+            <Send size={18} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { ZoomIn, ZoomOut, RotateCcw } from 'lucide-react';
+import { PlotSpec, PlotView, HIGHLIGHT_COLOR, buildPlotScene, initialView, panView, zoomView } from '../services/plotSpec';
+
+interface FunctionPlotProps {
+  spec: PlotSpec;
+  // Points whose coordinates appear in the answer are highlighted
+  finalAnswer?: string;
+}
+
+const WIDTH = 480;
+const HEIGHT = 320;
+const ZOOM_STEP = 1.25;
+
+// Drag to pan, scroll or use the buttons to zoom. Drawn from the same scene as the exported SVG.
+export const FunctionPlot: React.FC<FunctionPlotProps> = ({ spec, finalAnswer = '' }) => {
+  const [view, setView] = useState<PlotView>(() => initialView(spec));
+  const svgRef = useRef<SVGSVGElement>(null);
+  const dragRef = useRef<{ x: number, y: number } | null>(null);
+
+  const scene = useMemo(() => buildPlotScene(spec, view, WIDTH, HEIGHT, finalAnswer), [spec, view, finalAnswer]);
+
+  // Registered by hand: React's onWheel is passive, so it can't stop the page from scrolling
+  useEffect(() => {
+    const svg = svgRef.current;
+    if (!svg) return;
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      const box = svg.getBoundingClientRect();
+      const fx = (e.clientX - box.left) / box.width;
+      const fy = 1 - (e.clientY - box.top) / box.height;
+      setView(current => zoomView(current, e.deltaY > 0 ? ZOOM_STEP : 1 / ZOOM_STEP, fx, fy));
+    };
+    svg.addEventListener('wheel', handleWheel, { passive: false });
+    return () => svg.removeEventListener('wheel', handleWheel);
+  }, []);
+
+  const handlePointerDown = (e: React.PointerEvent<SVGSVGElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    const start = dragRef.current;
+    if (!start) return;
+    const box = e.currentTarget.getBoundingClientRect();
+    const dx = (start.x - e.clientX) / box.width;
+    const dy = (e.clientY - start.y) / box.height;
+    dragRef.current = { x: e.clientX, y: e.clientY };
+    setView(current => panView(current, dx, dy));
+  };
+
+  const endDrag = () => { dragRef.current = null; };
+
+  const buttonClass = "p-1.5 rounded-lg text-gray-500 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700 transition";
+
+  return (
+    // mathjax_ignore: tick labels and point labels are plain text, never TeX
+    <div className="not-prose my-4 mathjax_ignore">
+      <div className="relative rounded-xl border border-gray-200 dark:border-gray-600 bg-white overflow-hidden">
+        <svg
+          ref={svgRef}
+          viewBox={`0 0 ${WIDTH} ${HEIGHT}`}
+          className="w-full h-auto cursor-grab active:cursor-grabbing select-none"
+          style={{ touchAction: 'none' }}
+          fontFamily="sans-serif"
+          fontSize={11}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={endDrag}
+          onPointerCancel={endDrag}
+          role="img"
+          aria-label={`Graph of ${spec.functions.map(fn => fn.label).join(', ') || 'points'}`}
+        >
+          {scene.xTicks.map(tick => (
+            <g key={`x${tick.value}`}>
+              <line x1={tick.px} y1={0} x2={tick.px} y2={HEIGHT} stroke="#e5e7eb" />
+              <text x={tick.px + 2} y={(scene.xAxis ?? HEIGHT) - 4} fill="#6b7280">{tick.value}</text>
+            </g>
+          ))}
+          {scene.yTicks.map(tick => (
+            <g key={`y${tick.value}`}>
+              <line x1={0} y1={tick.px} x2={WIDTH} y2={tick.px} stroke="#e5e7eb" />
+              {tick.value !== 0 && <text x={(scene.yAxis ?? 0) + 2} y={tick.px - 2} fill="#6b7280">{tick.value}</text>}
+            </g>
+          ))}
+          {scene.xAxis !== null && <line x1={0} y1={scene.xAxis} x2={WIDTH} y2={scene.xAxis} stroke="#374151" />}
+          {scene.yAxis !== null && <line x1={scene.yAxis} y1={0} x2={scene.yAxis} y2={HEIGHT} stroke="#374151" />}
+
+          {scene.curves.map((curve, index) =>
+            curve.paths.map((d, part) => (
+              <path key={`${index}-${part}`} d={d} fill="none" stroke={curve.color} strokeWidth={2} />
+            ))
+          )}
+
+          {scene.points.map((point, index) => {
+            const color = point.highlighted ? HIGHLIGHT_COLOR : '#111827';
+            return (
+              <g key={index}>
+                {point.highlighted && <circle cx={point.px} cy={point.py} r={10} fill={HIGHLIGHT_COLOR} opacity={0.25} />}
+                <circle cx={point.px} cy={point.py} r={point.highlighted ? 6 : 4} fill={color} />
+                <text x={point.px + 8} y={point.py - 8} fill={color} fontWeight={point.highlighted ? 'bold' : 'normal'}>{point.label}</text>
+              </g>
+            );
+          })}
+
+          {scene.curves.map((curve, index) => (
+            <text key={index} x={WIDTH - 8} y={16 + index * 14} textAnchor="end" fill={curve.color}>{curve.label}</text>
+          ))}
+        </svg>
+
+        <div className="absolute bottom-2 right-2 flex gap-1 bg-white/90 rounded-lg shadow-sm no-print">
+          <button onClick={() => setView(zoomView(view, 1 / ZOOM_STEP))} className={buttonClass} title="Zoom in"><ZoomIn size={16} /></button>
+          <button onClick={() => setView(zoomView(view, ZOOM_STEP))} className={buttonClass} title="Zoom out"><ZoomOut size={16} /></button>
+          <button onClick={() => setView(initialView(spec))} className={buttonClass} title="Reset view"><RotateCcw size={16} /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
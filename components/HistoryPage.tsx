@@ -0,0 +1,165 @@
+import React, { useState, useEffect } from 'react';
+import { Search, Star, Trash2, Clock, Dumbbell, Image as ImageIcon } from 'lucide-react';
+import { HistoryEntry, TopicScore } from '../types';
+import { SUBJECTS } from '../constants';
+import { listHistoryEntries, updateHistoryEntry, deleteHistoryEntry, filterHistory } from '../services/historyStore';
+import { listTopicScores } from '../services/practiceStore';
+import { subjectName, useI18n } from '../services/i18n';
+
+interface HistoryPageProps {
+  onOpen: (entry: HistoryEntry) => void;
+}
+
+// Plain-text preview of Markdown/LaTeX for list rows
+const preview = (text: string, length = 140) => {
+  const plain = text.replace(/[#*`$\\]/g, '').replace(/\s+/g, ' ').trim();
+  return plain.length > length ? `${plain.slice(0, length)}…` : plain;
+};
+
+export const HistoryPage: React.FC<HistoryPageProps> = ({ onOpen }) => {
+  const { t, language } = useI18n();
+  const [entries, setEntries] = useState<HistoryEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadFailed, setLoadFailed] = useState(false);
+  const [query, setQuery] = useState('');
+  const [subject, setSubject] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [scores, setScores] = useState<TopicScore[]>([]);
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch((err) => {
+        console.error("History Load Error:", err);
+        setLoadFailed(true);
+      })
+      .finally(() => setLoading(false));
+    // Scores are a nice-to-have; the history list doesn't wait for them
+    listTopicScores()
+      .then(setScores)
+      .catch((err) => console.error("Practice Score Load Error:", err));
+  }, []);
+
+  const toggleFavorite = async (entry: HistoryEntry) => {
+    const updated = await updateHistoryEntry(entry.id, { favorite: !entry.favorite });
+    if (updated) {
+      setEntries(current => current.map(e => e.id === updated.id ? updated : e));
+    }
+  };
+
+  const removeEntry = async (entry: HistoryEntry) => {
+    if (!confirm(t('history.confirmDelete'))) return;
+    await deleteHistoryEntry(entry.id);
+    setEntries(current => current.filter(e => e.id !== entry.id));
+  };
+
+  const visible = filterHistory(entries, { query, subject, favoritesOnly });
+
+  const chipClass = (active: boolean) =>
+    `px-3 py-1 rounded-full text-sm font-medium transition ${active ? 'bg-primary-600 text-white' : 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'}`;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-12">
+      <h1 className="text-3xl font-bold mb-8 text-primary-700 dark:text-primary-500">{t('nav.history')}</h1>
+
+      {/* Practice scores */}
+      {scores.length > 0 && (
+        <div className="mb-8">
+          <h2 className="text-sm font-semibold uppercase tracking-wider text-gray-400 mb-3 flex items-center gap-2">
+            <Dumbbell size={16} /> {t('history.scores')}
+          </h2>
+          <div className="flex flex-wrap gap-2">
+            {scores.map(score => (
+              <span key={score.id} className="px-3 py-1 rounded-full bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 text-sm text-gray-700 dark:text-gray-200" title={score.subject}>
+                {score.topic}: <span className="font-semibold">{score.correct}/{score.attempted}</span>
+              </span>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Filters */}
+      <div className="space-y-4 mb-8">
+        <div className="relative">
+          <Search size={18} className="absolute left-3 rtl:left-auto rtl:right-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder={t('history.search')}
+            className="w-full pl-10 pr-4 rtl:pl-4 rtl:pr-10 py-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent"
+          />
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <button onClick={() => setSubject('')} className={chipClass(subject === '')}>{t('history.all')}</button>
+          {SUBJECTS.map(s => (
+            <button key={s} onClick={() => setSubject(s)} className={chipClass(subject === s)}>{subjectName(t, s)}</button>
+          ))}
+          <button onClick={() => setFavoritesOnly(!favoritesOnly)} className={`${chipClass(favoritesOnly)} flex items-center gap-1`}>
+            <Star size={14} /> {t('history.favorites')}
+          </button>
+        </div>
+      </div>
+
+      {/* List */}
+      {loading ? (
+        <p className="text-gray-500 dark:text-gray-400">{t('history.loading')}</p>
+      ) : loadFailed ? (
+        <p className="text-red-600 dark:text-red-400">{t('history.loadError')}</p>
+      ) : visible.length === 0 ? (
+        <div className="text-center py-16 text-gray-500 dark:text-gray-400">
+          <Clock size={32} className="mx-auto mb-3 opacity-50" />
+          <p>{entries.length === 0 ? t('history.empty') : t('history.noMatches')}</p>
+        </div>
+      ) : (
+        <div className="space-y-4">
+          {visible.map(entry => (
+            <div
+              key={entry.id}
+              onClick={() => onOpen(entry)}
+              className="group flex gap-4 p-4 bg-white dark:bg-gray-800 rounded-xl border border-gray-100 dark:border-gray-700 hover:border-primary-200 dark:hover:border-primary-700/50 shadow-sm cursor-pointer transition"
+            >
+              <div className="flex-shrink-0 w-16 h-16 rounded-lg bg-gray-100 dark:bg-gray-700 flex items-center justify-center overflow-hidden">
+                {entry.thumbnail ? (
+                  <img src={entry.thumbnail} alt="" className="w-full h-full object-cover" />
+                ) : (
+                  <ImageIcon size={20} className="text-gray-400" />
+                )}
+              </div>
+              <div className="flex-grow min-w-0">
+                <div className="flex items-center gap-2 mb-1 text-xs text-gray-400">
+                  <span>{new Date(entry.createdAt).toLocaleString(language.code)}</span>
+                  {entry.subject && (
+                    <span className="px-2 py-0.5 rounded-full bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400 font-medium">{subjectName(t, entry.subject)}</span>
+                  )}
+                </div>
+                <p className="font-medium text-gray-800 dark:text-gray-100 truncate">
+                  {entry.inputText ? preview(entry.inputText, 100) : t('history.imageQuestion')}
+                </p>
+                <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                  {preview(entry.finalAnswer)}
+                </p>
+              </div>
+              <div className="flex flex-col gap-1 flex-shrink-0">
+                <button
+                  onClick={(e) => { e.stopPropagation(); toggleFavorite(entry); }}
+                  className={`p-2 rounded-lg transition ${entry.favorite ? 'text-yellow-500' : 'text-gray-400 hover:text-yellow-500'}`}
+                  title={entry.favorite ? t('history.unfavorite') : t('history.favorite')}
+                >
+                  <Star size={18} fill={entry.favorite ? 'currentColor' : 'none'} />
+                </button>
+                <button
+                  onClick={(e) => { e.stopPropagation(); removeEntry(entry); }}
+                  className="p-2 rounded-lg text-gray-400 hover:text-red-500 transition"
+                  title={t('history.delete')}
+                >
+                  <Trash2 size={18} />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
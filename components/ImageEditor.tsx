@@ -0,0 +1,175 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RotateCcw, RotateCw, Contrast, Crop, Undo2, Check, X } from 'lucide-react';
+import { CropRect, ImageEdits, editImage } from '../services/imageProcessing';
+import { useI18n } from '../services/i18n';
+
+interface ImageEditorProps {
+  image: string;
+  onApply: (dataUrl: string) => void;
+  onCancel: () => void;
+}
+
+// Selections smaller than this (as a fraction of each side) are treated as a click, not a crop
+const MIN_CROP_FRACTION = 0.02;
+
+const clamp = (value: number) => Math.min(1, Math.max(0, value));
+
+export const ImageEditor: React.FC<ImageEditorProps> = ({ image, onApply, onCancel }) => {
+  const { t } = useI18n();
+  const [rotation, setRotation] = useState<ImageEdits['rotation']>(0);
+  const [contrast, setContrast] = useState(1);
+  const [crop, setCrop] = useState<CropRect | null>(null);
+  const [preview, setPreview] = useState(image);
+  const [applying, setApplying] = useState(false);
+  const imageRef = useRef<HTMLImageElement>(null);
+  const dragStartRef = useRef<{ x: number, y: number } | null>(null);
+
+  // The crop is drawn on the rotated image, so the preview is re-rendered on every turn
+  useEffect(() => {
+    let cancelled = false;
+    setCrop(null);
+    if (rotation === 0) {
+      setPreview(image);
+      return;
+    }
+    editImage(image, { rotation, crop: null, contrast: 1 }).then(url => {
+      if (!cancelled) setPreview(url);
+    });
+    return () => { cancelled = true; };
+  }, [image, rotation]);
+
+  const pointerPosition = (e: React.PointerEvent) => {
+    const rect = imageRef.current!.getBoundingClientRect();
+    return { x: clamp((e.clientX - rect.left) / rect.width), y: clamp((e.clientY - rect.top) / rect.height) };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragStartRef.current = pointerPosition(e);
+    setCrop(null);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const start = dragStartRef.current;
+    if (!start) return;
+    const current = pointerPosition(e);
+    setCrop({
+      x: Math.min(start.x, current.x),
+      y: Math.min(start.y, current.y),
+      width: Math.abs(current.x - start.x),
+      height: Math.abs(current.y - start.y)
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragStartRef.current = null;
+    setCrop(current => current && current.width > MIN_CROP_FRACTION && current.height > MIN_CROP_FRACTION ? current : null);
+  };
+
+  const rotate = (quarterTurns: number) => {
+    setRotation(current => ((current + quarterTurns * 90 + 360) % 360) as ImageEdits['rotation']);
+  };
+
+  const reset = () => {
+    setRotation(0);
+    setContrast(1);
+    setCrop(null);
+  };
+
+  const handleApply = async () => {
+    setApplying(true);
+    try {
+      onApply(await editImage(image, { rotation, crop, contrast }));
+    } catch (err) {
+      console.error("Image Edit Error:", err);
+      alert(t('imageEditor.failed'));
+      setApplying(false);
+    }
+  };
+
+  const toolButtonClass = "p-2 rounded-lg text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700 transition";
+
+  return (
+    <div className="fixed inset-0 z-50 bg-black/70 flex items-center justify-center p-4" onClick={onCancel}>
+      <div
+        className="w-full max-w-3xl bg-white dark:bg-gray-800 rounded-2xl shadow-xl overflow-hidden"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700">
+          <h2 className="font-bold text-gray-800 dark:text-gray-100">{t('imageEditor.title')}</h2>
+          <button onClick={onCancel} className={toolButtonClass} title={t('imageEditor.close')}>
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-4 bg-gray-100 dark:bg-gray-900 flex justify-center">
+          <div
+            className="relative overflow-hidden select-none touch-none cursor-crosshair"
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img
+              ref={imageRef}
+              src={preview}
+              alt={t('imageEditor.alt')}
+              draggable={false}
+              className="block max-h-[60vh] max-w-full"
+              style={{ filter: `contrast(${contrast})` }}
+            />
+            {crop && (
+              <div
+                className="absolute border-2 border-white pointer-events-none"
+                style={{
+                  left: `${crop.x * 100}%`,
+                  top: `${crop.y * 100}%`,
+                  width: `${crop.width * 100}%`,
+                  height: `${crop.height * 100}%`,
+                  boxShadow: '0 0 0 9999px rgba(0, 0, 0, 0.5)'
+                }}
+              />
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 flex flex-wrap items-center gap-3 border-t border-gray-100 dark:border-gray-700">
+          <button onClick={() => rotate(-1)} className={toolButtonClass} title={t('imageEditor.rotateLeft')}>
+            <RotateCcw size={18} />
+          </button>
+          <button onClick={() => rotate(1)} className={toolButtonClass} title={t('imageEditor.rotateRight')}>
+            <RotateCw size={18} />
+          </button>
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300" title={t('imageEditor.contrast')}>
+            <Contrast size={18} />
+            <input
+              type="range"
+              min={1}
+              max={2.5}
+              step={0.1}
+              value={contrast}
+              onChange={(e) => setContrast(Number(e.target.value))}
+              className="w-28 accent-primary-600"
+            />
+          </label>
+          <span className="flex items-center gap-1 text-xs text-gray-400">
+            <Crop size={14} />
+            {crop ? t('imageEditor.cropping') : t('imageEditor.cropHint')}
+          </span>
+
+          <div className="flex gap-2 ml-auto rtl:ml-0 rtl:mr-auto">
+            <button onClick={reset} className={`${toolButtonClass} flex items-center gap-1 text-sm`}>
+              <Undo2 size={16} /> {t('imageEditor.reset')}
+            </button>
+            <button
+              onClick={handleApply}
+              disabled={applying}
+              className="flex items-center gap-1 px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white text-sm font-semibold transition disabled:opacity-60"
+            >
+              <Check size={16} /> {applying ? t('imageEditor.applying') : t('imageEditor.apply')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,89 @@
+import React from 'react';
+import { useI18n } from '../services/i18n';
+
+export const LegalLayout: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+  <div className="max-w-4xl mx-auto px-4 py-12 prose dark:prose-invert">
+    <h1 className="text-3xl font-bold mb-8 text-primary-700 dark:text-primary-500">{title}</h1>
+    <div className="bg-white dark:bg-gray-800 p-8 rounded-xl shadow-sm border border-gray-100 dark:border-gray-700">
+      {children}
+    </div>
+  </div>
+);
+
+// The brand name stays bold in every language
+const withBrand = (text: string) => {
+  const [before, ...after] = text.split('TechyStudent');
+  return after.length ? <>{before}<strong>TechyStudent</strong>{after.join('TechyStudent')}</> : text;
+};
+
+export const AboutPage = () => {
+  const { t } = useI18n();
+  return (
+    <LegalLayout title={t('about.title')}>
+      <p>{withBrand(t('about.intro'))}</p>
+      <p>{t('about.history')}</p>
+      <p>{t('about.closing')}</p>
+    </LegalLayout>
+  );
+};
+
+export const ContactPage = () => {
+  const { t } = useI18n();
+  return (
+    <LegalLayout title={t('contact.title')}>
+      <p>{t('contact.intro')}</p>
+      <div className="mt-6">
+        <h3 className="text-xl font-semibold mb-2">{t('contact.email')}</h3>
+        <p className="mb-4">support@techystudent.com</p>
+        
+        <h3 className="text-xl font-semibold mb-2">{t('contact.address')}</h3>
+        <p dir="ltr">123 Education Lane, Tech City, TC 90210</p>
+      </div>
+    </LegalLayout>
+  );
+};
+
+export const PrivacyPolicy = () => {
+  const { t, language } = useI18n();
+  const updated = new Date(2023, 9, 26).toLocaleDateString(language.code, { year: 'numeric', month: 'long', day: 'numeric' });
+  return (
+    <LegalLayout title={t('privacy.title')}>
+      <p className="text-sm text-gray-500 mb-4">{t('privacy.updated', { date: updated })}</p>
+      <p>{t('privacy.intro')}</p>
+      <h3>{t('privacy.logFilesTitle')}</h3>
+      <p>{t('privacy.logFiles')}</p>
+      <h3>{t('privacy.cookiesTitle')}</h3>
+      <p>{t('privacy.cookies')}</p>
+      <h3>{t('privacy.dartTitle')}</h3>
+      <p>{t('privacy.dart')}</p>
+    </LegalLayout>
+  );
+};
+
+export const TermsConditions = () => {
+  const { t } = useI18n();
+  return (
+    <LegalLayout title={t('terms.title')}>
+      <p>{t('terms.welcome')}</p>
+      <p>{t('terms.intro')}</p>
+      <p>{t('terms.accept')}</p>
+      <h3>{t('terms.licenseTitle')}</h3>
+      <p>{t('terms.license')}</p>
+    </LegalLayout>
+  );
+};
+
+export const Disclaimer = () => {
+  const { t } = useI18n();
+  return (
+    <LegalLayout title={t('disclaimer.title')}>
+      <p>{t('disclaimer.body')}</p>
+      <div className="bg-yellow-50 dark:bg-yellow-900/20 border-s-4 border-yellow-500 p-4 my-4">
+        <p className="font-bold text-yellow-800 dark:text-yellow-200">{t('disclaimer.warningTitle')}</p>
+        <p className="text-sm text-yellow-700 dark:text-yellow-300 mt-1">
+          {t('disclaimer.warning')}
+        </p>
+      </div>
+    </LegalLayout>
+  );
+};
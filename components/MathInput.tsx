@@ -0,0 +1,187 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { Eye, Sigma } from 'lucide-react';
+import { containsMath, isInsideMath, toSolverInput } from '../services/mathInput';
+import { useI18n } from '../services/i18n';
+
+interface MathInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+}
+
+type PaletteTab = 'basic' | 'calculus' | 'greek' | 'matrices';
+
+// `@` marks where the cursor goes after inserting
+const PALETTE: Record<PaletteTab, { label: string, tex: string }[]> = {
+  basic: [
+    { label: 'a/b', tex: '\\frac{@}{}' },
+    { label: 'x²', tex: '^{@}' },
+    { label: 'xₙ', tex: '_{@}' },
+    { label: '√x', tex: '\\sqrt{@}' },
+    { label: 'ⁿ√x', tex: '\\sqrt[@]{}' },
+    { label: '|x|', tex: '\\left|@\\right|' },
+    { label: '±', tex: '\\pm ' },
+    { label: '×', tex: '\\times ' },
+    { label: '÷', tex: '\\div ' },
+    { label: '≤', tex: '\\le ' },
+    { label: '≥', tex: '\\ge ' },
+    { label: '≠', tex: '\\ne ' },
+    { label: '≈', tex: '\\approx ' },
+    { label: '∞', tex: '\\infty ' },
+    { label: '°', tex: '^{\\circ}' },
+    { label: 'log', tex: '\\log_{@}' }
+  ],
+  calculus: [
+    { label: '∫', tex: '\\int @\\,dx' },
+    { label: '∫ₐᵇ', tex: '\\int_{@}^{}\\,dx' },
+    { label: '∬', tex: '\\iint @\\,dA' },
+    { label: 'd/dx', tex: '\\frac{d}{dx}@' },
+    { label: '∂/∂x', tex: '\\frac{\\partial}{\\partial x}@' },
+    { label: 'lim', tex: '\\lim_{x \\to @}' },
+    { label: 'Σ', tex: '\\sum_{n=@}^{}' },
+    { label: 'Π', tex: '\\prod_{n=@}^{}' },
+    { label: 'f′', tex: "f'(@)" },
+    { label: '→', tex: '\\to ' },
+    { label: 'sin', tex: '\\sin(@)' },
+    { label: 'ln', tex: '\\ln(@)' }
+  ],
+  greek: ['alpha', 'beta', 'gamma', 'delta', 'epsilon', 'theta', 'lambda', 'mu', 'pi', 'rho', 'sigma', 'tau', 'phi', 'omega', 'Delta', 'Sigma', 'Omega']
+    .map(name => ({ label: name, tex: `\\${name} ` })),
+  matrices: [
+    { label: '(2×2)', tex: '\\begin{pmatrix} @ & \\\\ & \\end{pmatrix}' },
+    { label: '[2×2]', tex: '\\begin{bmatrix} @ & \\\\ & \\end{bmatrix}' },
+    { label: '(3×3)', tex: '\\begin{pmatrix} @ & & \\\\ & & \\\\ & & \\end{pmatrix}' },
+    { label: '|2×2|', tex: '\\begin{vmatrix} @ & \\\\ & \\end{vmatrix}' },
+    { label: '(v)', tex: '\\begin{pmatrix} @ \\\\ \\end{pmatrix}' },
+    { label: '{ cases', tex: '\\begin{cases} @ \\\\ \\end{cases}' },
+    { label: 'Aᵀ', tex: '^{T}' },
+    { label: 'A⁻¹', tex: '^{-1}' },
+    { label: 'det', tex: '\\det(@)' },
+    { label: 'v⃗', tex: '\\vec{@}' }
+  ]
+};
+
+// Greek letters are labelled with the letter itself
+const GREEK_GLYPHS: Record<string, string> = {
+  alpha: 'α', beta: 'β', gamma: 'γ', delta: 'δ', epsilon: 'ε', theta: 'θ', lambda: 'λ', mu: 'μ', pi: 'π',
+  rho: 'ρ', sigma: 'σ', tau: 'τ', phi: 'φ', omega: 'ω', Delta: 'Δ', Sigma: 'Σ', Omega: 'Ω'
+};
+
+const PREVIEW_DELAY_MS = 300;
+
+// The question textarea with a symbol palette and a live MathJax preview of what the solver will receive
+export const MathInput: React.FC<MathInputProps> = ({ value, onChange, placeholder }) => {
+  const { t } = useI18n();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const previewRef = useRef<HTMLDivElement>(null);
+  const pendingCursor = useRef<number | null>(null);
+  const [showPalette, setShowPalette] = useState(false);
+  const [tab, setTab] = useState<PaletteTab>('basic');
+
+  const hasMath = useMemo(() => containsMath(value), [value]);
+
+  // Put the cursor inside the template just inserted
+  useLayoutEffect(() => {
+    const cursor = pendingCursor.current;
+    if (cursor === null || !textareaRef.current) return;
+    pendingCursor.current = null;
+    textareaRef.current.focus();
+    textareaRef.current.setSelectionRange(cursor, cursor);
+  }, [value]);
+
+  // Typeset once typing pauses; MathJax is slow enough to lag the textarea otherwise
+  useEffect(() => {
+    const preview = previewRef.current;
+    if (!hasMath || !preview) return;
+    const timer = setTimeout(() => {
+      const mathJax = (window as any).MathJax;
+      mathJax?.typesetClear?.([preview]);
+      preview.textContent = toSolverInput(value);
+      mathJax?.typesetPromise?.([preview]).catch((err: unknown) => console.error("MathJax Error:", err));
+    }, PREVIEW_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [value, hasMath]);
+
+  const insert = (template: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    // Selected text becomes the first argument, e.g. select "x+1" then press √
+    const filled = (template.includes('@') ? template : template + '@').replace('@', value.slice(start, end) + '@');
+    const snippet = isInsideMath(value, start) ? filled : `$${filled.trimEnd()}$`;
+    const caret = snippet.indexOf('@');
+
+    pendingCursor.current = start + caret;
+    onChange(value.slice(0, start) + snippet.replace('@', '') + value.slice(end));
+  };
+
+  return (
+    <div className="rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50 focus-within:ring-2 focus-within:ring-primary-500 focus-within:border-transparent transition">
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        placeholder={placeholder}
+        dir="auto"
+        className="w-full h-32 p-4 rounded-t-xl bg-transparent focus:outline-none resize-none"
+      />
+
+      <div className="flex items-center justify-between px-3 py-2 border-t border-gray-200 dark:border-gray-600">
+        <button
+          type="button"
+          onClick={() => setShowPalette(!showPalette)}
+          className={`flex items-center gap-1.5 px-3 py-1 rounded-lg text-sm font-medium transition ${showPalette ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/40 dark:text-primary-300' : 'text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700'}`}
+          aria-expanded={showPalette}
+        >
+          <Sigma size={16} />
+          {t('math.symbols')}
+        </button>
+        <span className="text-xs text-gray-400 dark:text-gray-500">{t('math.hint')}</span>
+      </div>
+
+      {showPalette && (
+        <div className="px-3 pb-3">
+          <div className="flex gap-1 mb-2 overflow-x-auto" role="tablist">
+            {(Object.keys(PALETTE) as PaletteTab[]).map(name => (
+              <button
+                key={name}
+                type="button"
+                role="tab"
+                aria-selected={tab === name}
+                onClick={() => setTab(name)}
+                className={`px-3 py-1 rounded-md text-xs font-semibold whitespace-nowrap transition ${tab === name ? 'bg-gray-900 text-white dark:bg-gray-200 dark:text-gray-900' : 'text-gray-600 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600'}`}
+              >
+                {t(`math.tab.${name}`)}
+              </button>
+            ))}
+          </div>
+          <div className="flex flex-wrap gap-1.5" dir="ltr">
+            {PALETTE[tab].map(item => (
+              <button
+                key={item.tex}
+                type="button"
+                // Keep the textarea's selection when clicking a symbol
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => insert(item.tex)}
+                title={item.tex.replace('@', '')}
+                className="min-w-[2.5rem] px-2 py-1.5 rounded-md border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 text-sm font-serif text-gray-800 dark:text-gray-100 hover:border-primary-400 hover:text-primary-600 dark:hover:text-primary-300 transition"
+              >
+                {GREEK_GLYPHS[item.label] || item.label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {hasMath && (
+        <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-600">
+          <div className="flex items-center gap-1.5 mb-1 text-xs font-semibold uppercase tracking-wide text-gray-400 dark:text-gray-500">
+            <Eye size={12} />
+            {t('math.preview')}
+          </div>
+          <div ref={previewRef} dir="auto" className="text-gray-800 dark:text-gray-100 whitespace-pre-wrap break-words" />
+        </div>
+      )}
+    </div>
+  );
+};
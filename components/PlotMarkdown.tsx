@@ -0,0 +1,29 @@
+import React from 'react';
+import ReactMarkdown, { Components } from 'react-markdown';
+import { FunctionPlot } from './FunctionPlot';
+import { parsePlotSpec } from '../services/plotSpec';
+
+interface PlotMarkdownProps {
+  children: string;
+  // Passed on to graphs so points named in the answer are highlighted
+  finalAnswer?: string;
+}
+
+// ReactMarkdown that draws ```plot blocks as graphs; a block that can't be read stays as code
+export const PlotMarkdown: React.FC<PlotMarkdownProps> = ({ children, finalAnswer }) => {
+  const components: Components = {
+    pre: ({ node, ...props }) => {
+      const code = node?.children[0];
+      const classes = code?.type === 'element' ? code.properties.className : undefined;
+      if (code?.type === 'element' && Array.isArray(classes) && classes.includes('language-plot')) {
+        const source = code.children.map(child => child.type === 'text' ? child.value : '').join('');
+        const spec = parsePlotSpec(source);
+        // Keyed by source so a block still streaming in resets the view as it grows
+        if (spec) return <FunctionPlot key={source} spec={spec} finalAnswer={finalAnswer} />;
+      }
+      return <pre {...props} />;
+    }
+  };
+
+  return <ReactMarkdown components={components}>{children}</ReactMarkdown>;
+};
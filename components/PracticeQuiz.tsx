@@ -0,0 +1,232 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckCircle, Dumbbell, RotateCcw, XCircle, HelpCircle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { SolutionView } from './SolutionView';
+import { SolveErrorNotice } from './SolveErrorPanel';
+import { TopicScore } from '../types';
+import { parseSolutionResponse } from '../services/solutionParser';
+import {
+  PracticeSet, PracticeVerdict, PRACTICE_COUNTS, generatePracticeSet, gradePracticeAnswer
+} from '../services/practiceService';
+import { recordPracticeAnswer } from '../services/practiceStore';
+import { SolverError, toSolverError } from '../services/solverErrors';
+import { useI18n } from '../services/i18n';
+
+interface PracticeQuizProps {
+  inputText: string;
+  rawResponse: string;
+  language: string;
+}
+
+interface AnswerState {
+  answer: string;
+  // Set once graded; 'unchecked' waits for the student to mark it themselves
+  verdict: PracticeVerdict | null;
+  selfMarked: boolean | null;
+}
+
+const emptyAnswer: AnswerState = { answer: '', verdict: null, selfMarked: null };
+
+const isCorrect = ({ verdict, selfMarked }: AnswerState) =>
+  verdict === 'correct' || (verdict === 'unchecked' && selfMarked === true);
+
+const isGraded = ({ verdict, selfMarked }: AnswerState) =>
+  verdict === 'correct' || verdict === 'incorrect' || selfMarked !== null;
+
+// "Practice similar": a short quiz of new problems graded against hidden structured solutions
+export const PracticeQuiz: React.FC<PracticeQuizProps> = ({ inputText, rawResponse, language }) => {
+  const { t } = useI18n();
+  const [count, setCount] = useState(PRACTICE_COUNTS[0]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<SolverError | null>(null);
+  const [set, setSet] = useState<PracticeSet | null>(null);
+  const [answers, setAnswers] = useState<Record<string, AnswerState>>({});
+  const [topicScore, setTopicScore] = useState<TopicScore | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Typeset new problems and any worked steps revealed for missed ones
+  useEffect(() => {
+    if (set && (window as any).MathJax) {
+      setTimeout(() => {
+        (window as any).MathJax.typesetPromise && (window as any).MathJax.typesetPromise();
+      }, 100);
+    }
+  }, [set, answers]);
+
+  const handleStart = async () => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setLoading(true);
+    setError(null);
+    setSet(null);
+    setAnswers({});
+    try {
+      setSet(await generatePracticeSet(inputText, rawResponse, language, count, controller.signal));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setError(toSolverError(err));
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateAnswer = (id: string, changes: Partial<AnswerState>) => {
+    setAnswers(current => ({ ...current, [id]: { ...(current[id] || emptyAnswer), ...changes } }));
+  };
+
+  // Score failures only cost the running total, never the quiz on screen
+  const recordResult = async (correct: boolean) => {
+    if (!set) return;
+    try {
+      setTopicScore(await recordPracticeAnswer(set.topic, set.subject, correct));
+    } catch (err) {
+      console.error("Practice Score Error:", err);
+    }
+  };
+
+  const handleCheck = (id: string) => {
+    const problem = set?.problems.find(p => p.id === id);
+    const state = answers[id] || emptyAnswer;
+    if (!problem || !state.answer.trim() || state.verdict) return;
+
+    const verdict = gradePracticeAnswer(problem, state.answer);
+    updateAnswer(id, { verdict });
+    if (verdict !== 'unchecked') recordResult(verdict === 'correct');
+  };
+
+  const handleSelfMark = (id: string, correct: boolean) => {
+    updateAnswer(id, { selfMarked: correct });
+    recordResult(correct);
+  };
+
+  if (!set) {
+    return (
+      <div className="px-6 sm:px-8 pb-8 no-print">
+        <div className="border-t border-gray-100 dark:border-gray-700 pt-6 flex flex-wrap items-center gap-3">
+          <button
+            onClick={handleStart}
+            disabled={loading}
+            className="inline-flex items-center gap-2 px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition"
+          >
+            {loading ? (
+              <span className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></span>
+            ) : (
+              <Dumbbell size={16} />
+            )}
+            {loading ? t('practice.writing') : t('practice.start')}
+          </button>
+          <select
+            value={count}
+            onChange={(e) => setCount(Number(e.target.value))}
+            disabled={loading}
+            className="px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm focus:ring-2 focus:ring-primary-500"
+          >
+            {PRACTICE_COUNTS.map(n => <option key={n} value={n}>{t('practice.count', { count: n })}</option>)}
+          </select>
+          {error && (
+            <div className="w-full">
+              <SolveErrorNotice error={error} onRetry={handleStart} />
+            </div>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  const states = set.problems.map(problem => answers[problem.id] || emptyAnswer);
+  const graded = states.filter(isGraded).length;
+  const correct = states.filter(isCorrect).length;
+
+  return (
+    <div className="px-6 sm:px-8 pb-8 no-print">
+      <div className="border-t border-gray-100 dark:border-gray-700 pt-6">
+        <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+          <h3 className="text-lg font-bold text-gray-900 dark:text-white flex items-center gap-2">
+            <Dumbbell size={20} className="text-primary-600 dark:text-primary-400" />
+            {t('practice.title', { topic: set.topic })}
+          </h3>
+          <span className="text-sm text-gray-500 dark:text-gray-400">
+            {t('practice.score', { correct, graded })}
+            {topicScore && ` · ${t('practice.topicScore', { correct: topicScore.correct, attempted: topicScore.attempted })}`}
+          </span>
+        </div>
+
+        <div className="space-y-4">
+          {set.problems.map((problem, index) => {
+            const state = states[index];
+            const missed = isGraded(state) && !isCorrect(state);
+            const parsed = missed ? parseSolutionResponse(JSON.stringify(problem.solution)) : null;
+            return (
+              <div key={problem.id} className="rounded-xl border border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30">
+                <div className="p-5">
+                  <div className="flex gap-3 mb-3">
+                    <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 rounded-full bg-primary-600 text-white text-xs">{index + 1}</span>
+                    <div className="prose dark:prose-invert max-w-none text-gray-700 dark:text-gray-300">
+                      <ReactMarkdown>{problem.question}</ReactMarkdown>
+                    </div>
+                  </div>
+
+                  <div className="flex gap-2">
+                    <input
+                      value={state.answer}
+                      onChange={(e) => updateAnswer(problem.id, { answer: e.target.value })}
+                      onKeyDown={(e) => e.key === 'Enter' && handleCheck(problem.id)}
+                      disabled={!!state.verdict}
+                      placeholder={t('practice.answerPlaceholder')}
+                      className="flex-grow px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-800 focus:ring-2 focus:ring-primary-500 focus:border-transparent disabled:opacity-70"
+                    />
+                    {!state.verdict && (
+                      <button
+                        onClick={() => handleCheck(problem.id)}
+                        disabled={!state.answer.trim()}
+                        className="px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition"
+                      >
+                        {t('practice.check')}
+                      </button>
+                    )}
+                  </div>
+
+                  {isGraded(state) && (
+                    <p className={`mt-3 flex items-center gap-2 text-sm font-medium ${isCorrect(state) ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+                      {isCorrect(state) ? <CheckCircle size={16} /> : <XCircle size={16} />}
+                      {isCorrect(state) ? t('practice.correct') : t('practice.incorrect')}
+                    </p>
+                  )}
+
+                  {state.verdict === 'unchecked' && state.selfMarked === null && (
+                    <div className="mt-3 p-3 rounded-lg bg-white dark:bg-gray-800 border border-gray-100 dark:border-gray-700 text-sm">
+                      <p className="flex items-center gap-2 text-gray-600 dark:text-gray-300 mb-2">
+                        <HelpCircle size={16} className="flex-shrink-0" />
+                        {t('practice.unchecked')}
+                      </p>
+                      <div className="prose dark:prose-invert max-w-none mb-3">
+                        <ReactMarkdown>{problem.solution.finalAnswer}</ReactMarkdown>
+                      </div>
+                      <div className="flex gap-2">
+                        <button onClick={() => handleSelfMark(problem.id, true)} className="px-3 py-1.5 rounded-lg border border-green-200 dark:border-green-800 text-green-700 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 transition">{t('practice.markRight')}</button>
+                        <button onClick={() => handleSelfMark(problem.id, false)} className="px-3 py-1.5 rounded-lg border border-red-200 dark:border-red-800 text-red-700 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 transition">{t('practice.markWrong')}</button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                {parsed && <SolutionView rawResponse={JSON.stringify(problem.solution)} parsed={parsed} question={problem.question} />}
+              </div>
+            );
+          })}
+        </div>
+
+        {graded === set.problems.length && (
+          <div className="mt-6 flex flex-wrap items-center justify-between gap-3 p-4 rounded-xl bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-300">
+            <span className="font-semibold">{t('practice.result', { correct, total: set.problems.length })}</span>
+            <button onClick={handleStart} className="inline-flex items-center gap-2 text-sm font-medium hover:underline">
+              <RotateCcw size={16} /> {t('practice.newSet')}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
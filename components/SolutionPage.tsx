@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AlertCircle, ChevronRight } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { SolutionView } from './SolutionView';
+import { ExportMenu } from './ExportMenu';
+import { SharedSolution } from '../types';
+import { decodeSharedSolution } from '../services/shareLink';
+import { getHistoryEntry } from '../services/historyStore';
+import { parseSolutionResponse } from '../services/solutionParser';
+import { toExportable } from '../services/exportService';
+import { useI18n } from '../services/i18n';
+
+interface SolutionPageProps {
+  solutionId: string;
+  onSolveOwn: () => void;
+}
+
+// Read-only view of a shared link: the URL fragment wins, local history is the fallback
+const loadSolution = async (solutionId: string): Promise<SharedSolution | null> => {
+  const fragment = window.location.hash.slice(1);
+  if (fragment) {
+    const shared = await decodeSharedSolution(fragment);
+    if (shared) return shared;
+  }
+
+  const entry = await getHistoryEntry(solutionId).catch(() => undefined);
+  return entry
+    ? { inputText: entry.inputText, language: entry.language, rawResponse: entry.rawResponse, verification: entry.verification }
+    : null;
+};
+
+export const SolutionPage: React.FC<SolutionPageProps> = ({ solutionId, onSolveOwn }) => {
+  const { t } = useI18n();
+  const [shared, setShared] = useState<SharedSolution | null>(null);
+  const [loading, setLoading] = useState(true);
+  const contentRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    setLoading(true);
+    loadSolution(solutionId)
+      .then(setShared)
+      .finally(() => setLoading(false));
+  }, [solutionId]);
+
+  const parsed = shared ? parseSolutionResponse(shared.rawResponse) : null;
+
+  return (
+    <div className="max-w-4xl mx-auto px-4 py-8 sm:px-6 lg:px-8">
+      <div className="bg-white dark:bg-gray-800 rounded-2xl shadow-xl border border-gray-100 dark:border-gray-700 overflow-hidden">
+        <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30 no-print">
+          <button
+            onClick={onSolveOwn}
+            className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400"
+          >
+            <ChevronRight className="rotate-180 rtl:rotate-0" size={16} />
+            {t('shared.solveOwn')}
+          </button>
+          {shared && parsed ? (
+            <ExportMenu solutions={[toExportable(shared.inputText, parsed)]} getPdfTarget={() => contentRef.current} />
+          ) : (
+            <span className="text-xs font-semibold uppercase tracking-wider text-gray-400">{t('shared.title')}</span>
+          )}
+        </div>
+
+        {loading ? (
+          <p className="p-12 text-center text-gray-500 dark:text-gray-400">{t('shared.loading')}</p>
+        ) : !shared || !parsed ? (
+          <div className="p-12 text-center">
+            <div className="mx-auto w-16 h-16 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center text-red-500 mb-4">
+              <AlertCircle size={32} />
+            </div>
+            <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 mb-2">{t('shared.notFound')}</h3>
+            <p className="text-gray-600 dark:text-gray-300">{t('shared.notFoundHint')}</p>
+          </div>
+        ) : (
+          <div ref={contentRef}>
+            {shared.inputText && (
+              <div className="px-6 sm:px-8 pt-6 sm:pt-8">
+                <span className="text-xs font-semibold uppercase tracking-wider text-gray-400">{t('shared.question')}</span>
+                <div className="prose dark:prose-invert max-w-none text-gray-700 dark:text-gray-300 mt-1">
+                  <ReactMarkdown>{shared.inputText}</ReactMarkdown>
+                </div>
+              </div>
+            )}
+            <SolutionView rawResponse={shared.rawResponse} parsed={parsed} verification={shared.verification} question={shared.inputText} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,232 @@
+import React, { useEffect, useMemo } from 'react';
+import { AlertCircle, BookOpen, CheckCircle, Columns, HelpCircle, ShieldCheck, ShieldAlert, ShieldQuestionMark, Users } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { AdPlaceholder } from './AdPlaceholder';
+import { CopyButton } from './CopyButton';
+import { PlotMarkdown } from './PlotMarkdown';
+import { UnitCheckPanel } from './UnitCheckPanel';
+import { ChemistryNotes } from './ChemistryNotes';
+import { ParsedSolutionResponse } from '../services/solutionParser';
+import { ConsensusResult, SolutionStep, VerificationResult } from '../types';
+import { checkAnswerUnits } from '../services/units';
+import { checkChemistry } from '../services/chemistry';
+import { agreementOf } from '../services/consensusService';
+import { subjectName, useI18n } from '../services/i18n';
+
+const VERIFICATION_BADGES = {
+  verified: { Icon: ShieldCheck, className: 'text-green-700 bg-green-50 dark:text-green-300 dark:bg-green-900/30' },
+  unverified: { Icon: ShieldQuestionMark, className: 'text-gray-600 bg-gray-100 dark:text-gray-300 dark:bg-gray-700' },
+  contradicted: { Icon: ShieldAlert, className: 'text-red-700 bg-red-50 dark:text-red-300 dark:bg-red-900/30' }
+};
+
+const VerificationBadge = ({ result }: { result: VerificationResult }) => {
+  const { t } = useI18n();
+  const { Icon, className } = VERIFICATION_BADGES[result.status];
+  return (
+    <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${className}`} title={result.detail}>
+      <Icon size={14} />
+      {t(`verification.${result.status}`)}
+    </span>
+  );
+};
+
+interface SolutionViewProps {
+  rawResponse: string;
+  parsed: ParsedSolutionResponse;
+  isStreaming?: boolean;
+  verification?: VerificationResult | null;
+  adSlot?: string;
+  // Shows an "Explain" button on each step card when set
+  onExplainStep?: (step: SolutionStep, index: number) => void;
+  // Tutor mode keeps the Final Answer hidden until the student asks for it
+  showFinalAnswer?: boolean;
+  // Original question text, read for the givens' units when the solution has no problem statement
+  question?: string;
+  // High accuracy mode: how many samples reached this answer
+  consensus?: ConsensusResult | null;
+  // Shows a "Compare" button when the samples disagree
+  onCompare?: () => void;
+}
+
+// Everyone agreeing is green, a majority amber, anything less red
+const ConsensusBadge = ({ consensus, onCompare }: { consensus: ConsensusResult, onCompare?: () => void }) => {
+  const { t } = useI18n();
+  const agreement = agreementOf(consensus);
+  const className = agreement === 1
+    ? 'text-green-700 bg-green-50 dark:text-green-300 dark:bg-green-900/30'
+    : agreement > 0.5
+      ? 'text-amber-700 bg-amber-50 dark:text-amber-300 dark:bg-amber-900/30'
+      : 'text-red-700 bg-red-50 dark:text-red-300 dark:bg-red-900/30';
+  const solved = consensus.samples.length + consensus.failed;
+  return (
+    <span className="inline-flex items-center gap-1">
+      <span
+        className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${className}`}
+        title={consensus.failed
+          ? t('consensus.solvedFailed', { count: solved, failed: consensus.failed })
+          : t('consensus.solved', { count: solved })}
+      >
+        <Users size={14} />
+        {t('consensus.agree', { agreeing: consensus.groups[0].length, total: consensus.samples.length })}
+      </span>
+      {consensus.groups.length > 1 && onCompare && (
+        <button
+          onClick={onCompare}
+          className="no-print inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold text-gray-600 dark:text-gray-300 hover:bg-gray-100 dark:hover:bg-gray-700"
+        >
+          <Columns size={14} />
+          {t('consensus.compare')}
+        </button>
+      )}
+    </span>
+  );
+};
+
+// Step cards and Final Answer card, shared by the solver and read-only solution pages
+export const SolutionView: React.FC<SolutionViewProps> = ({ rawResponse, parsed, isStreaming = false, verification = null, adSlot, onExplainStep, showFinalAnswer = true, question = '', consensus = null, onCompare }) => {
+  // Trigger MathJax Typeset once the result is complete
+  // (typesetting mid-stream would rewrite DOM nodes React is still updating)
+  useEffect(() => {
+    if (rawResponse && !isStreaming && (window as any).MathJax) {
+      // Use setTimeout to ensure DOM is updated by ReactMarkdown first
+      setTimeout(() => {
+        (window as any).MathJax.typesetPromise && (window as any).MathJax.typesetPromise();
+      }, 100);
+    }
+  }, [rawResponse, isStreaming]);
+
+  const { t } = useI18n();
+  const { solution } = parsed;
+
+  // Dimensional analysis runs offline, so only on the finished answer
+  const unitCheck = useMemo(() => {
+    if (isStreaming || !showFinalAnswer || !parsed.finalAnswer) return null;
+    return checkAnswerUnits(solution?.problemStatement || question, parsed.finalAnswer, solution?.units);
+  }, [isStreaming, showFinalAnswer, parsed.finalAnswer, solution, question]);
+
+  // Chemistry answers get a local balance and molar-mass check per step and on the answer
+  const chemistry = useMemo(() => {
+    if (isStreaming || solution?.subject !== 'Chemistry') return null;
+    return {
+      steps: parsed.steps.map(step => checkChemistry(`${step.content}\n${step.latex || ''}`)),
+      finalAnswer: checkChemistry(parsed.finalAnswer)
+    };
+  }, [isStreaming, solution, parsed.steps, parsed.finalAnswer]);
+
+  return (
+    <div className="p-6 sm:p-8">
+       {/* Disclaimer in Result */}
+      <div className="mb-6 flex gap-3 p-4 bg-yellow-50 dark:bg-yellow-900/10 rounded-lg border border-yellow-100 dark:border-yellow-900/30 text-xs text-yellow-800 dark:text-yellow-200 print-only">
+        <AlertCircle size={16} className="flex-shrink-0 mt-0.5" />
+        <p>{t('solution.disclaimer')}</p>
+      </div>
+
+      {parsed.fallback ? (
+        // Fallback for unstructured response
+        <div className="prose dark:prose-invert max-w-none prose-headings:text-primary-700 dark:prose-headings:text-primary-400 prose-p:text-gray-700 dark:prose-p:text-gray-300 prose-code:bg-gray-100 dark:prose-code:bg-gray-700 prose-code:text-primary-600 dark:prose-code:text-primary-300 prose-pre:bg-gray-900 prose-pre:text-gray-100">
+          <PlotMarkdown>{rawResponse}</PlotMarkdown>
+        </div>
+      ) : (
+        // Structured Result View
+        <div className="space-y-8">
+          
+          {/* Ad in content */}
+          {adSlot && <AdPlaceholder slot={adSlot} label={t('solution.sponsored')} className="mb-6 mt-0" />}
+
+          {/* Detected Problem (structured responses only) */}
+          {solution?.problemStatement && (
+            <div className="rounded-xl p-5 border border-gray-100 dark:border-gray-700">
+              <div className="flex items-center gap-2 mb-2">
+                <span className="text-xs font-semibold uppercase tracking-wider text-gray-400">{t('solution.problem')}</span>
+                {solution.subject && (
+                  <span className="px-2 py-0.5 rounded-full bg-primary-50 dark:bg-primary-900/30 text-primary-600 dark:text-primary-400 text-xs font-medium">{subjectName(t, solution.subject)}</span>
+                )}
+              </div>
+              <div className="prose dark:prose-invert max-w-none text-gray-700 dark:text-gray-300">
+                <ReactMarkdown>{solution.problemStatement}</ReactMarkdown>
+              </div>
+            </div>
+          )}
+
+          {/* Steps */}
+          <div>
+            <h3 className="text-xl font-bold text-gray-900 dark:text-white mb-6 flex items-center gap-2">
+               <span className="bg-primary-100 dark:bg-primary-900/50 text-primary-600 dark:text-primary-400 p-1.5 rounded-lg"><BookOpen size={20}/></span>
+               {t('solution.steps')}
+            </h3>
+            
+            <div className="space-y-6">
+              {parsed.steps.map((step, index) => (
+                <div key={index} className="group relative bg-gray-50 dark:bg-gray-700/30 rounded-xl p-5 border border-gray-100 dark:border-gray-700 hover:border-primary-200 dark:hover:border-primary-700/50 transition-all">
+                  <div className="flex justify-between items-start mb-3">
+                    <h4 className="text-lg font-semibold text-gray-800 dark:text-gray-200 flex items-center gap-2">
+                      <span className="flex items-center justify-center w-6 h-6 rounded-full bg-primary-600 text-white text-xs">{index + 1}</span>
+                      {step.title}
+                    </h4>
+                    <div className="flex items-center gap-1">
+                      {onExplainStep && !isStreaming && (
+                        <button
+                          onClick={() => onExplainStep(step, index)}
+                          className="p-1.5 sm:p-2 rounded-lg text-gray-400 hover:text-primary-600 hover:bg-gray-100 dark:hover:bg-gray-700 flex items-center gap-1 text-xs font-medium transition no-print"
+                          title={t('solution.explainTitle')}
+                        >
+                          <HelpCircle size={16} />
+                          <span className="hidden sm:inline">{t('solution.explain')}</span>
+                        </button>
+                      )}
+                      <CopyButton text={`${t('solution.stepCopy', { number: index + 1, title: step.title })}\n${step.content}`} />
+                    </div>
+                  </div>
+                  <div className="prose dark:prose-invert max-w-none text-gray-600 dark:text-gray-300">
+                    <PlotMarkdown finalAnswer={parsed.finalAnswer}>{step.content}</PlotMarkdown>
+                    {step.latex && !step.content.includes(step.latex) && (
+                      <ReactMarkdown>{`$$${step.latex}$$`}</ReactMarkdown>
+                    )}
+                  </div>
+                  {chemistry?.steps[index] && <ChemistryNotes check={chemistry.steps[index]!} />}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Final Answer - only once its header has streamed in */}
+          {showFinalAnswer && (!isStreaming || parsed.finalAnswer) && (
+            <div className="mt-8">
+              <div className="bg-gradient-to-br from-primary-50 to-white dark:from-gray-800 dark:to-gray-800 border border-primary-100 dark:border-primary-900/50 rounded-xl p-6 shadow-sm">
+                <div className="flex justify-between items-start mb-4">
+                  <h3 className="text-lg font-bold text-primary-700 dark:text-primary-400 flex items-center gap-2">
+                    <CheckCircle size={20} />
+                    {t('solution.finalAnswer')}
+                  </h3>
+                  <div className="flex items-center gap-2">
+                    {consensus && !isStreaming && <ConsensusBadge consensus={consensus} onCompare={onCompare} />}
+                    {verification && !isStreaming && <VerificationBadge result={verification} />}
+                    {solution?.confidence !== undefined && (
+                      <span className="text-xs font-medium text-gray-500 dark:text-gray-400" title={t('solution.confidenceTitle')}>
+                        {t('solution.confidence', { percent: Math.round(solution.confidence * 100) })}
+                      </span>
+                    )}
+                    <CopyButton text={parsed.finalAnswer} />
+                  </div>
+                </div>
+                <div className="text-xl sm:text-2xl font-medium text-gray-900 dark:text-white prose dark:prose-invert max-w-none">
+                  <ReactMarkdown>{parsed.finalAnswer}</ReactMarkdown>
+                </div>
+                {solution?.units && (
+                  <p className="mt-2 text-sm text-gray-500 dark:text-gray-400">{t('solution.units', { units: solution.units })}</p>
+                )}
+                {verification?.status === 'contradicted' && !isStreaming && (
+                  <p className="mt-3 text-sm text-red-600 dark:text-red-400">{verification.detail}</p>
+                )}
+                {chemistry?.finalAnswer && <ChemistryNotes check={chemistry.finalAnswer} />}
+                {unitCheck && <UnitCheckPanel check={unitCheck} />}
+              </div>
+            </div>
+          )}
+
+        </div>
+      )}
+
+    </div>
+  );
+};
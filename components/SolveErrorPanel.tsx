@@ -0,0 +1,125 @@
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, Crop, Mail, Pencil, RotateCcw } from 'lucide-react';
+import { SolverError } from '../services/solverErrors';
+import { useI18n } from '../services/i18n';
+
+interface SolveErrorPanelProps {
+  error: SolverError;
+  onRetry: () => void;
+  // Back to the form with the question kept
+  onEdit: () => void;
+  // Opens the image editor on the first image; absent when the question has no image
+  onCrop?: () => void;
+  onContact: () => void;
+  onReset: () => void;
+}
+
+const secondaryButton = "flex items-center gap-2 px-4 py-2 text-sm font-medium text-gray-700 dark:text-gray-200 border border-gray-200 dark:border-gray-600 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700 transition";
+const primaryButton = "flex items-center gap-2 px-6 py-2 bg-gray-900 dark:bg-gray-700 text-white rounded-lg hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed";
+
+// Kinds that another identical request won't fix
+const NOT_RETRYABLE: SolverError['kind'][] = ['invalid_input', 'safety', 'auth'];
+
+// Rate limits count down to the time the model said to come back
+const RetryButton: React.FC<{ error: SolverError, onRetry: () => void, className: string }> = ({ error, onRetry, className }) => {
+  const { t, language } = useI18n();
+  const [waitSeconds, setWaitSeconds] = useState(error.kind === 'rate_limit' ? error.retryAfter || 0 : 0);
+
+  useEffect(() => {
+    if (waitSeconds <= 0) return;
+    const timer = setTimeout(() => setWaitSeconds(seconds => seconds - 1), 1000);
+    return () => clearTimeout(timer);
+  }, [waitSeconds]);
+
+  return (
+    <button onClick={onRetry} disabled={waitSeconds > 0} className={className}>
+      <RotateCcw size={16} />
+      {waitSeconds > 90
+        ? t('error.retryAt', { time: new Date(Date.now() + waitSeconds * 1000).toLocaleTimeString(language.code, { hour: '2-digit', minute: '2-digit' }) })
+        : waitSeconds > 0 ? t('error.retryIn', { seconds: waitSeconds }) : t('error.tryAgain')}
+    </button>
+  );
+};
+
+// Explains a failed solve by kind and offers the action most likely to fix it
+export const SolveErrorPanel: React.FC<SolveErrorPanelProps> = ({ error, onRetry, onEdit, onCrop, onContact, onReset }) => {
+  const { t } = useI18n();
+  const retryButton = <RetryButton error={error} onRetry={onRetry} className={primaryButton} />;
+
+  const actions = (() => {
+    switch (error.kind) {
+      case 'invalid_input':
+        return (
+          <>
+            {onCrop && (
+              <button onClick={onCrop} className={primaryButton}>
+                <Crop size={16} />
+                {t('error.crop')}
+              </button>
+            )}
+            <button onClick={onEdit} className={onCrop ? secondaryButton : primaryButton}>
+              <Pencil size={16} />
+              {t('error.edit')}
+            </button>
+          </>
+        );
+      case 'safety':
+        return (
+          <button onClick={onEdit} className={primaryButton}>
+            <Pencil size={16} />
+            {t('error.edit')}
+          </button>
+        );
+      case 'auth':
+        return (
+          <button onClick={onContact} className={primaryButton}>
+            <Mail size={16} />
+            {t('error.contact')}
+          </button>
+        );
+      default:
+        return retryButton;
+    }
+  })();
+
+  return (
+    <div className="p-8 text-center">
+      <div className="mx-auto w-16 h-16 bg-red-100 dark:bg-red-900/30 rounded-full flex items-center justify-center text-red-500 mb-4">
+        <AlertCircle size={32} />
+      </div>
+      <h3 className="text-lg font-bold text-red-600 dark:text-red-400 mb-2">{t(`error.${error.kind}.title`)}</h3>
+      <p className="text-gray-600 dark:text-gray-300 mb-2">{t(`error.${error.kind}.hint`)}</p>
+      <p className="text-xs text-gray-400 dark:text-gray-500 mb-6">{error.message}</p>
+      <div className="flex flex-wrap items-center justify-center gap-3">
+        {actions}
+        <button onClick={onReset} className={secondaryButton}>
+          {t('result.newQuestion')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface SolveErrorNoticeProps {
+  error: SolverError;
+  // Offered for the kinds a retry can fix
+  onRetry?: () => void;
+}
+
+// The same explanation in a smaller box, for failures inside a result (follow-ups, step checks, practice, worksheets)
+export const SolveErrorNotice: React.FC<SolveErrorNoticeProps> = ({ error, onRetry }) => {
+  const { t } = useI18n();
+  return (
+    <div role="alert" className="flex gap-3 p-3 rounded-lg bg-red-50 dark:bg-red-900/20 text-sm text-start">
+      <AlertCircle size={18} className="text-red-500 shrink-0 mt-0.5" />
+      <div className="min-w-0 space-y-1">
+        <p className="font-semibold text-red-700 dark:text-red-300">{t(`error.${error.kind}.title`)}</p>
+        <p className="text-gray-600 dark:text-gray-300">{t(`error.${error.kind}.hint`)}</p>
+        <p className="text-xs text-gray-400 dark:text-gray-500">{error.message}</p>
+        {onRetry && !NOT_RETRYABLE.includes(error.kind) && (
+          <RetryButton error={error} onRetry={onRetry} className={`mt-2 ${secondaryButton}`} />
+        )}
+      </div>
+    </div>
+  );
+};
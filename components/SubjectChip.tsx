@@ -0,0 +1,78 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { Tag, ChevronDown } from 'lucide-react';
+import { ProblemClassification } from '../types';
+import { SUBJECTS } from '../constants';
+import { subjectName, useI18n } from '../services/i18n';
+
+interface SubjectChipProps {
+  // null lets the subject be detected when solving
+  value: ProblemClassification | null;
+  onChange: (value: ProblemClassification | null) => void;
+}
+
+// Shows the detected subject and topic; editing it pins the student's choice for the next solve
+export const SubjectChip: React.FC<SubjectChipProps> = ({ value, onChange }) => {
+  const { t } = useI18n();
+  const [open, setOpen] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const closeOnOutsideClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('mousedown', closeOnOutsideClick);
+    return () => document.removeEventListener('mousedown', closeOnOutsideClick);
+  }, [open]);
+
+  const edit = (changes: Partial<ProblemClassification>) =>
+    onChange({ subject: value?.subject || SUBJECTS[0], topic: value?.topic || '', ...changes, source: 'user' });
+
+  return (
+    <div ref={menuRef} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 px-3 py-2 rounded-full bg-primary-50 dark:bg-primary-900/30 text-primary-700 dark:text-primary-300 text-sm font-medium hover:bg-primary-100 dark:hover:bg-primary-900/50 transition"
+        title={t('subject.title')}
+      >
+        <Tag size={14} />
+        {value ? (
+          <span>
+            {subjectName(t, value.subject)}
+            {value.topic && <span className="font-normal opacity-80"> · {value.topic}</span>}
+          </span>
+        ) : (
+          <span>{t('subject.detect')}</span>
+        )}
+        {value && value.source !== 'user' && <span className="text-xs font-normal opacity-60">{t('subject.auto')}</span>}
+        <ChevronDown size={14} />
+      </button>
+
+      {open && (
+        <div className="absolute left-0 rtl:left-auto rtl:right-0 mt-2 w-64 p-3 space-y-3 bg-white dark:bg-gray-800 rounded-xl shadow-lg border border-gray-100 dark:border-gray-700 z-20">
+          <label className="block text-xs font-semibold uppercase tracking-wider text-gray-400">
+            {t('subject.label')}
+            <select
+              value={value?.subject || ''}
+              onChange={(e) => e.target.value ? edit({ subject: e.target.value }) : onChange(null)}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm font-normal normal-case tracking-normal text-gray-800 dark:text-gray-100 focus:ring-2 focus:ring-primary-500"
+            >
+              <option value="">{t('subject.detectAuto')}</option>
+              {SUBJECTS.map(subject => <option key={subject} value={subject}>{subjectName(t, subject)}</option>)}
+            </select>
+          </label>
+          <label className="block text-xs font-semibold uppercase tracking-wider text-gray-400">
+            {t('subject.topic')}
+            <input
+              value={value?.topic || ''}
+              onChange={(e) => edit({ topic: e.target.value })}
+              disabled={!value}
+              placeholder={t('subject.topicPlaceholder')}
+              className="mt-1 w-full px-3 py-2 rounded-lg border border-gray-200 dark:border-gray-600 bg-white dark:bg-gray-700 text-sm font-normal normal-case tracking-normal text-gray-800 dark:text-gray-100 focus:ring-2 focus:ring-primary-500 disabled:opacity-50"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { CheckCircle, Eye, Lightbulb, PenLine, XCircle, AlertCircle } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { SolutionView } from './SolutionView';
+import { SolveErrorNotice } from './SolveErrorPanel';
+import { ParsedSolutionResponse } from '../services/solutionParser';
+import { StepCheckResult, checkStudentStep } from '../services/tutorService';
+import { SolverError, toSolverError } from '../services/solverErrors';
+import { useI18n } from '../services/i18n';
+import { SolutionStep, VerificationResult } from '../types';
+
+interface TutorViewProps {
+  rawResponse: string;
+  parsed: ParsedSolutionResponse;
+  question: string;
+  language: string;
+  isStreaming?: boolean;
+  verification?: VerificationResult | null;
+  adSlot?: string;
+  onExplainStep?: (step: SolutionStep, index: number) => void;
+}
+
+const VERDICT_STYLES = {
+  correct: { Icon: CheckCircle, className: 'text-green-700 bg-green-50 border-green-100 dark:text-green-300 dark:bg-green-900/20 dark:border-green-900/40' },
+  partial: { Icon: AlertCircle, className: 'text-yellow-800 bg-yellow-50 border-yellow-100 dark:text-yellow-200 dark:bg-yellow-900/10 dark:border-yellow-900/30' },
+  incorrect: { Icon: XCircle, className: 'text-red-700 bg-red-50 border-red-100 dark:text-red-300 dark:bg-red-900/20 dark:border-red-900/40' }
+};
+
+const revealButtonClass = "inline-flex items-center gap-2 px-4 py-2 rounded-lg border border-primary-200 dark:border-primary-800 text-sm font-medium text-primary-700 dark:text-primary-400 hover:bg-primary-50 dark:hover:bg-primary-900/20 disabled:opacity-50 disabled:cursor-not-allowed transition no-print";
+
+// Hint-first view: hints one at a time, then steps and the Final Answer only when asked for
+export const TutorView: React.FC<TutorViewProps> = ({ rawResponse, parsed, question, language, isStreaming = false, verification, adSlot, onExplainStep }) => {
+  const { t } = useI18n();
+  const [hintsShown, setHintsShown] = useState(1);
+  const [stepsShown, setStepsShown] = useState(0);
+  const [answerShown, setAnswerShown] = useState(false);
+  const [attempt, setAttempt] = useState('');
+  const [checking, setChecking] = useState(false);
+  const [check, setCheck] = useState<StepCheckResult | null>(null);
+  const [checkError, setCheckError] = useState<SolverError | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  // Hints are typeset here; SolutionView handles the steps it renders
+  useEffect(() => {
+    if (!isStreaming && (window as any).MathJax) {
+      setTimeout(() => {
+        (window as any).MathJax.typesetPromise && (window as any).MathJax.typesetPromise();
+      }, 100);
+    }
+  }, [hintsShown, isStreaming, check]);
+
+  const { hints, steps } = parsed;
+  const nextStep = steps[stepsShown];
+  const allStepsShown = stepsShown >= steps.length;
+
+  const revealStep = () => {
+    setStepsShown(stepsShown + 1);
+    setAttempt('');
+    setCheck(null);
+    setCheckError(null);
+  };
+
+  const handleCheck = async () => {
+    if (!nextStep || !attempt.trim() || checking) return;
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setChecking(true);
+    setCheck(null);
+    setCheckError(null);
+    try {
+      setCheck(await checkStudentStep(question, steps.slice(0, stepsShown), nextStep, attempt.trim(), language, controller.signal));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      setCheckError(toSolverError(err));
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  // Unstructured replies can't be split into hints and steps, so they are shown whole
+  if (parsed.fallback) {
+    return <SolutionView rawResponse={rawResponse} parsed={parsed} isStreaming={isStreaming} verification={verification} adSlot={adSlot} question={question} />;
+  }
+
+  return (
+    <div>
+      {hints.length > 0 && (
+        <div className="px-6 sm:px-8 pt-6 sm:pt-8">
+          <div className="rounded-xl p-5 border border-amber-100 dark:border-amber-900/40 bg-amber-50/60 dark:bg-amber-900/10">
+            <h3 className="text-lg font-bold text-amber-800 dark:text-amber-300 mb-4 flex items-center gap-2">
+              <Lightbulb size={20} />
+              {t('tutor.hints')}
+            </h3>
+            <ol className="space-y-3">
+              {hints.slice(0, hintsShown).map((hint, index) => (
+                <li key={index} className="flex gap-3">
+                  <span className="flex-shrink-0 flex items-center justify-center w-6 h-6 rounded-full bg-amber-500 text-white text-xs">{index + 1}</span>
+                  <div className="prose dark:prose-invert max-w-none text-gray-700 dark:text-gray-300">
+                    <ReactMarkdown>{hint}</ReactMarkdown>
+                  </div>
+                </li>
+              ))}
+            </ol>
+            {hintsShown < hints.length && (
+              <button
+                onClick={() => setHintsShown(hintsShown + 1)}
+                className="mt-4 inline-flex items-center gap-2 text-sm font-medium text-amber-700 dark:text-amber-400 hover:underline no-print"
+              >
+                <Lightbulb size={16} />
+                {t('tutor.nextHint', { number: hintsShown + 1, total: hints.length })}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      <SolutionView
+        rawResponse={rawResponse}
+        parsed={{ ...parsed, steps: steps.slice(0, stepsShown) }}
+        isStreaming={isStreaming}
+        verification={verification}
+        adSlot={adSlot}
+        onExplainStep={onExplainStep}
+        showFinalAnswer={answerShown}
+        question={question}
+      />
+
+      {!answerShown && (
+        <div className="px-6 sm:px-8 pb-8 space-y-6">
+          {nextStep && !isStreaming && (
+            <div className="rounded-xl p-5 border border-dashed border-gray-200 dark:border-gray-600 no-print">
+              <label className="text-sm font-semibold text-gray-700 dark:text-gray-200 flex items-center gap-2 mb-3">
+                <PenLine size={16} className="text-primary-600 dark:text-primary-400" />
+                {t('tutor.tryStep', { number: stepsShown + 1 })}
+              </label>
+              <textarea
+                value={attempt}
+                onChange={(e) => setAttempt(e.target.value)}
+                rows={3}
+                placeholder={t('tutor.attemptPlaceholder')}
+                className="w-full p-3 rounded-xl border border-gray-200 dark:border-gray-600 bg-gray-50 dark:bg-gray-700/50 focus:ring-2 focus:ring-primary-500 focus:border-transparent resize-none transition"
+              />
+              <div className="mt-3 flex items-center gap-3">
+                <button
+                  onClick={handleCheck}
+                  disabled={!attempt.trim() || checking}
+                  className="px-4 py-2 rounded-lg bg-primary-600 hover:bg-primary-700 text-white text-sm font-medium disabled:opacity-50 disabled:cursor-not-allowed transition flex items-center gap-2"
+                >
+                  {checking && <span className="w-4 h-4 border-2 border-white border-t-transparent rounded-full animate-spin"></span>}
+                  {t('tutor.check')}
+                </button>
+              </div>
+              {checkError && (
+                <div className="mt-3">
+                  <SolveErrorNotice error={checkError} onRetry={handleCheck} />
+                </div>
+              )}
+              {check && (() => {
+                const { Icon, className } = VERDICT_STYLES[check.verdict];
+                return (
+                  <div className={`mt-3 flex gap-3 p-3 rounded-lg border text-sm ${className}`}>
+                    <Icon size={18} className="flex-shrink-0 mt-0.5" />
+                    <div>
+                      <span className="font-semibold">{t(`tutor.${check.verdict}`)}. </span>
+                      <ReactMarkdown components={{ p: ({ children }) => <span>{children}</span> }}>{check.feedback}</ReactMarkdown>
+                    </div>
+                  </div>
+                );
+              })()}
+            </div>
+          )}
+
+          <div className="flex flex-wrap gap-3">
+            {!allStepsShown && (
+              <button onClick={revealStep} disabled={isStreaming} className={revealButtonClass}>
+                <Eye size={16} />
+                {t('tutor.revealStep', { number: stepsShown + 1 })}
+              </button>
+            )}
+            <button onClick={() => setAnswerShown(true)} disabled={isStreaming} className={revealButtonClass}>
+              <CheckCircle size={16} />
+              {t('tutor.revealAnswer')}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
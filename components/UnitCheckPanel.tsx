@@ -0,0 +1,57 @@
+import React, { useState } from 'react';
+import { Ruler } from 'lucide-react';
+import { UnitCheck, UnitCheckStatus, formatQuantity } from '../services/units';
+import { useI18n } from '../services/i18n';
+
+const STATUS_STYLES: Record<UnitCheckStatus, string> = {
+  consistent: 'text-green-700 bg-green-50 dark:text-green-300 dark:bg-green-900/30',
+  unchecked: 'text-gray-600 bg-gray-100 dark:text-gray-300 dark:bg-gray-700',
+  mismatch: 'text-red-700 bg-red-50 dark:text-red-300 dark:bg-red-900/30',
+  missing: 'text-yellow-800 bg-yellow-50 dark:text-yellow-200 dark:bg-yellow-900/20'
+};
+
+// Dimensional-analysis result and one-click conversions, under the Final Answer
+export const UnitCheckPanel: React.FC<{ check: UnitCheck }> = ({ check }) => {
+  const { t } = useI18n();
+  const [converted, setConverted] = useState<string | null>(null);
+  const className = STATUS_STYLES[check.status];
+  const selected = check.conversions.find(conversion => conversion.unit === converted);
+
+  return (
+    <div className="mt-4 pt-4 border-t border-primary-100 dark:border-primary-900/50 text-sm">
+      <div className="flex flex-wrap items-center gap-2">
+        <span className={`inline-flex items-center gap-1 px-2 py-1 rounded-full text-xs font-semibold ${className}`}>
+          <Ruler size={14} />
+          {t(`units.${check.status}`)}
+        </span>
+        <span className="text-gray-600 dark:text-gray-300">{check.detail}</span>
+      </div>
+
+      {check.conversions.length > 0 && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 no-print">
+          <span className="text-xs font-semibold uppercase tracking-wider text-gray-400">{t('units.convertTo')}</span>
+          {check.conversions.map(conversion => (
+            <button
+              key={conversion.unit}
+              onClick={() => setConverted(converted === conversion.unit ? null : conversion.unit)}
+              className={`px-2 py-0.5 rounded-full text-xs font-medium border transition ${
+                converted === conversion.unit
+                  ? 'bg-primary-600 border-primary-600 text-white'
+                  : 'border-gray-200 dark:border-gray-600 text-gray-600 dark:text-gray-300 hover:border-primary-300'
+              }`}
+              title={conversion.system}
+            >
+              {conversion.unit}
+            </button>
+          ))}
+        </div>
+      )}
+      {selected && (
+        <p className="mt-2 text-base font-medium text-gray-900 dark:text-white">
+          = {formatQuantity(selected.value, selected.unit)}
+          <span className="ml-2 text-xs font-normal text-gray-500 dark:text-gray-400">({selected.system})</span>
+        </p>
+      )}
+    </div>
+  );
+};
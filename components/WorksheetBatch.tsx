@@ -0,0 +1,280 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { AlertCircle, CheckCircle2, ChevronRight, Circle, Zap } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import { SolutionView } from './SolutionView';
+import { SolveErrorNotice } from './SolveErrorPanel';
+import { ExportMenu } from './ExportMenu';
+import { SolveStatus } from '../types';
+import { parseSolutionResponse } from '../services/solutionParser';
+import { toExportable } from '../services/exportService';
+import { SolverError, toSolverError } from '../services/solverErrors';
+import { useI18n } from '../services/i18n';
+import {
+  WorksheetQuestion, WORKSHEET_CONCURRENCY, detectWorksheetQuestions, solveWorksheetQuestion, runWithConcurrency
+} from '../services/worksheetService';
+
+interface WorksheetBatchProps {
+  images: string[];
+  language: string;
+  onExit: () => void;
+}
+
+// SolveStatus per question: IDLE while queued, SOLVING while in flight
+interface BatchQuestion {
+  question: WorksheetQuestion;
+  selected: boolean;
+  status: SolveStatus;
+  result: string;
+  error: SolverError | null;
+}
+
+type Phase = 'detecting' | 'selecting' | 'solving' | 'failed';
+
+const StatusIcon = ({ status }: { status: SolveStatus }) => {
+  switch (status) {
+    case SolveStatus.SOLVING:
+      return <span className="w-3.5 h-3.5 border-2 border-primary-500 border-t-transparent rounded-full animate-spin"></span>;
+    case SolveStatus.COMPLETED:
+      return <CheckCircle2 size={14} className="text-green-500" />;
+    case SolveStatus.ERROR:
+      return <AlertCircle size={14} className="text-red-500" />;
+    default:
+      return <Circle size={14} className="text-gray-300" />;
+  }
+};
+
+export const WorksheetBatch: React.FC<WorksheetBatchProps> = ({ images, language, onExit }) => {
+  const { t } = useI18n();
+  const [phase, setPhase] = useState<Phase>('detecting');
+  const [detectError, setDetectError] = useState<SolverError | null>(null);
+  // Bumped by "Try again" to run the segmentation pass once more
+  const [detectAttempt, setDetectAttempt] = useState(0);
+  const [items, setItems] = useState<BatchQuestion[]>([]);
+  const [activeId, setActiveId] = useState<string | null>(null);
+  const allSolutionsRef = useRef<HTMLDivElement>(null);
+  // Cancels queued and in-flight solves when the batch is left
+  const solveControllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    detectWorksheetQuestions(images, controller.signal)
+      .then(questions => {
+        setItems(questions.map(question => ({ question, selected: true, status: SolveStatus.IDLE, result: '', error: null })));
+        setPhase('selecting');
+      })
+      .catch(error => {
+        if (controller.signal.aborted) return;
+        setDetectError(toSolverError(error));
+        setPhase('failed');
+      });
+    return () => controller.abort();
+  }, [images, detectAttempt]);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    solveControllerRef.current = controller;
+    return () => controller.abort();
+  }, []);
+
+  const retryDetect = () => {
+    setPhase('detecting');
+    setDetectAttempt(attempt => attempt + 1);
+  };
+
+  const updateItem = (id: string, changes: Partial<BatchQuestion>) => {
+    setItems(current => current.map(item => item.question.id === id ? { ...item, ...changes } : item));
+  };
+
+  const solveOne = async (question: WorksheetQuestion) => {
+    const signal = solveControllerRef.current?.signal;
+    if (!signal || signal.aborted) return;
+    updateItem(question.id, { status: SolveStatus.SOLVING, error: null });
+    try {
+      const result = await solveWorksheetQuestion(question, images, language, signal);
+      if (signal.aborted) return;
+      updateItem(question.id, { status: SolveStatus.COMPLETED, result });
+    } catch (error) {
+      if (signal.aborted) return;
+      updateItem(question.id, { status: SolveStatus.ERROR, error: toSolverError(error) });
+    }
+  };
+
+  const handleSolveSelected = () => {
+    const selected = items.filter(item => item.selected);
+    if (selected.length === 0) return;
+    setActiveId(selected[0].question.id);
+    setPhase('solving');
+    runWithConcurrency(selected.map(item => item.question), WORKSHEET_CONCURRENCY, solveOne, solveControllerRef.current?.signal);
+  };
+
+  const handleExit = () => {
+    solveControllerRef.current?.abort();
+    onExit();
+  };
+
+  const toggleAll = (selected: boolean) => setItems(current => current.map(item => ({ ...item, selected })));
+
+  const solvedItems = items.filter(item => item.selected && item.status === SolveStatus.COMPLETED);
+  const parsedSolved = solvedItems.flatMap(item => {
+    const parsed = parseSolutionResponse(item.result);
+    return parsed ? [{ item, parsed }] : [];
+  });
+  const exportable = parsedSolved.map(({ item, parsed }) => ({
+    ...toExportable(item.question.text, parsed),
+    title: t('worksheet.question', { number: item.question.number })
+  }));
+  const active = items.find(item => item.question.id === activeId);
+  const activeParsed = active?.status === SolveStatus.COMPLETED ? parseSolutionResponse(active.result) : null;
+
+  const backButton = (
+    <button
+      onClick={handleExit}
+      className="flex items-center gap-2 text-sm font-medium text-gray-600 dark:text-gray-300 hover:text-primary-600 dark:hover:text-primary-400"
+    >
+      <ChevronRight className="rotate-180 rtl:rotate-0" size={16} />
+      {t('worksheet.back')}
+    </button>
+  );
+
+  if (phase === 'detecting') {
+    return (
+      <div className="p-12 text-center">
+        <div className="w-16 h-16 mx-auto mb-6 border-4 border-primary-500 border-t-transparent rounded-full animate-spin"></div>
+        <h3 className="text-xl font-bold text-gray-800 dark:text-gray-100 mb-2">{t('worksheet.detecting')}</h3>
+        <p className="text-gray-500 dark:text-gray-400">{t('worksheet.detectingHint')}</p>
+      </div>
+    );
+  }
+
+  if (phase === 'failed') {
+    return (
+      <div className="p-8 max-w-xl mx-auto space-y-6">
+        <h3 className="text-lg font-bold text-gray-800 dark:text-gray-100 text-center">{t('worksheet.detectFailed')}</h3>
+        {detectError && <SolveErrorNotice error={detectError} onRetry={retryDetect} />}
+        <div className="flex justify-center">{backButton}</div>
+      </div>
+    );
+  }
+
+  if (phase === 'selecting') {
+    const selectedCount = items.filter(item => item.selected).length;
+    return (
+      <div className="p-6 sm:p-8 space-y-6">
+        <div className="flex items-center justify-between">
+          {backButton}
+          <div className="flex gap-3 text-sm">
+            <button onClick={() => toggleAll(true)} className="text-primary-600 hover:underline">{t('worksheet.selectAll')}</button>
+            <button onClick={() => toggleAll(false)} className="text-gray-500 hover:underline">{t('worksheet.selectNone')}</button>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          {items.map(item => (
+            <label
+              key={item.question.id}
+              className={`flex gap-3 p-4 rounded-xl border cursor-pointer transition ${
+                item.selected ? 'border-primary-300 bg-primary-50 dark:border-primary-700 dark:bg-primary-900/10' : 'border-gray-200 dark:border-gray-700'
+              }`}
+            >
+              <input
+                type="checkbox"
+                checked={item.selected}
+                onChange={(e) => updateItem(item.question.id, { selected: e.target.checked })}
+                className="mt-1 rounded text-primary-600 focus:ring-primary-500"
+              />
+              <div className="min-w-0">
+                <div className="text-xs font-semibold uppercase tracking-wider text-gray-400 mb-1">
+                  {t('worksheet.question', { number: item.question.number })}
+                  {images.length > 1 && ` · ${t('worksheet.page', { number: item.question.imageIndex + 1 })}`}
+                </div>
+                <div className="prose prose-sm dark:prose-invert max-w-none text-gray-700 dark:text-gray-300">
+                  <ReactMarkdown>{item.question.text}</ReactMarkdown>
+                </div>
+              </div>
+            </label>
+          ))}
+        </div>
+
+        <button
+          onClick={handleSolveSelected}
+          disabled={selectedCount === 0}
+          className="w-full px-8 py-3 bg-gradient-to-r from-primary-600 to-secondary-600 hover:from-primary-700 hover:to-secondary-700 text-white rounded-xl font-semibold shadow-lg shadow-primary-500/30 disabled:opacity-50 disabled:cursor-not-allowed transition-all flex items-center justify-center gap-2"
+        >
+          <Zap size={20} />
+          {selectedCount === 1 ? t('worksheet.solveOne') : t('worksheet.solveMany', { count: selectedCount })}
+        </button>
+      </div>
+    );
+  }
+
+  const queued = items.filter(item => item.selected);
+  const finished = queued.filter(item => item.status === SolveStatus.COMPLETED || item.status === SolveStatus.ERROR).length;
+
+  return (
+    <div>
+      <div className="flex items-center justify-between p-4 border-b border-gray-100 dark:border-gray-700 bg-gray-50 dark:bg-gray-700/30 no-print">
+        {backButton}
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-500 dark:text-gray-400">{t('worksheet.progress', { finished, total: queued.length })}</span>
+          {exportable.length > 0 && (
+            <ExportMenu solutions={exportable} getPdfTarget={() => allSolutionsRef.current} />
+          )}
+        </div>
+      </div>
+
+      {/* Tabs */}
+      <div className="flex gap-1 overflow-x-auto px-4 pt-3 border-b border-gray-100 dark:border-gray-700 no-print">
+        {queued.map(item => (
+          <button
+            key={item.question.id}
+            onClick={() => setActiveId(item.question.id)}
+            className={`flex items-center gap-2 px-4 py-2 rounded-t-lg text-sm font-medium whitespace-nowrap transition ${
+              item.question.id === activeId
+                ? 'bg-primary-50 dark:bg-primary-900/20 text-primary-700 dark:text-primary-400 border-b-2 border-primary-500'
+                : 'text-gray-500 dark:text-gray-400 hover:bg-gray-50 dark:hover:bg-gray-700/50'
+            }`}
+          >
+            <StatusIcon status={item.status} />
+            {t('worksheet.tab', { number: item.question.number })}
+          </button>
+        ))}
+      </div>
+
+      {active && (
+        <div>
+          <div className="px-6 sm:px-8 pt-6">
+            <span className="text-xs font-semibold uppercase tracking-wider text-gray-400">{t('worksheet.question', { number: active.question.number })}</span>
+            <div className="prose dark:prose-invert max-w-none text-gray-700 dark:text-gray-300 mt-1">
+              <ReactMarkdown>{active.question.text}</ReactMarkdown>
+            </div>
+          </div>
+
+          {active.status === SolveStatus.COMPLETED && activeParsed ? (
+            <SolutionView rawResponse={active.result} parsed={activeParsed} question={active.question.text} />
+          ) : active.status === SolveStatus.ERROR ? (
+            <div className="p-8">
+              {active.error && <SolveErrorNotice key={active.question.id} error={active.error} onRetry={() => solveOne(active.question)} />}
+            </div>
+          ) : (
+            <p className="p-12 text-center text-gray-500 dark:text-gray-400">
+              {active.status === SolveStatus.SOLVING ? t('worksheet.solving') : t('worksheet.waiting')}
+            </p>
+          )}
+        </div>
+      )}
+
+      {/* Every finished solution stacked off-screen, captured by the combined PDF export */}
+      <div ref={allSolutionsRef} aria-hidden className="fixed top-0 -left-[10000px] w-[800px] bg-white">
+        {parsedSolved.map(({ item, parsed }) => (
+          <div key={item.question.id}>
+            <h2 className="px-8 pt-8 text-xl font-bold text-gray-800">{t('worksheet.question', { number: item.question.number })}</h2>
+            <div className="px-8 prose max-w-none text-gray-700">
+              <ReactMarkdown>{item.question.text}</ReactMarkdown>
+            </div>
+            <SolutionView rawResponse={item.result} parsed={parsed} question={item.question.text} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
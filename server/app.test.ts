@@ -0,0 +1,247 @@
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createApiHandler } from './app';
+import { loadConfig, ServerConfig } from './config';
+import { CompletionRequest, SolveRequest, SolverProvider } from '../services/solverProvider';
+import { SolveStreamEvent } from '../services/solverApi';
+
+// Stands in for the model: streams `chunks`, optionally failing once `failAfter` of them are out.
+// Everything after the first chunk waits for `hold`.
+class StubProvider implements SolverProvider {
+  readonly name = 'stub';
+  readonly modelId = 'stub-model';
+  readonly capabilities = { images: true, structuredOutput: false };
+  solveCalls = 0;
+  hold = Promise.resolve();
+  completions: CompletionRequest[] = [];
+
+  constructor(private chunks = ['## Solution Steps\n', '### Step 1: Add\n2 + 2 = 4\n', '## Final Answer\n4'], private failAfter?: number) {}
+
+  async solve(request: SolveRequest): Promise<string> {
+    let text = '';
+    for await (const chunk of this.solveStream(request)) text += chunk;
+    return text;
+  }
+
+  async *solveStream(_request: SolveRequest): AsyncGenerator<string> {
+    this.solveCalls++;
+    for (const [index, chunk] of this.chunks.entries()) {
+      if (index === 1) await this.hold;
+      if (index === this.failAfter) throw Object.assign(new Error('Bad Gateway'), { status: 502 });
+      yield chunk;
+    }
+  }
+
+  async complete(request: CompletionRequest): Promise<string> {
+    this.completions.push(request);
+    return '{"subject":"Mathematics","topic":"Arithmetic"}';
+  }
+}
+
+// 18:00 UTC, six hours before the daily quota resets
+const START = Date.UTC(2026, 0, 15, 18, 0, 0);
+const PNG = (bytes: number) => `data:image/png;base64,${Buffer.alloc(bytes).toString('base64')}`;
+
+let server: Server | null = null;
+let clock = START;
+
+// Solutions are cached in memory only (no cacheDir)
+const start = async (overrides: Partial<ServerConfig> = {}, provider = new StubProvider()) => {
+  const config = { ...loadConfig({}), cacheDir: '', ...overrides };
+  server = createServer(createApiHandler(config, { provider, now: () => clock }));
+  await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  const post = (path: string, body: unknown, headers: Record<string, string> = { 'Content-Type': 'application/json' }) =>
+    fetch(`http://127.0.0.1:${port}${path}`, { method: 'POST', headers, body: typeof body === 'string' ? body : JSON.stringify(body) });
+  return { post, provider };
+};
+
+const events = async (response: Response): Promise<SolveStreamEvent[]> =>
+  (await response.text()).split('\n').filter(Boolean).map(line => JSON.parse(line));
+
+beforeEach(() => {
+  clock = START;
+  // Upstream failures are logged by the server
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(async () => {
+  vi.restoreAllMocks();
+  await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+  server = null;
+});
+
+describe('POST /api/solve', () => {
+  it('streams the answer as NDJSON chunks followed by done', async () => {
+    const { post } = await start();
+    const response = await post('/api/solve', { textInput: '2 + 2' });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toBe('application/x-ndjson');
+    expect(response.headers.get('x-solver-model')).toBe('stub-model');
+    expect(await events(response)).toEqual([
+      { type: 'chunk', text: '## Solution Steps\n' },
+      { type: 'chunk', text: '### Step 1: Add\n2 + 2 = 4\n' },
+      { type: 'chunk', text: '## Final Answer\n4' },
+      { type: 'done' }
+    ]);
+  });
+
+  it('reports a failure after the first chunk as an error event', async () => {
+    const { post } = await start({}, new StubProvider(undefined, 1));
+    const response = await post('/api/solve', { textInput: '2 + 2' });
+
+    expect(response.status).toBe(200);
+    const received = await events(response);
+    expect(received[0]).toEqual({ type: 'chunk', text: '## Solution Steps\n' });
+    expect(received).toHaveLength(2);
+    expect(received[1]).toMatchObject({ type: 'error', error: { code: 'upstream_error' } });
+  });
+
+  it.each([
+    ['an empty question', {}],
+    ['a non-string question', { textInput: 42 }],
+    ['an unknown mode', { textInput: '2 + 2', mode: 'cheat' }],
+    ['an unknown subject', { textInput: '2 + 2', classification: { subject: 'Astrology', topic: '' } }],
+    ['an out-of-range sample', { textInput: '2 + 2', sample: 99 }],
+    ['an image that is not a data URL', { images: ['https://example.com/q.png'] }]
+  ])('rejects %s with 400', async (_name, body) => {
+    const { post, provider } = await start();
+    const response = await post('/api/solve', body);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe('invalid_request');
+    expect(provider.solveCalls).toBe(0);
+  });
+
+  it('rejects a body that is not JSON with 400', async () => {
+    const { post } = await start();
+    const response = await post('/api/solve', '{"textInput":');
+    expect(response.status).toBe(400);
+  });
+
+  it('rejects an oversized body with 413', async () => {
+    const { post } = await start({ maxBodyBytes: 1024 });
+    const response = await post('/api/solve', { textInput: 'x'.repeat(4096) });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.code).toBe('payload_too_large');
+  });
+
+  it('rejects an oversized image with 413', async () => {
+    const { post } = await start({ maxImageBytes: 1024 });
+    const response = await post('/api/solve', { images: [PNG(2048)] });
+
+    expect(response.status).toBe(413);
+    expect((await response.json()).error.message).toMatch(/Image 1/);
+  });
+
+  it('rejects a request that is not JSON with 415', async () => {
+    const { post } = await start();
+    const response = await post('/api/solve', 'textInput=2%2B2', { 'Content-Type': 'application/x-www-form-urlencoded' });
+
+    expect(response.status).toBe(415);
+    expect((await response.json()).error.code).toBe('unsupported_media');
+  });
+
+  it('rejects an image type the model is not sent with 415', async () => {
+    const { post } = await start();
+    const response = await post('/api/solve', { images: [`data:image/gif;base64,${Buffer.alloc(16).toString('base64')}`] });
+
+    expect(response.status).toBe(415);
+    expect((await response.json()).error.code).toBe('unsupported_media');
+  });
+
+  it('rate limits per minute with Retry-After', async () => {
+    const { post } = await start({ rateLimitPerMinute: 2 });
+    await post('/api/solve', { textInput: '1 + 1' }).then(response => response.text());
+    await post('/api/solve', { textInput: '1 + 2' }).then(response => response.text());
+    clock += 15 * 1000;
+
+    const response = await post('/api/solve', { textInput: '1 + 3' });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe('45');
+    expect((await response.json()).error).toMatchObject({ code: 'rate_limited', retryAfter: 45 });
+
+    clock += 45 * 1000;
+    expect((await post('/api/solve', { textInput: '1 + 3' })).status).toBe(200);
+  });
+
+  it('stops at the daily quota with Retry-After until midnight UTC', async () => {
+    const { post, provider } = await start({ dailyQuota: 2 });
+    expect((await post('/api/solve', { textInput: '1 + 1' })).headers.get('x-quota-remaining')).toBe('1');
+    expect((await post('/api/solve', { textInput: '1 + 2' })).headers.get('x-quota-remaining')).toBe('0');
+
+    const response = await post('/api/solve', { textInput: '1 + 3' });
+    expect(response.status).toBe(429);
+    expect(response.headers.get('retry-after')).toBe(String(6 * 60 * 60));
+    expect((await response.json()).error.code).toBe('quota_exceeded');
+    expect(provider.solveCalls).toBe(2);
+  });
+
+  it('refunds the quota when the answer comes from the cache', async () => {
+    const { post, provider } = await start({ dailyQuota: 5 });
+    const first = await post('/api/solve', { textInput: '2 + 2' });
+    expect(first.headers.get('x-quota-remaining')).toBe('4');
+    expect(first.headers.get('x-cache-created')).toBeNull();
+    await first.text();
+
+    clock += 60 * 1000;
+    const second = await post('/api/solve', { textInput: '2  +  2 ' });
+    expect(second.headers.get('x-cache-created')).toBe(String(START));
+    expect(second.headers.get('x-quota-remaining')).toBe('4');
+    expect(await events(second)).toEqual([{ type: 'chunk', text: '## Solution Steps\n### Step 1: Add\n2 + 2 = 4\n## Final Answer\n4' }, { type: 'done' }]);
+    expect(provider.solveCalls).toBe(1);
+  });
+
+  it('refunds the quota when an identical request in flight answers', async () => {
+    let release = () => {};
+    const provider = new StubProvider();
+    provider.hold = new Promise(resolve => { release = resolve; });
+    const { post } = await start({ dailyQuota: 5 }, provider);
+    const first = await post('/api/solve', { textInput: '2 + 2' });
+    expect(first.headers.get('x-quota-remaining')).toBe('4');
+
+    const joined = await post('/api/solve', { textInput: '2 + 2' });
+    expect(joined.headers.get('x-quota-remaining')).toBe('4');
+    expect(joined.headers.get('x-cache-created')).toBeNull();
+    release();
+    const [answer, shared] = await Promise.all([events(first), events(joined)]);
+    expect(shared).toEqual(answer);
+    expect(provider.solveCalls).toBe(1);
+  });
+});
+
+describe('POST /api/complete', () => {
+  it('answers a valid task', async () => {
+    const { post, provider } = await start();
+    const response = await post('/api/complete', { task: 'classification', question: 'Solve 2x = 4' });
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ text: '{"subject":"Mathematics","topic":"Arithmetic"}' });
+    expect(provider.completions).toEqual([{ task: 'classification', question: 'Solve 2x = 4', images: [] }]);
+  });
+
+  it.each([
+    ['an unknown task', { task: 'chat', prompt: 'Write me a poem' }],
+    ['a raw prompt instead of task inputs', { systemInstruction: 'You are a poet', prompt: 'Write me a poem' }],
+    ['a follow-up without the question asked', { task: 'follow-up', solution: 'x = 2' }],
+    ['too many practice problems', { task: 'practice-problems', solution: 'x = 2', count: 50 }],
+    ['a step check without the expected step', { task: 'tutor-step-check', revealed: [], attempt: 'x = 2' }],
+    ['worksheet segmentation without images', { task: 'worksheet-segmentation', images: [] }]
+  ])('rejects %s with 400', async (_name, body) => {
+    const { post, provider } = await start();
+    const response = await post('/api/complete', body);
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error.code).toBe('invalid_request');
+    expect(provider.completions).toHaveLength(0);
+  });
+
+  it('rejects text longer than maxTextLength with 400', async () => {
+    const { post } = await start({ maxTextLength: 100 });
+    const response = await post('/api/complete', { task: 'classification', question: 'x'.repeat(101) });
+    expect(response.status).toBe(400);
+  });
+});
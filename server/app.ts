@@ -0,0 +1,337 @@
+import { IncomingMessage, ServerResponse } from 'node:http';
+import { generateSolutionStream } from '../services/geminiService';
+import { getSolverProvider, providerForSample, setSolverProvider } from '../services/providers';
+import { CompletionRequest, CompletionTask, SolveRequest, SolverProvider } from '../services/solverProvider';
+import { COMPLETION_TASKS, MAX_FOLLOW_UP_HISTORY, MAX_PRACTICE_PROBLEMS } from '../services/completionPrompts';
+import { SolveStreamEvent, SolverApiError } from '../services/solverApi';
+import { toApiError, toSolverError } from '../services/solverErrors';
+import { parseDataUrl } from '../services/imageProcessing';
+import { MemoryCacheStore, SolutionCache, TieredCacheStore, setSolutionCache, sha256Hex } from '../services/solutionCache';
+import { SUBJECTS } from '../constants';
+import { FollowUpMessage, SolutionStep } from '../types';
+import { ServerConfig } from './config';
+import { QuotaTracker, RateLimiter } from './limits';
+import { DiskCacheStore } from './diskCache';
+
+// Uploads are normalised to these in the browser before they are sent
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+// Highest high accuracy sample index; each sample is a separate request and counts against the quota
+const MAX_SAMPLE = 9;
+
+const invalid = (message: string) => new SolverApiError('invalid_request', message, 400);
+
+const readJsonBody = async (req: IncomingMessage, maxBytes: number): Promise<Record<string, unknown>> => {
+  if (!/^application\/json\b/i.test(req.headers['content-type'] || '')) {
+    throw new SolverApiError('unsupported_media', 'Send the request body as application/json.', 415);
+  }
+  const declared = Number(req.headers['content-length']);
+  const tooLarge = () => new SolverApiError('payload_too_large', `The request is larger than ${Math.round(maxBytes / 1024 / 1024)} MB. Try fewer or smaller images.`, 413);
+  if (declared > maxBytes) throw tooLarge();
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += (chunk as Buffer).length;
+    if (size > maxBytes) throw tooLarge();
+    chunks.push(chunk as Buffer);
+  }
+
+  let body: unknown;
+  try {
+    body = JSON.parse(Buffer.concat(chunks).toString('utf8'));
+  } catch {
+    throw invalid('The request body must be JSON.');
+  }
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) throw invalid('The request body must be a JSON object.');
+  return body as Record<string, unknown>;
+};
+
+const optionalString = (body: Record<string, unknown>, key: string, maxLength: number): string | undefined => {
+  const value = body[key];
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') throw invalid(`"${key}" must be a string.`);
+  if (value.length > maxLength) throw invalid(`"${key}" is longer than ${maxLength} characters.`);
+  return value;
+};
+
+const validateImages = (value: unknown, config: ServerConfig): string[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value)) throw invalid('"images" must be an array of data URLs.');
+  if (value.length > config.maxImages) {
+    throw new SolverApiError('payload_too_large', `Send at most ${config.maxImages} images per question.`, 413);
+  }
+  return value.map((item, index) => {
+    const image = typeof item === 'string' ? parseDataUrl(item) : null;
+    if (!image) throw invalid(`Image ${index + 1} is not a base64 data URL.`);
+    if (!IMAGE_TYPES.includes(image.mimeType)) {
+      throw new SolverApiError('unsupported_media', `Image ${index + 1} is ${image.mimeType}; send PNG, JPEG or WEBP.`, 415);
+    }
+    if (image.data.length * 0.75 > config.maxImageBytes) {
+      throw new SolverApiError('payload_too_large', `Image ${index + 1} is larger than ${Math.round(config.maxImageBytes / 1024 / 1024)} MB.`, 413);
+    }
+    return item as string;
+  });
+};
+
+const validateSolveRequest = (body: Record<string, unknown>, config: ServerConfig): SolveRequest => {
+  const textInput = optionalString(body, 'textInput', config.maxTextLength) || '';
+  const images = validateImages(body.images, config);
+  if (!textInput.trim() && images.length === 0) throw invalid('Send a question, an image, or both.');
+
+  const mode = body.mode as SolveRequest['mode'];
+  if (mode !== undefined && mode !== 'solve' && mode !== 'tutor') throw invalid('"mode" must be "solve" or "tutor".');
+
+  const classification = body.classification as SolveRequest['classification'];
+  if (classification != null && (typeof classification !== 'object' || !SUBJECTS.includes(classification.subject) || typeof classification.topic !== 'string')) {
+    throw invalid('"classification" must have a known subject and a topic.');
+  }
+
+  const bypassCache = body.bypassCache as boolean | undefined;
+  if (bypassCache !== undefined && typeof bypassCache !== 'boolean') throw invalid('"bypassCache" must be true or false.');
+
+  const sample = body.sample as number | undefined;
+  if (sample !== undefined && (!Number.isInteger(sample) || sample < 0 || sample > MAX_SAMPLE)) {
+    throw invalid(`"sample" must be a whole number from 0 to ${MAX_SAMPLE}.`);
+  }
+
+  return {
+    textInput,
+    images,
+    language: optionalString(body, 'language', 60) || 'English',
+    feedback: optionalString(body, 'feedback', config.maxTextLength),
+    mode,
+    classification,
+    bypassCache,
+    sample
+  };
+};
+
+const requiredString = (body: Record<string, unknown>, key: string, maxLength: number): string => {
+  const value = optionalString(body, key, maxLength);
+  if (!value?.trim()) throw invalid(`"${key}" is required.`);
+  return value;
+};
+
+// The steps shown to the student so far; together they are held to the same length as any other text
+const validateSteps = (value: unknown, key: string, maxLength: number): SolutionStep[] => {
+  if (!Array.isArray(value)) throw invalid(`"${key}" must be an array of steps.`);
+  const steps = value.map(item => {
+    const { title, content } = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    if (typeof title !== 'string' || typeof content !== 'string') throw invalid(`Each of "${key}" needs a title and content.`);
+    return { title, content };
+  });
+  if (steps.reduce((length, step) => length + step.title.length + step.content.length, 0) > maxLength) {
+    throw invalid(`"${key}" is longer than ${maxLength} characters.`);
+  }
+  return steps;
+};
+
+const validateHistory = (value: unknown, maxLength: number): Pick<FollowUpMessage, 'role' | 'content'>[] => {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_FOLLOW_UP_HISTORY) {
+    throw invalid(`"history" must be an array of at most ${MAX_FOLLOW_UP_HISTORY} messages.`);
+  }
+  return value.map(item => {
+    const message = (typeof item === 'object' && item !== null ? item : {}) as Record<string, unknown>;
+    if (message.role !== 'user' && message.role !== 'assistant') throw invalid('Each "history" message needs a role of "user" or "assistant".');
+    return { role: message.role, content: requiredString(message, 'content', maxLength) };
+  });
+};
+
+// Only each task's inputs are accepted; the instruction, prompt and schema are built here from them,
+// so the key can't be used as a general model proxy
+const validateCompletionRequest = (body: Record<string, unknown>, config: ServerConfig): CompletionRequest => {
+  const task = optionalString(body, 'task', 60) as CompletionTask | undefined;
+  const text = (key: string) => optionalString(body, key, config.maxTextLength) || '';
+  const language = optionalString(body, 'language', 60) || 'English';
+
+  switch (task) {
+    case 'worksheet-segmentation': {
+      const images = validateImages(body.images, config);
+      if (images.length === 0) throw invalid('Send the worksheet images.');
+      return { task, images };
+    }
+    case 'classification':
+      return { task, question: text('question'), images: validateImages(body.images, config) };
+    case 'follow-up':
+      return {
+        task,
+        question: text('question'),
+        solution: requiredString(body, 'solution', config.maxTextLength),
+        history: validateHistory(body.history, config.maxTextLength),
+        followUp: requiredString(body, 'followUp', config.maxTextLength),
+        language,
+        images: validateImages(body.images, config)
+      };
+    case 'tutor-step-check':
+      return {
+        task,
+        question: text('question'),
+        revealed: validateSteps(body.revealed, 'revealed', config.maxTextLength),
+        expected: validateSteps([body.expected], 'expected', config.maxTextLength)[0],
+        attempt: requiredString(body, 'attempt', config.maxTextLength),
+        language
+      };
+    case 'practice-problems': {
+      const count = body.count as number;
+      if (!Number.isInteger(count) || count < 1 || count > MAX_PRACTICE_PROBLEMS) {
+        throw invalid(`"count" must be a whole number from 1 to ${MAX_PRACTICE_PROBLEMS}.`);
+      }
+      return { task, question: text('question'), solution: requiredString(body, 'solution', config.maxTextLength), count, language };
+    }
+    default:
+      throw invalid(`Unknown task "${task ?? ''}". Use one of: ${COMPLETION_TASKS.join(', ')}.`);
+  }
+};
+
+const sendJson = (res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res: ServerResponse, error: SolverApiError) => {
+  const headers: Record<string, string> = error.retryAfter !== undefined ? { 'Retry-After': String(error.retryAfter) } : {};
+  // The rest of an oversized body is never read, so the connection can't be reused
+  if (error.code === 'payload_too_large') headers.Connection = 'close';
+  sendJson(res, error.status, error.toBody(), headers);
+};
+
+export interface ApiHandlerOptions {
+  // Replaces the SOLVER_PROVIDER model, e.g. a stub upstream in tests
+  provider?: SolverProvider;
+  now?: () => number;
+  // Replaces the cache built from cacheDir and cacheTtlHours
+  cache?: SolutionCache;
+}
+
+// Images are keyed by their exact bytes: the browser's perceptual hash needs a canvas, and a hash
+// sent by the client can't be trusted with answers that other students will be shown
+const createServerCache = (config: ServerConfig, now: () => number) => new SolutionCache({
+  store: config.cacheDir
+    ? new TieredCacheStore(new MemoryCacheStore(500), new DiskCacheStore(config.cacheDir))
+    : new MemoryCacheStore(500),
+  hashImage: sha256Hex,
+  ttlHours: config.cacheTtlHours,
+  now
+});
+
+/**
+ * Request handler for /api/solve, /api/complete and /api/quota. Each model call
+ * counts against the per-minute rate limit and the daily quota of the client's IP;
+ * solutions served from the cache or shared with an identical request in flight are given
+ * back to the quota.
+ * Errors are always `{ error: { code, message } }`.
+ */
+export const createApiHandler = (config: ServerConfig, { provider, now = Date.now, cache }: ApiHandlerOptions = {}) => {
+  if (provider) setSolverProvider(provider);
+  setSolutionCache(cache || createServerCache(config, now));
+  if (getSolverProvider().name === 'proxy') {
+    throw new Error('The API server needs a real model; set SOLVER_PROVIDER to gemini, openai or mock.');
+  }
+  const rateLimiter = new RateLimiter(config.rateLimitPerMinute, now);
+  const quota = new QuotaTracker(config.dailyQuota, now);
+
+  const clientOf = (req: IncomingMessage) => {
+    const forwarded = config.trustProxy ? String(req.headers['x-forwarded-for'] || '').split(',')[0].trim() : '';
+    return forwarded || req.socket.remoteAddress || 'unknown';
+  };
+
+  // Rate limited before the body is read; the quota is only charged for valid requests
+  const admit = (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('X-RateLimit-Limit', String(config.rateLimitPerMinute));
+    res.setHeader('X-RateLimit-Remaining', String(rateLimiter.take(clientOf(req))));
+  };
+
+  const charge = (req: IncomingMessage, res: ServerResponse) => {
+    res.setHeader('X-Quota-Remaining', String(quota.charge(clientOf(req)).remaining));
+  };
+
+  const handleSolve = async (req: IncomingMessage, res: ServerResponse) => {
+    admit(req, res);
+    const request = validateSolveRequest(await readJsonBody(req, config.maxBodyBytes), config);
+    charge(req, res);
+    // Lets the browser record which model answered each high accuracy sample
+    res.setHeader('X-Solver-Model', (request.sample ? providerForSample(request.sample) : getSolverProvider()).modelId);
+
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+    const send = (event: SolveStreamEvent) => res.write(`${JSON.stringify(event)}\n`);
+
+    // These run before the first chunk, while headers can still be set
+    let refunded = false;
+    const refund = () => {
+      if (refunded) return;
+      refunded = true;
+      res.setHeader('X-Quota-Remaining', String(quota.refund(clientOf(req)).remaining));
+    };
+    const onCacheHit = (createdAt: number) => {
+      res.setHeader('X-Cache-Created', String(createdAt));
+      refund();
+    };
+
+    try {
+      for await (const text of generateSolutionStream(request.textInput, request.images, request.language, { ...request, signal: controller.signal, onCacheHit, onSharedCall: refund })) {
+        if (!res.headersSent) res.writeHead(200, { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-store' });
+        send({ type: 'chunk', text });
+      }
+      send({ type: 'done' });
+      res.end();
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      const apiError = error instanceof SolverApiError ? error : toApiError(toSolverError(error));
+      // Failures after the first chunk can only be reported inside the stream
+      if (!res.headersSent) return sendError(res, apiError);
+      send({ type: 'error', error: apiError.toBody().error });
+      res.end();
+    }
+  };
+
+  const handleComplete = async (req: IncomingMessage, res: ServerResponse) => {
+    admit(req, res);
+    const request = validateCompletionRequest(await readJsonBody(req, config.maxBodyBytes), config);
+    charge(req, res);
+
+    const controller = new AbortController();
+    res.on('close', () => { if (!res.writableFinished) controller.abort(); });
+    const model = getSolverProvider();
+    if ('images' in request && !model.capabilities.images) request.images = [];
+    try {
+      sendJson(res, 200, { text: await model.complete(request, controller.signal) });
+    } catch (error) {
+      if (controller.signal.aborted) return;
+      console.error(`Completion Error (${model.name}):`, error);
+      sendError(res, toApiError(toSolverError(error)));
+    }
+  };
+
+  return async (req: IncomingMessage, res: ServerResponse) => {
+    if (config.allowedOrigin) {
+      res.setHeader('Access-Control-Allow-Origin', config.allowedOrigin);
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Expose-Headers', 'Retry-After, X-RateLimit-Remaining, X-Quota-Remaining, X-Cache-Created, X-Solver-Model');
+    }
+    const path = new URL(req.url || '/', 'http://localhost').pathname;
+    const routes: Record<string, { method: string, handle: (req: IncomingMessage, res: ServerResponse) => Promise<void> | void }> = {
+      '/api/solve': { method: 'POST', handle: handleSolve },
+      '/api/complete': { method: 'POST', handle: handleComplete },
+      '/api/quota': { method: 'GET', handle: (req, res) => sendJson(res, 200, quota.status(clientOf(req))) }
+    };
+
+    try {
+      const route = routes[path];
+      if (!route) throw new SolverApiError('not_found', `No endpoint at ${path}.`, 404);
+      if (req.method === 'OPTIONS') {
+        res.writeHead(204, { 'Access-Control-Allow-Methods': route.method });
+        return res.end();
+      }
+      if (req.method !== route.method) throw new SolverApiError('method_not_allowed', `Use ${route.method} for ${path}.`, 405);
+      await route.handle(req, res);
+    } catch (error) {
+      if (res.headersSent) return;
+      if (error instanceof SolverApiError) return sendError(res, error);
+      console.error("API Server Error:", error);
+      sendError(res, new SolverApiError('upstream_error', 'Something went wrong on the server. Please try again.', 500));
+    }
+  };
+};
@@ -0,0 +1,41 @@
+import { MAX_ATTACHMENTS } from '../services/attachments';
+import { ttlHoursFrom } from '../services/solutionCache';
+
+export interface ServerConfig {
+  port: number;
+  // Whole JSON request body
+  maxBodyBytes: number;
+  maxImages: number;
+  // Each decoded image
+  maxImageBytes: number;
+  maxTextLength: number;
+  // Model calls per client IP
+  rateLimitPerMinute: number;
+  dailyQuota: number;
+  // Read the client IP from X-Forwarded-For (only behind a proxy you control)
+  trustProxy: boolean;
+  // Sent as Access-Control-Allow-Origin when the site is served from another origin
+  allowedOrigin: string;
+  // Solutions are cached here for cacheTtlHours; an empty dir keeps them in memory only, 0 hours turns caching off
+  cacheDir: string;
+  cacheTtlHours: number;
+}
+
+const numberFrom = (value: string | undefined, fallback: number) => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed > 0 ? parsed : fallback;
+};
+
+export const loadConfig = (env: NodeJS.ProcessEnv = process.env): ServerConfig => ({
+  port: numberFrom(env.API_PORT, 8787),
+  maxBodyBytes: numberFrom(env.API_MAX_BODY_MB, 25) * 1024 * 1024,
+  maxImages: numberFrom(env.API_MAX_IMAGES, MAX_ATTACHMENTS),
+  maxImageBytes: numberFrom(env.API_MAX_IMAGE_MB, 4) * 1024 * 1024,
+  maxTextLength: numberFrom(env.API_MAX_TEXT_LENGTH, 20000),
+  rateLimitPerMinute: numberFrom(env.API_RATE_LIMIT_PER_MINUTE, 20),
+  dailyQuota: numberFrom(env.API_DAILY_QUOTA, 200),
+  trustProxy: env.API_TRUST_PROXY === 'true',
+  allowedOrigin: env.API_ALLOWED_ORIGIN || '',
+  cacheDir: env.API_CACHE_DIR ?? '.cache/solutions',
+  cacheTtlHours: ttlHoursFrom(env.API_CACHE_TTL_HOURS)
+});
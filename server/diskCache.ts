@@ -0,0 +1,54 @@
+import { mkdir, readFile, readdir, rename, unlink, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { randomUUID } from 'node:crypto';
+import { CachedSolution, SolutionCacheStore } from '../services/solutionCache';
+
+// One JSON file per cached solution. Keys are SHA-256 hex digests, so they are safe file names.
+export class DiskCacheStore implements SolutionCacheStore {
+  private ready: Promise<unknown> | null = null;
+
+  constructor(private dir: string) {}
+
+  private fileFor(key: string) {
+    return join(this.dir, `${key}.json`);
+  }
+
+  async get(key: string): Promise<CachedSolution | undefined> {
+    try {
+      return JSON.parse(await readFile(this.fileFor(key), 'utf8')) as CachedSolution;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  // Written under a temporary name first so a crash never leaves half a file behind. The name is
+  // unique per write so concurrent saves of the same key don't rename each other's file away.
+  async set(entry: CachedSolution) {
+    this.ready ??= mkdir(this.dir, { recursive: true });
+    await this.ready;
+    const file = this.fileFor(entry.key);
+    const temporary = `${file}.${randomUUID()}.tmp`;
+    await writeFile(temporary, JSON.stringify(entry));
+    await rename(temporary, file);
+  }
+
+  async delete(key: string) {
+    await unlink(this.fileFor(key)).catch(() => {});
+  }
+
+  // Removes expired entries; returns how many were removed
+  async prune(now = Date.now()): Promise<number> {
+    const files = await readdir(this.dir).catch(() => [] as string[]);
+    let removed = 0;
+    for (const file of files) {
+      if (!file.endsWith('.json')) continue;
+      const entry = await this.get(file.slice(0, -'.json'.length)).catch(() => undefined);
+      if (!entry || entry.expiresAt <= now) {
+        await unlink(join(this.dir, file)).catch(() => {});
+        removed++;
+      }
+    }
+    return removed;
+  }
+}
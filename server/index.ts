@@ -0,0 +1,26 @@
+import { createServer } from 'node:http';
+import { createApiHandler } from './app';
+import { loadConfig } from './config';
+import { DiskCacheStore } from './diskCache';
+
+// Same env files as Vite. Values already set are kept, so the shell wins over .env.local over .env
+for (const file of ['.env.local', '.env']) {
+  try {
+    process.loadEnvFile(file);
+  } catch {
+    // Optional file
+  }
+}
+
+const config = loadConfig();
+const server = createServer(createApiHandler(config));
+
+if (config.cacheDir && config.cacheTtlHours > 0) {
+  new DiskCacheStore(config.cacheDir).prune()
+    .then(removed => { if (removed) console.log(`Removed ${removed} expired cached solutions`); })
+    .catch(error => console.error("Solution Cache Error:", error));
+}
+
+server.listen(config.port, () => {
+  console.log(`Solver API listening on http://localhost:${config.port} (provider: ${process.env.SOLVER_PROVIDER || 'gemini'})`);
+});
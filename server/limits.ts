@@ -0,0 +1,74 @@
+import { QuotaStatus, SolverApiError } from '../services/solverApi';
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+// Stale entries are swept once this many clients are tracked
+const SWEEP_THRESHOLD = 10000;
+
+// Fixed one-minute windows per client; old windows are dropped as clients come back
+export class RateLimiter {
+  private windows = new Map<string, { start: number, count: number }>();
+
+  constructor(private limit: number, private now: () => number = Date.now) {}
+
+  // Counts one request, or throws rate_limited with the seconds until the window resets
+  take(client: string): number {
+    const now = this.now();
+    if (this.windows.size > SWEEP_THRESHOLD) {
+      this.windows.forEach((window, key) => { if (now - window.start >= MINUTE_MS) this.windows.delete(key); });
+    }
+    let window = this.windows.get(client);
+    if (!window || now - window.start >= MINUTE_MS) {
+      window = { start: now, count: 0 };
+      this.windows.set(client, window);
+    }
+    if (window.count >= this.limit) {
+      const retryAfter = Math.ceil((window.start + MINUTE_MS - now) / 1000);
+      throw new SolverApiError('rate_limited', `Too many requests. Please wait ${retryAfter} seconds and try again.`, 429, retryAfter);
+    }
+    window.count++;
+    return this.limit - window.count;
+  }
+}
+
+// Model calls per client per UTC day; kept in memory, so a restart resets it
+export class QuotaTracker {
+  private usage = new Map<string, { day: number, used: number }>();
+
+  constructor(private limit: number, private now: () => number = Date.now) {}
+
+  private entry(client: string) {
+    const day = Math.floor(this.now() / DAY_MS);
+    const current = this.usage.get(client);
+    if (current && current.day === day) return current;
+    if (this.usage.size > SWEEP_THRESHOLD) {
+      this.usage.forEach((entry, key) => { if (entry.day !== day) this.usage.delete(key); });
+    }
+    const fresh = { day, used: 0 };
+    this.usage.set(client, fresh);
+    return fresh;
+  }
+
+  status(client: string): QuotaStatus {
+    const { day, used } = this.entry(client);
+    return { limit: this.limit, used, remaining: Math.max(0, this.limit - used), resetsAt: (day + 1) * DAY_MS };
+  }
+
+  // Counts one model call, or throws quota_exceeded once the day's calls are used up
+  charge(client: string): QuotaStatus {
+    const entry = this.entry(client);
+    if (entry.used >= this.limit) {
+      const retryAfter = Math.ceil(((entry.day + 1) * DAY_MS - this.now()) / 1000);
+      throw new SolverApiError('quota_exceeded', `You've reached today's limit of ${this.limit} requests. It resets at midnight UTC.`, 429, retryAfter);
+    }
+    entry.used++;
+    return this.status(client);
+  }
+
+  // Gives back a charged call that didn't reach the model (e.g. answered from the cache)
+  refund(client: string): QuotaStatus {
+    const entry = this.entry(client);
+    entry.used = Math.max(0, entry.used - 1);
+    return this.status(client);
+  }
+}
@@ -0,0 +1,86 @@
+import { InputAttachment } from '../types';
+import { ImageProcessingError, MAX_IMAGE_DIMENSION, canvasToDataUrl, processImageFile } from './imageProcessing';
+
+// Keeps requests within provider payload limits; a handout rarely needs more
+export const MAX_ATTACHMENTS = 10;
+
+const isPdf = async (file: File) => {
+  if (file.type === 'application/pdf' || /\.pdf$/i.test(file.name)) return true;
+  const header = new Uint8Array(await file.slice(0, 5).arrayBuffer());
+  return String.fromCharCode(...header) === '%PDF-';
+};
+
+// pdf.js is large, so it is only loaded the first time a PDF is added
+const loadPdfJs = async () => {
+  const pdfjs = await import('pdfjs-dist');
+  if (!pdfjs.GlobalWorkerOptions.workerSrc) {
+    pdfjs.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.mjs', import.meta.url).toString();
+  }
+  return pdfjs;
+};
+
+/**
+ * Renders PDF pages locally to JPEG data URLs, longest side at most `maxDimension`.
+ * The file never leaves the device; only the page images are sent to the solver.
+ */
+export const renderPdfPages = async (file: Blob, maxPages: number, maxDimension = MAX_IMAGE_DIMENSION): Promise<string[]> => {
+  const pdfjs = await loadPdfJs();
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  } catch {
+    throw new ImageProcessingError("This PDF could not be opened. It may be damaged or password protected.");
+  }
+
+  try {
+    const pages: string[] = [];
+    for (let number = 1; number <= Math.min(pdf.numPages, maxPages); number++) {
+      const page = await pdf.getPage(number);
+      const base = page.getViewport({ scale: 1 });
+      const viewport = page.getViewport({ scale: maxDimension / Math.max(base.width, base.height) });
+
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(viewport.width);
+      canvas.height = Math.round(viewport.height);
+      await page.render({ canvas, viewport, background: '#ffffff' }).promise;
+      pages.push(canvasToDataUrl(canvas, 'image/jpeg'));
+    }
+    return pages;
+  } finally {
+    pdf.destroy();
+  }
+};
+
+/**
+ * Turns dropped, pasted or picked files into solve attachments, in the order given.
+ * `slotsLeft` caps how many new attachments are created (PDFs are cut off mid-document).
+ */
+export const prepareAttachments = async (files: File[], slotsLeft: number): Promise<InputAttachment[]> => {
+  const attachments: InputAttachment[] = [];
+
+  for (const file of files) {
+    const remaining = slotsLeft - attachments.length;
+    if (remaining <= 0) break;
+
+    if (await isPdf(file)) {
+      const pages = await renderPdfPages(file, remaining);
+      pages.forEach((dataUrl, index) => {
+        attachments.push({ id: crypto.randomUUID(), dataUrl, label: `${file.name} · p${index + 1}` });
+      });
+    } else {
+      const { dataUrl } = await processImageFile(file);
+      attachments.push({ id: crypto.randomUUID(), dataUrl, label: file.name || 'Pasted image' });
+    }
+  }
+
+  return attachments;
+};
+
+// Moves one attachment to a new position, leaving the others in order
+export const moveAttachment = (attachments: InputAttachment[], from: number, to: number): InputAttachment[] => {
+  if (from === to || to < 0 || to >= attachments.length) return attachments;
+  const reordered = [...attachments];
+  const [moved] = reordered.splice(from, 1);
+  reordered.splice(to, 0, moved);
+  return reordered;
+};
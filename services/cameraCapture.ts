@@ -0,0 +1,146 @@
+import { PixelFrame } from './documentScanner';
+import { canvasToDataUrl } from './imageProcessing';
+
+// Where camera frames come from. The live camera in the app; recorded frames
+// (CAMERA_TEST_FRAMES) when testing without one.
+export interface FrameSource {
+  // Shown as the live preview; a playing <video> or a canvas the frames are drawn on
+  readonly element: HTMLVideoElement | HTMLCanvasElement;
+  stop(): void;
+}
+
+export type CameraErrorReason = 'unsupported' | 'denied' | 'not_found' | 'failed';
+
+export class CameraError extends Error {
+  constructor(readonly reason: CameraErrorReason, message: string) {
+    super(message);
+    this.name = 'CameraError';
+  }
+}
+
+// Comma-separated still images or one recorded video, played instead of the camera
+const TEST_FRAMES = (process.env.CAMERA_TEST_FRAMES || '').split(',').map(url => url.trim()).filter(Boolean);
+// How long each still image stays on screen
+const TEST_FRAME_MS = 125;
+
+const startVideo = async (video: HTMLVideoElement) => {
+  video.muted = true;
+  video.playsInline = true;
+  await video.play();
+  if (!video.videoWidth) {
+    await new Promise(resolve => video.addEventListener('loadedmetadata', resolve, { once: true }));
+  }
+};
+
+/**
+ * Opens the back camera at up to 1080p. Camera permission problems are reported as
+ * a CameraError so the UI can tell the student what to change.
+ */
+export const openCameraSource = async (): Promise<FrameSource> => {
+  if (!navigator.mediaDevices?.getUserMedia) {
+    throw new CameraError('unsupported', "This browser can't open the camera.");
+  }
+
+  let stream: MediaStream;
+  try {
+    stream = await navigator.mediaDevices.getUserMedia({
+      video: { facingMode: { ideal: 'environment' }, width: { ideal: 1920 }, height: { ideal: 1080 } },
+      audio: false
+    });
+  } catch (err) {
+    const name = (err as Error | null)?.name;
+    if (name === 'NotAllowedError' || name === 'SecurityError') throw new CameraError('denied', "Camera access was blocked.");
+    if (name === 'NotFoundError' || name === 'OverconstrainedError') throw new CameraError('not_found', "No camera was found.");
+    throw new CameraError('failed', "The camera could not be started.");
+  }
+
+  const video = document.createElement('video');
+  video.srcObject = stream;
+  const stop = () => stream.getTracks().forEach(track => track.stop());
+  try {
+    await startVideo(video);
+  } catch {
+    stop();
+    throw new CameraError('failed', "The camera could not be started.");
+  }
+  return { element: video, stop };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new CameraError('failed', `Test frame ${src} could not be loaded.`));
+    image.src = src;
+  });
+
+/**
+ * Plays recorded frames as if they came from the camera: one looping video, or a
+ * list of still images shown in turn. Lets auto-capture be tried without a camera.
+ */
+export const openRecordedSource = async (urls: string[]): Promise<FrameSource> => {
+  if (urls.length === 1 && /\.(mp4|webm|mov)$|^data:video\//i.test(urls[0])) {
+    const video = document.createElement('video');
+    video.src = urls[0];
+    video.loop = true;
+    await startVideo(video);
+    return { element: video, stop: () => video.pause() };
+  }
+
+  const images = await Promise.all(urls.map(loadImage));
+  const canvas = document.createElement('canvas');
+  canvas.width = images[0].naturalWidth;
+  canvas.height = images[0].naturalHeight;
+  const ctx = canvas.getContext('2d')!;
+  let index = 0;
+  const show = () => {
+    ctx.drawImage(images[index], 0, 0, canvas.width, canvas.height);
+    index = (index + 1) % images.length;
+  };
+  show();
+  const timer = setInterval(show, TEST_FRAME_MS);
+  return { element: canvas, stop: () => clearInterval(timer) };
+};
+
+let sourceFactory: () => Promise<FrameSource> = TEST_FRAMES.length ? () => openRecordedSource(TEST_FRAMES) : openCameraSource;
+
+export const openFrameSource = (): Promise<FrameSource> => sourceFactory();
+
+// Swaps the frame source, e.g. for recorded frames in tests
+export const setFrameSourceFactory = (factory: () => Promise<FrameSource>) => {
+  sourceFactory = factory;
+};
+
+const sourceSize = (element: FrameSource['element']) =>
+  element instanceof HTMLVideoElement
+    ? { width: element.videoWidth, height: element.videoHeight }
+    : { width: element.width, height: element.height };
+
+/**
+ * The current frame as pixels, longest side at most `maxDimension`; null until the
+ * source has produced its first frame.
+ */
+export const readFrame = (source: FrameSource, maxDimension: number): PixelFrame | null => {
+  const { width, height } = sourceSize(source.element);
+  if (!width || !height) return null;
+
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(width * scale);
+  canvas.height = Math.round(height * scale);
+  const ctx = canvas.getContext('2d', { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source.element, 0, 0, canvas.width, canvas.height);
+  const { data } = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  return { width: canvas.width, height: canvas.height, data };
+};
+
+// Scans are black and white, which PNG keeps sharp and small; colour photos go as JPEG
+export const frameToDataUrl = (frame: PixelFrame, mimeType: 'image/png' | 'image/jpeg'): string => {
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d')!;
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(frame.data), frame.width, frame.height), 0, 0);
+  return canvasToDataUrl(canvas, mimeType);
+};
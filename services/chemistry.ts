@@ -0,0 +1,326 @@
+// Offline stoichiometry for Chemistry answers: formula parsing, equation
+// balancing and molar masses from a bundled periodic table.
+
+// Standard atomic weights (g/mol); mass number of the longest-lived isotope for elements without one
+const ATOMIC_WEIGHTS: Record<string, number> = Object.fromEntries(
+  (`H 1.008 He 4.0026 Li 6.94 Be 9.0122 B 10.81 C 12.011 N 14.007 O 15.999 F 18.998 Ne 20.180
+  Na 22.990 Mg 24.305 Al 26.982 Si 28.085 P 30.974 S 32.06 Cl 35.45 Ar 39.948 K 39.098 Ca 40.078
+  Sc 44.956 Ti 47.867 V 50.942 Cr 51.996 Mn 54.938 Fe 55.845 Co 58.933 Ni 58.693 Cu 63.546 Zn 65.38
+  Ga 69.723 Ge 72.630 As 74.922 Se 78.971 Br 79.904 Kr 83.798 Rb 85.468 Sr 87.62 Y 88.906 Zr 91.224
+  Nb 92.906 Mo 95.95 Tc 98 Ru 101.07 Rh 102.91 Pd 106.42 Ag 107.87 Cd 112.41 In 114.82 Sn 118.71
+  Sb 121.76 Te 127.60 I 126.90 Xe 131.29 Cs 132.91 Ba 137.33 La 138.91 Ce 140.12 Pr 140.91 Nd 144.24
+  Pm 145 Sm 150.36 Eu 151.96 Gd 157.25 Tb 158.93 Dy 162.50 Ho 164.93 Er 167.26 Tm 168.93 Yb 173.05
+  Lu 174.97 Hf 178.49 Ta 180.95 W 183.84 Re 186.21 Os 190.23 Ir 192.22 Pt 195.08 Au 196.97 Hg 200.59
+  Tl 204.38 Pb 207.2 Bi 208.98 Po 209 At 210 Rn 222 Fr 223 Ra 226 Ac 227 Th 232.04 Pa 231.04 U 238.03
+  Np 237 Pu 244 Am 243 Cm 247 Bk 247 Cf 251 Es 252 Fm 257 Md 258 No 259 Lr 266 Rf 267 Db 268 Sg 269
+  Bh 270 Hs 277 Mt 278 Ds 281 Rg 282 Cn 285 Nh 286 Fl 289 Mc 290 Lv 293 Ts 294 Og 294`)
+    .trim().split(/\s+/).reduce<[string, number][]>((pairs, token, i, all) =>
+      i % 2 === 0 ? [...pairs, [token, Number(all[i + 1])]] : pairs, [])
+);
+
+// Element symbols that are also everyday words; never read as formulas in prose
+const ENGLISH_WORDS = new Set(['I', 'In', 'As', 'At', 'Be', 'He', 'No', 'Am', 'Os']);
+
+export interface Formula {
+  // Atom counts per element
+  atoms: Record<string, number>;
+  charge: number;
+}
+
+// LaTeX, mhchem and Unicode sub/superscripts -> plain "Fe2(SO4)3" / "SO4^2-" text
+const SUBSCRIPTS = '₀₁₂₃₄₅₆₇₈₉';
+const SUPERSCRIPTS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+const normalizeChemText = (text: string): string =>
+  text
+    .replace(/\\(?:ce|text|mathrm|rm|mathbf)\s*\{((?:[^{}]|\{[^{}]*\})*)\}/g, '$1')
+    .replace(/\\rightleftharpoons|\\leftrightarrow|<=>|<->|⇌|↔/g, ' → ')
+    .replace(/\\(?:long)?(?:right)?arrow|\\to\b|\\longrightarrow|⟶|⇒|=>|->|→/g, ' → ')
+    .replace(/\\cdot|[·•∙]/g, '·')
+    .replace(/[₀-₉]/g, digit => String(SUBSCRIPTS.indexOf(digit)))
+    .replace(/([⁰-⁹¹²³]*)([⁺⁻])/g, (_, digits: string, sign: string) =>
+      `^${Array.from(digits).map(d => SUPERSCRIPTS.indexOf(d)).join('')}${sign === '⁺' ? '+' : '-'}`)
+    .replace(/_\{?(\d+)\}?/g, '$1')
+    .replace(/\^\{\s*(\d*)\s*([+\-−])\s*\}/g, '^$1$2')
+    .replace(/\^\{\s*([+\-−])\s*(\d*)\s*\}/g, '^$2$1')
+    .replace(/−/g, '-')
+    .replace(/\\[,;:! ]|[$]/g, ' ')
+    .replace(/\{|\}/g, '');
+
+const STATE_SYMBOL = /\((?:s|l|g|aq)\)$/;
+
+/**
+ * Parses a formula such as "Ca(OH)2", "CuSO4·5H2O" or "SO4^2-" (already
+ * normalised). Returns null for anything that isn't made of known elements.
+ */
+export const parseFormula = (text: string): Formula | null => {
+  let body = text.trim().replace(STATE_SYMBOL, '');
+  let charge = 0;
+  const chargeMatch = body.match(/\^(\d*)([+-])$/) || body.match(/(?<=[a-zA-Z)\]])([+-])$/);
+  if (chargeMatch) {
+    const [whole, digits, sign] = chargeMatch.length === 3 ? chargeMatch : [chargeMatch[0], '', chargeMatch[1]];
+    charge = (digits ? Number(digits) : 1) * (sign === '+' ? 1 : -1);
+    body = body.slice(0, body.length - whole.length);
+  }
+  if (!body || !/^[A-Z(\[]/.test(body) || ENGLISH_WORDS.has(body)) return null;
+
+  const atoms: Record<string, number> = {};
+  for (const [index, part] of body.split('·').entries()) {
+    // Hydrates: the part after "·" may carry its own multiplier, e.g. "5H2O"
+    const multiplierMatch = index > 0 ? part.match(/^\d+/) : null;
+    const multiplier = multiplierMatch ? Number(multiplierMatch[0]) : 1;
+    const counts = parseGroup(multiplierMatch ? part.slice(multiplierMatch[0].length) : part);
+    if (!counts) return null;
+    for (const [element, count] of Object.entries(counts)) {
+      atoms[element] = (atoms[element] || 0) + count * multiplier;
+    }
+  }
+  return Object.keys(atoms).length ? { atoms, charge } : null;
+};
+
+// Element symbols, counts and nested (), [] groups
+const parseGroup = (text: string): Record<string, number> | null => {
+  const stack: Record<string, number>[] = [{}];
+  const tokens = text.match(/[A-Z][a-z]?|\d+|[()\[\]]|./g) || [];
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    const count = /^\d+$/.test(tokens[i + 1] || '') ? Number(tokens[++i]) : 1;
+    if (token === '(' || token === '[') {
+      if (count !== 1) return null;
+      stack.push({});
+    } else if (token === ')' || token === ']') {
+      const group = stack.pop();
+      if (!group || stack.length === 0) return null;
+      const top = stack[stack.length - 1];
+      for (const [element, n] of Object.entries(group)) top[element] = (top[element] || 0) + n * count;
+    } else if (ATOMIC_WEIGHTS[token] !== undefined) {
+      const top = stack[stack.length - 1];
+      top[token] = (top[token] || 0) + count;
+    } else {
+      return null;
+    }
+  }
+  return stack.length === 1 ? stack[0] : null;
+};
+
+export const molarMass = (formula: Formula): number =>
+  Object.entries(formula.atoms).reduce((sum, [element, count]) => sum + ATOMIC_WEIGHTS[element] * count, 0);
+
+// "H2O" -> "H₂O", "SO4^2-" -> "SO₄²⁻" for display
+export const prettyFormula = (text: string): string =>
+  text
+    .replace(/\^(\d*)([+-])/g, (_, digits: string, sign: string) =>
+      Array.from(digits).map(d => SUPERSCRIPTS[Number(d)]).join('') + (sign === '+' ? '⁺' : '⁻'))
+    .replace(/(?<=[A-Za-z)\]])\d+/g, digits => Array.from(digits).map(d => SUBSCRIPTS[Number(d)]).join(''));
+
+export interface Species {
+  formula: string;
+  coefficient: number;
+  molarMass: number;
+}
+
+export interface ChemicalEquation {
+  reactants: Species[];
+  products: Species[];
+}
+
+// A species as written, e.g. "2H2O(l)", "3 O2" or "0.5 N2"
+const parseSpecies = (text: string): Species | null => {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?(?:\/\d+)?)?\s*(\S+)$/);
+  if (!match) return null;
+  const formula = match[2].replace(STATE_SYMBOL, '');
+  const parsed = parseFormula(formula);
+  if (!parsed) return null;
+  const [numerator, denominator = '1'] = (match[1] || '1').split('/');
+  return { formula, coefficient: Number(numerator) / Number(denominator), molarMass: molarMass(parsed) };
+};
+
+// Splits one side on "+" between species, leaving charges such as "Na+" or "SO4^2-" alone
+const splitSide = (side: string): string[] =>
+  side.split(/\s\+\s|(?<=[\w)\]])\+(?=\s*\d*[A-Z(\[])/).map(part => part.trim());
+
+// Species chunk next to prose: keep only the trailing (left side) or leading (right side) words
+const edgeSpecies = (chunk: string, fromEnd: boolean): Species | null => {
+  const words = chunk.replace(/[.,;:]+$/, '').split(/\s+/).filter(Boolean);
+  const candidates = fromEnd ? [words.slice(-2), words.slice(-1)] : [words.slice(0, 2), words.slice(0, 1)];
+  for (const candidate of candidates) {
+    // State symbols written apart, "H2O (l)"
+    const joined = candidate.join(' ').replace(/\s+(?=\((?:s|l|g|aq)\)$)/, '');
+    const species = candidate.length && parseSpecies(joined);
+    if (species) return species;
+  }
+  return null;
+};
+
+const parseSide = (text: string, fromEnd: boolean): Species[] | null => {
+  const parts = splitSide(text);
+  const species: Species[] = [];
+  for (const [index, part] of parts.entries()) {
+    const atEdge = fromEnd ? index === 0 : index === parts.length - 1;
+    const parsed = atEdge ? edgeSpecies(part, fromEnd) : parseSpecies(part.replace(/\s+(?=\((?:s|l|g|aq)\)$)/, ''));
+    if (!parsed) return null;
+    species.push(parsed);
+  }
+  return species;
+};
+
+/**
+ * Chemical equations written in a block of text ("2H2 + O2 -> 2H2O", \ce{...},
+ * LaTeX arrows). Plain "=" counts as an arrow only when both sides read as formulas.
+ */
+export const findEquations = (text: string): ChemicalEquation[] => {
+  const equations: ChemicalEquation[] = [];
+  for (const rawLine of normalizeChemText(text).split(/\n|(?<=[^\d\s])\.\s/)) {
+    const line = rawLine.includes('→') ? rawLine : rawLine.replace(/\s=\s/, ' → ');
+    const [left, right] = line.split('→');
+    if (right === undefined) continue;
+    const reactants = parseSide(left, true);
+    // A chain "A → B → C" is checked one arrow at a time; only the first is read here
+    const products = parseSide(right, false);
+    if (!reactants || !products) continue;
+    // A lone element on each side is more likely algebra ("V = I") than a reaction
+    const atoms = [...reactants, ...products].reduce((sum, s) => sum + Object.values(parseFormula(s.formula)!.atoms).reduce((a, b) => a + b, 0), 0);
+    if (!rawLine.includes('→') && atoms <= 2) continue;
+    equations.push({ reactants, products });
+  }
+  return equations;
+};
+
+const gcd = (a: number, b: number): number => (b === 0 ? Math.abs(a) : gcd(b, a % b));
+
+type Fraction = [number, number];
+
+const reduce = ([n, d]: Fraction): Fraction => {
+  if (n === 0) return [0, 1];
+  const g = gcd(n, d) * Math.sign(d);
+  return [n / g, d / g];
+};
+const sub = (a: Fraction, b: Fraction): Fraction => reduce([a[0] * b[1] - b[0] * a[1], a[1] * b[1]]);
+const mul = (a: Fraction, b: Fraction): Fraction => reduce([a[0] * b[0], a[1] * b[1]]);
+const div = (a: Fraction, b: Fraction): Fraction => reduce([a[0] * b[1], a[1] * b[0]]);
+
+/**
+ * Smallest whole-number coefficients that conserve every element and the
+ * total charge, by exact Gaussian elimination on the composition matrix.
+ * Null when there is no unique balance (impossible, or independent reactions).
+ */
+export const balanceEquation = (equation: ChemicalEquation): number[] | null => {
+  const species = [...equation.reactants, ...equation.products].map(s => parseFormula(s.formula)!);
+  const sign = (i: number) => (i < equation.reactants.length ? 1 : -1);
+  const elements = Array.from(new Set(species.flatMap(s => Object.keys(s.atoms))));
+  const rows: Fraction[][] = elements.map(element => species.map((s, i): Fraction => [sign(i) * (s.atoms[element] || 0), 1]));
+  if (species.some(s => s.charge !== 0)) rows.push(species.map((s, i): Fraction => [sign(i) * s.charge, 1]));
+
+  const columns = species.length;
+  const pivots: number[] = [];
+  for (let col = 0, row = 0; col < columns && row < rows.length; col++) {
+    const pivot = rows.findIndex((r, i) => i >= row && r[col][0] !== 0);
+    if (pivot === -1) continue;
+    [rows[row], rows[pivot]] = [rows[pivot], rows[row]];
+    rows[row] = rows[row].map(value => div(value, rows[row][col]));
+    rows.forEach((r, i) => {
+      if (i !== row && r[col][0] !== 0) rows[i] = r.map((value, j) => sub(value, mul(r[col], rows[row][j])));
+    });
+    pivots.push(col);
+    row++;
+  }
+  if (columns - pivots.length !== 1) return null;
+
+  // One free column: set it to 1 and read the pivots off the reduced rows
+  const free = Array.from({ length: columns }, (_, i) => i).find(i => !pivots.includes(i))!;
+  const solution: Fraction[] = Array.from({ length: columns }, () => [0, 1] as Fraction);
+  solution[free] = [1, 1];
+  pivots.forEach((col, row) => { solution[col] = reduce([-rows[row][free][0], rows[row][free][1]]); });
+
+  const lcm = solution.reduce((acc, [, d]) => (acc * d) / gcd(acc, d), 1);
+  const integers = solution.map(([n, d]) => (n * lcm) / d);
+  const divisor = integers.reduce((acc, n) => gcd(acc, n), 0);
+  const coefficients = integers.map(n => n / divisor);
+  if (coefficients.every(n => n < 0)) return coefficients.map(n => -n);
+  return coefficients.every(n => n > 0) ? coefficients : null;
+};
+
+// Whether the coefficients as written conserve every element and the charge
+const isBalanced = (equation: ChemicalEquation): boolean => {
+  const totals: Record<string, number> = {};
+  const add = (s: Species, sign: number) => {
+    const { atoms, charge } = parseFormula(s.formula)!;
+    for (const [element, count] of Object.entries({ ...atoms, '(charge)': charge })) {
+      totals[element] = (totals[element] || 0) + sign * count * s.coefficient;
+    }
+  };
+  equation.reactants.forEach(s => add(s, 1));
+  equation.products.forEach(s => add(s, -1));
+  return Object.values(totals).every(total => Math.abs(total) < 1e-9);
+};
+
+export const formatEquation = (equation: ChemicalEquation, coefficients?: number[]): string => {
+  const all = [...equation.reactants, ...equation.products];
+  const term = (s: Species, i: number) => {
+    const coefficient = coefficients ? coefficients[i] : s.coefficient;
+    return `${coefficient === 1 ? '' : coefficient}${prettyFormula(s.formula)}`;
+  };
+  const side = (offset: number, list: Species[]) => list.map((s, i) => term(s, offset + i)).join(' + ');
+  return `${side(0, equation.reactants)} → ${side(equation.reactants.length, all.slice(equation.reactants.length))}`;
+};
+
+export type EquationStatus = 'balanced' | 'unbalanced' | 'unbalanceable';
+
+export interface EquationCheck {
+  equation: ChemicalEquation;
+  status: EquationStatus;
+  // Smallest whole-number coefficients, when the equation can be balanced
+  balanced: number[] | null;
+}
+
+export const checkEquation = (equation: ChemicalEquation): EquationCheck => {
+  const balanced = balanceEquation(equation);
+  if (isBalanced(equation)) return { equation, status: 'balanced', balanced };
+  return { equation, status: balanced ? 'unbalanced' : 'unbalanceable', balanced };
+};
+
+export interface MolarMassClaim {
+  formula: string;
+  stated: number;
+  computed: number;
+  // Stated value is off by more than rounding
+  wrong: boolean;
+}
+
+// Candidate formulas in prose, including the inside of "M(NaCl)"
+const formulaCandidates = (text: string): string[] =>
+  (text.match(/[A-Za-z0-9()\[\]·^+-]+/g) || []).flatMap(word => {
+    const inner = word.match(/\(([^()]+)\)$/);
+    return inner ? [word, inner[1]] : [word];
+  });
+
+/**
+ * Molar masses stated in the text ("NaCl ... 58.44 g/mol"), each compared with
+ * the value from the periodic table. The formula is the last one within the
+ * same clause before the number.
+ */
+export const findMolarMassClaims = (text: string): MolarMassClaim[] => {
+  const normalized = normalizeChemText(text);
+  const claims: MolarMassClaim[] = [];
+  for (const match of normalized.matchAll(/(\d+(?:\.\d+)?)\s*(?:g\s*\/\s*mol|g\s*mol\^?-1)\b/g)) {
+    const before = normalized.slice(Math.max(0, (match.index || 0) - 60), match.index).split(/[,;\n]|\.\s/).pop() || '';
+    const formula = formulaCandidates(before).reverse().map(word => word.replace(/[.:=]+$/, '')).find(word => parseFormula(word));
+    if (!formula) continue;
+    const stated = Number(match[1]);
+    const computed = molarMass(parseFormula(formula)!);
+    claims.push({ formula, stated, computed, wrong: Math.abs(stated - computed) > Math.max(0.05, computed * 0.005) });
+  }
+  return claims;
+};
+
+export interface ChemistryCheck {
+  equations: EquationCheck[];
+  molarMasses: MolarMassClaim[];
+}
+
+// Everything worth saying about one step or the final answer; null when it has no chemistry in it
+export const checkChemistry = (text: string): ChemistryCheck | null => {
+  const equations = findEquations(text).map(checkEquation);
+  const molarMasses = findMolarMassClaims(text);
+  return equations.length || molarMasses.length ? { equations, molarMasses } : null;
+};
@@ -0,0 +1,90 @@
+import { SUBJECTS } from '../constants';
+import { ProblemClassification } from '../types';
+import { getSolverProvider } from './providers';
+import { parseJsonResponse } from './solutionSchema';
+
+// Keyword fallback: each topic's pattern also counts towards its subject. First matching topic wins.
+const KEYWORD_TOPICS: { subject: string, topic: string, pattern: RegExp }[] = [
+  { subject: 'Mathematics', topic: 'Integration', pattern: /\bintegra|antiderivative|\\int\b|∫/i },
+  { subject: 'Mathematics', topic: 'Differentiation', pattern: /\bderivative|differentiat|\\frac\{d\}|d\/d[a-z]\b/i },
+  { subject: 'Mathematics', topic: 'Limits', pattern: /\blimit\b|\\lim\b/i },
+  { subject: 'Mathematics', topic: 'Quadratic equations', pattern: /\bquadratic|[a-z]\^2\s*[+-][^=]*=|[a-z]²/i },
+  { subject: 'Mathematics', topic: 'Trigonometry', pattern: /\b(?:sin|cos|tan|sec|csc|cot)\b|\btriang|\bangle\b/i },
+  { subject: 'Mathematics', topic: 'Matrices', pattern: /\bmatri(?:x|ces)\b|\bdeterminant|\beigen/i },
+  { subject: 'Mathematics', topic: 'Probability', pattern: /\bprobabilit|\bdice\b|\bcoins?\b|\bchance\b/i },
+  { subject: 'Mathematics', topic: 'Statistics', pattern: /\bmean\b|\bmedian\b|\bstandard deviation|\bvariance\b/i },
+  { subject: 'Mathematics', topic: 'Equations', pattern: /\bsolve for\b|\bequation\b|\bsimplify\b|\bfactor/i },
+  { subject: 'Physics', topic: 'Kinematics', pattern: /\bvelocity|\bacceleration|\bspeed\b|\bprojectile|\bdisplacement/i },
+  { subject: 'Physics', topic: 'Forces', pattern: /\bforce\b|\bnewtons?\b|\bfriction|\btension\b|\bincline/i },
+  { subject: 'Physics', topic: 'Work and energy', pattern: /\bkinetic energy|\bpotential energy|\bwork done|\bpower\b|\bjoules?\b/i },
+  { subject: 'Physics', topic: 'Electric circuits', pattern: /\bcurrent\b|\bvoltage|\bresist(?:or|ance)|\bohms?\b|\bcircuit|\bcapacit/i },
+  { subject: 'Physics', topic: 'Waves and optics', pattern: /\bwavelength|\bfrequency|\blens\b|\brefract|\bmirror\b/i },
+  { subject: 'Physics', topic: 'Momentum', pattern: /\bmomentum|\bcollision|\bimpulse/i },
+  { subject: 'Chemistry', topic: 'Balancing equations', pattern: /\bbalanc(?:e|ing) (?:the )?(?:chemical )?(?:equation|reaction)|->|→/i },
+  { subject: 'Chemistry', topic: 'Stoichiometry', pattern: /\bmoles?\b|\bmolar\b|\bgrams? of\b|\bstoichiometr|\blimiting reagent/i },
+  { subject: 'Chemistry', topic: 'Acids and bases', pattern: /\bph\b|\bacid|\bbase\b|\btitration/i },
+  { subject: 'Chemistry', topic: 'Gas laws', pattern: /\bideal gas|\bpv\s*=\s*nrt|\bpressure\b.*\bvolume\b/i },
+  { subject: 'Chemistry', topic: 'Chemical reactions', pattern: /\breaction|\bcompound|\bmolecule|\belement\b|\b[A-Z][a-z]?\d*(?:[A-Z][a-z]?\d*)+\b/ },
+  { subject: 'Computer Science', topic: 'Algorithms', pattern: /\balgorithm|\bcomplexity|\bbig[- ]o\b|\bsort(?:ing)?\b|\bbinary search|\brecursi/i },
+  { subject: 'Computer Science', topic: 'Programming', pattern: /\bcode\b|\bfunction\b.*\breturns?\b|\bpython|\bjava(?:script)?\b|\bc\+\+|\bprogram\b|\bloop\b/i },
+  { subject: 'Computer Science', topic: 'Number systems', pattern: /\bbinary\b|\bhexadecimal|\boctal\b|\bbits?\b|\bbytes?\b/i },
+  { subject: 'Computer Science', topic: 'Databases', pattern: /\bsql\b|\bdatabase|\bquery\b|\bprimary key/i },
+  { subject: 'General Science', topic: 'Biology', pattern: /\bcells?\b|\bphotosynth|\bdna\b|\bgenes?\b|\borganism|\bevolution/i },
+  { subject: 'General Science', topic: 'Earth science', pattern: /\bclimate|\bweather|\bvolcan|\bearthquake|\bplanet|\bsolar system/i }
+];
+
+/**
+ * Offline guess from keywords in the question text. Returns null when nothing
+ * matches, e.g. for image-only questions.
+ */
+export const classifyByKeywords = (text: string): ProblemClassification | null => {
+  if (!text.trim()) return null;
+
+  const matches = KEYWORD_TOPICS.filter(({ pattern }) => pattern.test(text));
+  if (matches.length === 0) {
+    // Bare expressions like "2x + 5 = 11" carry no keywords
+    return /[=^√∫]|\d\s*[+\-*/×÷]\s*\d/.test(text)
+      ? { subject: 'Mathematics', topic: 'Equations', source: 'keywords' }
+      : null;
+  }
+
+  const counts = new Map<string, number>();
+  matches.forEach(({ subject }) => counts.set(subject, (counts.get(subject) || 0) + 1));
+  const subject = Array.from(counts).reduce((best, entry) => entry[1] > best[1] ? entry : best)[0];
+  const topic = matches.find(match => match.subject === subject)!.topic;
+  return { subject, topic, source: 'keywords' };
+};
+
+/**
+ * Tags the problem with a subject from SUBJECTS and a finer topic using a cheap model call.
+ * Falls back to the keyword guess when the model fails or answers outside SUBJECTS.
+ */
+export const classifyProblem = async (
+  textInput: string,
+  images: string[],
+  signal?: AbortSignal
+): Promise<ProblemClassification | null> => {
+  const provider = getSolverProvider();
+  const readableImages = provider.capabilities.images ? images : [];
+  if (!textInput.trim() && readableImages.length === 0) return null;
+
+  try {
+    const raw = await provider.complete({
+      task: 'classification',
+      question: textInput,
+      images: readableImages
+    }, signal);
+
+    const decoded = parseJsonResponse(raw) as { subject?: unknown, topic?: unknown } | undefined;
+    const subject = SUBJECTS.find(s => s === decoded?.subject);
+    if (subject) {
+      const topic = typeof decoded?.topic === 'string' ? decoded.topic.trim() : '';
+      return { subject, topic, source: 'model' };
+    }
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Classification Error (${provider.name}):`, error);
+  }
+
+  return classifyByKeywords(textInput);
+};
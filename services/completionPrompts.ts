@@ -0,0 +1,165 @@
+import {
+  CLASSIFICATION_INSTRUCTION, FOLLOW_UP_INSTRUCTION, PRACTICE_INSTRUCTION, STEP_CHECK_INSTRUCTION,
+  SUBJECTS, WORKSHEET_SEGMENTATION_INSTRUCTION
+} from '../constants';
+import { SolutionStep } from '../types';
+import { CompletionRequest, CompletionTask } from './solverProvider';
+import { SOLUTION_JSON_SCHEMA } from './solutionSchema';
+
+// What a provider sends to the model for a CompletionRequest
+export interface CompletionPrompt {
+  systemInstruction: string;
+  prompt: string;
+  images: string[];
+  // Requested as the response format when the provider supports structured output
+  jsonSchema?: object;
+}
+
+export const COMPLETION_TASKS: CompletionTask[] = ['worksheet-segmentation', 'classification', 'tutor-step-check', 'practice-problems', 'follow-up'];
+
+// Most earlier follow-up turns sent with one question; the API server refuses longer histories
+export const MAX_FOLLOW_UP_HISTORY = 12;
+
+// Largest practice set one request may ask for
+export const MAX_PRACTICE_PROBLEMS = 5;
+
+export const CLASSIFICATION_SCHEMA = {
+  type: 'object',
+  properties: {
+    subject: { type: 'string', enum: SUBJECTS },
+    topic: { type: 'string' }
+  },
+  required: ['subject', 'topic']
+};
+
+export const WORKSHEET_QUESTIONS_SCHEMA = {
+  type: 'object',
+  properties: {
+    questions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          number: { type: 'string' },
+          text: { type: 'string' },
+          imageIndex: { type: 'integer', minimum: 0 },
+          region: {
+            type: 'object',
+            properties: {
+              x: { type: 'number' },
+              y: { type: 'number' },
+              width: { type: 'number' },
+              height: { type: 'number' }
+            },
+            required: ['x', 'y', 'width', 'height']
+          }
+        },
+        required: ['number', 'text']
+      }
+    }
+  },
+  required: ['questions']
+};
+
+export const STEP_CHECK_SCHEMA = {
+  type: 'object',
+  properties: {
+    verdict: { type: 'string', enum: ['correct', 'partial', 'incorrect'] },
+    feedback: { type: 'string' }
+  },
+  required: ['verdict', 'feedback']
+};
+
+export const PRACTICE_SET_SCHEMA = {
+  type: 'object',
+  properties: {
+    topic: { type: 'string' },
+    problems: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          question: { type: 'string' },
+          solution: SOLUTION_JSON_SCHEMA
+        },
+        required: ['question', 'solution']
+      }
+    }
+  },
+  required: ['topic', 'problems']
+};
+
+const formatStep = (step: SolutionStep, index: number) => `Step ${index + 1}: ${step.title}\n${step.content}`;
+
+// Builds the system instruction, prompt and response schema for one auxiliary task
+export const completionPromptFor = (request: CompletionRequest): CompletionPrompt => {
+  switch (request.task) {
+    case 'worksheet-segmentation':
+      return {
+        systemInstruction: WORKSHEET_SEGMENTATION_INSTRUCTION,
+        prompt: `Find every question on ${request.images.length === 1 ? 'this worksheet' : `these ${request.images.length} worksheet pages`}.`,
+        images: request.images,
+        jsonSchema: WORKSHEET_QUESTIONS_SCHEMA
+      };
+
+    case 'classification':
+      return {
+        systemInstruction: CLASSIFICATION_INSTRUCTION,
+        prompt: `Problem: ${request.question || '[See image]'}`,
+        images: request.images,
+        jsonSchema: CLASSIFICATION_SCHEMA
+      };
+
+    case 'follow-up': {
+      const transcript = request.history
+        .map(message => `${message.role === 'user' ? 'Student' : 'Tutor'}: ${message.content}`)
+        .join('\n\n');
+      return {
+        systemInstruction: FOLLOW_UP_INSTRUCTION,
+        prompt: `Original Question: ${request.question || '[See image]'}
+
+Solution shown to the student:
+${request.solution}
+${transcript ? `
+Conversation so far:
+${transcript}
+` : ''}
+Student's question: ${request.followUp}
+Target Language: ${request.language}`,
+        images: request.images
+      };
+    }
+
+    case 'tutor-step-check':
+      return {
+        systemInstruction: STEP_CHECK_INSTRUCTION,
+        prompt: `Original Question: ${request.question || '[See image]'}
+
+Steps the student has already seen:
+${request.revealed.length ? request.revealed.map(formatStep).join('\n\n') : '(none)'}
+
+Expected next step:
+${formatStep(request.expected, request.revealed.length)}
+
+Student's attempt:
+${request.attempt}
+Target Language: ${request.language}`,
+        images: [],
+        jsonSchema: STEP_CHECK_SCHEMA
+      };
+
+    case 'practice-problems':
+      return {
+        systemInstruction: PRACTICE_INSTRUCTION,
+        prompt: `Original Question: ${request.question || '[See image]'}
+
+Worked solution:
+${request.solution}
+
+Number of problems: ${request.count}
+Target Language: ${request.language}`,
+        images: [],
+        jsonSchema: PRACTICE_SET_SCHEMA
+      };
+  }
+};
@@ -0,0 +1,81 @@
+import { ConsensusResult, ConsensusSample } from '../types';
+import { generateSolutionStream, SolveStreamOptions } from './geminiService';
+import { getSolverProvider, providerForSample } from './providers';
+import { parseSolutionResponse } from './solutionParser';
+import { compareAnswers } from './verificationService';
+
+export const HIGH_ACCURACY_SAMPLES = 3;
+
+export interface ConsensusOptions extends Omit<SolveStreamOptions, 'feedback' | 'sample' | 'onModel'> {
+  samples?: number;
+  // The first sample streams like a normal solve so the student isn't left waiting
+  onPrimaryChunk?: (text: string) => void;
+  // Called as each sample finishes or fails, with the number settled so far
+  onSampleSettled?: (settled: number) => void;
+}
+
+/**
+ * Groups indexes of equivalent final answers: the same value, the same roots in any
+ * order, or the same text. Largest group first; ties keep sample order.
+ */
+export const groupAnswers = (answers: string[]): number[][] => {
+  const groups: number[][] = [];
+  answers.forEach((answer, index) => {
+    const group = answer ? groups.find(members => compareAnswers(answers[members[0]], answer) === true) : undefined;
+    if (group) group.push(index);
+    else groups.push([index]);
+  });
+  return groups.sort((a, b) => b.length - a.length || a[0] - b[0]);
+};
+
+// The answer to show: the first sample of the largest group, which is the main solve whenever it agrees
+export const majoritySample = ({ samples, groups }: ConsensusResult): ConsensusSample => samples[groups[0][0]];
+
+// Share of the answered samples that agree with the majority, 0 - 1
+export const agreementOf = ({ samples, groups }: ConsensusResult): number => groups[0].length / samples.length;
+
+/**
+ * High accuracy mode: solves the question several times independently and groups the
+ * final answers. Sample 0 is the normal solve; the others use a higher temperature and
+ * rotate through the sample providers. Fails only when every sample fails.
+ */
+export const solveWithConsensus = async (
+  textInput: string,
+  images: string[],
+  language: string,
+  { samples = HIGH_ACCURACY_SAMPLES, onPrimaryChunk, onSampleSettled, onCacheHit, ...options }: ConsensusOptions = {}
+): Promise<ConsensusResult> => {
+  let settledCount = 0;
+  const runSample = async (sample: number) => {
+    let text = '';
+    // Under proxy the API server names the model it used; otherwise it's the sample's own provider
+    let modelId = (sample ? providerForSample(sample) : getSolverProvider()).modelId;
+    try {
+      for await (const chunk of generateSolutionStream(textInput, images, language, {
+        ...options,
+        sample: sample || undefined,
+        onCacheHit: sample === 0 ? onCacheHit : undefined,
+        onModel: answeredBy => { modelId = answeredBy; }
+      })) {
+        text += chunk;
+        if (sample === 0) onPrimaryChunk?.(text);
+      }
+      return { text, modelId };
+    } finally {
+      onSampleSettled?.(++settledCount);
+    }
+  };
+
+  const settled = await Promise.allSettled(Array.from({ length: samples }, (_, sample) => runSample(sample)));
+  options.signal?.throwIfAborted();
+
+  const answered: ConsensusSample[] = [];
+  settled.forEach(outcome => {
+    if (outcome.status !== 'fulfilled') return;
+    const { text, modelId } = outcome.value;
+    answered.push({ modelId, rawResponse: text, finalAnswer: parseSolutionResponse(text)?.finalAnswer || '' });
+  });
+  if (answered.length === 0) throw (settled[0] as PromiseRejectedResult).reason;
+
+  return { samples: answered, groups: groupAnswers(answered.map(sample => sample.finalAnswer)), failed: samples - answered.length };
+};
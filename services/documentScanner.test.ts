@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzeFrame, binarize, detectDocument, PixelFrame, Quad, STEADY_FRAMES, SteadinessTracker, toGrayscale, warpDocument
+} from './documentScanner';
+
+const PAPER = 230;
+const TABLE = 40;
+
+// Gray frame with each pixel's brightness taken from shade() at the pixel's centre
+const frameOf = (width: number, height: number, shade: (x: number, y: number) => number): PixelFrame => {
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const value = shade(x + 0.5, y + 0.5);
+      data.set([value, value, value, 255], (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+// Corners in order around a convex quad, so the point is inside when it is right of every edge
+const isInside = (quad: Quad, x: number, y: number) => quad.every((p, i) => {
+  const q = quad[(i + 1) % 4];
+  return (q.x - p.x) * (y - p.y) - (q.y - p.y) * (x - p.x) >= 0;
+});
+
+// A blank page with corners at `quad` (fractions of the frame) on a dark table
+const pageOn = (width: number, height: number, quad: Quad) =>
+  frameOf(width, height, (x, y) => isInside(quad, x / width, y / height) ? PAPER : TABLE);
+
+const quadOf = (...points: [number, number][]) => points.map(([x, y]) => ({ x, y })) as Quad;
+
+const expectQuadNear = (actual: Quad, expected: Quad) => {
+  actual.forEach((corner, i) => {
+    expect(Math.abs(corner.x - expected[i].x)).toBeLessThan(0.02);
+    expect(Math.abs(corner.y - expected[i].y)).toBeLessThan(0.02);
+  });
+};
+
+const detect = (frame: PixelFrame) => detectDocument(toGrayscale(frame), frame.width, frame.height);
+
+describe('detectDocument', () => {
+  it('finds the corners of a page lying square to the camera', () => {
+    const quad = quadOf([0.25, 0.25], [0.75, 0.25], [0.75, 0.75], [0.25, 0.75]);
+    const detection = detect(pageOn(160, 120, quad));
+
+    expect(detection).not.toBeNull();
+    expectQuadNear(detection!.quad, quad);
+    expect(detection!.coverage).toBeCloseTo(0.25, 1);
+  });
+
+  it('finds the corners of a page seen at an angle', () => {
+    const quad = quadOf([0.3, 0.2], [0.7, 0.2], [0.85, 0.8], [0.15, 0.8]);
+    expectQuadNear(detect(pageOn(160, 120, quad))!.quad, quad);
+  });
+
+  it('keeps a page with writing on it in one piece', () => {
+    const quad = quadOf([0.2, 0.2], [0.8, 0.2], [0.8, 0.8], [0.2, 0.8]);
+    const page = pageOn(160, 120, quad);
+    // Lines of handwriting right across the page
+    const frame = frameOf(160, 120, (x, y) => {
+      const written = x > 40 && x < 120 && Math.floor(y) % 10 < 2 && y > 30 && y < 90;
+      return written ? 20 : page.data[(Math.floor(y) * 160 + Math.floor(x)) * 4];
+    });
+    expectQuadNear(detect(frame)!.quad, quad);
+  });
+
+  it('finds nothing on an empty table or a scrap of paper', () => {
+    expect(detect(frameOf(160, 120, () => TABLE))).toBeNull();
+    expect(detect(pageOn(160, 120, quadOf([0.4, 0.4], [0.6, 0.4], [0.6, 0.6], [0.4, 0.6])))).toBeNull();
+  });
+});
+
+describe('SteadinessTracker', () => {
+  const still = quadOf([0.25, 0.25], [0.75, 0.25], [0.75, 0.75], [0.25, 0.75]);
+  const moved = quadOf([0.35, 0.25], [0.85, 0.25], [0.85, 0.75], [0.35, 0.75]);
+
+  it('reaches 1 once the page has held still for STEADY_FRAMES frames', () => {
+    const tracker = new SteadinessTracker();
+    const analysis = analyzeFrame(pageOn(160, 120, still));
+    const progress = Array.from({ length: STEADY_FRAMES + 1 }, () => tracker.update(analysis));
+
+    expect(progress[0]).toBe(0);
+    expect(progress.slice(1, -1).every((value, i) => value > progress[i])).toBe(true);
+    expect(progress[STEADY_FRAMES]).toBe(1);
+  });
+
+  it('starts over when the page moves or leaves the frame', () => {
+    const tracker = new SteadinessTracker(3);
+    const analysis = analyzeFrame(pageOn(160, 120, still));
+    for (let i = 0; i < 3; i++) tracker.update(analysis);
+
+    expect(tracker.update(analyzeFrame(pageOn(160, 120, moved)))).toBe(0);
+    expect(tracker.update(analyzeFrame(frameOf(160, 120, () => TABLE)))).toBe(0);
+    expect(tracker.update(analysis)).toBe(0);
+    expect(tracker.update(analysis)).toBeCloseTo(1 / 3);
+  });
+});
+
+describe('warpDocument', () => {
+  // A 120 x 60 page turned 20 degrees about the centre of a 200 x 200 frame, with a dark
+  // mark near its top-left corner
+  const angle = 20 * Math.PI / 180;
+  const cos = Math.cos(angle), sin = Math.sin(angle);
+  const toPage = (x: number, y: number) => ({
+    u: (x - 100) * cos + (y - 100) * sin,
+    v: -(x - 100) * sin + (y - 100) * cos
+  });
+  const frame = frameOf(200, 200, (x, y) => {
+    const { u, v } = toPage(x, y);
+    if (Math.abs(u) > 60 || Math.abs(v) > 30) return TABLE;
+    return u > -50 && u < -30 && v > -20 && v < -5 ? 0 : PAPER;
+  });
+  const quad = ([[-60, -30], [60, -30], [60, 30], [-60, 30]] as const).map(([u, v]) => ({
+    x: (100 + u * cos - v * sin) / 200,
+    y: (100 + u * sin + v * cos) / 200
+  })) as Quad;
+  const brightness = (scan: PixelFrame, x: number, y: number) => scan.data[(y * scan.width + x) * 4];
+
+  it('straightens the page and keeps its proportions', () => {
+    const scan = warpDocument(frame, quad, 1000);
+
+    expect(scan.width).toBeCloseTo(120, -1);
+    expect(scan.width / scan.height).toBeCloseTo(2, 1);
+    expect(brightness(scan, 20, 17)).toBeLessThan(50);
+    expect(brightness(scan, 100, 45)).toBeGreaterThan(200);
+  });
+
+  it('shrinks to maxDimension on the longest side', () => {
+    const scan = warpDocument(frame, quad, 60);
+    expect(scan).toMatchObject({ width: 60, height: 30 });
+    expect(scan.data).toHaveLength(60 * 30 * 4);
+  });
+});
+
+describe('binarize', () => {
+  // Paper that darkens from left to right as if in shadow, with ink at half its brightness
+  const isInk = (_x: number, y: number) => y > 20 && y < 100 && Math.floor(y) % 16 < 2;
+  const paper = (x: number) => 240 - 120 * x / 200;
+  const frame = frameOf(200, 120, (x, y) => isInk(x, y) ? paper(x) / 2 : paper(x));
+
+  it('turns ink black and paper white, shadow or not', () => {
+    const scan = binarize(frame);
+    let wrong = 0;
+    for (let y = 0; y < 120; y++) {
+      for (let x = 0; x < 200; x++) {
+        const expected = isInk(x + 0.5, y + 0.5) ? 0 : 255;
+        if (scan.data[(y * 200 + x) * 4] !== expected) wrong++;
+      }
+    }
+    expect(wrong).toBe(0);
+  });
+
+  it('outputs opaque black and white only', () => {
+    const { data } = binarize(frame);
+    const pixels = Array.from({ length: data.length / 4 }, (_, i) => data.subarray(i * 4, i * 4 + 4));
+    expect(pixels.every(([r, g, b, alpha]) => (r === 0 || r === 255) && g === r && b === r && alpha === 255)).toBe(true);
+  });
+
+  it('leaves a blank page white', () => {
+    const { data } = binarize(frameOf(64, 64, () => PAPER));
+    expect(data.every(value => value === 255)).toBe(true);
+  });
+});
@@ -0,0 +1,331 @@
+// Finds a page in a camera frame, decides when the camera is steady enough to take
+// the picture, and turns the photo into a flat, high-contrast scan. Works on plain
+// RGBA pixel buffers, so recorded frames and still images go through the same code as the camera.
+
+// Same layout as ImageData: RGBA, row by row
+export interface PixelFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+// Fractions (0..1) of the frame, so a quad found on a small analysis frame applies to the full photo
+export interface Point {
+  x: number;
+  y: number;
+}
+
+// Top-left, top-right, bottom-right, bottom-left
+export type Quad = [Point, Point, Point, Point];
+
+export interface DocumentDetection {
+  quad: Quad;
+  // Share of the frame the page covers
+  coverage: number;
+}
+
+export interface FrameAnalysis {
+  width: number;
+  height: number;
+  gray: Uint8Array;
+  document: DocumentDetection | null;
+}
+
+// Frames are analysed at this size; enough for page edges and fast on phones
+export const ANALYSIS_DIMENSION = 320;
+// A smaller bright area is more likely a sticky note or glare than the page
+const MIN_COVERAGE = 0.15;
+// Gradient strength that marks a page edge or pen stroke rather than noise
+const EDGE_STRENGTH = 48;
+// How much of the detected quad the bright area must fill to count as a flat rectangle
+const MIN_FILL = 0.8;
+// Frames in a row the page must hold still for before auto-capture
+export const STEADY_FRAMES = 8;
+// Largest corner movement between frames that still counts as steady, as a fraction of the frame
+const STEADY_TOLERANCE = 0.02;
+// Mean brightness change between frames above which the camera is moving or refocusing
+const MOTION_THRESHOLD = 6;
+// Adaptive threshold: a pixel is ink when darker than its neighbourhood by this share
+const INK_CONTRAST = 0.15;
+
+export const toGrayscale = ({ width, height, data }: PixelFrame): Uint8Array => {
+  const gray = new Uint8Array(width * height);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = (data[i * 4] * 299 + data[i * 4 + 1] * 587 + data[i * 4 + 2] * 114) / 1000;
+  }
+  return gray;
+};
+
+// Nearest-neighbour downscale; analysis only needs the rough shape of the page
+export const downscale = (frame: PixelFrame, maxDimension: number): PixelFrame => {
+  const scale = Math.min(1, maxDimension / Math.max(frame.width, frame.height));
+  if (scale === 1) return frame;
+  const width = Math.max(1, Math.round(frame.width * scale));
+  const height = Math.max(1, Math.round(frame.height * scale));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const sy = Math.min(frame.height - 1, Math.floor(y / scale));
+    for (let x = 0; x < width; x++) {
+      const sx = Math.min(frame.width - 1, Math.floor(x / scale));
+      const from = (sy * frame.width + sx) * 4;
+      data.set(frame.data.subarray(from, from + 4), (y * width + x) * 4);
+    }
+  }
+  return { width, height, data };
+};
+
+// Threshold that best splits the histogram into two groups (paper and background)
+const otsuThreshold = (gray: Uint8Array): number => {
+  const histogram = new Array<number>(256).fill(0);
+  gray.forEach(value => histogram[value]++);
+
+  const total = gray.length;
+  const sum = histogram.reduce((acc, count, value) => acc + count * value, 0);
+  let backgroundWeight = 0;
+  let backgroundSum = 0;
+  let best = 0;
+  let threshold = 127;
+  for (let value = 0; value < 256; value++) {
+    backgroundWeight += histogram[value];
+    if (backgroundWeight === 0) continue;
+    const foregroundWeight = total - backgroundWeight;
+    if (foregroundWeight === 0) break;
+    backgroundSum += value * histogram[value];
+    const between = backgroundWeight * foregroundWeight * (backgroundSum / backgroundWeight - (sum - backgroundSum) / foregroundWeight) ** 2;
+    if (between > best) {
+      best = between;
+      threshold = value;
+    }
+  }
+  return threshold;
+};
+
+// Sobel gradient magnitude; dark text inside the page is bridged so the page reads as one shape
+const edgeMagnitude = (gray: Uint8Array, width: number, height: number): Uint8Array => {
+  const edges = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => gray[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      edges[y * width + x] = Math.min(255, Math.hypot(gx, gy) / 4);
+    }
+  }
+  return edges;
+};
+
+const polygonArea = (quad: Quad) =>
+  Math.abs(quad.reduce((acc, p, i) => {
+    const q = quad[(i + 1) % 4];
+    return acc + p.x * q.y - q.x * p.y;
+  }, 0)) / 2;
+
+const isConvex = (quad: Quad) => {
+  const signs = quad.map((p, i) => {
+    const q = quad[(i + 1) % 4];
+    const r = quad[(i + 2) % 4];
+    return Math.sign((q.x - p.x) * (r.y - q.y) - (q.y - p.y) * (r.x - q.x));
+  });
+  return signs.every(sign => sign === signs[0] && sign !== 0);
+};
+
+/**
+ * Finds the page: the largest bright region (Otsu threshold, with strong edges counted
+ * as page so handwriting doesn't split it), with its corners taken as the points
+ * furthest towards each corner of the frame. Returns null when nothing page-like is in view.
+ */
+export const detectDocument = (gray: Uint8Array, width: number, height: number): DocumentDetection | null => {
+  const threshold = otsuThreshold(gray);
+  const edges = edgeMagnitude(gray, width, height);
+  const mask = new Uint8Array(width * height);
+  for (let i = 0; i < mask.length; i++) {
+    mask[i] = gray[i] > threshold || (edges[i] > EDGE_STRENGTH && gray[i] > threshold / 2) ? 1 : 0;
+  }
+
+  const visited = new Uint8Array(width * height);
+  const stack = new Int32Array(width * height);
+  let best: { size: number, corners: number[] } | null = null;
+
+  for (let start = 0; start < mask.length; start++) {
+    if (!mask[start] || visited[start]) continue;
+
+    // Corner candidates: min x+y, max x-y, max x+y, min x-y
+    const corners = [start, start, start, start];
+    const score = [Infinity, -Infinity, -Infinity, Infinity];
+    let size = 0;
+    let top = 0;
+    stack[top++] = start;
+    visited[start] = 1;
+
+    while (top > 0) {
+      const index = stack[--top];
+      size++;
+      const x = index % width;
+      const y = (index - x) / width;
+      const sum = x + y;
+      const diff = x - y;
+      if (sum < score[0]) { score[0] = sum; corners[0] = index; }
+      if (diff > score[1]) { score[1] = diff; corners[1] = index; }
+      if (sum > score[2]) { score[2] = sum; corners[2] = index; }
+      if (diff < score[3]) { score[3] = diff; corners[3] = index; }
+
+      const neighbours = [x > 0 ? index - 1 : -1, x < width - 1 ? index + 1 : -1, index - width, index + width];
+      for (const next of neighbours) {
+        if (next < 0 || next >= mask.length || !mask[next] || visited[next]) continue;
+        visited[next] = 1;
+        stack[top++] = next;
+      }
+    }
+
+    if (!best || size > best.size) best = { size, corners };
+  }
+
+  if (!best) return null;
+  const quad = best.corners.map(index => ({ x: (index % width) / width, y: Math.floor(index / width) / height })) as Quad;
+  const area = polygonArea(quad);
+  if (area < MIN_COVERAGE || !isConvex(quad) || best.size / (width * height) < area * MIN_FILL) return null;
+  return { quad, coverage: area };
+};
+
+export const analyzeFrame = (frame: PixelFrame): FrameAnalysis => {
+  const small = downscale(frame, ANALYSIS_DIMENSION);
+  const gray = toGrayscale(small);
+  return { width: small.width, height: small.height, gray, document: detectDocument(gray, small.width, small.height) };
+};
+
+const meanDifference = (a: Uint8Array, b: Uint8Array) => {
+  let total = 0;
+  for (let i = 0; i < a.length; i++) total += Math.abs(a[i] - b[i]);
+  return total / a.length;
+};
+
+/**
+ * Decides when to auto-capture: the page must be found in STEADY_FRAMES frames in a row
+ * with its corners and the picture as a whole barely moving.
+ */
+export class SteadinessTracker {
+  private previous: FrameAnalysis | null = null;
+  private steadyFrames = 0;
+
+  constructor(private readonly requiredFrames = STEADY_FRAMES) {}
+
+  // Returns progress towards a capture, 0 - 1; 1 means take the picture now
+  update(analysis: FrameAnalysis): number {
+    const previous = this.previous;
+    this.previous = analysis;
+
+    const steady = !!(analysis.document && previous?.document && previous.gray.length === analysis.gray.length) &&
+      analysis.document!.quad.every((corner, i) => {
+        const before = previous!.document!.quad[i];
+        return Math.hypot(corner.x - before.x, corner.y - before.y) < STEADY_TOLERANCE;
+      }) &&
+      meanDifference(previous!.gray, analysis.gray) < MOTION_THRESHOLD;
+
+    this.steadyFrames = steady ? this.steadyFrames + 1 : 0;
+    return Math.min(1, this.steadyFrames / this.requiredFrames);
+  }
+
+  reset() {
+    this.previous = null;
+    this.steadyFrames = 0;
+  }
+}
+
+// Solves the 8 unknowns of the homography taking the unit square's corners to `quad`
+const squareToQuad = (quad: { x: number, y: number }[]): number[] => {
+  const [p0, p1, p2, p3] = quad;
+  const dx1 = p1.x - p2.x, dx2 = p3.x - p2.x, dx3 = p0.x - p1.x + p2.x - p3.x;
+  const dy1 = p1.y - p2.y, dy2 = p3.y - p2.y, dy3 = p0.y - p1.y + p2.y - p3.y;
+
+  if (dx3 === 0 && dy3 === 0) {
+    // Parallelogram: an affine map is enough
+    return [p1.x - p0.x, p2.x - p1.x, p0.x, p1.y - p0.y, p2.y - p1.y, p0.y, 0, 0];
+  }
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = (dx3 * dy2 - dx2 * dy3) / det;
+  const h = (dx1 * dy3 - dx3 * dy1) / det;
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h
+  ];
+};
+
+const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+
+/**
+ * Perspective correction: maps the page inside `quad` onto an upright rectangle with
+ * the page's own proportions, at most `maxDimension` on its longest side.
+ */
+export const warpDocument = (frame: PixelFrame, quad: Quad, maxDimension: number): PixelFrame => {
+  const corners = quad.map(p => ({ x: p.x * frame.width, y: p.y * frame.height }));
+  const naturalWidth = Math.max(distance(corners[0], corners[1]), distance(corners[3], corners[2]));
+  const naturalHeight = Math.max(distance(corners[0], corners[3]), distance(corners[1], corners[2]));
+  const scale = Math.min(1, maxDimension / Math.max(naturalWidth, naturalHeight));
+  const width = Math.max(1, Math.round(naturalWidth * scale));
+  const height = Math.max(1, Math.round(naturalHeight * scale));
+
+  const [a, b, c, d, e, f, g, h] = squareToQuad(corners);
+  const data = new Uint8ClampedArray(width * height * 4);
+  const source = frame.data;
+  const maxX = frame.width - 1;
+  const maxY = frame.height - 1;
+
+  for (let y = 0; y < height; y++) {
+    const v = (y + 0.5) / height;
+    for (let x = 0; x < width; x++) {
+      const u = (x + 0.5) / width;
+      const w = g * u + h * v + 1;
+      const sx = Math.min(maxX, Math.max(0, (a * u + b * v + c) / w - 0.5));
+      const sy = Math.min(maxY, Math.max(0, (d * u + e * v + f) / w - 0.5));
+
+      // Bilinear sample
+      const x0 = Math.floor(sx), y0 = Math.floor(sy);
+      const x1 = Math.min(maxX, x0 + 1), y1 = Math.min(maxY, y0 + 1);
+      const fx = sx - x0, fy = sy - y0;
+      const i00 = (y0 * frame.width + x0) * 4, i10 = (y0 * frame.width + x1) * 4;
+      const i01 = (y1 * frame.width + x0) * 4, i11 = (y1 * frame.width + x1) * 4;
+      const out = (y * width + x) * 4;
+      for (let channel = 0; channel < 4; channel++) {
+        const top = source[i00 + channel] * (1 - fx) + source[i10 + channel] * fx;
+        const bottom = source[i01 + channel] * (1 - fx) + source[i11 + channel] * fx;
+        data[out + channel] = top * (1 - fy) + bottom * fy;
+      }
+    }
+  }
+  return { width, height, data };
+};
+
+/**
+ * Black ink on white paper: each pixel is compared with the mean of its neighbourhood
+ * (an integral image keeps this fast), so shadows across the page don't turn it black.
+ */
+export const binarize = (frame: PixelFrame): PixelFrame => {
+  const { width, height } = frame;
+  const gray = toGrayscale(frame);
+  const integral = new Float64Array((width + 1) * (height + 1));
+  for (let y = 0; y < height; y++) {
+    let row = 0;
+    for (let x = 0; x < width; x++) {
+      row += gray[y * width + x];
+      integral[(y + 1) * (width + 1) + x + 1] = integral[y * (width + 1) + x + 1] + row;
+    }
+  }
+
+  const radius = Math.max(7, Math.round(Math.min(width, height) / 32));
+  const data = new Uint8ClampedArray(width * height * 4);
+  for (let y = 0; y < height; y++) {
+    const top = Math.max(0, y - radius), bottom = Math.min(height, y + radius + 1);
+    for (let x = 0; x < width; x++) {
+      const left = Math.max(0, x - radius), right = Math.min(width, x + radius + 1);
+      const sum = integral[bottom * (width + 1) + right] - integral[top * (width + 1) + right]
+        - integral[bottom * (width + 1) + left] + integral[top * (width + 1) + left];
+      const mean = sum / ((bottom - top) * (right - left));
+      const value = gray[y * width + x] < mean * (1 - INK_CONTRAST) ? 0 : 255;
+      const out = (y * width + x) * 4;
+      data[out] = data[out + 1] = data[out + 2] = value;
+      data[out + 3] = 255;
+    }
+  }
+  return { width, height, data };
+};
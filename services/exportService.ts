@@ -0,0 +1,321 @@
+import { SolutionStep } from '../types';
+import { ParsedSolutionResponse } from './solutionParser';
+import { PlotSpec, parsePlotSpec, renderPlotPgf, renderPlotSvg } from './plotSpec';
+
+// Everything an export needs, independent of whether the response was JSON or Markdown
+export interface ExportableSolution {
+  question: string;
+  subject: string;
+  steps: SolutionStep[];
+  finalAnswer: string;
+  units?: string;
+  // Heading in a combined export, e.g. "Question 3"
+  title?: string;
+}
+
+export const toExportable = (inputText: string, parsed: ParsedSolutionResponse): ExportableSolution => ({
+  question: parsed.solution?.problemStatement || inputText || 'Image question',
+  subject: parsed.solution?.subject || '',
+  steps: parsed.steps,
+  finalAnswer: parsed.finalAnswer,
+  units: parsed.solution?.units
+});
+
+// Display math only when the step's key equation isn't already written in its content
+const stepEquation = (step: SolutionStep) =>
+  step.latex && !step.content.includes(step.latex) ? step.latex : '';
+
+const answerWithUnits = ({ finalAnswer, units }: ExportableSolution) =>
+  units && !finalAnswer.includes(units) ? `${finalAnswer} (${units})` : finalAnswer;
+
+// $$..$$, $..$, \(..\) and \[..\] segments are passed through untouched by every converter.
+// Both regexes capture, so after split() the odd indices are the matched segments.
+const MATH_REGEX = /(\$\$[\s\S]+?\$\$|\$[^$\n]+?\$|\\\([\s\S]+?\\\)|\\\[[\s\S]+?\\\])/;
+const CODE_FENCE_REGEX = /(```[\s\S]*?(?:```|$))/;
+
+const fenceBody = (block: string) => block.replace(/^```\w*\n?/, '').replace(/\n?```$/, '');
+
+// The graph in a ```plot fence, or null for any other code block
+const plotOf = (block: string): PlotSpec | null =>
+  /^```plot\b/.test(block) ? parsePlotSpec(fenceBody(block)) : null;
+
+// --- Markdown ---
+
+export interface MarkdownOptions {
+  // Replace ```plot blocks with an inline SVG image; off when the Markdown is a model prompt
+  embedPlots?: boolean;
+}
+
+const embedPlots = (markdown: string, finalAnswer: string): string =>
+  markdown
+    .split(CODE_FENCE_REGEX)
+    .map((block, index) => {
+      const spec = index % 2 ? plotOf(block) : null;
+      return spec ? `![Graph](data:image/svg+xml;utf8,${encodeURIComponent(renderPlotSvg(spec, finalAnswer))})` : block;
+    })
+    .join('');
+
+const markdownSection = (solution: ExportableSolution, { embedPlots: embed = true }: MarkdownOptions): string => {
+  const lines = [`# ${solution.title || 'Solution'}`, ''];
+  if (solution.subject) lines.push(`**Subject:** ${solution.subject}`, '');
+  lines.push('## Question', '', solution.question, '', '## Solution Steps', '');
+
+  solution.steps.forEach((step, index) => {
+    lines.push(`### Step ${index + 1}: ${step.title}`, '', embed ? embedPlots(step.content, solution.finalAnswer) : step.content, '');
+    const equation = stepEquation(step);
+    if (equation) lines.push(`$$${equation}$$`, '');
+  });
+
+  lines.push('## Final Answer', '', answerWithUnits(solution), '');
+  return lines.join('\n');
+};
+
+export const toMarkdown = (solutions: ExportableSolution[], options: MarkdownOptions = {}): string =>
+  solutions.map(solution => markdownSection(solution, options)).join('\n---\n\n');
+
+// --- LaTeX ---
+
+// Private-use characters mark structure while the surrounding text is escaped
+const MARK = {
+  headingStart: '\uE000',
+  headingEnd: '\uE001',
+  item: '\uE002',
+  itemizeStart: '\uE003',
+  itemizeEnd: '\uE004',
+  enumerateStart: '\uE005',
+  enumerateEnd: '\uE006'
+};
+
+const LATEX_ESCAPES: Record<string, string> = {
+  '\\': '\\textbackslash{}',
+  '&': '\\&',
+  '%': '\\%',
+  '#': '\\#',
+  '_': '\\_',
+  '{': '\\{',
+  '}': '\\}',
+  '~': '\\textasciitilde{}',
+  '^': '\\textasciicircum{}',
+  '$': '\\$'
+};
+
+// Turns Markdown headings and lists into markers before any escaping happens
+const markBlockStructure = (markdown: string): string => {
+  const output: string[] = [];
+  let openList: 'itemize' | 'enumerate' | null = null;
+
+  const closeList = () => {
+    if (openList) output.push(openList === 'itemize' ? MARK.itemizeEnd : MARK.enumerateEnd);
+    openList = null;
+  };
+
+  for (const line of markdown.split('\n')) {
+    const heading = line.match(/^#{1,6}\s+(.*)$/);
+    const bullet = line.match(/^\s*[-*+]\s+(.*)$/);
+    const numbered = line.match(/^\s*\d+[.)]\s+(.*)$/);
+
+    if (bullet || numbered) {
+      const kind = bullet ? 'itemize' : 'enumerate';
+      if (openList !== kind) {
+        closeList();
+        output.push(kind === 'itemize' ? MARK.itemizeStart : MARK.enumerateStart);
+        openList = kind;
+      }
+      output.push(`${MARK.item}${(bullet || numbered)![1]}`);
+      continue;
+    }
+
+    if (line.trim()) closeList();
+    output.push(heading ? `${MARK.headingStart}${heading[1]}${MARK.headingEnd}` : line);
+  }
+  closeList();
+  return output.join('\n');
+};
+
+const convertLatexText = (text: string): string =>
+  text
+    .replace(/[\\&%#_{}~^$]/g, char => LATEX_ESCAPES[char])
+    .replace(/\*\*(.+?)\*\*/g, '\\textbf{$1}')
+    .replace(/\*(.+?)\*/g, '\\emph{$1}')
+    .replace(/`([^`]+)`/g, '\\texttt{$1}')
+    .split(MARK.headingStart).join('\\paragraph*{')
+    .split(MARK.headingEnd).join('}')
+    .split(MARK.item).join('\\item ')
+    .split(MARK.itemizeStart).join('\\begin{itemize}')
+    .split(MARK.itemizeEnd).join('\\end{itemize}')
+    .split(MARK.enumerateStart).join('\\begin{enumerate}')
+    .split(MARK.enumerateEnd).join('\\end{enumerate}');
+
+const markdownToLatex = (markdown: string): string =>
+  markdown
+    .split(CODE_FENCE_REGEX)
+    .map((block, blockIndex) => {
+      if (blockIndex % 2) {
+        const spec = plotOf(block);
+        return spec ? renderPlotPgf(spec) : `\\begin{verbatim}\n${fenceBody(block)}\n\\end{verbatim}`;
+      }
+      return markBlockStructure(block)
+        .split(MATH_REGEX)
+        .map((segment, index) => {
+          if (!(index % 2)) return convertLatexText(segment);
+          // Display math in $$..$$ form is not valid in plain LaTeX
+          return segment.startsWith('$$') ? `\\[${segment.slice(2, -2)}\\]` : segment;
+        })
+        .join('');
+    })
+    .join('');
+
+// A combined export nests each solution's sections one level down, under its title
+const latexSection = (solution: ExportableSolution, combined: boolean): string[] => {
+  const [section, subsection] = combined ? ['\\subsection*', '\\subsubsection*'] : ['\\section*', '\\subsection*'];
+  const parts = combined ? [`\\section*{${convertLatexText(solution.title || 'Solution')}}`] : [];
+
+  parts.push(
+    `${section}{Question${solution.subject ? ` (${convertLatexText(solution.subject)})` : ''}}`,
+    markdownToLatex(solution.question),
+    '',
+    `${section}{Solution Steps}`
+  );
+
+  solution.steps.forEach((step, index) => {
+    parts.push(`${subsection}{Step ${index + 1}: ${markdownToLatex(step.title)}}`, markdownToLatex(step.content));
+    const equation = stepEquation(step);
+    if (equation) parts.push(`\\[${equation}\\]`);
+    parts.push('');
+  });
+
+  parts.push(`${section}{Final Answer}`, markdownToLatex(answerWithUnits(solution)), '');
+  return parts;
+};
+
+const hasPlots = (solutions: ExportableSolution[]) =>
+  solutions.some(solution => solution.steps.some(step =>
+    step.content.split(CODE_FENCE_REGEX).some((block, index) => index % 2 === 1 && plotOf(block) !== null)
+  ));
+
+export const toLatex = (solutions: ExportableSolution[]): string => [
+  '% Generated by TechyStudent. Compile with pdflatex (use xelatex for non-Latin scripts).',
+  '\\documentclass[11pt]{article}',
+  '\\usepackage[utf8]{inputenc}',
+  '\\usepackage{amsmath,amssymb}',
+  '\\usepackage[margin=1in]{geometry}',
+  // Graphs from ```plot blocks
+  ...(hasPlots(solutions) ? ['\\usepackage{pgfplots}', '\\pgfplotsset{compat=1.16}'] : []),
+  '',
+  '\\begin{document}',
+  '',
+  ...solutions.flatMap(solution => latexSection(solution, solutions.length > 1)),
+  '\\end{document}',
+  ''
+].join('\n');
+
+// --- Anki ---
+
+const escapeHtml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+// Anki renders MathJax from \( \) and \[ \] delimiters only. Graphs become inline SVG.
+const markdownToAnkiHtml = (markdown: string, finalAnswer = ''): string =>
+  markdown
+    .split(CODE_FENCE_REGEX)
+    .map((block, blockIndex) => {
+      if (blockIndex % 2) {
+        const spec = plotOf(block);
+        return spec ? renderPlotSvg(spec, finalAnswer) : `<pre>${escapeHtml(fenceBody(block))}</pre>`;
+      }
+      return block
+        .split(MATH_REGEX)
+        .map((segment, index) => {
+          if (index % 2) {
+            if (segment.startsWith('$$')) return `\\[${escapeHtml(segment.slice(2, -2))}\\]`;
+            if (segment.startsWith('$')) return `\\(${escapeHtml(segment.slice(1, -1))}\\)`;
+            return escapeHtml(segment);
+          }
+          return escapeHtml(segment)
+            .replace(/\*\*(.+?)\*\*/g, '<b>$1</b>')
+            .replace(/`([^`]+)`/g, '<code>$1</code>')
+            .replace(/^#{1,6}\s+(.*)$/gm, '<b>$1</b>')
+            .replace(/\n/g, '<br>');
+        })
+        .join('');
+    })
+    .join('');
+
+const csvField = (value: string) => `"${value.replace(/"/g, '""')}"`;
+
+// One note per solution: question on the front, final answer and steps on the back
+const ankiRow = (solution: ExportableSolution): string => {
+  const steps = solution.steps
+    .map(step => {
+      const equation = stepEquation(step);
+      return `<li><b>${markdownToAnkiHtml(step.title)}</b><br>${markdownToAnkiHtml(step.content, solution.finalAnswer)}${equation ? `<br>\\[${escapeHtml(equation)}\\]` : ''}</li>`;
+    })
+    .join('');
+  const back = `<b>Final Answer:</b> ${markdownToAnkiHtml(answerWithUnits(solution))}<hr><ol>${steps}</ol>`;
+  const tags = solution.subject.replace(/\s+/g, '_') || 'TechyStudent';
+
+  return [markdownToAnkiHtml(solution.question), back, tags].map(csvField).join(',');
+};
+
+export const toAnkiCsv = (solutions: ExportableSolution[]): string =>
+  ['#separator:Comma', '#html:true', '#columns:Front,Back,Tags', ...solutions.map(ankiRow)].join('\n') + '\n';
+
+// --- PDF ---
+
+const PDF_MARGIN_PT = 36;
+
+/**
+ * Renders an element (with its MathJax output) to an A4 PDF and downloads it,
+ * without going through the browser print dialog. Elements marked .no-print are skipped.
+ */
+export const exportPdf = async (element: HTMLElement, filename: string): Promise<void> => {
+  // Loaded on demand: both libraries are large and only needed here
+  const [{ jsPDF }, { default: html2canvas }] = await Promise.all([import('jspdf'), import('html2canvas')]);
+
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    backgroundColor: '#ffffff',
+    ignoreElements: (el) => el.classList.contains('no-print'),
+    // Always export the light theme
+    onclone: (doc) => doc.documentElement.classList.remove('dark')
+  });
+
+  const pdf = new jsPDF({ unit: 'pt', format: 'a4' });
+  const contentWidth = pdf.internal.pageSize.getWidth() - PDF_MARGIN_PT * 2;
+  const contentHeight = pdf.internal.pageSize.getHeight() - PDF_MARGIN_PT * 2;
+  const ptPerPx = contentWidth / canvas.width;
+  const pageHeightPx = Math.floor(contentHeight / ptPerPx);
+
+  for (let offset = 0; offset < canvas.height; offset += pageHeightPx) {
+    const page = document.createElement('canvas');
+    page.width = canvas.width;
+    page.height = Math.min(pageHeightPx, canvas.height - offset);
+    page.getContext('2d')?.drawImage(canvas, 0, offset, canvas.width, page.height, 0, 0, canvas.width, page.height);
+
+    if (offset > 0) pdf.addPage();
+    pdf.addImage(page.toDataURL('image/jpeg', 0.92), 'JPEG', PDF_MARGIN_PT, PDF_MARGIN_PT, contentWidth, page.height * ptPerPx);
+  }
+
+  pdf.save(filename);
+};
+
+// --- Files ---
+
+export const exportFilename = (solutions: ExportableSolution[], extension: string): string => {
+  if (solutions.length > 1) return `techystudent-worksheet.${extension}`;
+  const slug = (solutions[0]?.question || '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 40)
+    .replace(/-+$/, '');
+  return `techystudent-${slug || 'solution'}.${extension}`;
+};
+
+export const downloadFile = (filename: string, content: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
@@ -0,0 +1,57 @@
+import { FollowUpMessage } from '../types';
+import { getSolverProvider } from './providers';
+import { parseSolutionResponse } from './solutionParser';
+import { toExportable, toMarkdown } from './exportService';
+import { MAX_FOLLOW_UP_HISTORY } from './completionPrompts';
+import { MalformedOutputError, toSolverError } from './solverErrors';
+
+// Everything the model needs to answer a question about an already solved problem
+export interface FollowUpContext {
+  inputText: string;
+  images: string[];
+  rawResponse: string;
+  language: string;
+}
+
+// The solution as the student sees it; the Markdown export numbers the steps the same way
+const solutionMarkdown = ({ inputText, rawResponse }: FollowUpContext) => {
+  const parsed = parseSolutionResponse(rawResponse);
+  return parsed ? toMarkdown([toExportable(inputText, parsed)], { embedPlots: false }) : rawResponse;
+};
+
+/**
+ * Answers a follow-up question with the original problem, images, solution and
+ * earlier follow-ups as context. Returns Markdown; failures are SolverErrors.
+ */
+export const askFollowUp = async (
+  context: FollowUpContext,
+  history: FollowUpMessage[],
+  question: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const provider = getSolverProvider();
+  const images = provider.capabilities.images ? context.images : [];
+
+  let answer: string;
+  try {
+    answer = await provider.complete({
+      task: 'follow-up',
+      question: context.inputText,
+      solution: solutionMarkdown(context),
+      // Older turns are dropped to bound the prompt
+      history: history.slice(-MAX_FOLLOW_UP_HISTORY),
+      followUp: question,
+      language: context.language,
+      images
+    }, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Follow-up Error (${provider.name}):`, error);
+    throw toSolverError(error);
+  }
+
+  if (!answer.trim()) {
+    throw new MalformedOutputError("No answer generated. Please try asking again.");
+  }
+  return answer.trim();
+};
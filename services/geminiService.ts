@@ -0,0 +1,141 @@
+import { getSolverProvider, providerForSample } from './providers';
+import { SolveRequest, SolverProvider } from './solverProvider';
+import { getSolutionCache } from './solutionCache';
+import { InvalidInputError, MalformedOutputError, SolverTimeoutError, toSolverError } from './solverErrors';
+import { ProblemClassification, SolveMode } from '../types';
+
+// Longest wait for the first chunk, or between two chunks, before an attempt counts as timed out
+export const REQUEST_TIMEOUT_MS = Number(process.env.SOLVER_TIMEOUT_MS) || 120 * 1000;
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+
+export interface SolveStreamOptions {
+  signal?: AbortSignal;
+  // See buildVerificationFeedback in verificationService
+  feedback?: string;
+  mode?: SolveMode;
+  classification?: ProblemClassification | null;
+  // "Solve again": skip cached answers, here and on the API server
+  bypassCache?: boolean;
+  // Called before the first chunk when the answer was cached, with the time it was first solved
+  onCacheHit?: (createdAt: number) => void;
+  // Called before the first chunk with the model that answered, when the provider relays one (proxy)
+  onModel?: (modelId: string) => void;
+  // Called before the first chunk when the answer comes from an identical request's call in flight
+  onSharedCall?: () => void;
+  // Extra high accuracy sample (1, 2, ...); see solveWithConsensus
+  sample?: number;
+}
+
+const cacheKeyParts = (provider: SolverProvider, { textInput, images, language, mode, classification, sample }: SolveRequest) =>
+  ({ textInput, images, language, modelId: provider.modelId, mode, subject: classification?.subject, sample });
+
+const assertCanReadImages = (provider: SolverProvider, images: string[]) => {
+  if (images.length && !provider.capabilities.images) {
+    throw new InvalidInputError(`The configured model (${provider.modelId}) cannot read images. Please type your question instead.`);
+  }
+};
+
+// Exponential backoff with jitter, unless the model said how long to wait
+const retryDelay = (attempt: number, retryAfter?: number) =>
+  retryAfter !== undefined ? retryAfter * 1000 : BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) + Math.random() * BASE_RETRY_DELAY_MS;
+
+const wait = (ms: number, signal: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Runs one upstream stream with a timeout per attempt, retrying transient failures.
+ * Only failures before the first chunk are retried; after that the student has
+ * already seen part of the answer, so the error is reported instead.
+ */
+async function* resilientStream(start: (signal: AbortSignal) => AsyncIterable<string>, signal: AbortSignal): AsyncGenerator<string> {
+  for (let attempt = 1; ; attempt++) {
+    const controller = new AbortController();
+    const forwardAbort = () => controller.abort(signal.reason);
+    signal.addEventListener('abort', forwardAbort);
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const restartTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(new SolverTimeoutError()), REQUEST_TIMEOUT_MS);
+    };
+
+    let received = false;
+    let retryAfter: number | undefined;
+    try {
+      restartTimer();
+      for await (const chunk of start(controller.signal)) {
+        received = true;
+        yield chunk;
+        restartTimer();
+      }
+      if (!received) throw new MalformedOutputError("No solution generated. Please try again.");
+      return;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      const failure = controller.signal.reason instanceof SolverTimeoutError ? controller.signal.reason : toSolverError(error);
+      if (received || !failure.retryable || attempt >= MAX_ATTEMPTS) throw failure;
+      retryAfter = failure.retryAfter;
+      console.error(`Solver attempt ${attempt} failed, retrying:`, error);
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', forwardAbort);
+    }
+    await wait(retryDelay(attempt, retryAfter), signal);
+  }
+}
+
+// Collects the streamed answer for callers that don't show it as it arrives (e.g. worksheet batches)
+export const generateSolution = async (
+  textInput: string,
+  images: string[],
+  language: string = 'English',
+  classification: ProblemClassification | null = null,
+  signal?: AbortSignal
+): Promise<string> => {
+  let text = '';
+  for await (const chunk of generateSolutionStream(textInput, images, language, { classification, signal })) {
+    text += chunk;
+  }
+  return text;
+};
+
+// Streaming variant: yields text chunks as they arrive. Aborting the signal
+// rethrows the abort error untouched so callers can tell it apart from failures;
+// every other failure is a SolverError (see solverErrors).
+// Repeated questions are answered from the solution cache; identical requests in flight share one call.
+export async function* generateSolutionStream(
+  textInput: string,
+  images: string[],
+  language: string = 'English',
+  { signal, feedback, mode, classification, bypassCache, onCacheHit, onModel, onSharedCall, sample }: SolveStreamOptions = {}
+): AsyncGenerator<string> {
+  const provider = sample ? providerForSample(sample) : getSolverProvider();
+
+  assertCanReadImages(provider, images);
+
+  const request: SolveRequest = { textInput, images, language, feedback, mode, classification, bypassCache, sample };
+  const upstream = (upstreamSignal: AbortSignal, onUpstreamHit?: (createdAt: number) => void, onUpstreamModel?: (modelId: string) => void) =>
+    resilientStream(attemptSignal => provider.solveStream(request, attemptSignal, onUpstreamHit, onUpstreamModel), upstreamSignal);
+  // A re-solve with feedback must reach the model, and its answer is specific to that feedback
+  const chunks = feedback
+    ? upstream(signal || new AbortController().signal, onCacheHit, onModel)
+    : getSolutionCache().stream(cacheKeyParts(provider, request), upstream, { bypass: bypassCache, signal, onHit: onCacheHit, onModel, onShared: onSharedCall });
+
+  try {
+    yield* chunks;
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Solver API Error (${provider.name}):`, error);
+    throw toSolverError(error);
+  }
+}
@@ -0,0 +1,64 @@
+import { HistoryEntry } from '../types';
+import { STORES, updateInStore, withStore } from './indexedDb';
+
+const THUMBNAIL_SIZE = 160;
+
+export const saveHistoryEntry = (entry: HistoryEntry): Promise<IDBValidKey> =>
+  withStore(STORES.history, 'readwrite', store => store.put(entry));
+
+export const getHistoryEntry = (id: string): Promise<HistoryEntry | undefined> =>
+  withStore(STORES.history, 'readonly', store => store.get(id));
+
+export const deleteHistoryEntry = (id: string): Promise<undefined> =>
+  withStore(STORES.history, 'readwrite', store => store.delete(id));
+
+// Newest first
+export const listHistoryEntries = async (): Promise<HistoryEntry[]> => {
+  const entries: HistoryEntry[] = await withStore(STORES.history, 'readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+// One readwrite transaction, so a favourite toggle and a follow-up saved together both stick
+export const updateHistoryEntry = (id: string, changes: Partial<HistoryEntry>): Promise<HistoryEntry | undefined> =>
+  updateInStore<HistoryEntry, HistoryEntry | undefined>(STORES.history, id, entry => entry && { ...entry, ...changes, id });
+
+export interface HistoryFilter {
+  query: string;
+  subject: string; // '' for all subjects
+  favoritesOnly: boolean;
+}
+
+// Full-text search over the question, steps and answer; every query word must match
+export const filterHistory = (entries: HistoryEntry[], { query, subject, favoritesOnly }: HistoryFilter): HistoryEntry[] => {
+  const words = query.toLowerCase().split(/\s+/).filter(Boolean);
+
+  return entries.filter(entry => {
+    if (favoritesOnly && !entry.favorite) return false;
+    if (subject && entry.subject !== subject) return false;
+    if (words.length === 0) return true;
+
+    const haystack = [
+      entry.inputText,
+      entry.finalAnswer,
+      ...entry.steps.map(step => `${step.title} ${step.content}`),
+      ...(entry.followUps || []).map(message => message.content)
+    ].join(' ').toLowerCase();
+    return words.every(word => haystack.includes(word));
+  });
+};
+
+// Small JPEG preview of the uploaded image so history stays light
+export const createThumbnail = (dataUrl: string): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(image.width, image.height));
+      const canvas = document.createElement('canvas');
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas.getContext('2d')?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      resolve(canvas.toDataURL('image/jpeg', 0.7));
+    };
+    image.onerror = () => reject(new Error("Could not read image for thumbnail."));
+    image.src = dataUrl;
+  });
@@ -0,0 +1,109 @@
+import { createContext, useContext } from 'react';
+import { en, MessageCatalog, MessageKey } from './messages/en';
+import { es } from './messages/es';
+import { hi } from './messages/hi';
+import { ar } from './messages/ar';
+import { ur } from './messages/ur';
+
+export interface LanguageOption {
+  // BCP 47 base tag, e.g. "hi"
+  code: string;
+  // English name; this is what the prompt and history entries carry
+  name: string;
+  nativeName: string;
+  rtl?: boolean;
+}
+
+// Languages a solution can be written in. The interface itself is translated
+// only into those with a catalog below.
+export const LANGUAGES: LanguageOption[] = [
+  { code: 'en', name: 'English', nativeName: 'English' },
+  { code: 'es', name: 'Spanish', nativeName: 'Español' },
+  { code: 'hi', name: 'Hindi', nativeName: 'हिन्दी' },
+  { code: 'ar', name: 'Arabic', nativeName: 'العربية', rtl: true },
+  { code: 'ur', name: 'Urdu', nativeName: 'اردو', rtl: true },
+  { code: 'bn', name: 'Bengali', nativeName: 'বাংলা' },
+  { code: 'mr', name: 'Marathi', nativeName: 'मराठी' },
+  { code: 'ta', name: 'Tamil', nativeName: 'தமிழ்' },
+  { code: 'te', name: 'Telugu', nativeName: 'తెలుగు' },
+  { code: 'gu', name: 'Gujarati', nativeName: 'ગુજરાતી' },
+  { code: 'kn', name: 'Kannada', nativeName: 'ಕನ್ನಡ' },
+  { code: 'ml', name: 'Malayalam', nativeName: 'മലയാളം' },
+  { code: 'pa', name: 'Punjabi', nativeName: 'ਪੰਜਾਬੀ' },
+  { code: 'fr', name: 'French', nativeName: 'Français' },
+  { code: 'de', name: 'German', nativeName: 'Deutsch' },
+  { code: 'pt', name: 'Portuguese', nativeName: 'Português' },
+  { code: 'it', name: 'Italian', nativeName: 'Italiano' },
+  { code: 'nl', name: 'Dutch', nativeName: 'Nederlands' },
+  { code: 'pl', name: 'Polish', nativeName: 'Polski' },
+  { code: 'ru', name: 'Russian', nativeName: 'Русский' },
+  { code: 'uk', name: 'Ukrainian', nativeName: 'Українська' },
+  { code: 'tr', name: 'Turkish', nativeName: 'Türkçe' },
+  { code: 'fa', name: 'Persian', nativeName: 'فارسی', rtl: true },
+  { code: 'he', name: 'Hebrew', nativeName: 'עברית', rtl: true },
+  { code: 'sw', name: 'Swahili', nativeName: 'Kiswahili' },
+  { code: 'id', name: 'Indonesian', nativeName: 'Bahasa Indonesia' },
+  { code: 'ms', name: 'Malay', nativeName: 'Bahasa Melayu' },
+  { code: 'fil', name: 'Filipino', nativeName: 'Filipino' },
+  { code: 'vi', name: 'Vietnamese', nativeName: 'Tiếng Việt' },
+  { code: 'th', name: 'Thai', nativeName: 'ไทย' },
+  { code: 'zh', name: 'Chinese (Simplified)', nativeName: '简体中文' },
+  { code: 'ja', name: 'Japanese', nativeName: '日本語' },
+  { code: 'ko', name: 'Korean', nativeName: '한국어' }
+];
+
+const CATALOGS: Record<string, MessageCatalog> = { en, es, hi, ar, ur };
+
+export const UI_LANGUAGES = LANGUAGES.filter(language => CATALOGS[language.code]);
+
+const STORAGE_KEY = 'techystudent.uiLanguage';
+
+export const languageByCode = (code: string): LanguageOption =>
+  LANGUAGES.find(language => language.code === code) || LANGUAGES[0];
+
+/**
+ * The saved interface language, else the first browser language with a
+ * catalog ("ar-EG" -> "ar"), else English.
+ */
+export const detectUiLanguage = (): string => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (saved && CATALOGS[saved]) return saved;
+  } catch {
+    // Storage blocked (private mode); fall through to the browser languages
+  }
+  const preferred = navigator.languages?.length ? navigator.languages : [navigator.language];
+  const match = preferred.map(tag => tag.toLowerCase().split('-')[0]).find(code => CATALOGS[code]);
+  return match || 'en';
+};
+
+export const saveUiLanguage = (code: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, code);
+  } catch (error) {
+    console.error("Language Save Error:", error);
+  }
+};
+
+export type Translate = (key: MessageKey, values?: Record<string, string | number>) => string;
+
+// Keys missing from a catalog fall back to English
+export const createTranslator = (code: string): Translate => (key, values) => {
+  const template = CATALOGS[code]?.[key] ?? en[key];
+  return values
+    ? template.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in values ? String(values[name]) : placeholder))
+    : template;
+};
+
+export interface I18n {
+  language: LanguageOption;
+  t: Translate;
+}
+
+export const I18nContext = createContext<I18n>({ language: LANGUAGES[0], t: createTranslator('en') });
+
+export const useI18n = () => useContext(I18nContext);
+
+// Subjects are stored and sent to the solver in English; this is only their label
+export const subjectName = (t: Translate, subject: string): string =>
+  (`subjects.${subject}` in en ? t(`subjects.${subject}` as MessageKey) : subject);
@@ -0,0 +1,329 @@
+// Prepares uploaded photos before they are sent to a solver: real type detection,
+// conversion of formats models don't accept, EXIF orientation, downscaling and edits.
+
+// Formats every provider accepts as-is; anything else is re-encoded
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+const DEFAULT_MAX_DIMENSION = 2048;
+const JPEG_QUALITY = 0.9;
+// Tried in turn when an image is still over MAX_IMAGE_BYTES
+const FALLBACK_JPEG_QUALITIES = [0.8, 0.7, 0.6, 0.5];
+
+export const MAX_IMAGE_DIMENSION = Number(process.env.IMAGE_MAX_DIMENSION) || DEFAULT_MAX_DIMENSION;
+
+// Decoded size of one image. Below the API server's 4 MB per image, and small enough that
+// MAX_ATTACHMENTS of them, base64-encoded, stay under its 25 MB request limit.
+export const MAX_IMAGE_BYTES = 1.5 * 1024 * 1024;
+
+export class ImageProcessingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImageProcessingError';
+  }
+}
+
+export interface ProcessedImage {
+  dataUrl: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  // Detected type of the uploaded file, before any conversion
+  sourceType: string;
+}
+
+export interface CropRect {
+  // Fractions (0..1) of the rotated image
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ImageEdits {
+  rotation: 0 | 90 | 180 | 270;
+  crop: CropRect | null;
+  // 1 leaves the image unchanged
+  contrast: number;
+}
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+const ascii = (bytes: Uint8Array, start: number, end: number) =>
+  String.fromCharCode(...bytes.subarray(start, end));
+
+/**
+ * Identifies an image from its magic bytes. File extensions and the browser-reported
+ * type are unreliable for phone photos (HEIC files often arrive as "image/jpeg" or "").
+ */
+export const detectImageType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47])) return 'image/png';
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (ascii(bytes, 0, 4) === 'GIF8') return 'image/gif';
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return 'image/webp';
+  if (ascii(bytes, 0, 2) === 'BM') return 'image/bmp';
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+  if (ascii(bytes, 4, 8) === 'ftyp') {
+    const brand = ascii(bytes, 8, 12);
+    if (brand === 'avif' || brand === 'avis') return 'image/avif';
+    if (['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis'].includes(brand)) return 'image/heic';
+    if (['mif1', 'msf1'].includes(brand)) return 'image/heif';
+  }
+  return null;
+};
+
+/**
+ * Reads the EXIF orientation (1-8) from a JPEG, or 1 when there is none.
+ */
+export const readExifOrientation = (bytes: Uint8Array): number => {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const length = view.getUint16(offset + 2);
+    // APP1 segment holding "Exif\0\0"
+    if (marker === 0xffe1 && ascii(bytes, offset + 4, offset + 8) === 'Exif') {
+      const tiff = offset + 10;
+      const little = view.getUint16(tiff) === 0x4949;
+      const ifd = tiff + view.getUint32(tiff + 4, little);
+      const entries = view.getUint16(ifd, little);
+      for (let i = 0; i < entries; i++) {
+        const entry = ifd + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, little) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, little);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+    // Image data starts at SOS; no EXIF after that
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) return 1;
+    offset += 2 + length;
+  }
+  return 1;
+};
+
+export const parseDataUrl = (dataUrl: string): { mimeType: string, data: string } | null => {
+  const match = dataUrl.match(/^data:([\w.+-]+\/[\w.+-]+);base64,(.*)$/s);
+  return match ? { mimeType: match[1], data: match[2] } : null;
+};
+
+const decodedBytes = (dataUrl: string) => Math.floor((dataUrl.length - dataUrl.indexOf(',') - 1) * 0.75);
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new ImageProcessingError("This image could not be opened."));
+    image.src = src;
+  });
+
+const blobToDataUrl = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new ImageProcessingError("This image could not be read."));
+    reader.readAsDataURL(blob);
+  });
+
+// Browsers released since 2020 rotate <img> by EXIF themselves; older ones draw the raw pixels.
+// Probe once with a 2x1 JPEG tagged "rotate 90°": an auto-rotating browser decodes it as 1x2.
+let autoOrientationProbe: Promise<boolean> | null = null;
+const browserAppliesOrientation = (): Promise<boolean> => {
+  if (!autoOrientationProbe) {
+    autoOrientationProbe = (async () => {
+      const canvas = document.createElement('canvas');
+      canvas.width = 2;
+      canvas.height = 1;
+      const jpeg = new Uint8Array(await (await fetch(canvas.toDataURL('image/jpeg'))).arrayBuffer());
+      const exif = [
+        0xff, 0xe1, 0x00, 0x22, 0x45, 0x78, 0x69, 0x66, 0x00, 0x00, // APP1 "Exif\0\0"
+        0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, // big-endian TIFF header
+        0x00, 0x01, 0x01, 0x12, 0x00, 0x03, 0x00, 0x00, 0x00, 0x01, 0x00, 0x06, 0x00, 0x00, // Orientation = 6
+        0x00, 0x00, 0x00, 0x00 // no next IFD
+      ];
+      const tagged = new Uint8Array([...jpeg.subarray(0, 2), ...exif, ...jpeg.subarray(2)]);
+      const url = URL.createObjectURL(new Blob([tagged], { type: 'image/jpeg' }));
+      try {
+        const image = await loadImage(url);
+        return image.naturalWidth === 1;
+      } finally {
+        URL.revokeObjectURL(url);
+      }
+    })().catch(() => true);
+  }
+  return autoOrientationProbe;
+};
+
+// Applies EXIF orientation 2-8 to a canvas context for an image of the given size
+const applyOrientation = (ctx: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: ctx.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: ctx.transform(-1, 0, 0, -1, width, height); break;
+    case 4: ctx.transform(1, 0, 0, -1, 0, height); break;
+    case 5: ctx.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: ctx.transform(0, 1, -1, 0, height, 0); break;
+    case 7: ctx.transform(0, -1, -1, 0, height, width); break;
+    case 8: ctx.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+const outputType = (sourceType: string) =>
+  sourceType === 'image/png' || sourceType === 'image/gif' || sourceType === 'image/bmp' ? 'image/png' : 'image/jpeg';
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new ImageProcessingError("Your browser could not process this image.");
+  return { canvas, ctx };
+};
+
+/**
+ * Encodes a canvas as `mimeType`. When that is over MAX_IMAGE_BYTES (a PNG of a photo easily is)
+ * it becomes a JPEG instead, at lower qualities until it fits.
+ */
+export const canvasToDataUrl = (canvas: HTMLCanvasElement, mimeType: string): string => {
+  const dataUrl = canvas.toDataURL(mimeType, JPEG_QUALITY);
+  if (decodedBytes(dataUrl) <= MAX_IMAGE_BYTES) return dataUrl;
+
+  // JPEG has no transparency, so see-through pixels go on white rather than black
+  const { canvas: flat, ctx } = createCanvas(canvas.width, canvas.height);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(canvas, 0, 0);
+  let jpeg = dataUrl;
+  for (const quality of [JPEG_QUALITY, ...FALLBACK_JPEG_QUALITIES]) {
+    jpeg = flat.toDataURL('image/jpeg', quality);
+    if (decodedBytes(jpeg) <= MAX_IMAGE_BYTES) break;
+  }
+  return jpeg;
+};
+
+/**
+ * Turns an uploaded file into a data URL every provider can read: an upright
+ * PNG, JPEG or WEBP no larger than `maxDimension` on its longest side and MAX_IMAGE_BYTES in size.
+ */
+export const processImageFile = async (file: Blob, maxDimension = MAX_IMAGE_DIMENSION): Promise<ProcessedImage> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const sourceType = detectImageType(bytes) || file.type;
+  if (!sourceType.startsWith('image/')) {
+    throw new ImageProcessingError("This file is not an image. Please upload a JPG, PNG or WEBP photo.");
+  }
+
+  const url = URL.createObjectURL(new Blob([bytes], { type: sourceType }));
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(url);
+  } catch {
+    throw new ImageProcessingError(
+      sourceType === 'image/heic' || sourceType === 'image/heif'
+        ? "HEIC photos can't be opened in this browser. Set your camera to \"Most Compatible\" or convert the photo to JPG."
+        : "This image could not be opened. Please upload a JPG, PNG or WEBP photo."
+    );
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+
+  const orientation = sourceType === 'image/jpeg' ? readExifOrientation(bytes) : 1;
+  const needsRotation = orientation > 1 && !(await browserAppliesOrientation());
+  const swapsSides = needsRotation && orientation >= 5;
+  const rawWidth = image.naturalWidth;
+  const rawHeight = image.naturalHeight;
+  const uprightWidth = swapsSides ? rawHeight : rawWidth;
+  const uprightHeight = swapsSides ? rawWidth : rawHeight;
+  const scale = Math.min(1, maxDimension / Math.max(uprightWidth, uprightHeight));
+
+  // Already small, upright and in an accepted format: send the original bytes
+  if (scale === 1 && !needsRotation && orientation === 1 && PASSTHROUGH_TYPES.includes(sourceType) && bytes.length <= MAX_IMAGE_BYTES) {
+    const dataUrl = await blobToDataUrl(new Blob([bytes], { type: sourceType }));
+    return { dataUrl, mimeType: sourceType, width: uprightWidth, height: uprightHeight, sourceType };
+  }
+
+  const width = Math.round(uprightWidth * scale);
+  const height = Math.round(uprightHeight * scale);
+  const { canvas, ctx } = createCanvas(width, height);
+  ctx.scale(scale, scale);
+  if (needsRotation) applyOrientation(ctx, orientation, rawWidth, rawHeight);
+  ctx.drawImage(image, 0, 0);
+
+  const dataUrl = canvasToDataUrl(canvas, outputType(sourceType));
+  return { dataUrl, mimeType: parseDataUrl(dataUrl)!.mimeType, width, height, sourceType };
+};
+
+// Stretches each channel around mid-grey; done on pixels because canvas filters are missing in Safari
+const boostContrast = (ctx: CanvasRenderingContext2D, width: number, height: number, contrast: number) => {
+  const imageData = ctx.getImageData(0, 0, width, height);
+  const pixels = imageData.data;
+  for (let i = 0; i < pixels.length; i += 4) {
+    pixels[i] = (pixels[i] - 128) * contrast + 128;
+    pixels[i + 1] = (pixels[i + 1] - 128) * contrast + 128;
+    pixels[i + 2] = (pixels[i + 2] - 128) * contrast + 128;
+  }
+  ctx.putImageData(imageData, 0, 0);
+};
+
+/**
+ * Applies the editor's rotate, crop and contrast settings to an already processed image.
+ */
+export const editImage = async (dataUrl: string, edits: ImageEdits): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const mimeType = outputType(parseDataUrl(dataUrl)?.mimeType || 'image/jpeg');
+  const quarterTurn = edits.rotation === 90 || edits.rotation === 270;
+  const rotatedWidth = quarterTurn ? image.naturalHeight : image.naturalWidth;
+  const rotatedHeight = quarterTurn ? image.naturalWidth : image.naturalHeight;
+
+  const rotated = createCanvas(rotatedWidth, rotatedHeight);
+  rotated.ctx.translate(rotatedWidth / 2, rotatedHeight / 2);
+  rotated.ctx.rotate((edits.rotation * Math.PI) / 180);
+  rotated.ctx.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+
+  const crop = edits.crop || { x: 0, y: 0, width: 1, height: 1 };
+  const sx = Math.round(crop.x * rotatedWidth);
+  const sy = Math.round(crop.y * rotatedHeight);
+  const width = Math.max(1, Math.round(crop.width * rotatedWidth));
+  const height = Math.max(1, Math.round(crop.height * rotatedHeight));
+
+  const output = createCanvas(width, height);
+  output.ctx.drawImage(rotated.canvas, sx, sy, width, height, 0, 0, width, height);
+  if (edits.contrast !== 1) boostContrast(output.ctx, width, height, edits.contrast);
+
+  return canvasToDataUrl(output.canvas, mimeType);
+};
+
+// 17x16 samples give 16x16 = 256 comparison bits
+const HASH_SIZE = 16;
+// Luma steps smaller than this count as flat, so JPEG noise on blank paper doesn't flip bits
+const HASH_FLAT_THRESHOLD = 3;
+
+/**
+ * Difference hash of an image as 64 hex digits: one bit per pair of neighbouring pixels
+ * in a small grayscale thumbnail. Re-encoded or resized copies of the same photo
+ * usually hash alike, so the solution cache can recognise a re-uploaded question.
+ */
+export const perceptualHash = async (dataUrl: string): Promise<string> => {
+  const image = await loadImage(dataUrl);
+  const { ctx } = createCanvas(HASH_SIZE + 1, HASH_SIZE);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(image, 0, 0, HASH_SIZE + 1, HASH_SIZE);
+  const pixels = ctx.getImageData(0, 0, HASH_SIZE + 1, HASH_SIZE).data;
+  const luma = (x: number, y: number) => {
+    const i = (y * (HASH_SIZE + 1) + x) * 4;
+    return pixels[i] * 0.299 + pixels[i + 1] * 0.587 + pixels[i + 2] * 0.114;
+  };
+
+  let hash = '';
+  for (let y = 0; y < HASH_SIZE; y++) {
+    for (let x = 0; x < HASH_SIZE; x += 4) {
+      let nibble = 0;
+      for (let bit = 0; bit < 4; bit++) {
+        nibble = (nibble << 1) | (luma(x + bit, y) - luma(x + bit + 1, y) > HASH_FLAT_THRESHOLD ? 1 : 0);
+      }
+      hash += nibble.toString(16);
+    }
+  }
+  return hash;
+};
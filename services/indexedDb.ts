@@ -0,0 +1,83 @@
+// Minimal promise wrapper around the browser's IndexedDB.
+// All object stores live in one database; add new stores here and bump DB_VERSION.
+
+const DB_NAME = 'techystudent';
+const DB_VERSION = 3;
+
+export const STORES = {
+  history: 'history',
+  practiceScores: 'practiceScores',
+  solutionCache: 'solutionCache'
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.history)) {
+          const history = db.createObjectStore(STORES.history, { keyPath: 'id' });
+          history.createIndex('createdAt', 'createdAt');
+        }
+        if (!db.objectStoreNames.contains(STORES.practiceScores)) {
+          db.createObjectStore(STORES.practiceScores, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.solutionCache)) {
+          db.createObjectStore(STORES.solutionCache, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+// Runs a single request against a store in its own transaction
+export const withStore = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(storeName, mode).objectStore(storeName)));
+};
+
+// Reads a record and writes back `update(existing)` in one readwrite transaction,
+// so overlapping updates to the same key can't overwrite each other. Nothing is
+// written when `update` returns undefined.
+export const updateInStore = async <T, U extends T | undefined = T>(
+  storeName: StoreName,
+  key: IDBValidKey,
+  update: (existing: T | undefined) => U
+): Promise<U> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite');
+    const store = transaction.objectStore(storeName);
+    const request = store.get(key);
+    let value: U;
+    request.onsuccess = () => {
+      value = update(request.result);
+      if (value !== undefined) store.put(value);
+    };
+    transaction.oncomplete = () => resolve(value);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
@@ -0,0 +1,124 @@
+// Converts the LaTeX subset used in solver answers into math.js expression syntax.
+// Anything it cannot translate is left in place and will fail at math.js parse time.
+
+const FUNCTION_NAMES = [
+  'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'exp', 'log', 'log10', 'sqrt', 'abs', 'nthRoot'
+];
+
+const UNICODE_REPLACEMENTS: [RegExp, string][] = [
+  [/[−–]/g, '-'],
+  [/[×·]/g, '*'],
+  [/÷/g, '/'],
+  [/²/g, '^2'],
+  [/³/g, '^3'],
+  [/π/g, 'pi'],
+  [/√/g, 'sqrt']
+];
+
+// Reads a {...} group (or a single token) starting at `start`; returns its body and the index after it
+const readArgument = (text: string, start: number): { body: string, end: number } => {
+  let i = start;
+  while (text[i] === ' ') i++;
+
+  if (text[i] !== '{') {
+    return { body: text[i] || '', end: i + 1 };
+  }
+
+  let depth = 0;
+  for (let j = i; j < text.length; j++) {
+    if (text[j] === '{') depth++;
+    else if (text[j] === '}') {
+      depth--;
+      if (depth === 0) return { body: text.slice(i + 1, j), end: j + 1 };
+    }
+  }
+  return { body: text.slice(i + 1), end: text.length };
+};
+
+// Rewrites every occurrence of a LaTeX command with `argCount` brace arguments
+const replaceCommand = (
+  text: string,
+  command: RegExp,
+  argCount: number,
+  format: (args: string[], option?: string) => string
+): string => {
+  let output = '';
+  let rest = text;
+  let match: RegExpMatchArray | null;
+
+  while ((match = rest.match(command)) && match.index !== undefined) {
+    output += rest.slice(0, match.index);
+    let cursor = match.index + match[0].length;
+
+    // Optional [..] argument, as in \sqrt[3]{x}
+    let option: string | undefined;
+    if (rest[cursor] === '[') {
+      const close = rest.indexOf(']', cursor);
+      if (close !== -1) {
+        option = rest.slice(cursor + 1, close);
+        cursor = close + 1;
+      }
+    }
+
+    const args: string[] = [];
+    for (let n = 0; n < argCount; n++) {
+      const { body, end } = readArgument(rest, cursor);
+      args.push(convert(body));
+      cursor = end;
+    }
+
+    output += format(args, option && convert(option));
+    rest = rest.slice(cursor);
+  }
+  return output + rest;
+};
+
+const convert = (latex: string): string => {
+  let text = latex;
+  for (const [pattern, replacement] of UNICODE_REPLACEMENTS) {
+    text = text.replace(pattern, replacement);
+  }
+
+  text = text
+    .replace(/\$/g, '')
+    .replace(/\\(?:left|right|displaystyle)\b/g, '')
+    .replace(/\\(?:quad|qquad)\b|\\[,;:! ]/g, ' ')
+    .replace(/\\(?:text|mathrm|mathbf|operatorname)\{([^}]*)\}/g, (_, body: string) =>
+      FUNCTION_NAMES.includes(body.trim()) ? body.trim() : ' '
+    )
+    .replace(/\\(?:cdot|times)\b/g, '*')
+    .replace(/\\div\b/g, '/')
+    .replace(/\\pi\b/g, ' pi ')
+    .replace(/\\infty\b/g, 'Infinity')
+    .replace(/\\ln\b/g, ' log')
+    .replace(/\\log\b/g, ' log10')
+    .replace(/\\(arcsin|arccos|arctan|sinh|cosh|tanh|sin|cos|tan|sec|csc|cot|exp)\b/g, ' $1');
+
+  text = replaceCommand(text, /\\[dt]?frac/, 2, ([numerator, denominator]) => `((${numerator})/(${denominator}))`);
+  text = replaceCommand(text, /\\sqrt/, 1, ([radicand], index) =>
+    index ? `nthRoot(${radicand}, ${index})` : `sqrt(${radicand})`
+  );
+
+  return text
+    .replace(/\^\{/g, '^(')
+    .replace(/[{[]/g, '(')
+    .replace(/[}\]]/g, ')')
+    // "sin x" -> "sin(x)"
+    .replace(new RegExp(`\\b(${FUNCTION_NAMES.join('|')})\\s+([a-zA-Z0-9.]+)`, 'g'), '$1($2)')
+    // "x(x+1)" and ")(" are multiplications, not function calls
+    .replace(/(^|[^a-zA-Z])([a-zA-Z])\s*\(/g, '$1$2*(')
+    .replace(/\)\s*\(/g, ')*(')
+    .replace(/\s+/g, ' ')
+    .trim();
+};
+
+export const latexToExpression = (latex: string): string => convert(latex);
+
+/**
+ * Splits "a \pm b" into its "+" and "-" variants so each root can be checked separately.
+ */
+export const expandPlusMinus = (latex: string): string[] => {
+  if (!/\\pm|±/.test(latex)) return [latex];
+  return [latex.replace(/\\pm|±/, '+'), latex.replace(/\\pm|±/, '-')].flatMap(expandPlusMinus);
+};
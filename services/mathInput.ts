@@ -0,0 +1,262 @@
+// Turns what students type into LaTeX the solver (and MathJax) reads unambiguously:
+// "x^2+3x/2 = 5" becomes "$x^{2}+\frac{3x}{2}=5$". Words around the math are kept,
+// and anything already between math delimiters is passed through untouched.
+
+type TokenType = 'number' | 'word' | 'op' | 'open' | 'close' | 'comma' | 'space' | 'latex' | 'other';
+
+interface Token {
+  type: TokenType;
+  text: string;
+}
+
+// A parsed piece; `inner` is set when it was one bracketed group, so a/b and x^(...) can drop the brackets
+interface Part {
+  tex: string;
+  inner?: string;
+}
+
+// Existing $...$, $$...$$, \(...\) and \[...\] segments
+const MATH_SEGMENT = /(\$\$[\s\S]*?\$\$|\$[^$]*\$|\\\([\s\S]*?\\\)|\\\[[\s\S]*?\\\])/;
+
+const TOKEN = /(\d+(?:\.\d+)?|\.\d+)|([A-Za-z]+)|(<=|>=|!=|\+-|->|[=<>+\-*/^_])|([([])|([)\]])|(,)|(\s+)|(\\[A-Za-z]+|\\\\|[{}&])|([\s\S])/g;
+const TOKEN_TYPES: TokenType[] = ['number', 'word', 'op', 'open', 'close', 'comma', 'space', 'latex', 'other'];
+
+const FUNCTIONS = [
+  'arcsin', 'arccos', 'arctan', 'sinh', 'cosh', 'tanh',
+  'sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'log', 'ln', 'exp', 'lim', 'max', 'min', 'det'
+];
+
+const GREEK = [
+  'alpha', 'beta', 'gamma', 'delta', 'epsilon', 'theta', 'lambda', 'mu', 'pi', 'rho', 'sigma', 'tau', 'phi', 'omega',
+  'Gamma', 'Delta', 'Theta', 'Lambda', 'Sigma', 'Phi', 'Omega'
+];
+
+const OPERATOR_TEX: Record<string, string> = {
+  '<=': '\\le', '>=': '\\ge', '!=': '\\ne', '+-': '\\pm', '->': '\\to', '*': '\\cdot'
+};
+
+// Joining operators between terms; * / ^ _ bind tighter and are handled by the parser
+const JOINERS = ['=', '<', '>', '<=', '>=', '!=', '+', '-', '+-', '->'];
+
+// English words that are also single letters are math only next to an operator
+const ENGLISH_LETTERS = ['a', 'A', 'I'];
+
+const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(TOKEN), match => ({ type: TOKEN_TYPES[match.slice(1).findIndex(group => group !== undefined)], text: match[0] }));
+
+const isNamed = (word: string) => FUNCTIONS.includes(word) || GREEK.includes(word) || ['sqrt', 'cbrt', 'abs', 'inf', 'infinity'].includes(word);
+
+// Keeps "\alpha x" from running together into "\alphax"
+const glue = (a: string, b: string) => {
+  if (/\\[A-Za-z]+$/.test(a) && /^[A-Za-z]/.test(b)) return `${a} ${b}`;
+  if (/\d$/.test(a) && /^\d/.test(b)) return `${a}\\cdot ${b}`;
+  return a + b;
+};
+
+const neighbour = (tokens: Token[], index: number, step: 1 | -1) => {
+  let i = index + step;
+  while (tokens[i]?.type === 'space') i += step;
+  return tokens[i];
+};
+
+const isMathToken = (tokens: Token[], index: number): boolean => {
+  const token = tokens[index];
+  if (token.type !== 'word') return ['number', 'op', 'open', 'close', 'comma', 'latex'].includes(token.type);
+
+  const nextToOperator = neighbour(tokens, index, -1)?.type === 'op' || neighbour(tokens, index, 1)?.type === 'op';
+  if (ENGLISH_LETTERS.includes(token.text)) return nextToOperator;
+  if (token.text.length === 1 || isNamed(token.text)) return true;
+
+  // Longer words count when written against a number or operator, as in "2xy" or "xy^2"; not "well-known"
+  const glued = (t?: Token) => t && (t.type === 'number' || t.type === 'latex' || (t.type === 'op' && t.text !== '-'));
+  return !!(glued(tokens[index - 1]) || glued(tokens[index + 1]));
+};
+
+const isBalanced = (tokens: Token[]) => {
+  let depth = 0;
+  for (const { type, text } of tokens) {
+    if (type === 'open' || text === '{') depth++;
+    if (type === 'close' || text === '}') depth--;
+    if (depth < 0) return false;
+  }
+  return depth === 0;
+};
+
+// Something worth typesetting: an operator, a LaTeX command, or a function call like sqrt(2)
+const isMathRun = (tokens: Token[]) =>
+  isBalanced(tokens) && tokens.some((token, i) =>
+    token.type === 'op' || token.type === 'latex' ||
+    (token.type === 'word' && isNamed(token.text) && !GREEK.includes(token.text) && tokens[i + 1]?.type === 'open'));
+
+class Parser {
+  private pos = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): string {
+    const tex = this.expression();
+    if (this.pos < this.tokens.length) throw new Error(`Unexpected "${this.tokens[this.pos].text}"`);
+    return tex;
+  }
+
+  private peek() {
+    return this.tokens[this.pos];
+  }
+
+  private next() {
+    const token = this.tokens[this.pos++];
+    if (!token) throw new Error('Unexpected end of expression');
+    return token;
+  }
+
+  private expression(): string {
+    let tex = this.term().tex;
+    for (let token = this.peek(); token && (token.type === 'comma' || (token.type === 'op' && JOINERS.includes(token.text))); token = this.peek()) {
+      this.pos++;
+      tex = glue(glue(tex, token.type === 'comma' ? ',' : OPERATOR_TEX[token.text] || token.text), this.term().tex);
+    }
+    return tex;
+  }
+
+  private startsAtom(token?: Token) {
+    return !!token && (token.type === 'number' || token.type === 'word' || token.type === 'open');
+  }
+
+  // A product or quotient; a/b takes everything multiplied so far as the numerator and one factor as the denominator
+  private term(): Part {
+    let sign = '';
+    const first = this.peek();
+    if (first?.type === 'op' && ['-', '+', '+-'].includes(first.text)) {
+      this.pos++;
+      sign = OPERATOR_TEX[first.text] || first.text;
+    }
+
+    let part = this.power();
+    for (let token = this.peek(); token; token = this.peek()) {
+      if (token.text === '*') {
+        this.pos++;
+        part = { tex: glue(part.tex, `\\cdot ${this.power().tex}`) };
+      } else if (token.text === '/') {
+        this.pos++;
+        const denominator = this.power();
+        part = { tex: `\\frac{${part.inner ?? part.tex}}{${denominator.inner ?? denominator.tex}}` };
+      } else if (this.startsAtom(token)) {
+        part = { tex: glue(part.tex, this.power().tex) };
+      } else {
+        break;
+      }
+    }
+    return sign ? { tex: glue(sign, part.tex) } : part;
+  }
+
+  private power(): Part {
+    let part = this.atom();
+    for (let token = this.peek(); token?.text === '^' || token?.text === '_'; token = this.peek()) {
+      this.pos++;
+      part = { tex: `${part.tex}${token.text}{${this.script()}}` };
+    }
+    return part;
+  }
+
+  // The exponent or subscript: one signed atom, e.g. x^-1 or e^(2x)
+  private script(): string {
+    const sign = this.peek()?.text === '-' ? (this.pos++, '-') : '';
+    const part = this.atom();
+    return sign + (part.inner ?? part.tex);
+  }
+
+  private group(): Part {
+    const open = this.next();
+    const inner = this.expression();
+    const close = this.next();
+    if (close.type !== 'close') throw new Error(`Expected a closing bracket, got "${close.text}"`);
+    return { tex: `${open.text}${inner}${close.text}`, inner };
+  }
+
+  private atom(): Part {
+    const token = this.peek();
+    if (token?.type === 'open') return this.group();
+    this.next();
+    if (token.type === 'number') return { tex: token.text };
+    if (token.type !== 'word') throw new Error(`Unexpected "${token.text}"`);
+
+    const word = token.text;
+    if (word === 'sqrt' || word === 'cbrt' || word === 'abs') {
+      const argument = this.atom();
+      const body = argument.inner ?? argument.tex;
+      if (word === 'abs') return { tex: `\\left|${body}\\right|` };
+      return { tex: word === 'cbrt' ? `\\sqrt[3]{${body}}` : `\\sqrt{${body}}` };
+    }
+    if (word === 'inf' || word === 'infinity') return { tex: '\\infty' };
+    if (GREEK.includes(word)) return { tex: `\\${word}` };
+    if (!FUNCTIONS.includes(word)) return { tex: word };
+
+    // sin^2(x), log_2 x, lim_(x->0) f(x): scripts on the name, then the argument
+    let name = `\\${word}`;
+    for (let next = this.peek(); next?.text === '^' || next?.text === '_'; next = this.peek()) {
+      this.pos++;
+      name = `${name}${next.text}{${this.script()}}`;
+    }
+    if (!this.startsAtom(this.peek())) return { tex: name };
+    // A limit applies to the whole product or quotient after it: lim_(x->0) sin(x)/x
+    return { tex: glue(name, word === 'lim' ? this.term().tex : this.power().tex) };
+  }
+}
+
+// The ASCII math in one run of tokens as LaTeX, or null when it doesn't parse
+const convertRun = (tokens: Token[]): string | null => {
+  const text = tokens.map(token => token.text).join('');
+  // Already LaTeX: only the delimiters are missing
+  if (tokens.some(token => token.type === 'latex')) return text;
+  try {
+    return new Parser(tokens.filter(token => token.type !== 'space')).parse();
+  } catch {
+    return null;
+  }
+};
+
+// Wraps each stretch of math in plain text as $...$
+const convertPlainText = (text: string): string => {
+  const tokens = tokenize(text);
+  let output = '';
+  let i = 0;
+
+  while (i < tokens.length) {
+    if (!isMathToken(tokens, i)) {
+      output += tokens[i++].text;
+      continue;
+    }
+
+    let end = i;
+    while (end < tokens.length && (tokens[end].type === 'space' || isMathToken(tokens, end))) end++;
+    // Trailing spaces, commas and dangling operators belong to the sentence
+    let runEnd = end;
+    while (runEnd > i && ['space', 'comma', 'op'].includes(tokens[runEnd - 1].type)) runEnd--;
+
+    const run = tokens.slice(i, runEnd);
+    const tex = run.length && isMathRun(run) ? convertRun(run) : null;
+    output += tex !== null ? `$${tex}$` : run.map(token => token.text).join('');
+    output += tokens.slice(runEnd, end).map(token => token.text).join('');
+    i = end;
+  }
+  return output;
+};
+
+/**
+ * The question as sent to the solver: ASCII math such as sqrt(x+1) >= 2/3 is rewritten
+ * as delimited LaTeX, and LaTeX typed without delimiters is wrapped in $...$.
+ */
+export const toSolverInput = (text: string): string =>
+  text
+    .split(MATH_SEGMENT)
+    .map((segment, index) => (index % 2 === 1 ? segment : convertPlainText(segment)))
+    .join('');
+
+// True when the cursor is between math delimiters, so palette templates go in without their own
+export const isInsideMath = (text: string, cursor: number): boolean => {
+  const before = text.slice(0, cursor).split(MATH_SEGMENT).filter((_, index) => index % 2 === 0).join('');
+  return (before.match(/(?<!\\)\$/g) || []).length % 2 === 1 || /\\[([](?![\s\S]*\\[)\]])/.test(before);
+};
+
+// Whether the text has anything the preview would typeset
+export const containsMath = (text: string): boolean => /\$|\\[([]/.test(toSolverInput(text));
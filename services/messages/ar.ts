@@ -0,0 +1,304 @@
+import { MessageCatalog } from './en';
+
+export const ar: MessageCatalog = {
+  'nav.solver': 'الحل',
+  'nav.home': 'الرئيسية',
+  'nav.history': 'السجل',
+  'nav.about': 'من نحن',
+  'nav.aboutUs': 'من نحن',
+  'nav.contact': 'اتصل بنا',
+  'nav.privacy': 'سياسة الخصوصية',
+  'nav.terms': 'الشروط والأحكام',
+  'nav.disclaimer': 'إخلاء المسؤولية',
+  'header.theme': 'تبديل الوضع الداكن',
+  'header.uiLanguage': 'لغة الواجهة',
+
+  'hero.titleBefore': 'أتقن',
+  'hero.titleHighlight': 'واجباتك',
+  'hero.titleAfter': 'بالذكاء الاصطناعي',
+  'hero.subtitle': 'حلول فورية خطوة بخطوة للرياضيات والفيزياء والكيمياء. ارفع صورة أو اكتب سؤالك. مجاني وسريع.',
+  'hero.math': 'الرياضيات',
+  'hero.chemistry': 'الكيمياء',
+  'hero.physics': 'الفيزياء',
+
+  'upload.preparing': 'جارٍ تجهيز الصورة...',
+  'upload.prompt': 'أفلت الصور أو ملف PDF هنا، أو الصقها، أو انقر للرفع',
+  'upload.formats': 'يدعم JPG وPNG وWEBP وHEIC وPDF · حتى {count} صفحات',
+  'upload.limit': 'يمكنك إضافة {count} صور أو صفحات كحد أقصى لكل سؤال.',
+  'upload.failed': 'تعذّر فتح هذا الملف. جرّب صورة أو ملف PDF آخر.',
+
+  'camera.open': 'استخدم الكاميرا',
+  'camera.title': 'المسح بالكاميرا',
+  'camera.close': 'إغلاق',
+  'camera.starting': 'جارٍ تشغيل الكاميرا...',
+  'camera.searching': 'وجّه الكاميرا نحو السؤال',
+  'camera.holdSteady': 'تم العثور على الصفحة، ثبّت الكاميرا...',
+  'camera.found': 'تم العثور على الصفحة، اضغط التقاط',
+  'camera.processing': 'جارٍ تقويم الصفحة...',
+  'camera.auto': 'التقاط تلقائي',
+  'camera.scanMode': 'مسح بالأبيض والأسود',
+  'camera.capture': 'التقاط',
+  'camera.retake': 'إعادة الالتقاط',
+  'camera.use': 'استخدم الصورة',
+  'camera.label': 'مسح بالكاميرا',
+  'camera.error.unsupported': 'لا يمكن لهذا المتصفح فتح الكاميرا. ارفع صورة بدلًا من ذلك.',
+  'camera.error.denied': 'تم حظر الوصول إلى الكاميرا. اسمح به من إعدادات المتصفح أو ارفع صورة.',
+  'camera.error.not_found': 'لم يتم العثور على كاميرا في هذا الجهاز. ارفع صورة بدلًا من ذلك.',
+  'camera.error.failed': 'تعذّر تشغيل الكاميرا. أغلق التطبيقات الأخرى التي تستخدمها وحاول مرة أخرى.',
+
+  'form.or': 'أو اكتب السؤال',
+  'form.placeholder': 'اكتب سؤالك في الرياضيات أو الفيزياء أو الكيمياء هنا...',
+  'form.empty': 'يرجى كتابة سؤال أو رفع صورة.',
+  'form.solveLanguage': 'لغة الحل',
+  'form.modeSolve': 'حل كامل',
+  'form.modeTutor': 'المعلّم (التلميحات أولاً)',
+  'form.modeHint': 'يعرض وضع المعلّم التلميحات أولاً ثم يكشف الخطوات واحدة تلو الأخرى',
+  'form.autoResolve': 'أعد الحل إذا فشل التحقق',
+  'form.autoResolveHint': 'إذا فشلت إجابة رياضية في التحقق التلقائي، يُعاد الحل مرة أخرى مع شرح سبب الفشل للذكاء الاصطناعي',
+  'form.highAccuracy': 'دقة عالية',
+  'form.highAccuracyHint': 'يحل السؤال {count} مرات بشكل مستقل ويعرض الإجابة التي يتفق عليها أغلبها',
+  'form.worksheet': 'ورقة العمل كاملة',
+  'form.worksheetHint': 'اعثر على كل الأسئلة في ورقة العمل المرفوعة وحُلّ ما تختاره منها',
+  'form.findQuestions': 'ابحث عن الأسئلة',
+  'form.solve': 'حُلّ الآن',
+
+  'math.symbols': 'رموز رياضية',
+  'math.hint': 'اكتب x^2 أو sqrt(x) أو a/b أو استخدم الرموز',
+  'math.preview': 'معاينة',
+  'math.tab.basic': 'أساسي',
+  'math.tab.calculus': 'تفاضل وتكامل',
+  'math.tab.greek': 'يونانية',
+  'math.tab.matrices': 'مصفوفات',
+
+  'loading.resolving': 'فشلت الإجابة في التحقق، جارٍ إعادة الحل...',
+  'loading.scanning': 'جارٍ قراءة السؤال...',
+  'loading.computing': 'الذكاء الاصطناعي يحسب الحل...',
+  'loading.wait': 'يرجى الانتظار بينما نجري الحسابات.',
+  'loading.cancel': 'إلغاء',
+
+  'result.writing': 'جارٍ كتابة الحل...',
+  'result.sampling': 'جارٍ مقارنة الحلول ({settled}/{total})...',
+  'result.newQuestion': 'سؤال جديد',
+  'result.share': 'مشاركة الرابط',
+  'result.cached': 'إجابة محفوظة',
+  'result.solveAgain': 'حل مرة أخرى',
+  'share.title': 'حل من TechyStudent',
+  'share.text': 'شاهد هذا الحل من TechyStudent AI!',
+  'share.copied': 'تم نسخ الرابط إلى الحافظة!',
+
+  'error.tryAgain': 'حاول مرة أخرى',
+  'error.retryIn': 'حاول مرة أخرى بعد {seconds} ث',
+  'error.retryAt': 'حاول مرة أخرى عند {time}',
+  'error.edit': 'تعديل السؤال',
+  'error.crop': 'قص الصورة',
+  'error.contact': 'اتصل بنا',
+  'error.auth.title': 'أداة الحل غير مُعدّة بشكل صحيح.',
+  'error.auth.hint': 'تم رفض مفتاح النموذج الخاص بالموقع. يرجى إبلاغنا لنتمكن من إصلاحه.',
+  'error.rate_limit.title': 'طلبات كثيرة جداً.',
+  'error.rate_limit.hint': 'أداة الحل مشغولة الآن. انتظر قليلاً ثم حاول مرة أخرى.',
+  'error.safety.title': 'تعذّرت الإجابة عن هذا السؤال.',
+  'error.safety.hint': 'رفض النموذج الإجابة. أعد صياغة السؤال أو أزل من الصورة كل ما لا يتعلق به.',
+  'error.invalid_input.title': 'تعذّرت قراءة السؤال.',
+  'error.invalid_input.hint': 'قص الصورة لتظهر السؤال فقط، أو استخدم صورة أصغر، أو اكتب السؤال بدلاً من ذلك.',
+  'error.timeout.title': 'استغرقت أداة الحل وقتاً طويلاً.',
+  'error.timeout.hint': 'قد تنتهي مهلة المسائل الطويلة. حاول مرة أخرى أو قسّم المسألة إلى أجزاء أصغر.',
+  'error.network.title': 'مشكلة في الاتصال.',
+  'error.network.hint': 'تحقق من اتصالك بالإنترنت وحاول مرة أخرى.',
+  'error.malformed_output.title': 'وصلت الإجابة مشوّهة.',
+  'error.malformed_output.hint': 'يحدث هذا أحياناً. عادةً ما تنجح المحاولة مرة أخرى.',
+  'error.unknown.title': 'عذراً! حدث خطأ ما.',
+  'error.unknown.hint': 'يرجى المحاولة مرة أخرى بعد قليل.',
+
+  'footer.tagline': 'نمكّن الطلاب بحلول فورية ودقيقة ومشروحة من أجل مستقبل دراسي أكثر إشراقاً.',
+  'footer.legal': 'قانوني',
+  'footer.company': 'الشركة',
+  'footer.config': 'الإعدادات',
+  'footer.rights': '© {year} TechyStudent. جميع الحقوق محفوظة.',
+
+  'config.title': 'إعدادات الموقع',
+  'config.publisherId': 'معرّف ناشر AdSense',
+  'config.note': 'هذه لوحة إعدادات تجريبية. في النشر الفعلي تُحفظ هذه القيم في متغيرات البيئة أو في قاعدة بيانات.',
+  'config.save': 'حفظ الإعدادات',
+
+  'about.title': 'من نحن',
+  'about.intro': 'مرحباً بك في TechyStudent، مصدرك الأول للمساعدة التعليمية المدعومة بالذكاء الاصطناعي. نحن ملتزمون بتقديم أفضل تجربة تدريس آلية، مع التركيز على الموثوقية ووضوح الخطوات ودعم مواد متعددة.',
+  'about.history': 'تأسست TechyStudent عام 2024 وقطعت شوطاً طويلاً منذ بدايتها. عندما بدأنا، دفعنا شغفنا بـ"جعل التعليم متاحاً للجميع" إلى إطلاق هذه الأداة.',
+  'about.closing': 'نأمل أن تستمتع بمنتجاتنا بقدر ما نستمتع بتقديمها لك. إذا كانت لديك أي أسئلة أو ملاحظات، فلا تتردد في التواصل معنا.',
+
+  'contact.title': 'اتصل بنا',
+  'contact.intro': 'يسعدنا أن نسمع منك!',
+  'contact.email': 'راسلنا عبر البريد',
+  'contact.address': 'العنوان البريدي',
+
+  'privacy.title': 'سياسة الخصوصية',
+  'privacy.updated': 'آخر تحديث: {date}',
+  'privacy.intro': 'في TechyStudent، المتاح عبر techystudent.com، تُعد خصوصية زوارنا من أهم أولوياتنا. توضح وثيقة سياسة الخصوصية هذه أنواع المعلومات التي يجمعها TechyStudent ويسجلها وكيف نستخدمها.',
+  'privacy.logFilesTitle': 'ملفات السجل',
+  'privacy.logFiles': 'يتبع TechyStudent إجراءً معتاداً في استخدام ملفات السجل. تسجل هذه الملفات الزوار عند زيارتهم للمواقع. تشمل المعلومات التي تجمعها عناوين بروتوكول الإنترنت (IP) ونوع المتصفح ومزود خدمة الإنترنت (ISP) والتاريخ والوقت وصفحات الإحالة/الخروج وربما عدد النقرات.',
+  'privacy.cookiesTitle': 'ملفات تعريف الارتباط وإشارات الويب',
+  'privacy.cookies': 'مثل أي موقع آخر، يستخدم TechyStudent "ملفات تعريف الارتباط". تُستخدم هذه الملفات لحفظ معلومات منها تفضيلات الزوار والصفحات التي دخلوها أو زاروها في الموقع.',
+  'privacy.dartTitle': 'ملف تعريف الارتباط DART من Google DoubleClick',
+  'privacy.dart': 'Google من الموردين الخارجيين في موقعنا. وهي تستخدم أيضاً ملفات تعريف ارتباط تُعرف بملفات DART لعرض الإعلانات لزوار موقعنا بناءً على زياراتهم إلى www.website.com ومواقع أخرى على الإنترنت.',
+
+  'terms.title': 'الشروط والأحكام',
+  'terms.welcome': 'مرحباً بك في TechyStudent!',
+  'terms.intro': 'توضح هذه الشروط والأحكام القواعد والأنظمة الخاصة باستخدام موقع TechyStudent.',
+  'terms.accept': 'باستخدامك هذا الموقع نفترض أنك تقبل هذه الشروط والأحكام. لا تواصل استخدام TechyStudent إذا كنت لا توافق على جميع الشروط والأحكام الواردة في هذه الصفحة.',
+  'terms.licenseTitle': 'الترخيص',
+  'terms.license': 'ما لم يُذكر خلاف ذلك، تمتلك TechyStudent و/أو الجهات المرخِّصة لها حقوق الملكية الفكرية لجميع المواد على TechyStudent. جميع حقوق الملكية الفكرية محفوظة.',
+
+  'disclaimer.title': 'إخلاء المسؤولية',
+  'disclaimer.body': 'المعلومات التي يقدمها TechyStudent ("نحن") على هذا الموقع هي لأغراض إعلامية وتعليمية عامة فقط. تُقدَّم جميع المعلومات على الموقع بحسن نية، لكننا لا نقدم أي تعهد أو ضمان من أي نوع، صريحاً كان أو ضمنياً، بشأن دقة أي معلومات على الموقع أو كفايتها أو صحتها أو موثوقيتها أو توفرها أو اكتمالها.',
+  'disclaimer.warningTitle': 'تحذير تعليمي',
+  'disclaimer.warning': 'تقدم هذه الأداة حلولاً مولّدة بالذكاء الاصطناعي للدعم التعليمي فقط. على الطلاب التحقق من الخطوات قبل تسليم الواجبات. لا يجوز استخدام هذه الأداة للغش في الامتحانات أو التقييمات المحتسبة.',
+
+  'solution.disclaimer': 'محتوى مولَّد بالذكاء الاصطناعي. تحقق من الخطوات قبل التسليم. للاستخدام التعليمي فقط.',
+  'solution.sponsored': 'إعلان',
+  'solution.problem': 'المسألة',
+  'solution.steps': 'الحل خطوة بخطوة',
+  'solution.explain': 'اشرح',
+  'solution.explainTitle': 'اشرح هذه الخطوة',
+  'solution.stepCopy': 'الخطوة {number}: {title}',
+  'solution.finalAnswer': 'الإجابة النهائية',
+  'solution.confidence': 'الثقة {percent}%',
+  'solution.confidenceTitle': 'الثقة التي أبلغ عنها النموذج',
+  'solution.units': 'الوحدات: {units}',
+
+  'verification.verified': 'تم التحقق',
+  'verification.unverified': 'تعذّر التحقق',
+  'verification.contradicted': 'متناقض',
+
+  'consensus.agree': '{agreeing}/{total} متفقة',
+  'consensus.solved': 'حُلّت {count} مرات بشكل مستقل',
+  'consensus.solvedFailed': 'حُلّت {count} مرات بشكل مستقل، وفشلت {failed}',
+  'consensus.compare': 'قارن',
+  'consensus.title': '{answers} إجابات مختلفة من {total} حلول',
+  'consensus.close': 'إغلاق المقارنة',
+  'consensus.shown': 'الإجابة المعروضة',
+  'consensus.alternative': 'البديل {number}',
+  'consensus.share': '{count} من {total}',
+
+  'units.consistent': 'الوحدات متسقة',
+  'units.unchecked': 'الوحدات',
+  'units.mismatch': 'عدم تطابق الوحدات',
+  'units.missing': 'الوحدات مفقودة',
+  'units.convertTo': 'حوّل إلى',
+
+  'chemistry.balanced': 'موزونة: كل العناصر والشحنة محفوظة.',
+  'chemistry.corrected': 'غير موزونة. التصحيح:',
+  'chemistry.unbalanceable': 'غير موزونة، ولا توجد معاملات صحيحة توازنها. تحقق من الصيغ.',
+  'chemistry.massWrong': 'الكتلة المولية لـ {formula} هي {computed}، وليست {stated} g/mol.',
+  'chemistry.massRight': 'الكتلة المولية لـ {formula} صحيحة ({computed}).',
+
+  'copy.title': 'نسخ إلى الحافظة',
+  'copy.label': 'نسخ',
+
+  'tutor.correct': 'صحيح',
+  'tutor.partial': 'تقريباً',
+  'tutor.incorrect': 'ليس تماماً',
+  'tutor.hints': 'تلميحات',
+  'tutor.nextHint': 'اعرض التلميح {number} من {total}',
+  'tutor.tryStep': 'جرّب الخطوة {number} بنفسك (اختياري)',
+  'tutor.attemptPlaceholder': 'اكتب ما ستفعله بعد ذلك، مثلاً: اطرح 5 من الطرفين: 2x = 6',
+  'tutor.check': 'تحقق من خطوتي',
+  'tutor.revealStep': 'اكشف الخطوة {number}',
+  'tutor.revealAnswer': 'اكشف الإجابة النهائية',
+
+  'followUp.title': 'اطرح سؤالاً متابعاً',
+  'followUp.thinking': 'جارٍ التفكير...',
+  'followUp.placeholder': 'مثلاً: لماذا قسمت على 2 في الخطوة 3؟',
+  'followUp.send': 'إرسال',
+  'followUp.explainStep': 'هل يمكنك شرح الخطوة {number} ("{title}") بتفصيل أكثر؟ لماذا تُنفَّذ بهذه الطريقة؟',
+
+  'practice.start': 'تدرّب على مسائل مشابهة',
+  'practice.writing': 'جارٍ كتابة المسائل...',
+  'practice.count': '{count} مسائل',
+  'practice.title': 'تدريب: {topic}',
+  'practice.score': '{correct} صحيحة من {graded}',
+  'practice.topicScore': '{correct}/{attempted} في هذا الموضوع إجمالاً',
+  'practice.answerPlaceholder': 'إجابتك، مثلاً x = 4 أو 2.5',
+  'practice.check': 'تحقق',
+  'practice.correct': 'صحيح!',
+  'practice.incorrect': 'ليس تماماً. إليك الحل المفصّل.',
+  'practice.unchecked': 'تعذّرت المقارنة تلقائياً. الإجابة المتوقعة هي:',
+  'practice.markRight': 'أجبت بشكل صحيح',
+  'practice.markWrong': 'أخطأت',
+  'practice.result': 'أجبت عن {correct} من {total} بشكل صحيح.',
+  'practice.newSet': 'مجموعة جديدة',
+
+  'worksheet.back': 'العودة إلى الرفع',
+  'worksheet.detecting': 'جارٍ البحث عن الأسئلة في ورقة العمل...',
+  'worksheet.detectingHint': 'ستختار بعد ذلك الأسئلة التي تريد حلها.',
+  'worksheet.detectFailed': 'تعذّر تقسيم ورقة العمل',
+  'worksheet.selectAll': 'تحديد الكل',
+  'worksheet.selectNone': 'لا شيء',
+  'worksheet.question': 'السؤال {number}',
+  'worksheet.page': 'الصفحة {number}',
+  'worksheet.solveOne': 'حل سؤال واحد',
+  'worksheet.solveMany': 'حل {count} أسئلة',
+  'worksheet.progress': 'اكتمل {finished} من {total}',
+  'worksheet.tab': 'س{number}',
+  'worksheet.solving': 'جارٍ حل هذا السؤال...',
+  'worksheet.waiting': 'في انتظار دور...',
+
+  'history.loadError': 'تعذّر تحميل السجل. ربما يحظر متصفحك التخزين المحلي.',
+  'history.confirmDelete': 'هل تريد حذف هذا الحل من السجل؟',
+  'history.scores': 'نتائج التدريب',
+  'history.search': 'ابحث في الأسئلة والخطوات والإجابات...',
+  'history.all': 'الكل',
+  'history.favorites': 'المفضلة',
+  'history.loading': 'جارٍ التحميل...',
+  'history.empty': 'ستظهر الأسئلة المحلولة هنا.',
+  'history.noMatches': 'لا توجد حلول تطابق عوامل التصفية.',
+  'history.imageQuestion': 'سؤال بصورة',
+  'history.favorite': 'أضف إلى المفضلة',
+  'history.unfavorite': 'أزل من المفضلة',
+  'history.delete': 'حذف',
+
+  'export.button': 'تصدير',
+  'export.generating': 'جارٍ الإنشاء...',
+  'export.pdfFailed': 'تعذّر إنشاء ملف PDF. استخدم الطباعة واختر "حفظ بتنسيق PDF" بدلاً من ذلك.',
+  'export.anki': 'بطاقة Anki (.csv)',
+  'export.ankiMany': 'بطاقات Anki (.csv)',
+  'export.print': 'طباعة',
+
+  'shared.solveOwn': 'حل سؤالك الخاص',
+  'shared.title': 'حل مُشارَك',
+  'shared.loading': 'جارٍ تحميل الحل...',
+  'shared.notFound': 'لم يُعثر على الحل',
+  'shared.notFoundHint': 'هذا الرابط غير مكتمل أو حُذف الحل من هذا الجهاز.',
+  'shared.question': 'السؤال',
+
+  'subject.title': 'المادة المستخدمة لاختيار قواعد الحل. انقر للتغيير.',
+  'subject.detect': 'اكتشاف المادة',
+  'subject.auto': '(تلقائي)',
+  'subject.label': 'المادة',
+  'subject.topic': 'الموضوع',
+  'subject.detectAuto': 'اكتشاف تلقائي',
+  'subject.topicPlaceholder': 'مثلاً: حركة المقذوفات',
+  'subjects.Mathematics': 'الرياضيات',
+  'subjects.Physics': 'الفيزياء',
+  'subjects.Chemistry': 'الكيمياء',
+  'subjects.General Science': 'العلوم العامة',
+  'subjects.Computer Science': 'علوم الحاسوب',
+
+  'attachments.edit': 'قص أو تدوير أو تحسين',
+  'attachments.remove': 'إزالة',
+  'attachments.earlier': 'انقل للأمام',
+  'attachments.later': 'انقل للخلف',
+  'attachments.add': 'أضف صفحة',
+  'attachments.scan': 'امسح صفحة',
+
+  'imageEditor.title': 'تعديل الصورة',
+  'imageEditor.close': 'إغلاق',
+  'imageEditor.alt': 'السؤال المرفوع',
+  'imageEditor.rotateLeft': 'تدوير لليسار',
+  'imageEditor.rotateRight': 'تدوير لليمين',
+  'imageEditor.contrast': 'التباين',
+  'imageEditor.cropping': 'القص حسب التحديد',
+  'imageEditor.cropHint': 'اسحب فوق الصورة للقص',
+  'imageEditor.reset': 'إعادة ضبط',
+  'imageEditor.apply': 'تطبيق',
+  'imageEditor.applying': 'جارٍ التطبيق...',
+  'imageEditor.failed': 'تعذّر تطبيق هذه التعديلات على الصورة.'
+};
@@ -0,0 +1,308 @@
+// Source catalog: every UI string and its key. Other catalogs may leave keys
+// out; missing ones fall back to English. "{name}" placeholders are filled by t().
+export const en = {
+  'nav.solver': 'Solver',
+  'nav.home': 'Home',
+  'nav.history': 'History',
+  'nav.about': 'About',
+  'nav.aboutUs': 'About Us',
+  'nav.contact': 'Contact',
+  'nav.privacy': 'Privacy Policy',
+  'nav.terms': 'Terms & Conditions',
+  'nav.disclaimer': 'Disclaimer',
+  'header.theme': 'Toggle dark mode',
+  'header.uiLanguage': 'Interface language',
+
+  'hero.titleBefore': 'Master Your',
+  'hero.titleHighlight': 'Homework',
+  'hero.titleAfter': 'with AI',
+  'hero.subtitle': 'Instant step-by-step solutions for Math, Physics, and Chemistry. Upload a photo or type your question. Free & Fast.',
+  'hero.math': 'Math',
+  'hero.chemistry': 'Chemistry',
+  'hero.physics': 'Physics',
+
+  'upload.preparing': 'Preparing image...',
+  'upload.prompt': 'Drop images or a PDF here, paste, or click to upload',
+  'upload.formats': 'Supports JPG, PNG, WEBP, HEIC and PDF · up to {count} pages',
+  'upload.limit': 'You can add up to {count} images or pages per question.',
+  'upload.failed': 'This file could not be opened. Please try another photo or PDF.',
+
+  'camera.open': 'Use camera',
+  'camera.title': 'Scan with camera',
+  'camera.close': 'Close',
+  'camera.starting': 'Starting camera...',
+  'camera.searching': 'Point the camera at the question',
+  'camera.holdSteady': 'Page found, hold steady...',
+  'camera.found': 'Page found, tap Capture',
+  'camera.processing': 'Straightening the page...',
+  'camera.auto': 'Auto capture',
+  'camera.scanMode': 'Black & white scan',
+  'camera.capture': 'Capture',
+  'camera.retake': 'Retake',
+  'camera.use': 'Use photo',
+  'camera.label': 'Camera scan',
+  'camera.error.unsupported': "This browser can't open the camera. Upload a photo instead.",
+  'camera.error.denied': 'Camera access was blocked. Allow it in your browser settings, or upload a photo instead.',
+  'camera.error.not_found': 'No camera was found on this device. Upload a photo instead.',
+  'camera.error.failed': 'The camera could not be started. Close other apps using it and try again.',
+
+  'form.or': 'OR TYPE QUESTION',
+  'form.placeholder': 'Type your Math, Physics, or Chemistry question here...',
+  'form.empty': 'Please enter a question or upload an image.',
+  'form.solveLanguage': 'Language of the solution',
+  'form.modeSolve': 'Full solution',
+  'form.modeTutor': 'Tutor (hints first)',
+  'form.modeHint': 'Tutor mode shows hints first and reveals the steps one at a time',
+  'form.autoResolve': 'Re-solve if check fails',
+  'form.autoResolveHint': 'If a math answer fails the automatic check, solve once more with the failure explained to the AI',
+  'form.highAccuracy': 'High accuracy',
+  'form.highAccuracyHint': 'Solves the question {count} times independently and shows the answer most of them agree on',
+  'form.worksheet': 'Whole worksheet',
+  'form.worksheetHint': 'Find every question on the uploaded worksheet and solve the ones you pick',
+  'form.findQuestions': 'Find Questions',
+  'form.solve': 'Solve Now',
+
+  'math.symbols': 'Math symbols',
+  'math.hint': 'Type x^2, sqrt(x), a/b or use the symbols',
+  'math.preview': 'Preview',
+  'math.tab.basic': 'Basic',
+  'math.tab.calculus': 'Calculus',
+  'math.tab.greek': 'Greek',
+  'math.tab.matrices': 'Matrices',
+
+  'loading.resolving': 'Answer failed a check, re-solving...',
+  'loading.scanning': 'Scanning Question...',
+  'loading.computing': 'AI Computing Solution...',
+  'loading.wait': 'Please wait while we crunch the numbers.',
+  'loading.cancel': 'Cancel',
+
+  'result.writing': 'Writing solution...',
+  'result.sampling': 'Comparing solutions ({settled}/{total})...',
+  'result.newQuestion': 'New Question',
+  'result.share': 'Share Link',
+  'result.cached': 'Saved answer',
+  'result.solveAgain': 'Solve again',
+  'share.title': 'TechyStudent Solution',
+  'share.text': 'Check out this solution from TechyStudent AI!',
+  'share.copied': 'Link copied to clipboard!',
+
+  'error.tryAgain': 'Try Again',
+  'error.retryIn': 'Try again in {seconds}s',
+  'error.retryAt': 'Try again at {time}',
+  'error.edit': 'Edit Question',
+  'error.crop': 'Crop the Image',
+  'error.contact': 'Contact Us',
+  'error.auth.title': "The solver isn't set up correctly.",
+  'error.auth.hint': "The site's model key was rejected. Please let us know so we can fix it.",
+  'error.rate_limit.title': 'Too many requests.',
+  'error.rate_limit.hint': 'The solver is busy right now. Wait a moment and try again.',
+  'error.safety.title': "This question couldn't be answered.",
+  'error.safety.hint': 'The model declined to answer. Rephrase the question or remove anything unrelated from the image.',
+  'error.invalid_input.title': "The question couldn't be read.",
+  'error.invalid_input.hint': 'Crop the image to just the question, use a smaller image, or type the question instead.',
+  'error.timeout.title': 'The solver took too long.',
+  'error.timeout.hint': 'Long problems can time out. Try again, or split the problem into smaller parts.',
+  'error.network.title': 'Connection problem.',
+  'error.network.hint': 'Check your internet connection and try again.',
+  'error.malformed_output.title': 'The answer came back garbled.',
+  'error.malformed_output.hint': 'This happens now and then. Trying again usually works.',
+  'error.unknown.title': 'Oops! Something went wrong.',
+  'error.unknown.hint': 'Please try again in a moment.',
+
+  'footer.tagline': 'Empowering students with instant, accurate, and explained solutions for a brighter academic future.',
+  'footer.legal': 'Legal',
+  'footer.company': 'Company',
+  'footer.config': 'Config',
+  'footer.rights': '© {year} TechyStudent. All rights reserved.',
+
+  'config.title': 'Site Configuration',
+  'config.publisherId': 'AdSense Publisher ID',
+  'config.note': 'This is a demo configuration panel. In a real deployment, these values would be stored in environment variables or a database.',
+  'config.save': 'Save Settings',
+
+  'about.title': 'About Us',
+  'about.intro': "Welcome to TechyStudent, your number one source for AI-powered educational assistance. We're dedicated to providing you the best automated tutoring experience, with a focus on dependability, step-by-step clarity, and multi-subject support.",
+  'about.history': 'Founded in 2024, TechyStudent has come a long way from its beginnings. When we first started out, our passion for "making education accessible to everyone" drove us to start this tool.',
+  'about.closing': "We hope you enjoy our products as much as we enjoy offering them to you. If you have any questions or comments, please don't hesitate to contact us.",
+
+  'contact.title': 'Contact Us',
+  'contact.intro': 'We would love to hear from you!',
+  'contact.email': 'Email Us',
+  'contact.address': 'Mailing Address',
+
+  'privacy.title': 'Privacy Policy',
+  'privacy.updated': 'Last updated: {date}',
+  'privacy.intro': 'At TechyStudent, accessible from techystudent.com, one of our main priorities is the privacy of our visitors. This Privacy Policy document contains types of information that is collected and recorded by TechyStudent and how we use it.',
+  'privacy.logFilesTitle': 'Log Files',
+  'privacy.logFiles': 'TechyStudent follows a standard procedure of using log files. These files log visitors when they visit websites. The information collected by log files includes internet protocol (IP) addresses, browser type, Internet Service Provider (ISP), date and time stamp, referring/exit pages, and possibly the number of clicks.',
+  'privacy.cookiesTitle': 'Cookies and Web Beacons',
+  'privacy.cookies': "Like any other website, TechyStudent uses 'cookies'. These cookies are used to store information including visitors' preferences, and the pages on the website that the visitor accessed or visited.",
+  'privacy.dartTitle': 'Google DoubleClick DART Cookie',
+  'privacy.dart': 'Google is one of a third-party vendor on our site. It also uses cookies, known as DART cookies, to serve ads to our site visitors based upon their visit to www.website.com and other sites on the internet.',
+
+  'terms.title': 'Terms & Conditions',
+  'terms.welcome': 'Welcome to TechyStudent!',
+  'terms.intro': "These terms and conditions outline the rules and regulations for the use of TechyStudent's Website.",
+  'terms.accept': 'By accessing this website we assume you accept these terms and conditions. Do not continue to use TechyStudent if you do not agree to take all of the terms and conditions stated on this page.',
+  'terms.licenseTitle': 'License',
+  'terms.license': 'Unless otherwise stated, TechyStudent and/or its licensors own the intellectual property rights for all material on TechyStudent. All intellectual property rights are reserved.',
+
+  'disclaimer.title': 'Disclaimer',
+  'disclaimer.body': 'The information provided by TechyStudent ("we," "us," or "our") on this website is for general informational and educational purposes only. All information on the Site is provided in good faith, however we make no representation or warranty of any kind, express or implied, regarding the accuracy, adequacy, validity, reliability, availability, or completeness of any information on the Site.',
+  'disclaimer.warningTitle': 'Educational Warning',
+  'disclaimer.warning': 'This tool provides AI-generated solutions for educational support only. Students should verify steps before submitting homework. This tool should not be used for cheating on exams or graded assessments.',
+
+  'solution.disclaimer': 'AI-generated content. Verify steps before submission. For educational use only.',
+  'solution.sponsored': 'Sponsored',
+  'solution.problem': 'Problem',
+  'solution.steps': 'Step-by-Step Solution',
+  'solution.explain': 'Explain',
+  'solution.explainTitle': 'Explain this step',
+  'solution.stepCopy': 'Step {number}: {title}',
+  'solution.finalAnswer': 'Final Answer',
+  'solution.confidence': '{percent}% confident',
+  'solution.confidenceTitle': 'Confidence reported by the model',
+  'solution.units': 'Units: {units}',
+
+  'verification.verified': 'Verified',
+  'verification.unverified': 'Could not verify',
+  'verification.contradicted': 'Contradicted',
+
+  'consensus.agree': '{agreeing}/{total} agree',
+  'consensus.solved': 'Solved {count} times independently',
+  'consensus.solvedFailed': 'Solved {count} times independently, {failed} failed',
+  'consensus.compare': 'Compare',
+  'consensus.title': '{answers} different answers from {total} solutions',
+  'consensus.close': 'Close comparison',
+  'consensus.shown': 'Shown answer',
+  'consensus.alternative': 'Alternative {number}',
+  'consensus.share': '{count} of {total}',
+
+  'units.consistent': 'Units check out',
+  'units.unchecked': 'Units',
+  'units.mismatch': 'Unit mismatch',
+  'units.missing': 'Units missing',
+  'units.convertTo': 'Convert to',
+
+  'chemistry.balanced': 'Balanced: every element and the charge are conserved.',
+  'chemistry.corrected': 'Not balanced. Corrected:',
+  'chemistry.unbalanceable': 'Not balanced, and no whole-number coefficients balance it. Check the formulas.',
+  'chemistry.massWrong': 'Molar mass of {formula} is {computed}, not {stated} g/mol.',
+  'chemistry.massRight': 'Molar mass of {formula} checks out ({computed}).',
+
+  'copy.title': 'Copy to clipboard',
+  'copy.label': 'Copy',
+
+  'tutor.correct': 'Correct',
+  'tutor.partial': 'Almost',
+  'tutor.incorrect': 'Not quite',
+  'tutor.hints': 'Hints',
+  'tutor.nextHint': 'Show hint {number} of {total}',
+  'tutor.tryStep': 'Try Step {number} yourself (optional)',
+  'tutor.attemptPlaceholder': 'Write what you would do next, e.g. Subtract 5 from both sides: 2x = 6',
+  'tutor.check': 'Check my step',
+  'tutor.revealStep': 'Reveal Step {number}',
+  'tutor.revealAnswer': 'Reveal Final Answer',
+
+  'followUp.title': 'Ask a follow-up',
+  'followUp.thinking': 'Thinking...',
+  'followUp.placeholder': 'e.g. Why did you divide by 2 in Step 3?',
+  'followUp.send': 'Send',
+  'followUp.explainStep': 'Can you explain Step {number} ("{title}") in more detail? Why is it done this way?',
+
+  'practice.start': 'Practice similar',
+  'practice.writing': 'Writing problems...',
+  'practice.count': '{count} problems',
+  'practice.title': 'Practice: {topic}',
+  'practice.score': '{correct} of {graded} correct',
+  'practice.topicScore': '{correct}/{attempted} on this topic overall',
+  'practice.answerPlaceholder': 'Your answer, e.g. x = 4 or 2.5',
+  'practice.check': 'Check',
+  'practice.correct': 'Correct!',
+  'practice.incorrect': 'Not quite. Here is the worked solution.',
+  'practice.unchecked': "Couldn't compare automatically. The expected answer is:",
+  'practice.markRight': 'I got it right',
+  'practice.markWrong': 'I got it wrong',
+  'practice.result': 'You got {correct} of {total} right.',
+  'practice.newSet': 'New set',
+
+  'worksheet.back': 'Back to upload',
+  'worksheet.detecting': 'Finding the questions on your worksheet...',
+  'worksheet.detectingHint': "You'll choose which ones to solve next.",
+  'worksheet.detectFailed': "Couldn't split the worksheet",
+  'worksheet.selectAll': 'Select all',
+  'worksheet.selectNone': 'None',
+  'worksheet.question': 'Question {number}',
+  'worksheet.page': 'Page {number}',
+  'worksheet.solveOne': 'Solve 1 question',
+  'worksheet.solveMany': 'Solve {count} questions',
+  'worksheet.progress': '{finished} of {total} done',
+  'worksheet.tab': 'Q{number}',
+  'worksheet.solving': 'Solving this question...',
+  'worksheet.waiting': 'Waiting for a free slot...',
+
+  'history.loadError': 'Could not load your history. Your browser may be blocking local storage.',
+  'history.confirmDelete': 'Delete this solution from your history?',
+  'history.scores': 'Practice scores',
+  'history.search': 'Search questions, steps and answers...',
+  'history.all': 'All',
+  'history.favorites': 'Favorites',
+  'history.loading': 'Loading...',
+  'history.empty': 'Solved questions will appear here.',
+  'history.noMatches': 'No solutions match your filters.',
+  'history.imageQuestion': 'Image question',
+  'history.favorite': 'Add to favorites',
+  'history.unfavorite': 'Remove from favorites',
+  'history.delete': 'Delete',
+
+  'export.button': 'Export',
+  'export.generating': 'Generating...',
+  'export.pdfFailed': 'Could not generate the PDF. Use Print and choose "Save as PDF" instead.',
+  'export.anki': 'Anki card (.csv)',
+  'export.ankiMany': 'Anki cards (.csv)',
+  'export.print': 'Print',
+
+  'shared.solveOwn': 'Solve your own question',
+  'shared.title': 'Shared Solution',
+  'shared.loading': 'Loading solution...',
+  'shared.notFound': 'Solution not found',
+  'shared.notFoundHint': 'This link is incomplete or the solution was deleted from this device.',
+  'shared.question': 'Question',
+
+  'subject.title': 'Subject used to pick the solving rules. Click to change.',
+  'subject.detect': 'Detect subject',
+  'subject.auto': '(auto)',
+  'subject.label': 'Subject',
+  'subject.topic': 'Topic',
+  'subject.detectAuto': 'Detect automatically',
+  'subject.topicPlaceholder': 'e.g. Projectile motion',
+  'subjects.Mathematics': 'Mathematics',
+  'subjects.Physics': 'Physics',
+  'subjects.Chemistry': 'Chemistry',
+  'subjects.General Science': 'General Science',
+  'subjects.Computer Science': 'Computer Science',
+
+  'attachments.edit': 'Crop, rotate or enhance',
+  'attachments.remove': 'Remove',
+  'attachments.earlier': 'Move earlier',
+  'attachments.later': 'Move later',
+  'attachments.add': 'Add page',
+  'attachments.scan': 'Scan page',
+
+  'imageEditor.title': 'Edit Image',
+  'imageEditor.close': 'Close',
+  'imageEditor.alt': 'Uploaded question',
+  'imageEditor.rotateLeft': 'Rotate left',
+  'imageEditor.rotateRight': 'Rotate right',
+  'imageEditor.contrast': 'Contrast',
+  'imageEditor.cropping': 'Cropping to selection',
+  'imageEditor.cropHint': 'Drag over the image to crop',
+  'imageEditor.reset': 'Reset',
+  'imageEditor.apply': 'Apply',
+  'imageEditor.applying': 'Applying...',
+  'imageEditor.failed': 'Could not apply these edits to the image.'
+};
+
+export type MessageKey = keyof typeof en;
+
+export type MessageCatalog = Partial<Record<MessageKey, string>>;
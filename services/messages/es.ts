@@ -0,0 +1,304 @@
+import { MessageCatalog } from './en';
+
+export const es: MessageCatalog = {
+  'nav.solver': 'Resolver',
+  'nav.home': 'Inicio',
+  'nav.history': 'Historial',
+  'nav.about': 'Acerca de',
+  'nav.aboutUs': 'Sobre nosotros',
+  'nav.contact': 'Contacto',
+  'nav.privacy': 'Política de privacidad',
+  'nav.terms': 'Términos y condiciones',
+  'nav.disclaimer': 'Aviso legal',
+  'header.theme': 'Cambiar modo oscuro',
+  'header.uiLanguage': 'Idioma de la interfaz',
+
+  'hero.titleBefore': 'Domina tus',
+  'hero.titleHighlight': 'tareas',
+  'hero.titleAfter': 'con IA',
+  'hero.subtitle': 'Soluciones paso a paso al instante para Matemáticas, Física y Química. Sube una foto o escribe tu pregunta. Gratis y rápido.',
+  'hero.math': 'Matemáticas',
+  'hero.chemistry': 'Química',
+  'hero.physics': 'Física',
+
+  'upload.preparing': 'Preparando imagen...',
+  'upload.prompt': 'Suelta imágenes o un PDF aquí, pega o haz clic para subir',
+  'upload.formats': 'Admite JPG, PNG, WEBP, HEIC y PDF · hasta {count} páginas',
+  'upload.limit': 'Puedes añadir hasta {count} imágenes o páginas por pregunta.',
+  'upload.failed': 'No se pudo abrir este archivo. Prueba con otra foto o PDF.',
+
+  'camera.open': 'Usar cámara',
+  'camera.title': 'Escanear con la cámara',
+  'camera.close': 'Cerrar',
+  'camera.starting': 'Iniciando la cámara...',
+  'camera.searching': 'Apunta la cámara a la pregunta',
+  'camera.holdSteady': 'Página encontrada, no te muevas...',
+  'camera.found': 'Página encontrada, pulsa Capturar',
+  'camera.processing': 'Enderezando la página...',
+  'camera.auto': 'Captura automática',
+  'camera.scanMode': 'Escaneo en blanco y negro',
+  'camera.capture': 'Capturar',
+  'camera.retake': 'Repetir',
+  'camera.use': 'Usar foto',
+  'camera.label': 'Escaneo de cámara',
+  'camera.error.unsupported': 'Este navegador no puede abrir la cámara. Sube una foto en su lugar.',
+  'camera.error.denied': 'Se bloqueó el acceso a la cámara. Permítelo en la configuración del navegador o sube una foto.',
+  'camera.error.not_found': 'No se encontró ninguna cámara en este dispositivo. Sube una foto en su lugar.',
+  'camera.error.failed': 'No se pudo iniciar la cámara. Cierra otras apps que la usen e inténtalo de nuevo.',
+
+  'form.or': 'O ESCRIBE LA PREGUNTA',
+  'form.placeholder': 'Escribe aquí tu pregunta de Matemáticas, Física o Química...',
+  'form.empty': 'Escribe una pregunta o sube una imagen.',
+  'form.solveLanguage': 'Idioma de la solución',
+  'form.modeSolve': 'Solución completa',
+  'form.modeTutor': 'Tutor (pistas primero)',
+  'form.modeHint': 'El modo tutor muestra primero pistas y revela los pasos uno a uno',
+  'form.autoResolve': 'Volver a resolver si falla la comprobación',
+  'form.autoResolveHint': 'Si una respuesta de matemáticas no supera la comprobación automática, se resuelve otra vez explicando el fallo a la IA',
+  'form.highAccuracy': 'Alta precisión',
+  'form.highAccuracyHint': 'Resuelve la pregunta {count} veces de forma independiente y muestra la respuesta en la que coinciden la mayoría',
+  'form.worksheet': 'Hoja completa',
+  'form.worksheetHint': 'Encuentra todas las preguntas de la hoja subida y resuelve las que elijas',
+  'form.findQuestions': 'Buscar preguntas',
+  'form.solve': 'Resolver ahora',
+
+  'math.symbols': 'Símbolos matemáticos',
+  'math.hint': 'Escribe x^2, sqrt(x), a/b o usa los símbolos',
+  'math.preview': 'Vista previa',
+  'math.tab.basic': 'Básico',
+  'math.tab.calculus': 'Cálculo',
+  'math.tab.greek': 'Griego',
+  'math.tab.matrices': 'Matrices',
+
+  'loading.resolving': 'La respuesta no pasó una comprobación, resolviendo de nuevo...',
+  'loading.scanning': 'Analizando la pregunta...',
+  'loading.computing': 'La IA está calculando la solución...',
+  'loading.wait': 'Espera mientras hacemos los cálculos.',
+  'loading.cancel': 'Cancelar',
+
+  'result.writing': 'Escribiendo la solución...',
+  'result.sampling': 'Comparando soluciones ({settled}/{total})...',
+  'result.newQuestion': 'Nueva pregunta',
+  'result.share': 'Compartir enlace',
+  'result.cached': 'Respuesta guardada',
+  'result.solveAgain': 'Resolver de nuevo',
+  'share.title': 'Solución de TechyStudent',
+  'share.text': '¡Mira esta solución de TechyStudent AI!',
+  'share.copied': '¡Enlace copiado al portapapeles!',
+
+  'error.tryAgain': 'Intentar de nuevo',
+  'error.retryIn': 'Intentar de nuevo en {seconds} s',
+  'error.retryAt': 'Intentar de nuevo a las {time}',
+  'error.edit': 'Editar pregunta',
+  'error.crop': 'Recortar la imagen',
+  'error.contact': 'Contáctanos',
+  'error.auth.title': 'El solucionador no está bien configurado.',
+  'error.auth.hint': 'La clave del modelo del sitio fue rechazada. Avísanos para que podamos arreglarlo.',
+  'error.rate_limit.title': 'Demasiadas solicitudes.',
+  'error.rate_limit.hint': 'El solucionador está ocupado en este momento. Espera un poco e inténtalo de nuevo.',
+  'error.safety.title': 'No se pudo responder a esta pregunta.',
+  'error.safety.hint': 'El modelo se negó a responder. Reformula la pregunta o quita de la imagen todo lo que no tenga relación.',
+  'error.invalid_input.title': 'No se pudo leer la pregunta.',
+  'error.invalid_input.hint': 'Recorta la imagen para que solo muestre la pregunta, usa una imagen más pequeña o escribe la pregunta.',
+  'error.timeout.title': 'El solucionador tardó demasiado.',
+  'error.timeout.hint': 'Los problemas largos pueden agotar el tiempo. Inténtalo de nuevo o divide el problema en partes más pequeñas.',
+  'error.network.title': 'Problema de conexión.',
+  'error.network.hint': 'Revisa tu conexión a internet e inténtalo de nuevo.',
+  'error.malformed_output.title': 'La respuesta llegó incompleta.',
+  'error.malformed_output.hint': 'Esto pasa de vez en cuando. Volver a intentarlo suele funcionar.',
+  'error.unknown.title': '¡Vaya! Algo salió mal.',
+  'error.unknown.hint': 'Inténtalo de nuevo en un momento.',
+
+  'footer.tagline': 'Ayudamos a los estudiantes con soluciones instantáneas, precisas y explicadas para un futuro académico más brillante.',
+  'footer.legal': 'Legal',
+  'footer.company': 'Empresa',
+  'footer.config': 'Configuración',
+  'footer.rights': '© {year} TechyStudent. Todos los derechos reservados.',
+
+  'config.title': 'Configuración del sitio',
+  'config.publisherId': 'ID de editor de AdSense',
+  'config.note': 'Este es un panel de configuración de demostración. En un despliegue real, estos valores se guardarían en variables de entorno o en una base de datos.',
+  'config.save': 'Guardar configuración',
+
+  'about.title': 'Sobre nosotros',
+  'about.intro': 'Bienvenido a TechyStudent, tu fuente número uno de ayuda educativa con IA. Nos dedicamos a ofrecerte la mejor experiencia de tutoría automatizada, centrada en la fiabilidad, la claridad paso a paso y el soporte para varias materias.',
+  'about.history': 'Fundada en 2024, TechyStudent ha recorrido un largo camino desde sus inicios. Cuando empezamos, nuestra pasión por "hacer la educación accesible para todos" nos impulsó a crear esta herramienta.',
+  'about.closing': 'Esperamos que disfrutes de nuestros productos tanto como nosotros disfrutamos ofreciéndolos. Si tienes preguntas o comentarios, no dudes en contactarnos.',
+
+  'contact.title': 'Contáctanos',
+  'contact.intro': '¡Nos encantaría saber de ti!',
+  'contact.email': 'Escríbenos',
+  'contact.address': 'Dirección postal',
+
+  'privacy.title': 'Política de privacidad',
+  'privacy.updated': 'Última actualización: {date}',
+  'privacy.intro': 'En TechyStudent, accesible desde techystudent.com, una de nuestras principales prioridades es la privacidad de nuestros visitantes. Este documento de Política de privacidad describe los tipos de información que TechyStudent recopila y registra, y cómo la usamos.',
+  'privacy.logFilesTitle': 'Archivos de registro',
+  'privacy.logFiles': 'TechyStudent sigue un procedimiento estándar de uso de archivos de registro. Estos archivos registran a los visitantes cuando visitan sitios web. La información recopilada incluye direcciones de protocolo de internet (IP), tipo de navegador, proveedor de servicios de internet (ISP), fecha y hora, páginas de referencia/salida y, posiblemente, el número de clics.',
+  'privacy.cookiesTitle': 'Cookies y web beacons',
+  'privacy.cookies': 'Como cualquier otro sitio web, TechyStudent usa "cookies". Estas cookies se usan para guardar información, incluidas las preferencias de los visitantes y las páginas del sitio a las que accedieron o que visitaron.',
+  'privacy.dartTitle': 'Cookie DART de Google DoubleClick',
+  'privacy.dart': 'Google es uno de los proveedores externos de nuestro sitio. También usa cookies, conocidas como cookies DART, para mostrar anuncios a nuestros visitantes según sus visitas a www.website.com y a otros sitios de internet.',
+
+  'terms.title': 'Términos y condiciones',
+  'terms.welcome': '¡Bienvenido a TechyStudent!',
+  'terms.intro': 'Estos términos y condiciones describen las reglas y normas para el uso del sitio web de TechyStudent.',
+  'terms.accept': 'Al acceder a este sitio web asumimos que aceptas estos términos y condiciones. No sigas usando TechyStudent si no estás de acuerdo con todos los términos y condiciones de esta página.',
+  'terms.licenseTitle': 'Licencia',
+  'terms.license': 'Salvo que se indique lo contrario, TechyStudent y/o sus licenciantes poseen los derechos de propiedad intelectual de todo el material de TechyStudent. Todos los derechos de propiedad intelectual están reservados.',
+
+  'disclaimer.title': 'Aviso legal',
+  'disclaimer.body': 'La información que ofrece TechyStudent ("nosotros" o "nuestro") en este sitio web tiene fines informativos y educativos generales. Toda la información del Sitio se ofrece de buena fe; sin embargo, no hacemos ninguna declaración ni damos garantía alguna, expresa o implícita, sobre la exactitud, adecuación, validez, fiabilidad, disponibilidad o integridad de la información del Sitio.',
+  'disclaimer.warningTitle': 'Advertencia educativa',
+  'disclaimer.warning': 'Esta herramienta ofrece soluciones generadas por IA solo como apoyo educativo. Los estudiantes deben verificar los pasos antes de entregar sus tareas. Esta herramienta no debe usarse para hacer trampa en exámenes o evaluaciones calificadas.',
+
+  'solution.disclaimer': 'Contenido generado por IA. Verifica los pasos antes de entregar. Solo para uso educativo.',
+  'solution.sponsored': 'Patrocinado',
+  'solution.problem': 'Problema',
+  'solution.steps': 'Solución paso a paso',
+  'solution.explain': 'Explicar',
+  'solution.explainTitle': 'Explicar este paso',
+  'solution.stepCopy': 'Paso {number}: {title}',
+  'solution.finalAnswer': 'Respuesta final',
+  'solution.confidence': 'Confianza: {percent}%',
+  'solution.confidenceTitle': 'Confianza indicada por el modelo',
+  'solution.units': 'Unidades: {units}',
+
+  'verification.verified': 'Verificado',
+  'verification.unverified': 'No se pudo verificar',
+  'verification.contradicted': 'Contradicho',
+
+  'consensus.agree': '{agreeing}/{total} coinciden',
+  'consensus.solved': 'Resuelto {count} veces de forma independiente',
+  'consensus.solvedFailed': 'Resuelto {count} veces de forma independiente, {failed} fallaron',
+  'consensus.compare': 'Comparar',
+  'consensus.title': '{answers} respuestas distintas en {total} soluciones',
+  'consensus.close': 'Cerrar comparación',
+  'consensus.shown': 'Respuesta mostrada',
+  'consensus.alternative': 'Alternativa {number}',
+  'consensus.share': '{count} de {total}',
+
+  'units.consistent': 'Las unidades cuadran',
+  'units.unchecked': 'Unidades',
+  'units.mismatch': 'Unidades incoherentes',
+  'units.missing': 'Faltan unidades',
+  'units.convertTo': 'Convertir a',
+
+  'chemistry.balanced': 'Ajustada: se conservan todos los elementos y la carga.',
+  'chemistry.corrected': 'No está ajustada. Corregida:',
+  'chemistry.unbalanceable': 'No está ajustada y ningún coeficiente entero la ajusta. Revisa las fórmulas.',
+  'chemistry.massWrong': 'La masa molar de {formula} es {computed}, no {stated} g/mol.',
+  'chemistry.massRight': 'La masa molar de {formula} es correcta ({computed}).',
+
+  'copy.title': 'Copiar al portapapeles',
+  'copy.label': 'Copiar',
+
+  'tutor.correct': 'Correcto',
+  'tutor.partial': 'Casi',
+  'tutor.incorrect': 'No del todo',
+  'tutor.hints': 'Pistas',
+  'tutor.nextHint': 'Ver pista {number} de {total}',
+  'tutor.tryStep': 'Intenta el paso {number} por tu cuenta (opcional)',
+  'tutor.attemptPlaceholder': 'Escribe lo que harías a continuación, p. ej. Resta 5 en ambos lados: 2x = 6',
+  'tutor.check': 'Revisar mi paso',
+  'tutor.revealStep': 'Mostrar paso {number}',
+  'tutor.revealAnswer': 'Mostrar respuesta final',
+
+  'followUp.title': 'Haz una pregunta de seguimiento',
+  'followUp.thinking': 'Pensando...',
+  'followUp.placeholder': 'p. ej. ¿Por qué dividiste entre 2 en el paso 3?',
+  'followUp.send': 'Enviar',
+  'followUp.explainStep': '¿Puedes explicar con más detalle el paso {number} ("{title}")? ¿Por qué se hace así?',
+
+  'practice.start': 'Practicar similares',
+  'practice.writing': 'Creando problemas...',
+  'practice.count': '{count} problemas',
+  'practice.title': 'Práctica: {topic}',
+  'practice.score': '{correct} de {graded} correctas',
+  'practice.topicScore': '{correct}/{attempted} en este tema en total',
+  'practice.answerPlaceholder': 'Tu respuesta, p. ej. x = 4 o 2.5',
+  'practice.check': 'Comprobar',
+  'practice.correct': '¡Correcto!',
+  'practice.incorrect': 'No del todo. Aquí tienes la solución desarrollada.',
+  'practice.unchecked': 'No se pudo comparar automáticamente. La respuesta esperada es:',
+  'practice.markRight': 'La acerté',
+  'practice.markWrong': 'La fallé',
+  'practice.result': 'Acertaste {correct} de {total}.',
+  'practice.newSet': 'Nueva serie',
+
+  'worksheet.back': 'Volver a subir',
+  'worksheet.detecting': 'Buscando las preguntas de tu hoja de ejercicios...',
+  'worksheet.detectingHint': 'Después elegirás cuáles resolver.',
+  'worksheet.detectFailed': 'No se pudo dividir la hoja de ejercicios',
+  'worksheet.selectAll': 'Seleccionar todas',
+  'worksheet.selectNone': 'Ninguna',
+  'worksheet.question': 'Pregunta {number}',
+  'worksheet.page': 'Página {number}',
+  'worksheet.solveOne': 'Resolver 1 pregunta',
+  'worksheet.solveMany': 'Resolver {count} preguntas',
+  'worksheet.progress': '{finished} de {total} listas',
+  'worksheet.tab': 'P{number}',
+  'worksheet.solving': 'Resolviendo esta pregunta...',
+  'worksheet.waiting': 'Esperando un hueco libre...',
+
+  'history.loadError': 'No se pudo cargar tu historial. Puede que tu navegador esté bloqueando el almacenamiento local.',
+  'history.confirmDelete': '¿Eliminar esta solución de tu historial?',
+  'history.scores': 'Puntuaciones de práctica',
+  'history.search': 'Buscar preguntas, pasos y respuestas...',
+  'history.all': 'Todas',
+  'history.favorites': 'Favoritas',
+  'history.loading': 'Cargando...',
+  'history.empty': 'Las preguntas resueltas aparecerán aquí.',
+  'history.noMatches': 'Ninguna solución coincide con tus filtros.',
+  'history.imageQuestion': 'Pregunta con imagen',
+  'history.favorite': 'Añadir a favoritas',
+  'history.unfavorite': 'Quitar de favoritas',
+  'history.delete': 'Eliminar',
+
+  'export.button': 'Exportar',
+  'export.generating': 'Generando...',
+  'export.pdfFailed': 'No se pudo generar el PDF. Usa Imprimir y elige "Guardar como PDF".',
+  'export.anki': 'Tarjeta de Anki (.csv)',
+  'export.ankiMany': 'Tarjetas de Anki (.csv)',
+  'export.print': 'Imprimir',
+
+  'shared.solveOwn': 'Resuelve tu propia pregunta',
+  'shared.title': 'Solución compartida',
+  'shared.loading': 'Cargando la solución...',
+  'shared.notFound': 'Solución no encontrada',
+  'shared.notFoundHint': 'Este enlace está incompleto o la solución se eliminó de este dispositivo.',
+  'shared.question': 'Pregunta',
+
+  'subject.title': 'Asignatura usada para elegir las reglas de resolución. Haz clic para cambiarla.',
+  'subject.detect': 'Detectar asignatura',
+  'subject.auto': '(auto)',
+  'subject.label': 'Asignatura',
+  'subject.topic': 'Tema',
+  'subject.detectAuto': 'Detectar automáticamente',
+  'subject.topicPlaceholder': 'p. ej. Tiro parabólico',
+  'subjects.Mathematics': 'Matemáticas',
+  'subjects.Physics': 'Física',
+  'subjects.Chemistry': 'Química',
+  'subjects.General Science': 'Ciencias generales',
+  'subjects.Computer Science': 'Informática',
+
+  'attachments.edit': 'Recortar, girar o mejorar',
+  'attachments.remove': 'Quitar',
+  'attachments.earlier': 'Mover antes',
+  'attachments.later': 'Mover después',
+  'attachments.add': 'Añadir página',
+  'attachments.scan': 'Escanear página',
+
+  'imageEditor.title': 'Editar imagen',
+  'imageEditor.close': 'Cerrar',
+  'imageEditor.alt': 'Pregunta subida',
+  'imageEditor.rotateLeft': 'Girar a la izquierda',
+  'imageEditor.rotateRight': 'Girar a la derecha',
+  'imageEditor.contrast': 'Contraste',
+  'imageEditor.cropping': 'Recortando a la selección',
+  'imageEditor.cropHint': 'Arrastra sobre la imagen para recortar',
+  'imageEditor.reset': 'Restablecer',
+  'imageEditor.apply': 'Aplicar',
+  'imageEditor.applying': 'Aplicando...',
+  'imageEditor.failed': 'No se pudieron aplicar estos cambios a la imagen.'
+};
@@ -0,0 +1,304 @@
+import { MessageCatalog } from './en';
+
+export const hi: MessageCatalog = {
+  'nav.solver': 'सॉल्वर',
+  'nav.home': 'होम',
+  'nav.history': 'इतिहास',
+  'nav.about': 'परिचय',
+  'nav.aboutUs': 'हमारे बारे में',
+  'nav.contact': 'संपर्क',
+  'nav.privacy': 'गोपनीयता नीति',
+  'nav.terms': 'नियम और शर्तें',
+  'nav.disclaimer': 'अस्वीकरण',
+  'header.theme': 'डार्क मोड बदलें',
+  'header.uiLanguage': 'इंटरफ़ेस की भाषा',
+
+  'hero.titleBefore': 'AI के साथ अपने',
+  'hero.titleHighlight': 'होमवर्क',
+  'hero.titleAfter': 'में महारत पाएँ',
+  'hero.subtitle': 'गणित, भौतिकी और रसायन के लिए तुरंत चरण-दर-चरण हल। फ़ोटो अपलोड करें या अपना प्रश्न लिखें। मुफ़्त और तेज़।',
+  'hero.math': 'गणित',
+  'hero.chemistry': 'रसायन',
+  'hero.physics': 'भौतिकी',
+
+  'upload.preparing': 'छवि तैयार की जा रही है...',
+  'upload.prompt': 'छवियाँ या PDF यहाँ छोड़ें, पेस्ट करें या अपलोड करने के लिए क्लिक करें',
+  'upload.formats': 'JPG, PNG, WEBP, HEIC और PDF समर्थित · अधिकतम {count} पेज',
+  'upload.limit': 'हर प्रश्न के साथ अधिकतम {count} छवियाँ या पेज जोड़े जा सकते हैं।',
+  'upload.failed': 'यह फ़ाइल नहीं खुल सकी। कृपया कोई दूसरी फ़ोटो या PDF आज़माएँ।',
+
+  'camera.open': 'कैमरा इस्तेमाल करें',
+  'camera.title': 'कैमरे से स्कैन करें',
+  'camera.close': 'बंद करें',
+  'camera.starting': 'कैमरा शुरू हो रहा है...',
+  'camera.searching': 'कैमरे को प्रश्न की ओर रखें',
+  'camera.holdSteady': 'पेज मिल गया, स्थिर रखें...',
+  'camera.found': 'पेज मिल गया, कैप्चर दबाएँ',
+  'camera.processing': 'पेज सीधा किया जा रहा है...',
+  'camera.auto': 'स्वतः कैप्चर',
+  'camera.scanMode': 'श्वेत-श्याम स्कैन',
+  'camera.capture': 'कैप्चर',
+  'camera.retake': 'फिर से लें',
+  'camera.use': 'फ़ोटो इस्तेमाल करें',
+  'camera.label': 'कैमरा स्कैन',
+  'camera.error.unsupported': 'यह ब्राउज़र कैमरा नहीं खोल सकता। इसके बजाय फ़ोटो अपलोड करें।',
+  'camera.error.denied': 'कैमरा की अनुमति रोकी गई है। ब्राउज़र सेटिंग में अनुमति दें या फ़ोटो अपलोड करें।',
+  'camera.error.not_found': 'इस डिवाइस पर कोई कैमरा नहीं मिला। इसके बजाय फ़ोटो अपलोड करें।',
+  'camera.error.failed': 'कैमरा शुरू नहीं हो सका। इसे इस्तेमाल कर रहे दूसरे ऐप बंद करके फिर कोशिश करें।',
+
+  'form.or': 'या प्रश्न लिखें',
+  'form.placeholder': 'अपना गणित, भौतिकी या रसायन का प्रश्न यहाँ लिखें...',
+  'form.empty': 'कृपया प्रश्न लिखें या छवि अपलोड करें।',
+  'form.solveLanguage': 'हल की भाषा',
+  'form.modeSolve': 'पूरा हल',
+  'form.modeTutor': 'ट्यूटर (पहले संकेत)',
+  'form.modeHint': 'ट्यूटर मोड पहले संकेत दिखाता है और फिर एक-एक करके चरण खोलता है',
+  'form.autoResolve': 'जाँच विफल हो तो फिर से हल करें',
+  'form.autoResolveHint': 'अगर गणित का उत्तर स्वचालित जाँच में विफल हो, तो विफलता AI को समझाकर एक बार फिर हल करें',
+  'form.highAccuracy': 'उच्च सटीकता',
+  'form.highAccuracyHint': 'प्रश्न को {count} बार स्वतंत्र रूप से हल करता है और वह उत्तर दिखाता है जिस पर अधिकतर सहमत हों',
+  'form.worksheet': 'पूरी वर्कशीट',
+  'form.worksheetHint': 'अपलोड की गई वर्कशीट के सभी प्रश्न ढूँढें और चुने हुए प्रश्न हल करें',
+  'form.findQuestions': 'प्रश्न ढूँढें',
+  'form.solve': 'अभी हल करें',
+
+  'math.symbols': 'गणित चिह्न',
+  'math.hint': 'x^2, sqrt(x), a/b लिखें या चिह्नों का उपयोग करें',
+  'math.preview': 'पूर्वावलोकन',
+  'math.tab.basic': 'मूल',
+  'math.tab.calculus': 'कलन',
+  'math.tab.greek': 'ग्रीक',
+  'math.tab.matrices': 'आव्यूह',
+
+  'loading.resolving': 'उत्तर जाँच में विफल रहा, फिर से हल किया जा रहा है...',
+  'loading.scanning': 'प्रश्न पढ़ा जा रहा है...',
+  'loading.computing': 'AI हल निकाल रहा है...',
+  'loading.wait': 'कृपया प्रतीक्षा करें, हम गणना कर रहे हैं।',
+  'loading.cancel': 'रद्द करें',
+
+  'result.writing': 'हल लिखा जा रहा है...',
+  'result.sampling': 'समाधानों की तुलना हो रही है ({settled}/{total})...',
+  'result.newQuestion': 'नया प्रश्न',
+  'result.share': 'लिंक साझा करें',
+  'result.cached': 'सहेजा गया उत्तर',
+  'result.solveAgain': 'फिर से हल करें',
+  'share.title': 'TechyStudent हल',
+  'share.text': 'TechyStudent AI का यह हल देखें!',
+  'share.copied': 'लिंक क्लिपबोर्ड पर कॉपी हो गया!',
+
+  'error.tryAgain': 'फिर से कोशिश करें',
+  'error.retryIn': '{seconds} सेकंड में फिर से कोशिश करें',
+  'error.retryAt': '{time} पर फिर से कोशिश करें',
+  'error.edit': 'प्रश्न संपादित करें',
+  'error.crop': 'छवि क्रॉप करें',
+  'error.contact': 'हमसे संपर्क करें',
+  'error.auth.title': 'सॉल्वर सही तरह से सेट नहीं है।',
+  'error.auth.hint': 'साइट की मॉडल कुंजी अस्वीकार कर दी गई। कृपया हमें बताएं ताकि हम इसे ठीक कर सकें।',
+  'error.rate_limit.title': 'बहुत अधिक अनुरोध।',
+  'error.rate_limit.hint': 'सॉल्वर अभी व्यस्त है। थोड़ा रुकें और फिर से कोशिश करें।',
+  'error.safety.title': 'इस प्रश्न का उत्तर नहीं दिया जा सका।',
+  'error.safety.hint': 'मॉडल ने उत्तर देने से मना कर दिया। प्रश्न को दूसरे शब्दों में लिखें या छवि से असंबंधित चीज़ें हटा दें।',
+  'error.invalid_input.title': 'प्रश्न पढ़ा नहीं जा सका।',
+  'error.invalid_input.hint': 'छवि को केवल प्रश्न तक क्रॉप करें, छोटी छवि का उपयोग करें, या प्रश्न टाइप करें।',
+  'error.timeout.title': 'सॉल्वर ने बहुत अधिक समय लिया।',
+  'error.timeout.hint': 'लंबे प्रश्नों का समय समाप्त हो सकता है। फिर से कोशिश करें, या प्रश्न को छोटे भागों में बांटें।',
+  'error.network.title': 'कनेक्शन में समस्या।',
+  'error.network.hint': 'अपना इंटरनेट कनेक्शन जांचें और फिर से कोशिश करें।',
+  'error.malformed_output.title': 'उत्तर ठीक से नहीं आया।',
+  'error.malformed_output.hint': 'ऐसा कभी-कभी होता है। फिर से कोशिश करने पर आमतौर पर ठीक हो जाता है।',
+  'error.unknown.title': 'ओह! कुछ गड़बड़ हो गई।',
+  'error.unknown.hint': 'कृपया थोड़ी देर में फिर से कोशिश करें।',
+
+  'footer.tagline': 'उज्ज्वल शैक्षणिक भविष्य के लिए विद्यार्थियों को तुरंत, सटीक और समझाए गए हल।',
+  'footer.legal': 'कानूनी',
+  'footer.company': 'कंपनी',
+  'footer.config': 'सेटिंग',
+  'footer.rights': '© {year} TechyStudent. सर्वाधिकार सुरक्षित।',
+
+  'config.title': 'साइट कॉन्फ़िगरेशन',
+  'config.publisherId': 'AdSense प्रकाशक ID',
+  'config.note': 'यह एक डेमो कॉन्फ़िगरेशन पैनल है। वास्तविक डिप्लॉयमेंट में ये मान एनवायरनमेंट वेरिएबल या डेटाबेस में रखे जाएँगे।',
+  'config.save': 'सेटिंग सहेजें',
+
+  'about.title': 'हमारे बारे में',
+  'about.intro': 'TechyStudent में आपका स्वागत है, AI-आधारित शैक्षणिक सहायता का आपका सबसे भरोसेमंद स्रोत। हम विश्वसनीयता, चरण-दर-चरण स्पष्टता और कई विषयों के समर्थन के साथ आपको सबसे अच्छा स्वचालित ट्यूशन अनुभव देने के लिए समर्पित हैं।',
+  'about.history': '2024 में स्थापित, TechyStudent ने अपनी शुरुआत से लंबा सफ़र तय किया है। जब हमने शुरुआत की, तो "शिक्षा को सबके लिए सुलभ बनाने" के जुनून ने हमें यह टूल बनाने के लिए प्रेरित किया।',
+  'about.closing': 'हमें उम्मीद है कि आपको हमारे उत्पाद उतने ही पसंद आएँगे जितना हमें उन्हें आपके लिए बनाना पसंद है। अगर आपके कोई प्रश्न या सुझाव हों, तो बेझिझक हमसे संपर्क करें।',
+
+  'contact.title': 'संपर्क करें',
+  'contact.intro': 'हमें आपसे सुनकर खुशी होगी!',
+  'contact.email': 'हमें ईमेल करें',
+  'contact.address': 'डाक पता',
+
+  'privacy.title': 'गोपनीयता नीति',
+  'privacy.updated': 'अंतिम अपडेट: {date}',
+  'privacy.intro': 'techystudent.com पर उपलब्ध TechyStudent में हमारे आगंतुकों की गोपनीयता हमारी मुख्य प्राथमिकताओं में से एक है। इस गोपनीयता नीति में बताया गया है कि TechyStudent कौन-सी जानकारी एकत्र और दर्ज करता है और हम उसका उपयोग कैसे करते हैं।',
+  'privacy.logFilesTitle': 'लॉग फ़ाइलें',
+  'privacy.logFiles': 'TechyStudent लॉग फ़ाइलों के उपयोग की मानक प्रक्रिया अपनाता है। ये फ़ाइलें वेबसाइट पर आने वाले आगंतुकों को दर्ज करती हैं। लॉग फ़ाइलों में IP पते, ब्राउज़र का प्रकार, इंटरनेट सेवा प्रदाता (ISP), दिनांक और समय, रेफ़र करने वाले/निकास पेज और संभवतः क्लिक की संख्या शामिल होती है।',
+  'privacy.cookiesTitle': 'कुकीज़ और वेब बीकन',
+  'privacy.cookies': 'किसी भी अन्य वेबसाइट की तरह, TechyStudent "कुकीज़" का उपयोग करता है। इन कुकीज़ में आगंतुकों की पसंद और वेबसाइट के वे पेज दर्ज होते हैं जिन्हें आगंतुक ने खोला या देखा।',
+  'privacy.dartTitle': 'Google DoubleClick DART कुकी',
+  'privacy.dart': 'Google हमारी साइट पर एक तृतीय-पक्ष विक्रेता है। यह भी DART कुकीज़ नामक कुकीज़ का उपयोग करता है, ताकि www.website.com और इंटरनेट की अन्य साइटों पर आगंतुकों की विज़िट के आधार पर उन्हें विज्ञापन दिखाए जा सकें।',
+
+  'terms.title': 'नियम और शर्तें',
+  'terms.welcome': 'TechyStudent में आपका स्वागत है!',
+  'terms.intro': 'ये नियम और शर्तें TechyStudent की वेबसाइट के उपयोग के नियम बताती हैं।',
+  'terms.accept': 'इस वेबसाइट का उपयोग करके आप इन नियमों और शर्तों को स्वीकार करते हैं। अगर आप इस पेज पर दी गई सभी शर्तों से सहमत नहीं हैं, तो TechyStudent का उपयोग जारी न रखें।',
+  'terms.licenseTitle': 'लाइसेंस',
+  'terms.license': 'जब तक अन्यथा न कहा गया हो, TechyStudent पर मौजूद सभी सामग्री के बौद्धिक संपदा अधिकार TechyStudent और/या उसके लाइसेंसदाताओं के पास हैं। सभी बौद्धिक संपदा अधिकार सुरक्षित हैं।',
+
+  'disclaimer.title': 'अस्वीकरण',
+  'disclaimer.body': 'इस वेबसाइट पर TechyStudent ("हम" या "हमारा") द्वारा दी गई जानकारी केवल सामान्य सूचना और शैक्षणिक उद्देश्यों के लिए है। साइट की सारी जानकारी सद्भावना से दी गई है, लेकिन हम साइट की किसी भी जानकारी की सटीकता, पर्याप्तता, वैधता, विश्वसनीयता, उपलब्धता या पूर्णता के बारे में कोई स्पष्ट या निहित प्रतिनिधित्व या वारंटी नहीं देते।',
+  'disclaimer.warningTitle': 'शैक्षणिक चेतावनी',
+  'disclaimer.warning': 'यह टूल केवल शैक्षणिक सहायता के लिए AI से बने हल देता है। विद्यार्थियों को होमवर्क जमा करने से पहले चरणों की जाँच करनी चाहिए। इस टूल का उपयोग परीक्षाओं या अंक वाले मूल्यांकनों में नकल के लिए नहीं किया जाना चाहिए।',
+
+  'solution.disclaimer': 'AI द्वारा बनाई गई सामग्री। जमा करने से पहले चरणों की जाँच करें। केवल शैक्षिक उपयोग के लिए।',
+  'solution.sponsored': 'प्रायोजित',
+  'solution.problem': 'प्रश्न',
+  'solution.steps': 'चरण-दर-चरण हल',
+  'solution.explain': 'समझाएँ',
+  'solution.explainTitle': 'यह चरण समझाएँ',
+  'solution.stepCopy': 'चरण {number}: {title}',
+  'solution.finalAnswer': 'अंतिम उत्तर',
+  'solution.confidence': '{percent}% विश्वास',
+  'solution.confidenceTitle': 'मॉडल द्वारा बताया गया विश्वास',
+  'solution.units': 'इकाइयाँ: {units}',
+
+  'verification.verified': 'सत्यापित',
+  'verification.unverified': 'सत्यापित नहीं हो सका',
+  'verification.contradicted': 'खंडित',
+
+  'consensus.agree': '{agreeing}/{total} सहमत',
+  'consensus.solved': '{count} बार स्वतंत्र रूप से हल किया गया',
+  'consensus.solvedFailed': '{count} बार स्वतंत्र रूप से हल किया गया, {failed} विफल',
+  'consensus.compare': 'तुलना करें',
+  'consensus.title': '{total} हलों से {answers} अलग-अलग उत्तर',
+  'consensus.close': 'तुलना बंद करें',
+  'consensus.shown': 'दिखाया गया उत्तर',
+  'consensus.alternative': 'विकल्प {number}',
+  'consensus.share': '{total} में से {count}',
+
+  'units.consistent': 'इकाइयाँ सही हैं',
+  'units.unchecked': 'इकाइयाँ',
+  'units.mismatch': 'इकाइयाँ मेल नहीं खातीं',
+  'units.missing': 'इकाइयाँ नहीं हैं',
+  'units.convertTo': 'इसमें बदलें',
+
+  'chemistry.balanced': 'संतुलित: हर तत्व और आवेश संरक्षित हैं।',
+  'chemistry.corrected': 'संतुलित नहीं। सुधारा गया:',
+  'chemistry.unbalanceable': 'संतुलित नहीं, और कोई पूर्णांक गुणांक इसे संतुलित नहीं करता। सूत्र जाँचें।',
+  'chemistry.massWrong': '{formula} का मोलर द्रव्यमान {computed} है, {stated} g/mol नहीं।',
+  'chemistry.massRight': '{formula} का मोलर द्रव्यमान सही है ({computed})।',
+
+  'copy.title': 'क्लिपबोर्ड पर कॉपी करें',
+  'copy.label': 'कॉपी',
+
+  'tutor.correct': 'सही',
+  'tutor.partial': 'लगभग',
+  'tutor.incorrect': 'पूरी तरह नहीं',
+  'tutor.hints': 'संकेत',
+  'tutor.nextHint': '{total} में से संकेत {number} दिखाएँ',
+  'tutor.tryStep': 'चरण {number} खुद आज़माएँ (वैकल्पिक)',
+  'tutor.attemptPlaceholder': 'लिखें कि आप आगे क्या करेंगे, जैसे दोनों ओर से 5 घटाएँ: 2x = 6',
+  'tutor.check': 'मेरा चरण जाँचें',
+  'tutor.revealStep': 'चरण {number} दिखाएँ',
+  'tutor.revealAnswer': 'अंतिम उत्तर दिखाएँ',
+
+  'followUp.title': 'आगे का सवाल पूछें',
+  'followUp.thinking': 'सोच रहा है...',
+  'followUp.placeholder': 'जैसे चरण 3 में 2 से भाग क्यों दिया?',
+  'followUp.send': 'भेजें',
+  'followUp.explainStep': 'क्या आप चरण {number} ("{title}") को विस्तार से समझा सकते हैं? यह इस तरह क्यों किया गया है?',
+
+  'practice.start': 'ऐसे और अभ्यास करें',
+  'practice.writing': 'प्रश्न बनाए जा रहे हैं...',
+  'practice.count': '{count} प्रश्न',
+  'practice.title': 'अभ्यास: {topic}',
+  'practice.score': '{graded} में से {correct} सही',
+  'practice.topicScore': 'इस विषय पर कुल {correct}/{attempted}',
+  'practice.answerPlaceholder': 'आपका उत्तर, जैसे x = 4 या 2.5',
+  'practice.check': 'जाँचें',
+  'practice.correct': 'सही!',
+  'practice.incorrect': 'पूरी तरह नहीं। यह रहा पूरा हल।',
+  'practice.unchecked': 'अपने आप तुलना नहीं हो सकी। अपेक्षित उत्तर है:',
+  'practice.markRight': 'मेरा उत्तर सही था',
+  'practice.markWrong': 'मेरा उत्तर गलत था',
+  'practice.result': 'आपने {total} में से {correct} सही किए।',
+  'practice.newSet': 'नया सेट',
+
+  'worksheet.back': 'अपलोड पर वापस',
+  'worksheet.detecting': 'आपकी वर्कशीट के प्रश्न ढूँढे जा रहे हैं...',
+  'worksheet.detectingHint': 'इसके बाद आप चुनेंगे कि कौन-से हल करने हैं।',
+  'worksheet.detectFailed': 'वर्कशीट को प्रश्नों में नहीं बाँटा जा सका',
+  'worksheet.selectAll': 'सभी चुनें',
+  'worksheet.selectNone': 'कोई नहीं',
+  'worksheet.question': 'प्रश्न {number}',
+  'worksheet.page': 'पृष्ठ {number}',
+  'worksheet.solveOne': '1 प्रश्न हल करें',
+  'worksheet.solveMany': '{count} प्रश्न हल करें',
+  'worksheet.progress': '{total} में से {finished} पूरे',
+  'worksheet.tab': 'प्र{number}',
+  'worksheet.solving': 'यह प्रश्न हल किया जा रहा है...',
+  'worksheet.waiting': 'खाली जगह की प्रतीक्षा...',
+
+  'history.loadError': 'आपका इतिहास लोड नहीं हो सका। हो सकता है आपका ब्राउज़र लोकल स्टोरेज रोक रहा हो।',
+  'history.confirmDelete': 'क्या यह हल इतिहास से हटाना है?',
+  'history.scores': 'अभ्यास स्कोर',
+  'history.search': 'प्रश्न, चरण और उत्तर खोजें...',
+  'history.all': 'सभी',
+  'history.favorites': 'पसंदीदा',
+  'history.loading': 'लोड हो रहा है...',
+  'history.empty': 'हल किए गए प्रश्न यहाँ दिखेंगे।',
+  'history.noMatches': 'आपके फ़िल्टर से कोई हल मेल नहीं खाता।',
+  'history.imageQuestion': 'चित्र वाला प्रश्न',
+  'history.favorite': 'पसंदीदा में जोड़ें',
+  'history.unfavorite': 'पसंदीदा से हटाएँ',
+  'history.delete': 'हटाएँ',
+
+  'export.button': 'निर्यात',
+  'export.generating': 'बनाया जा रहा है...',
+  'export.pdfFailed': 'PDF नहीं बन सका। इसके बजाय प्रिंट करें और "PDF के रूप में सहेजें" चुनें।',
+  'export.anki': 'Anki कार्ड (.csv)',
+  'export.ankiMany': 'Anki कार्ड (.csv)',
+  'export.print': 'प्रिंट करें',
+
+  'shared.solveOwn': 'अपना प्रश्न हल करें',
+  'shared.title': 'साझा किया गया हल',
+  'shared.loading': 'हल लोड हो रहा है...',
+  'shared.notFound': 'हल नहीं मिला',
+  'shared.notFoundHint': 'यह लिंक अधूरा है या हल इस डिवाइस से हटा दिया गया है।',
+  'shared.question': 'प्रश्न',
+
+  'subject.title': 'हल के नियम चुनने के लिए इस्तेमाल होने वाला विषय। बदलने के लिए क्लिक करें।',
+  'subject.detect': 'विषय पहचानें',
+  'subject.auto': '(स्वतः)',
+  'subject.label': 'विषय',
+  'subject.topic': 'टॉपिक',
+  'subject.detectAuto': 'अपने आप पहचानें',
+  'subject.topicPlaceholder': 'जैसे प्रक्षेप्य गति',
+  'subjects.Mathematics': 'गणित',
+  'subjects.Physics': 'भौतिकी',
+  'subjects.Chemistry': 'रसायन विज्ञान',
+  'subjects.General Science': 'सामान्य विज्ञान',
+  'subjects.Computer Science': 'कंप्यूटर विज्ञान',
+
+  'attachments.edit': 'क्रॉप करें, घुमाएँ या बेहतर करें',
+  'attachments.remove': 'हटाएँ',
+  'attachments.earlier': 'पहले ले जाएँ',
+  'attachments.later': 'बाद में ले जाएँ',
+  'attachments.add': 'पृष्ठ जोड़ें',
+  'attachments.scan': 'पृष्ठ स्कैन करें',
+
+  'imageEditor.title': 'चित्र संपादित करें',
+  'imageEditor.close': 'बंद करें',
+  'imageEditor.alt': 'अपलोड किया गया प्रश्न',
+  'imageEditor.rotateLeft': 'बाएँ घुमाएँ',
+  'imageEditor.rotateRight': 'दाएँ घुमाएँ',
+  'imageEditor.contrast': 'कंट्रास्ट',
+  'imageEditor.cropping': 'चयन तक क्रॉप हो रहा है',
+  'imageEditor.cropHint': 'क्रॉप करने के लिए चित्र पर खींचें',
+  'imageEditor.reset': 'रीसेट',
+  'imageEditor.apply': 'लागू करें',
+  'imageEditor.applying': 'लागू हो रहा है...',
+  'imageEditor.failed': 'ये बदलाव चित्र पर लागू नहीं हो सके।'
+};
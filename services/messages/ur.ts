@@ -0,0 +1,304 @@
+import { MessageCatalog } from './en';
+
+export const ur: MessageCatalog = {
+  'nav.solver': 'حل',
+  'nav.home': 'ہوم',
+  'nav.history': 'تاریخچہ',
+  'nav.about': 'تعارف',
+  'nav.aboutUs': 'ہمارے بارے میں',
+  'nav.contact': 'رابطہ',
+  'nav.privacy': 'رازداری کی پالیسی',
+  'nav.terms': 'شرائط و ضوابط',
+  'nav.disclaimer': 'دستبرداری',
+  'header.theme': 'ڈارک موڈ تبدیل کریں',
+  'header.uiLanguage': 'انٹرفیس کی زبان',
+
+  'hero.titleBefore': 'AI کے ساتھ اپنے',
+  'hero.titleHighlight': 'ہوم ورک',
+  'hero.titleAfter': 'پر عبور پائیں',
+  'hero.subtitle': 'ریاضی، طبیعیات اور کیمیا کے لیے فوری مرحلہ وار حل۔ تصویر اپ لوڈ کریں یا اپنا سوال لکھیں۔ مفت اور تیز۔',
+  'hero.math': 'ریاضی',
+  'hero.chemistry': 'کیمیا',
+  'hero.physics': 'طبیعیات',
+
+  'upload.preparing': 'تصویر تیار کی جا رہی ہے...',
+  'upload.prompt': 'تصاویر یا PDF یہاں چھوڑیں، پیسٹ کریں یا اپ لوڈ کرنے کے لیے کلک کریں',
+  'upload.formats': 'JPG، PNG، WEBP، HEIC اور PDF معاون ہیں · زیادہ سے زیادہ {count} صفحات',
+  'upload.limit': 'ہر سوال کے ساتھ زیادہ سے زیادہ {count} تصاویر یا صفحات شامل کیے جا سکتے ہیں۔',
+  'upload.failed': 'یہ فائل نہیں کھل سکی۔ براہ کرم کوئی اور تصویر یا PDF آزمائیں۔',
+
+  'camera.open': 'کیمرا استعمال کریں',
+  'camera.title': 'کیمرے سے اسکین کریں',
+  'camera.close': 'بند کریں',
+  'camera.starting': 'کیمرا شروع ہو رہا ہے...',
+  'camera.searching': 'کیمرے کو سوال کی طرف رکھیں',
+  'camera.holdSteady': 'صفحہ مل گیا، کیمرا ساکن رکھیں...',
+  'camera.found': 'صفحہ مل گیا، کیپچر دبائیں',
+  'camera.processing': 'صفحہ سیدھا کیا جا رہا ہے...',
+  'camera.auto': 'خودکار کیپچر',
+  'camera.scanMode': 'سیاہ و سفید اسکین',
+  'camera.capture': 'کیپچر',
+  'camera.retake': 'دوبارہ لیں',
+  'camera.use': 'تصویر استعمال کریں',
+  'camera.label': 'کیمرا اسکین',
+  'camera.error.unsupported': 'یہ براؤزر کیمرا نہیں کھول سکتا۔ اس کے بجائے تصویر اپ لوڈ کریں۔',
+  'camera.error.denied': 'کیمرے تک رسائی روک دی گئی۔ براؤزر کی ترتیبات میں اجازت دیں یا تصویر اپ لوڈ کریں۔',
+  'camera.error.not_found': 'اس ڈیوائس پر کوئی کیمرا نہیں ملا۔ اس کے بجائے تصویر اپ لوڈ کریں۔',
+  'camera.error.failed': 'کیمرا شروع نہیں ہو سکا۔ اسے استعمال کرنے والی دوسری ایپس بند کر کے دوبارہ کوشش کریں۔',
+
+  'form.or': 'یا سوال لکھیں',
+  'form.placeholder': 'اپنا ریاضی، طبیعیات یا کیمیا کا سوال یہاں لکھیں...',
+  'form.empty': 'براہ کرم سوال لکھیں یا تصویر اپ لوڈ کریں۔',
+  'form.solveLanguage': 'حل کی زبان',
+  'form.modeSolve': 'مکمل حل',
+  'form.modeTutor': 'ٹیوٹر (پہلے اشارے)',
+  'form.modeHint': 'ٹیوٹر موڈ پہلے اشارے دکھاتا ہے اور پھر ایک ایک کر کے مراحل کھولتا ہے',
+  'form.autoResolve': 'جانچ ناکام ہو تو دوبارہ حل کریں',
+  'form.autoResolveHint': 'اگر ریاضی کا جواب خودکار جانچ میں ناکام ہو تو ناکامی AI کو سمجھا کر ایک بار پھر حل کریں',
+  'form.highAccuracy': 'اعلیٰ درستگی',
+  'form.highAccuracyHint': 'سوال کو {count} بار الگ الگ حل کرتا ہے اور وہ جواب دکھاتا ہے جس پر زیادہ تر متفق ہوں',
+  'form.worksheet': 'پوری ورک شیٹ',
+  'form.worksheetHint': 'اپ لوڈ کی گئی ورک شیٹ کے تمام سوال تلاش کریں اور منتخب سوال حل کریں',
+  'form.findQuestions': 'سوال تلاش کریں',
+  'form.solve': 'ابھی حل کریں',
+
+  'math.symbols': 'ریاضی کی علامات',
+  'math.hint': 'x^2، sqrt(x)، a/b لکھیں یا علامات استعمال کریں',
+  'math.preview': 'پیش نظارہ',
+  'math.tab.basic': 'بنیادی',
+  'math.tab.calculus': 'احصا',
+  'math.tab.greek': 'یونانی',
+  'math.tab.matrices': 'میٹرکس',
+
+  'loading.resolving': 'جواب جانچ میں ناکام رہا، دوبارہ حل کیا جا رہا ہے...',
+  'loading.scanning': 'سوال پڑھا جا رہا ہے...',
+  'loading.computing': 'AI حل نکال رہا ہے...',
+  'loading.wait': 'براہ کرم انتظار کریں، ہم حساب لگا رہے ہیں۔',
+  'loading.cancel': 'منسوخ کریں',
+
+  'result.writing': 'حل لکھا جا رہا ہے...',
+  'result.sampling': 'حلوں کا موازنہ ہو رہا ہے ({settled}/{total})...',
+  'result.newQuestion': 'نیا سوال',
+  'result.share': 'لنک شیئر کریں',
+  'result.cached': 'محفوظ شدہ جواب',
+  'result.solveAgain': 'دوبارہ حل کریں',
+  'share.title': 'TechyStudent حل',
+  'share.text': 'TechyStudent AI کا یہ حل دیکھیں!',
+  'share.copied': 'لنک کلپ بورڈ پر کاپی ہو گیا!',
+
+  'error.tryAgain': 'دوبارہ کوشش کریں',
+  'error.retryIn': '{seconds} سیکنڈ میں دوبارہ کوشش کریں',
+  'error.retryAt': '{time} پر دوبارہ کوشش کریں',
+  'error.edit': 'سوال میں ترمیم کریں',
+  'error.crop': 'تصویر کاٹیں',
+  'error.contact': 'ہم سے رابطہ کریں',
+  'error.auth.title': 'حل کرنے والا درست طریقے سے سیٹ نہیں ہے۔',
+  'error.auth.hint': 'سائٹ کی ماڈل کلید مسترد کر دی گئی۔ براہ کرم ہمیں بتائیں تاکہ ہم اسے ٹھیک کر سکیں۔',
+  'error.rate_limit.title': 'بہت زیادہ درخواستیں۔',
+  'error.rate_limit.hint': 'حل کرنے والا ابھی مصروف ہے۔ تھوڑا انتظار کریں اور دوبارہ کوشش کریں۔',
+  'error.safety.title': 'اس سوال کا جواب نہیں دیا جا سکا۔',
+  'error.safety.hint': 'ماڈل نے جواب دینے سے انکار کر دیا۔ سوال کو دوسرے الفاظ میں لکھیں یا تصویر سے غیر متعلقہ چیزیں ہٹا دیں۔',
+  'error.invalid_input.title': 'سوال پڑھا نہیں جا سکا۔',
+  'error.invalid_input.hint': 'تصویر کو صرف سوال تک کاٹیں، چھوٹی تصویر استعمال کریں، یا سوال ٹائپ کریں۔',
+  'error.timeout.title': 'حل کرنے والے نے بہت زیادہ وقت لیا۔',
+  'error.timeout.hint': 'لمبے سوالات کا وقت ختم ہو سکتا ہے۔ دوبارہ کوشش کریں، یا سوال کو چھوٹے حصوں میں تقسیم کریں۔',
+  'error.network.title': 'کنکشن کا مسئلہ۔',
+  'error.network.hint': 'اپنا انٹرنیٹ کنکشن چیک کریں اور دوبارہ کوشش کریں۔',
+  'error.malformed_output.title': 'جواب بگڑا ہوا آیا۔',
+  'error.malformed_output.hint': 'ایسا کبھی کبھار ہوتا ہے۔ دوبارہ کوشش کرنے سے عموماً ٹھیک ہو جاتا ہے۔',
+  'error.unknown.title': 'اوہ! کچھ غلط ہو گیا۔',
+  'error.unknown.hint': 'براہ کرم تھوڑی دیر بعد دوبارہ کوشش کریں۔',
+
+  'footer.tagline': 'روشن تعلیمی مستقبل کے لیے طلبہ کو فوری، درست اور وضاحت کے ساتھ حل۔',
+  'footer.legal': 'قانونی',
+  'footer.company': 'کمپنی',
+  'footer.config': 'ترتیبات',
+  'footer.rights': '© {year} TechyStudent. جملہ حقوق محفوظ ہیں۔',
+
+  'config.title': 'سائٹ کی ترتیبات',
+  'config.publisherId': 'AdSense پبلشر ID',
+  'config.note': 'یہ ایک ڈیمو ترتیبات پینل ہے۔ اصل ڈپلائمنٹ میں یہ قدریں انوائرنمنٹ ویری ایبلز یا ڈیٹا بیس میں محفوظ کی جائیں گی۔',
+  'config.save': 'ترتیبات محفوظ کریں',
+
+  'about.title': 'ہمارے بارے میں',
+  'about.intro': 'TechyStudent میں خوش آمدید، AI پر مبنی تعلیمی مدد کا آپ کا سب سے بہترین ذریعہ۔ ہم بھروسے، مرحلہ وار وضاحت اور کئی مضامین کی سہولت کے ساتھ آپ کو بہترین خودکار ٹیوشن کا تجربہ دینے کے لیے پرعزم ہیں۔',
+  'about.history': '2024 میں قائم ہونے والا TechyStudent اپنے آغاز سے بہت آگے آ چکا ہے۔ جب ہم نے شروعات کی تو "تعلیم کو سب کے لیے قابل رسائی بنانے" کے جذبے نے ہمیں یہ ٹول بنانے پر آمادہ کیا۔',
+  'about.closing': 'ہمیں امید ہے کہ آپ ہماری مصنوعات سے اتنا ہی لطف اٹھائیں گے جتنا ہمیں انہیں پیش کر کے ہوتا ہے۔ اگر آپ کے کوئی سوالات یا تبصرے ہوں تو بلا جھجک ہم سے رابطہ کریں۔',
+
+  'contact.title': 'ہم سے رابطہ کریں',
+  'contact.intro': 'ہمیں آپ سے سن کر خوشی ہو گی!',
+  'contact.email': 'ہمیں ای میل کریں',
+  'contact.address': 'ڈاک کا پتہ',
+
+  'privacy.title': 'رازداری کی پالیسی',
+  'privacy.updated': 'آخری تازہ کاری: {date}',
+  'privacy.intro': 'techystudent.com پر دستیاب TechyStudent میں ہمارے صارفین کی رازداری ہماری اہم ترجیحات میں سے ایک ہے۔ رازداری کی اس پالیسی میں بتایا گیا ہے کہ TechyStudent کون سی معلومات جمع اور محفوظ کرتا ہے اور ہم انہیں کیسے استعمال کرتے ہیں۔',
+  'privacy.logFilesTitle': 'لاگ فائلیں',
+  'privacy.logFiles': 'TechyStudent لاگ فائلوں کے استعمال کا معیاری طریقہ اپناتا ہے۔ یہ فائلیں ویب سائٹ پر آنے والوں کو ریکارڈ کرتی ہیں۔ لاگ فائلوں میں IP پتے، براؤزر کی قسم، انٹرنیٹ سروس فراہم کنندہ (ISP)، تاریخ اور وقت، حوالہ دینے والے/اخراج کے صفحات اور ممکنہ طور پر کلکس کی تعداد شامل ہوتی ہے۔',
+  'privacy.cookiesTitle': 'کوکیز اور ویب بیکنز',
+  'privacy.cookies': 'کسی بھی دوسری ویب سائٹ کی طرح TechyStudent بھی "کوکیز" استعمال کرتا ہے۔ ان کوکیز میں صارفین کی ترجیحات اور ویب سائٹ کے وہ صفحات محفوظ ہوتے ہیں جنہیں صارف نے کھولا یا دیکھا۔',
+  'privacy.dartTitle': 'Google DoubleClick DART کوکی',
+  'privacy.dart': 'Google ہماری سائٹ پر ایک فریق ثالث فراہم کنندہ ہے۔ یہ بھی DART کوکیز کہلانے والی کوکیز استعمال کرتا ہے تاکہ www.website.com اور انٹرنیٹ کی دوسری سائٹس پر صارفین کے دوروں کی بنیاد پر انہیں اشتہارات دکھائے جا سکیں۔',
+
+  'terms.title': 'شرائط و ضوابط',
+  'terms.welcome': 'TechyStudent میں خوش آمدید!',
+  'terms.intro': 'یہ شرائط و ضوابط TechyStudent کی ویب سائٹ کے استعمال کے قواعد بیان کرتے ہیں۔',
+  'terms.accept': 'اس ویب سائٹ کو استعمال کر کے آپ ان شرائط و ضوابط کو قبول کرتے ہیں۔ اگر آپ اس صفحے پر درج تمام شرائط سے متفق نہیں ہیں تو TechyStudent کا استعمال جاری نہ رکھیں۔',
+  'terms.licenseTitle': 'لائسنس',
+  'terms.license': 'جب تک کچھ اور نہ بتایا جائے، TechyStudent پر موجود تمام مواد کے دانشورانہ املاک کے حقوق TechyStudent اور/یا اس کے لائسنس دہندگان کے پاس ہیں۔ دانشورانہ املاک کے تمام حقوق محفوظ ہیں۔',
+
+  'disclaimer.title': 'دستبرداری',
+  'disclaimer.body': 'اس ویب سائٹ پر TechyStudent ("ہم") کی فراہم کردہ معلومات صرف عمومی معلوماتی اور تعلیمی مقاصد کے لیے ہیں۔ سائٹ کی تمام معلومات نیک نیتی سے فراہم کی گئی ہیں، تاہم ہم سائٹ کی کسی بھی معلومات کی درستی، کفایت، صحت، بھروسے، دستیابی یا مکمل ہونے کے بارے میں کوئی واضح یا مضمر نمائندگی یا ضمانت نہیں دیتے۔',
+  'disclaimer.warningTitle': 'تعلیمی انتباہ',
+  'disclaimer.warning': 'یہ ٹول صرف تعلیمی مدد کے لیے AI سے تیار کردہ حل فراہم کرتا ہے۔ طلبہ کو ہوم ورک جمع کرانے سے پہلے مراحل کی تصدیق کرنی چاہیے۔ اس ٹول کو امتحانات یا نمبروں والی جانچ میں نقل کے لیے استعمال نہیں کیا جانا چاہیے۔',
+
+  'solution.disclaimer': 'AI سے تیار کردہ مواد۔ جمع کرانے سے پہلے مراحل کی جانچ کریں۔ صرف تعلیمی استعمال کے لیے۔',
+  'solution.sponsored': 'سپانسرڈ',
+  'solution.problem': 'سوال',
+  'solution.steps': 'مرحلہ وار حل',
+  'solution.explain': 'وضاحت',
+  'solution.explainTitle': 'اس مرحلے کی وضاحت کریں',
+  'solution.stepCopy': 'مرحلہ {number}: {title}',
+  'solution.finalAnswer': 'حتمی جواب',
+  'solution.confidence': '{percent}% یقین',
+  'solution.confidenceTitle': 'ماڈل کا بتایا ہوا یقین',
+  'solution.units': 'اکائیاں: {units}',
+
+  'verification.verified': 'تصدیق شدہ',
+  'verification.unverified': 'تصدیق نہیں ہو سکی',
+  'verification.contradicted': 'غلط ثابت',
+
+  'consensus.agree': '{agreeing}/{total} متفق',
+  'consensus.solved': '{count} بار الگ الگ حل کیا گیا',
+  'consensus.solvedFailed': '{count} بار الگ الگ حل کیا گیا، {failed} ناکام',
+  'consensus.compare': 'موازنہ کریں',
+  'consensus.title': '{total} حلوں سے {answers} مختلف جوابات',
+  'consensus.close': 'موازنہ بند کریں',
+  'consensus.shown': 'دکھایا گیا جواب',
+  'consensus.alternative': 'متبادل {number}',
+  'consensus.share': '{total} میں سے {count}',
+
+  'units.consistent': 'اکائیاں درست ہیں',
+  'units.unchecked': 'اکائیاں',
+  'units.mismatch': 'اکائیاں مطابقت نہیں رکھتیں',
+  'units.missing': 'اکائیاں موجود نہیں',
+  'units.convertTo': 'اس میں تبدیل کریں',
+
+  'chemistry.balanced': 'متوازن: ہر عنصر اور چارج محفوظ ہیں۔',
+  'chemistry.corrected': 'متوازن نہیں۔ درست شکل:',
+  'chemistry.unbalanceable': 'متوازن نہیں، اور کوئی مکمل عددی ضریب اسے متوازن نہیں کرتا۔ فارمولے چیک کریں۔',
+  'chemistry.massWrong': '{formula} کا مولر ماس {computed} ہے، {stated} g/mol نہیں۔',
+  'chemistry.massRight': '{formula} کا مولر ماس درست ہے ({computed})۔',
+
+  'copy.title': 'کلپ بورڈ پر کاپی کریں',
+  'copy.label': 'کاپی',
+
+  'tutor.correct': 'درست',
+  'tutor.partial': 'تقریباً',
+  'tutor.incorrect': 'پوری طرح نہیں',
+  'tutor.hints': 'اشارے',
+  'tutor.nextHint': '{total} میں سے اشارہ {number} دکھائیں',
+  'tutor.tryStep': 'مرحلہ {number} خود کرنے کی کوشش کریں (اختیاری)',
+  'tutor.attemptPlaceholder': 'لکھیں کہ آپ آگے کیا کریں گے، مثلاً دونوں طرف سے 5 گھٹائیں: 2x = 6',
+  'tutor.check': 'میرا مرحلہ چیک کریں',
+  'tutor.revealStep': 'مرحلہ {number} دکھائیں',
+  'tutor.revealAnswer': 'حتمی جواب دکھائیں',
+
+  'followUp.title': 'مزید سوال پوچھیں',
+  'followUp.thinking': 'سوچ رہا ہے...',
+  'followUp.placeholder': 'مثلاً مرحلہ 3 میں 2 سے تقسیم کیوں کیا؟',
+  'followUp.send': 'بھیجیں',
+  'followUp.explainStep': 'کیا آپ مرحلہ {number} ("{title}") کو مزید تفصیل سے سمجھا سکتے ہیں؟ یہ اس طرح کیوں کیا گیا ہے؟',
+
+  'practice.start': 'ملتے جلتے سوالات کی مشق',
+  'practice.writing': 'سوالات لکھے جا رہے ہیں...',
+  'practice.count': '{count} سوالات',
+  'practice.title': 'مشق: {topic}',
+  'practice.score': '{graded} میں سے {correct} درست',
+  'practice.topicScore': 'اس موضوع پر مجموعی طور پر {correct}/{attempted}',
+  'practice.answerPlaceholder': 'آپ کا جواب، مثلاً x = 4 یا 2.5',
+  'practice.check': 'چیک کریں',
+  'practice.correct': 'درست!',
+  'practice.incorrect': 'پوری طرح نہیں۔ یہ رہا مکمل حل۔',
+  'practice.unchecked': 'خودکار موازنہ نہیں ہو سکا۔ متوقع جواب یہ ہے:',
+  'practice.markRight': 'میرا جواب درست تھا',
+  'practice.markWrong': 'میرا جواب غلط تھا',
+  'practice.result': 'آپ نے {total} میں سے {correct} درست کیے۔',
+  'practice.newSet': 'نیا سیٹ',
+
+  'worksheet.back': 'اپ لوڈ پر واپس',
+  'worksheet.detecting': 'آپ کی ورک شیٹ کے سوالات تلاش کیے جا رہے ہیں...',
+  'worksheet.detectingHint': 'اس کے بعد آپ چنیں گے کہ کون سے حل کرنے ہیں۔',
+  'worksheet.detectFailed': 'ورک شیٹ کو سوالات میں تقسیم نہیں کیا جا سکا',
+  'worksheet.selectAll': 'سب منتخب کریں',
+  'worksheet.selectNone': 'کوئی نہیں',
+  'worksheet.question': 'سوال {number}',
+  'worksheet.page': 'صفحہ {number}',
+  'worksheet.solveOne': '1 سوال حل کریں',
+  'worksheet.solveMany': '{count} سوالات حل کریں',
+  'worksheet.progress': '{total} میں سے {finished} مکمل',
+  'worksheet.tab': 'س{number}',
+  'worksheet.solving': 'یہ سوال حل کیا جا رہا ہے...',
+  'worksheet.waiting': 'باری کا انتظار...',
+
+  'history.loadError': 'آپ کی ہسٹری لوڈ نہیں ہو سکی۔ ہو سکتا ہے آپ کا براؤزر لوکل اسٹوریج روک رہا ہو۔',
+  'history.confirmDelete': 'کیا یہ حل ہسٹری سے حذف کرنا ہے؟',
+  'history.scores': 'مشق کے اسکور',
+  'history.search': 'سوالات، مراحل اور جوابات تلاش کریں...',
+  'history.all': 'سب',
+  'history.favorites': 'پسندیدہ',
+  'history.loading': 'لوڈ ہو رہا ہے...',
+  'history.empty': 'حل شدہ سوالات یہاں نظر آئیں گے۔',
+  'history.noMatches': 'آپ کے فلٹرز سے کوئی حل میل نہیں کھاتا۔',
+  'history.imageQuestion': 'تصویری سوال',
+  'history.favorite': 'پسندیدہ میں شامل کریں',
+  'history.unfavorite': 'پسندیدہ سے ہٹائیں',
+  'history.delete': 'حذف کریں',
+
+  'export.button': 'ایکسپورٹ',
+  'export.generating': 'تیار ہو رہا ہے...',
+  'export.pdfFailed': 'PDF نہیں بن سکی۔ اس کے بجائے پرنٹ کریں اور "PDF کے طور پر محفوظ کریں" منتخب کریں۔',
+  'export.anki': 'Anki کارڈ (.csv)',
+  'export.ankiMany': 'Anki کارڈز (.csv)',
+  'export.print': 'پرنٹ کریں',
+
+  'shared.solveOwn': 'اپنا سوال حل کریں',
+  'shared.title': 'شیئر کیا گیا حل',
+  'shared.loading': 'حل لوڈ ہو رہا ہے...',
+  'shared.notFound': 'حل نہیں ملا',
+  'shared.notFoundHint': 'یہ لنک نامکمل ہے یا حل اس ڈیوائس سے حذف ہو چکا ہے۔',
+  'shared.question': 'سوال',
+
+  'subject.title': 'حل کے اصول چننے کے لیے استعمال ہونے والا مضمون۔ تبدیل کرنے کے لیے کلک کریں۔',
+  'subject.detect': 'مضمون پہچانیں',
+  'subject.auto': '(خودکار)',
+  'subject.label': 'مضمون',
+  'subject.topic': 'موضوع',
+  'subject.detectAuto': 'خودکار طور پر پہچانیں',
+  'subject.topicPlaceholder': 'مثلاً پروجیکٹائل موشن',
+  'subjects.Mathematics': 'ریاضی',
+  'subjects.Physics': 'طبیعیات',
+  'subjects.Chemistry': 'کیمیا',
+  'subjects.General Science': 'جنرل سائنس',
+  'subjects.Computer Science': 'کمپیوٹر سائنس',
+
+  'attachments.edit': 'کراپ، گھمائیں یا بہتر کریں',
+  'attachments.remove': 'ہٹائیں',
+  'attachments.earlier': 'پہلے لے جائیں',
+  'attachments.later': 'بعد میں لے جائیں',
+  'attachments.add': 'صفحہ شامل کریں',
+  'attachments.scan': 'صفحہ اسکین کریں',
+
+  'imageEditor.title': 'تصویر میں ترمیم',
+  'imageEditor.close': 'بند کریں',
+  'imageEditor.alt': 'اپ لوڈ کیا گیا سوال',
+  'imageEditor.rotateLeft': 'بائیں گھمائیں',
+  'imageEditor.rotateRight': 'دائیں گھمائیں',
+  'imageEditor.contrast': 'کنٹراسٹ',
+  'imageEditor.cropping': 'انتخاب کے مطابق کراپ',
+  'imageEditor.cropHint': 'کراپ کرنے کے لیے تصویر پر ڈریگ کریں',
+  'imageEditor.reset': 'ری سیٹ',
+  'imageEditor.apply': 'لاگو کریں',
+  'imageEditor.applying': 'لاگو ہو رہا ہے...',
+  'imageEditor.failed': 'یہ تبدیلیاں تصویر پر لاگو نہیں ہو سکیں۔'
+};
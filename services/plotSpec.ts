@@ -0,0 +1,284 @@
+import { parse } from 'mathjs';
+import { latexToExpression } from './latexMath';
+
+// A ```plot block in a step, one instruction per line:
+//   y = x^2 - 5x + 6        a curve (any "name = expression in x", or a bare expression)
+//   x: -1..6                horizontal range; optional, defaults to -10..10
+//   y: -2..8                vertical range; optional, fitted to the curves otherwise
+//   point: (2, 0) root      a marked point with an optional label
+
+export interface PlotFunction {
+  label: string;
+  evaluate: (x: number) => number | null;
+}
+
+export interface PlotPoint {
+  x: number;
+  y: number;
+  label: string;
+}
+
+export interface PlotSpec {
+  functions: PlotFunction[];
+  points: PlotPoint[];
+  xRange: [number, number];
+  yRange: [number, number] | null;
+}
+
+export interface PlotView {
+  xMin: number;
+  xMax: number;
+  yMin: number;
+  yMax: number;
+}
+
+const DEFAULT_X_RANGE: [number, number] = [-10, 10];
+const SAMPLES = 400;
+export const PLOT_COLORS = ['#2563eb', '#dc2626', '#16a34a', '#9333ea'];
+export const HIGHLIGHT_COLOR = '#f59e0b';
+
+const compile = (latex: string): ((x: number) => number | null) | null => {
+  try {
+    const code = parse(latexToExpression(latex.replace(/\$/g, ''))).compile();
+    return (x: number) => {
+      try {
+        const value = code.evaluate({ x });
+        return typeof value === 'number' && Number.isFinite(value) ? value : null;
+      } catch {
+        return null;
+      }
+    };
+  } catch {
+    return null;
+  }
+};
+
+const evaluateConstant = (latex: string): number | null => compile(latex)?.(0) ?? null;
+
+const parseRange = (text: string): [number, number] | null => {
+  const parts = text.replace(/^\[|\]$/g, '').split(/\.\.|,|\bto\b/);
+  if (parts.length !== 2) return null;
+  const [from, to] = parts.map(evaluateConstant);
+  return from !== null && to !== null && from < to ? [from, to] : null;
+};
+
+/**
+ * Reads the body of a ```plot block. Returns null when it has no drawable curve or point,
+ * so the block can be shown as plain code instead.
+ */
+export const parsePlotSpec = (source: string): PlotSpec | null => {
+  const spec: PlotSpec = { functions: [], points: [], xRange: DEFAULT_X_RANGE, yRange: null };
+
+  for (const rawLine of source.split('\n')) {
+    const line = rawLine.trim();
+    if (!line || line.startsWith('#')) continue;
+
+    const directive = line.match(/^(x|y|domain|range|point)\s*:\s*(.+)$/i);
+    if (directive) {
+      const [, key, value] = directive;
+      const name = key.toLowerCase();
+      if (name === 'point') {
+        const point = value.match(/^\(\s*([^,]+?)\s*,\s*([^)]+?)\s*\)\s*(.*)$/);
+        const x = point && evaluateConstant(point[1]);
+        const y = point && evaluateConstant(point[2]);
+        if (point && x !== null && y !== null) {
+          spec.points.push({ x, y, label: point[3].replace(/\$/g, '').trim() });
+        }
+      } else if (name === 'x' || name === 'domain') {
+        spec.xRange = parseRange(value) || spec.xRange;
+      } else {
+        spec.yRange = parseRange(value) || spec.yRange;
+      }
+      continue;
+    }
+
+    const [label, expression] = line.includes('=') ? line.split(/=(.*)/s) : ['y', line];
+    const evaluate = compile(expression);
+    if (evaluate) spec.functions.push({ label: label.replace(/\$/g, '').trim() || 'y', evaluate });
+  }
+
+  return spec.functions.length || spec.points.length ? spec : null;
+};
+
+// Vertical range that shows most of every curve without one asymptote flattening the rest
+const fitYRange = (spec: PlotSpec): [number, number] => {
+  const [xMin, xMax] = spec.xRange;
+  const values = spec.points.map(point => point.y);
+  spec.functions.forEach(fn => {
+    for (let i = 0; i <= 100; i++) {
+      const y = fn.evaluate(xMin + ((xMax - xMin) * i) / 100);
+      if (y !== null) values.push(y);
+    }
+  });
+  if (values.length === 0) return [-10, 10];
+
+  values.sort((a, b) => a - b);
+  const low = values[Math.floor(values.length * 0.05)];
+  const high = values[Math.ceil(values.length * 0.95) - 1];
+  const extremes = [Math.min(low, 0, ...spec.points.map(p => p.y)), Math.max(high, 0, ...spec.points.map(p => p.y))];
+  const padding = (extremes[1] - extremes[0]) * 0.1 || 1;
+  return [extremes[0] - padding, extremes[1] + padding];
+};
+
+export const initialView = (spec: PlotSpec): PlotView => {
+  const [yMin, yMax] = spec.yRange || fitYRange(spec);
+  return { xMin: spec.xRange[0], xMax: spec.xRange[1], yMin, yMax };
+};
+
+// Zooms by `factor` (< 1 zooms in) keeping the point at fractions (fx, fy) of the view fixed
+export const zoomView = (view: PlotView, factor: number, fx = 0.5, fy = 0.5): PlotView => {
+  const x = view.xMin + (view.xMax - view.xMin) * fx;
+  const y = view.yMin + (view.yMax - view.yMin) * fy;
+  return {
+    xMin: x - (x - view.xMin) * factor,
+    xMax: x + (view.xMax - x) * factor,
+    yMin: y - (y - view.yMin) * factor,
+    yMax: y + (view.yMax - y) * factor
+  };
+};
+
+// Shifts the view by fractions of its size
+export const panView = (view: PlotView, dx: number, dy: number): PlotView => {
+  const width = view.xMax - view.xMin;
+  const height = view.yMax - view.yMin;
+  return { xMin: view.xMin + dx * width, xMax: view.xMax + dx * width, yMin: view.yMin + dy * height, yMax: view.yMax + dy * height };
+};
+
+// 1, 2 or 5 times a power of ten, giving about `count` ticks
+const niceTicks = (min: number, max: number, count = 8): number[] => {
+  const rough = (max - min) / count;
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map(m => m * power).find(s => s >= rough) || rough;
+  const ticks: number[] = [];
+  for (let value = Math.ceil(min / step) * step; value <= max; value += step) {
+    ticks.push(Math.abs(value) < step / 1e6 ? 0 : Number(value.toPrecision(12)));
+  }
+  return ticks;
+};
+
+// Numbers written in the final answer, with \frac{a}{b} evaluated
+const answerNumbers = (finalAnswer: string): number[] =>
+  Array.from(
+    finalAnswer.replace(/\\[dt]?frac\{(-?[\d.]+)\}\{(-?[\d.]+)\}/g, (_, a, b) => String(Number(a) / Number(b))).matchAll(/-?\d+(?:\.\d+)?(?:e-?\d+)?/g),
+    match => Number(match[0])
+  ).filter(Number.isFinite);
+
+// A point is "mentioned" when its x or y value appears in the answer, to the answer's precision
+const isMentioned = (point: PlotPoint, numbers: number[]) =>
+  numbers.some(n => [point.x, point.y].some(v => Math.abs(v - n) <= Math.max(0.005, 1e-6 * Math.abs(n))));
+
+export interface PlotScene {
+  width: number;
+  height: number;
+  xTicks: { value: number, px: number }[];
+  yTicks: { value: number, px: number }[];
+  // Pixel position of the axes, null when zero is off-screen
+  xAxis: number | null;
+  yAxis: number | null;
+  curves: { label: string, color: string, paths: string[] }[];
+  points: { label: string, px: number, py: number, highlighted: boolean }[];
+}
+
+/**
+ * Everything needed to draw the graph at one view, in SVG pixel coordinates.
+ * Shared by the interactive graph and the static SVG used in exports.
+ */
+export const buildPlotScene = (spec: PlotSpec, view: PlotView, width: number, height: number, finalAnswer = ''): PlotScene => {
+  const toPx = (x: number) => ((x - view.xMin) / (view.xMax - view.xMin)) * width;
+  const toPy = (y: number) => height - ((y - view.yMin) / (view.yMax - view.yMin)) * height;
+  const numbers = answerNumbers(finalAnswer);
+
+  const curves = spec.functions.map((fn, index) => {
+    const paths: string[] = [];
+    let current = '';
+    let lastPy: number | null = null;
+    for (let i = 0; i <= SAMPLES; i++) {
+      const x = view.xMin + ((view.xMax - view.xMin) * i) / SAMPLES;
+      const y = fn.evaluate(x);
+      const py = y === null ? null : toPy(y);
+      // Break the line at gaps and at near-vertical jumps (asymptotes)
+      if (py === null || (lastPy !== null && Math.abs(py - lastPy) > height * 2)) {
+        if (current) paths.push(current);
+        current = '';
+      }
+      if (py !== null) {
+        const clamped = Math.max(-height, Math.min(2 * height, py));
+        current += `${current ? 'L' : 'M'}${toPx(x).toFixed(1)},${clamped.toFixed(1)}`;
+      }
+      lastPy = py;
+    }
+    if (current) paths.push(current);
+    return { label: fn.label, color: PLOT_COLORS[index % PLOT_COLORS.length], paths };
+  });
+
+  return {
+    width,
+    height,
+    xTicks: niceTicks(view.xMin, view.xMax).map(value => ({ value, px: toPx(value) })),
+    yTicks: niceTicks(view.yMin, view.yMax, 6).map(value => ({ value, px: toPy(value) })),
+    xAxis: view.yMin <= 0 && view.yMax >= 0 ? toPy(0) : null,
+    yAxis: view.xMin <= 0 && view.xMax >= 0 ? toPx(0) : null,
+    curves,
+    points: spec.points.map(point => ({
+      label: point.label || `(${Number(point.x.toPrecision(4))}, ${Number(point.y.toPrecision(4))})`,
+      px: toPx(point.x),
+      py: toPy(point.y),
+      highlighted: isMentioned(point, numbers)
+    }))
+  };
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Standalone SVG markup of the graph at its initial view, for Markdown and Anki exports.
+ */
+export const renderPlotSvg = (spec: PlotSpec, finalAnswer = '', width = 480, height = 320): string => {
+  const scene = buildPlotScene(spec, initialView(spec), width, height, finalAnswer);
+  const parts = [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}" font-family="sans-serif" font-size="11">`,
+    `<rect width="${width}" height="${height}" fill="#ffffff"/>`,
+    ...scene.xTicks.map(t => `<line x1="${t.px}" y1="0" x2="${t.px}" y2="${height}" stroke="#e5e7eb"/><text x="${t.px + 2}" y="${(scene.xAxis ?? height) - 4}" fill="#6b7280">${t.value}</text>`),
+    ...scene.yTicks.map(t => `<line x1="0" y1="${t.px}" x2="${width}" y2="${t.px}" stroke="#e5e7eb"/>${t.value !== 0 ? `<text x="${(scene.yAxis ?? 0) + 2}" y="${t.px - 2}" fill="#6b7280">${t.value}</text>` : ''}`),
+    scene.xAxis !== null ? `<line x1="0" y1="${scene.xAxis}" x2="${width}" y2="${scene.xAxis}" stroke="#374151"/>` : '',
+    scene.yAxis !== null ? `<line x1="${scene.yAxis}" y1="0" x2="${scene.yAxis}" y2="${height}" stroke="#374151"/>` : '',
+    ...scene.curves.flatMap(curve => curve.paths.map(d => `<path d="${d}" fill="none" stroke="${curve.color}" stroke-width="2"/>`)),
+    ...scene.points.map(p => {
+      const color = p.highlighted ? HIGHLIGHT_COLOR : '#111827';
+      return `<circle cx="${p.px}" cy="${p.py}" r="${p.highlighted ? 6 : 4}" fill="${color}"/><text x="${p.px + 8}" y="${p.py - 8}" fill="${color}" font-weight="${p.highlighted ? 'bold' : 'normal'}">${escapeXml(p.label)}</text>`;
+    }),
+    ...scene.curves.map((curve, i) => `<text x="${width - 8}" y="${16 + i * 14}" text-anchor="end" fill="${curve.color}">${escapeXml(curve.label)}</text>`),
+    '</svg>'
+  ];
+  return parts.join('');
+};
+
+/**
+ * pgfplots axis for the LaTeX export. Curves are sampled coordinates, so no
+ * expression has to be translated into pgfplots syntax.
+ */
+export const renderPlotPgf = (spec: PlotSpec): string => {
+  const view = initialView(spec);
+  // Points far outside the axis are dropped so asymptotes don't stretch it
+  const margin = (view.yMax - view.yMin) * 2;
+  const lines = [
+    '\\begin{center}',
+    '\\begin{tikzpicture}',
+    `\\begin{axis}[width=0.8\\textwidth, axis lines=middle, grid=major, xmin=${view.xMin}, xmax=${view.xMax}, ymin=${view.yMin.toPrecision(4)}, ymax=${view.yMax.toPrecision(4)}, restrict y to domain=${(view.yMin - margin).toPrecision(4)}:${(view.yMax + margin).toPrecision(4)}, unbounded coords=jump]`
+  ];
+  spec.functions.forEach(fn => {
+    const coordinates: string[] = [];
+    for (let i = 0; i <= 200; i++) {
+      const x = view.xMin + ((view.xMax - view.xMin) * i) / 200;
+      const y = fn.evaluate(x);
+      coordinates.push(`(${x.toPrecision(6)},${y === null ? 'nan' : y.toPrecision(6)})`);
+    }
+    lines.push(`\\addplot[thick, no marks] coordinates {${coordinates.join(' ')}};`);
+  });
+  spec.points.forEach(point => {
+    const label = point.label.replace(/[\\&%#_{}~^$]/g, '');
+    lines.push(`\\addplot[only marks, mark=*] coordinates {(${point.x},${point.y})}${label ? ` node[above right] {${label}}` : ''};`);
+  });
+  lines.push('\\end{axis}', '\\end{tikzpicture}', '\\end{center}');
+  return lines.join('\n');
+};
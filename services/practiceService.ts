@@ -0,0 +1,89 @@
+import { Solution } from '../types';
+import { getSolverProvider } from './providers';
+import { parseSolutionResponse } from './solutionParser';
+import { parseJsonResponse, validateSolution } from './solutionSchema';
+import { toExportable, toMarkdown } from './exportService';
+import { compareAnswers } from './verificationService';
+import { MalformedOutputError, toSolverError } from './solverErrors';
+
+export interface PracticeProblem {
+  id: string;
+  question: string;
+  // Hidden until the student answers; its steps are shown for missed problems
+  solution: Solution;
+}
+
+export interface PracticeSet {
+  topic: string;
+  subject: string;
+  problems: PracticeProblem[];
+}
+
+// 'unchecked' when the answers can't be compared automatically and the student marks it themselves
+export type PracticeVerdict = 'correct' | 'incorrect' | 'unchecked';
+
+export const PRACTICE_COUNTS = [3, 5];
+
+const parsePracticeSet = (raw: string, count: number): PracticeSet | null => {
+  const decoded = parseJsonResponse(raw) as { topic?: unknown, problems?: unknown } | undefined;
+  if (!decoded || !Array.isArray(decoded.problems)) return null;
+
+  const problems = decoded.problems.flatMap((item): PracticeProblem[] => {
+    if (typeof item !== 'object' || item === null) return [];
+    const { question, solution } = item as Record<string, unknown>;
+    const validated = validateSolution(solution);
+    if (typeof question !== 'string' || !question.trim() || !validated?.finalAnswer) return [];
+    return [{ id: crypto.randomUUID(), question: question.trim(), solution: validated }];
+  }).slice(0, count);
+  if (problems.length === 0) return null;
+
+  const topic = typeof decoded.topic === 'string' && decoded.topic.trim() ? decoded.topic.trim() : 'General practice';
+  return { topic, subject: problems[0].solution.subject, problems };
+};
+
+/**
+ * Asks the model for `count` new problems like the solved one, each with a hidden
+ * structured solution used to grade the student's answer.
+ */
+export const generatePracticeSet = async (
+  inputText: string,
+  rawResponse: string,
+  language: string,
+  count: number,
+  signal?: AbortSignal
+): Promise<PracticeSet> => {
+  const provider = getSolverProvider();
+  const parsed = parseSolutionResponse(rawResponse);
+  const solution = parsed ? toMarkdown([toExportable(inputText, parsed)], { embedPlots: false }) : rawResponse;
+
+  let raw: string;
+  try {
+    raw = await provider.complete({
+      task: 'practice-problems',
+      question: inputText,
+      solution,
+      count,
+      language
+    }, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Practice Error (${provider.name}):`, error);
+    throw toSolverError(error);
+  }
+
+  const set = parsePracticeSet(raw, count);
+  if (!set) {
+    throw new MalformedOutputError("Couldn't create practice problems for this question. Please try again.");
+  }
+  return set;
+};
+
+// Units are graded by the value alone, so "12 m/s" and "12" both match 12 m/s
+const withoutUnits = (answer: string, units?: string) =>
+  units ? answer.split(units).join('').trim() : answer;
+
+export const gradePracticeAnswer = (problem: PracticeProblem, answer: string): PracticeVerdict => {
+  const { finalAnswer, units } = problem.solution;
+  const same = compareAnswers(withoutUnits(finalAnswer, units), withoutUnits(answer, units));
+  return same === null ? 'unchecked' : same ? 'correct' : 'incorrect';
+};
@@ -0,0 +1,23 @@
+import { TopicScore } from '../types';
+import { STORES, updateInStore, withStore } from './indexedDb';
+
+const topicId = (topic: string) => topic.trim().toLowerCase();
+
+// Best first, then most practised
+export const listTopicScores = async (): Promise<TopicScore[]> => {
+  const scores: TopicScore[] = await withStore(STORES.practiceScores, 'readonly', store => store.getAll());
+  return scores.sort((a, b) => b.correct / b.attempted - a.correct / a.attempted || b.attempted - a.attempted);
+};
+
+// Adds one graded answer to the topic's running score
+export const recordPracticeAnswer = (topic: string, subject: string, correct: boolean): Promise<TopicScore> => {
+  const id = topicId(topic);
+  return updateInStore<TopicScore>(STORES.practiceScores, id, existing => ({
+    id,
+    topic: existing?.topic || topic.trim(),
+    subject: subject || existing?.subject || '',
+    attempted: (existing?.attempted || 0) + 1,
+    correct: (existing?.correct || 0) + (correct ? 1 : 0),
+    updatedAt: Date.now()
+  }));
+};
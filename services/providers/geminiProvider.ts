@@ -0,0 +1,111 @@
+import { GoogleGenAI, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { SolverProvider, SolveRequest, CompletionRequest, buildPromptText, systemInstructionFor, temperatureFor } from '../solverProvider';
+import { SOLUTION_JSON_SCHEMA } from '../solutionSchema';
+import { completionPromptFor } from '../completionPrompts';
+import { parseDataUrl } from '../imageProcessing';
+import { SafetyError } from '../solverErrors';
+
+interface GeminiProviderOptions {
+  apiKey: string;
+  modelId?: string;
+}
+
+// Finish reasons that mean the answer was withheld rather than completed
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new SafetyError();
+  }
+};
+
+export class GeminiProvider implements SolverProvider {
+  readonly name = 'gemini';
+  // Using gemini-3-pro-preview for better reasoning on Math/STEM tasks
+  readonly modelId: string;
+  readonly capabilities = { images: true, structuredOutput: true };
+
+  private apiKey: string;
+  private client: GoogleGenAI | null = null;
+
+  constructor({ apiKey, modelId = 'gemini-3-pro-preview' }: GeminiProviderOptions) {
+    this.apiKey = apiKey;
+    this.modelId = modelId;
+  }
+
+  // Created lazily so other providers can run without a Gemini key
+  private getClient(): GoogleGenAI {
+    if (!this.client) {
+      this.client = new GoogleGenAI({ apiKey: this.apiKey });
+    }
+    return this.client;
+  }
+
+  // Images go first, in order; uploads are normalised to PNG/JPEG/WEBP data URLs and bare base64 is treated as PNG
+  private buildParts(images: string[], text: string): any[] {
+    const parts: any[] = images.map(dataUrl => {
+      const image = parseDataUrl(dataUrl);
+      return {
+        inlineData: {
+          data: image ? image.data : dataUrl,
+          mimeType: image ? image.mimeType : 'image/png'
+        }
+      };
+    });
+    parts.push({ text });
+    return parts;
+  }
+
+  private buildParams(request: SolveRequest, signal?: AbortSignal): GenerateContentParameters {
+    return {
+      model: this.modelId,
+      contents: {
+        parts: this.buildParts(request.images, buildPromptText(request))
+      },
+      config: {
+        systemInstruction: systemInstructionFor(request, true),
+        temperature: temperatureFor(request),
+        responseMimeType: 'application/json',
+        responseJsonSchema: SOLUTION_JSON_SCHEMA,
+        abortSignal: signal
+      }
+    };
+  }
+
+  async solve(request: SolveRequest): Promise<string> {
+    const response = await this.getClient().models.generateContent(this.buildParams(request));
+    assertNotBlocked(response);
+    return response.text || '';
+  }
+
+  async *solveStream(request: SolveRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const stream = await this.getClient().models.generateContentStream(this.buildParams(request, signal));
+    for await (const chunk of stream) {
+      assertNotBlocked(chunk);
+      if (chunk.text) {
+        yield chunk.text;
+      }
+    }
+  }
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    const { systemInstruction, prompt, images, jsonSchema } = completionPromptFor(request);
+    const response = await this.getClient().models.generateContent({
+      model: this.modelId,
+      contents: {
+        parts: this.buildParts(images, prompt)
+      },
+      config: {
+        systemInstruction,
+        temperature: 0.1,
+        ...(jsonSchema && {
+          responseMimeType: 'application/json',
+          responseJsonSchema: jsonSchema
+        }),
+        abortSignal: signal
+      }
+    });
+    return response.text || '';
+  }
+}
@@ -0,0 +1,61 @@
+import { SolverProvider } from '../solverProvider';
+import { GeminiProvider } from './geminiProvider';
+import { OpenAICompatibleProvider } from './openAICompatibleProvider';
+import { MockProvider } from './mockProvider';
+import { ProxyProvider } from './proxyProvider';
+
+const createProvider = (name: string): SolverProvider => {
+  switch (name) {
+    case 'mock':
+      return new MockProvider();
+    case 'proxy':
+      return new ProxyProvider({
+        baseUrl: process.env.SOLVER_API_URL || '',
+        supportsImages: process.env.SOLVER_SUPPORTS_IMAGES !== 'false'
+      });
+    case 'openai':
+      return new OpenAICompatibleProvider({
+        baseUrl: process.env.SOLVER_BASE_URL || 'http://localhost:11434/v1',
+        apiKey: process.env.SOLVER_API_KEY || '',
+        modelId: process.env.SOLVER_MODEL || 'llama3.2-vision',
+        supportsImages: process.env.SOLVER_SUPPORTS_IMAGES !== 'false',
+        supportsStructuredOutput: process.env.SOLVER_STRUCTURED_OUTPUT !== 'false'
+      });
+    case 'gemini':
+    case '':
+      return new GeminiProvider({
+        apiKey: process.env.GEMINI_API_KEY || process.env.API_KEY || '',
+        modelId: process.env.SOLVER_MODEL || undefined
+      });
+    default:
+      throw new Error(`Unknown solver provider "${name}". Use gemini, openai, mock or proxy.`);
+  }
+};
+
+let activeProvider: SolverProvider | null = null;
+let sampleProviders: SolverProvider[] | null = null;
+
+// Provider is chosen once from SOLVER_PROVIDER: "proxy" or "mock" in the browser (see vite.config.ts),
+// the real model on the API server (see server/)
+export const getSolverProvider = (): SolverProvider => {
+  if (!activeProvider) {
+    activeProvider = createProvider((process.env.SOLVER_PROVIDER || '').trim().toLowerCase());
+  }
+  return activeProvider;
+};
+
+// Allows swapping the backend at runtime (e.g. a dev toggle) without touching callers
+export const setSolverProvider = (provider: SolverProvider) => {
+  activeProvider = provider;
+  sampleProviders = null;
+};
+
+// High accuracy sample n is solved by provider n (mod count) of SOLVER_SAMPLE_PROVIDERS, e.g. "gemini,openai",
+// so the samples can come from different models. Unset means the main provider for every sample.
+export const providerForSample = (sample: number): SolverProvider => {
+  if (!sampleProviders) {
+    const names = (process.env.SOLVER_SAMPLE_PROVIDERS || '').split(',').map(name => name.trim().toLowerCase()).filter(Boolean);
+    sampleProviders = names.length ? names.map(createProvider) : [getSolverProvider()];
+  }
+  return sampleProviders[sample % sampleProviders.length];
+};
@@ -0,0 +1,166 @@
+// Canned model responses used by the mock provider for offline UI work.
+// Each one follows the SYSTEM_INSTRUCTION format exactly as Gemini returns it.
+
+export interface MockFixture {
+  id: string;
+  keywords: string[];
+  response: string;
+}
+
+export const MOCK_FIXTURES: MockFixture[] = [
+  {
+    id: 'quadratic',
+    keywords: ['x^2', 'quadratic', 'roots', 'solve for x', 'factor'],
+    response: `## Solution Steps
+
+### Step 1: Identify the coefficients
+The equation $x^2 - 5x + 6 = 0$ is in the form $ax^2 + bx + c = 0$ with $a = 1$, $b = -5$, $c = 6$.
+
+### Step 2: Factor the quadratic
+We need two numbers whose product is $6$ and whose sum is $-5$: these are $-2$ and $-3$.
+$$x^2 - 5x + 6 = (x - 2)(x - 3)$$
+
+### Step 3: Apply the zero product property
+$$x - 2 = 0 \\quad \\text{or} \\quad x - 3 = 0$$
+
+The roots are where the parabola crosses the $x$-axis:
+
+\`\`\`plot
+y = x^2 - 5x + 6
+x: -1..6
+point: (2, 0) root
+point: (3, 0) root
+point: (2.5, -0.25) vertex
+\`\`\`
+
+## Final Answer
+$x = 2$ or $x = 3$
+`
+  },
+  {
+    id: 'derivative',
+    keywords: ['derivative', 'differentiate', 'd/dx', 'integral', 'integrate'],
+    response: `## Solution Steps
+
+### Step 1: Recall the power rule
+For $f(x) = x^n$, the derivative is $f'(x) = n x^{n-1}$.
+
+### Step 2: Differentiate each term
+$$\\frac{d}{dx}\\left(3x^3\\right) = 9x^2, \\qquad \\frac{d}{dx}\\left(2x\\right) = 2$$
+
+### Step 3: Combine the results
+$$f'(x) = 9x^2 + 2$$
+
+## Final Answer
+$f'(x) = 9x^2 + 2$
+`
+  },
+  {
+    id: 'kinematics',
+    keywords: ['velocity', 'acceleration', 'speed', 'force', 'm/s'],
+    response: `## Solution Steps
+
+### Step 1: List the known quantities
+Initial velocity $u = 0\\,\\text{m/s}$, acceleration $a = 2\\,\\text{m/s}^2$, time $t = 5\\,\\text{s}$.
+
+### Step 2: Choose the equation of motion
+$$v = u + at$$
+
+### Step 3: Substitute the values
+$$v = 0 + (2)(5) = 10\\,\\text{m/s}$$
+
+## Final Answer
+$v = 10\\,\\text{m/s}$
+`
+  },
+  {
+    id: 'stoichiometry',
+    keywords: ['mol', 'balance', 'reaction', 'molar', 'grams of'],
+    response: `## Solution Steps
+
+### Step 1: Write the balanced equation
+$$2\\text{H}_2 + \\text{O}_2 \\rightarrow 2\\text{H}_2\\text{O}$$
+
+### Step 2: Find the moles of hydrogen
+$$n(\\text{H}_2) = \\frac{4\\,\\text{g}}{2\\,\\text{g/mol}} = 2\\,\\text{mol}$$
+
+### Step 3: Use the mole ratio
+The ratio of $\\text{H}_2$ to $\\text{H}_2\\text{O}$ is $2:2$, so $n(\\text{H}_2\\text{O}) = 2\\,\\text{mol}$.
+
+### Step 4: Convert to mass
+$$m = 2\\,\\text{mol} \\times 18\\,\\text{g/mol} = 36\\,\\text{g}$$
+
+## Final Answer
+$36\\,\\text{g}$ of water
+`
+  },
+  {
+    id: 'linear',
+    keywords: [],
+    response: `## Solution Steps
+
+### Step 1: Isolate the variable term
+Subtract $3$ from both sides of $2x + 3 = 11$:
+$$2x = 8$$
+
+### Step 2: Divide by the coefficient
+$$x = \\frac{8}{2} = 4$$
+
+## Final Answer
+$x = 4$
+`
+  }
+];
+
+// Prepended to any fixture in tutor mode, as TUTOR_SYSTEM_INSTRUCTION asks
+export const MOCK_TUTOR_HINTS = `## Hints
+1. What is the unknown, and which rule or formula connects it to what you are given?
+2. Try to get the unknown on its own: undo each operation applied to it, one at a time.
+3. Do the same operation to both sides of the equation at every step.
+
+`;
+
+// Canned replies for provider.complete(), keyed by CompletionRequest.task
+export const MOCK_COMPLETIONS: Record<string, string> = {
+  'worksheet-segmentation': JSON.stringify({
+    questions: [
+      { number: '1', text: 'Solve for x: $x^2 - 5x + 6 = 0$', imageIndex: 0, region: { x: 0.05, y: 0.05, width: 0.9, height: 0.25 } },
+      { number: '2', text: 'Find the derivative of $3x^3 + 2x$', imageIndex: 0, region: { x: 0.05, y: 0.35, width: 0.9, height: 0.25 } },
+      { number: '3', text: 'How many grams of water form from 4 g of hydrogen? Balance the reaction first.', imageIndex: 0, region: { x: 0.05, y: 0.65, width: 0.9, height: 0.3 } }
+    ]
+  }),
+  classification: JSON.stringify({ subject: 'Mathematics', topic: 'Linear equations' }),
+  'tutor-step-check': JSON.stringify({
+    verdict: 'partial',
+    feedback: 'You are on the right track. Check the sign when you move the term to the other side.'
+  }),
+  'practice-problems': JSON.stringify({
+    topic: 'Linear equations',
+    problems: [
+      { a: 3, b: 4, c: 19, x: 5 },
+      { a: 5, b: -2, c: 13, x: 3 },
+      { a: 4, b: 7, c: -1, x: -2 },
+      { a: 2, b: 9, c: 10, x: 0.5 },
+      { a: 6, b: -5, c: 31, x: 6 }
+    ].map(({ a, b, c, x }) => {
+      const question = `Solve for $x$: $${a}x ${b < 0 ? '-' : '+'} ${Math.abs(b)} = ${c}$`;
+      return {
+        question,
+        solution: {
+          subject: 'Mathematics',
+          problemStatement: question,
+          steps: [
+            { title: `${b < 0 ? 'Add' : 'Subtract'} ${Math.abs(b)} on both sides`, content: `$$${a}x = ${c - b}$$`, latex: `${a}x = ${c - b}` },
+            { title: `Divide both sides by ${a}`, content: `$$x = \\frac{${c - b}}{${a}} = ${x}$$`, latex: `x = ${x}` }
+          ],
+          finalAnswer: `$x = ${x}$`
+        }
+      };
+    })
+  }),
+  'follow-up': `Good question! In that step we divide both sides by the same number so the equation stays balanced.
+
+For example, from $2x = 8$ dividing both sides by $2$ gives
+$$x = \\frac{8}{2} = 4$$
+`
+};
@@ -0,0 +1,51 @@
+import { SolverProvider, SolveRequest, CompletionRequest } from '../solverProvider';
+import { MOCK_FIXTURES, MOCK_COMPLETIONS, MOCK_TUTOR_HINTS, MockFixture } from './mockFixtures';
+
+// Delay between streamed lines so the incremental UI can be exercised offline
+const MOCK_CHUNK_DELAY_MS = 60;
+
+// Deterministic offline provider: the same input always yields the same fixture
+export class MockProvider implements SolverProvider {
+  readonly name = 'mock';
+  readonly modelId = 'mock-fixtures';
+  readonly capabilities = { images: true, structuredOutput: false };
+
+  constructor(
+    private fixtures: MockFixture[] = MOCK_FIXTURES,
+    private completions: Record<string, string> = MOCK_COMPLETIONS
+  ) {}
+
+  private pickResponse({ textInput, mode }: SolveRequest): string {
+    const question = textInput.toLowerCase();
+    const match = this.fixtures.find(fixture =>
+      fixture.keywords.some(keyword => question.includes(keyword))
+    );
+
+    // Fixtures without keywords act as the default answer (e.g. image-only input)
+    const fallback = this.fixtures.find(fixture => fixture.keywords.length === 0) || this.fixtures[0];
+    const response = (match || fallback).response;
+    return mode === 'tutor' ? `${MOCK_TUTOR_HINTS}${response}` : response;
+  }
+
+  async solve(request: SolveRequest): Promise<string> {
+    return this.pickResponse(request);
+  }
+
+  async *solveStream(request: SolveRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const lines = this.pickResponse(request).split(/(?<=\n)/);
+    for (const line of lines) {
+      await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+      signal?.throwIfAborted();
+      yield line;
+    }
+  }
+
+  async complete({ task }: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+    signal?.throwIfAborted();
+    if (!(task in this.completions)) {
+      throw new Error(`The mock provider has no reply for "${task}".`);
+    }
+    return this.completions[task];
+  }
+}
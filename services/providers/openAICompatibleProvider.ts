@@ -0,0 +1,145 @@
+import { SolverProvider, SolveRequest, CompletionRequest, SolverCapabilities, buildPromptText, systemInstructionFor, temperatureFor } from '../solverProvider';
+import { SOLUTION_JSON_SCHEMA } from '../solutionSchema';
+import { completionPromptFor } from '../completionPrompts';
+import { SafetyError, solverErrorForStatus } from '../solverErrors';
+
+interface OpenAICompatibleProviderOptions {
+  baseUrl: string;
+  apiKey: string;
+  modelId: string;
+  supportsImages: boolean;
+  supportsStructuredOutput: boolean;
+}
+
+// Talks to any /chat/completions endpoint (OpenAI, Ollama, LM Studio, vLLM, ...)
+export class OpenAICompatibleProvider implements SolverProvider {
+  readonly name = 'openai';
+  readonly modelId: string;
+  readonly capabilities: SolverCapabilities;
+
+  private baseUrl: string;
+  private apiKey: string;
+
+  constructor({ baseUrl, apiKey, modelId, supportsImages, supportsStructuredOutput }: OpenAICompatibleProviderOptions) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.apiKey = apiKey;
+    this.modelId = modelId;
+    this.capabilities = { images: supportsImages, structuredOutput: supportsStructuredOutput };
+  }
+
+  // processImageFile output is already a PNG/JPEG/WEBP data URL, which these APIs accept directly
+  private buildUserContent(images: string[], text: string): any[] {
+    return [{ type: 'text', text }, ...images.map(image => ({ type: 'image_url', image_url: { url: image } }))];
+  }
+
+  private async post(
+    body: { systemInstruction: string, content: any[], schemaName: string, jsonSchema?: object, stream: boolean, temperature: number },
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      signal,
+      body: JSON.stringify({
+        model: this.modelId,
+        temperature: body.temperature,
+        stream: body.stream,
+        ...(body.jsonSchema && {
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: body.schemaName, schema: body.jsonSchema }
+          }
+        }),
+        messages: [
+          { role: 'system', content: body.systemInstruction },
+          { role: 'user', content: body.content }
+        ]
+      })
+    });
+
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      console.error(`Solver endpoint responded with ${response.status} ${response.statusText}:`, detail);
+      const retryAfter = Number(response.headers.get('Retry-After')) || undefined;
+      throw solverErrorForStatus(response.status, detail, retryAfter);
+    }
+
+    return response;
+  }
+
+  private request(request: SolveRequest, stream: boolean, signal?: AbortSignal): Promise<Response> {
+    const structured = this.capabilities.structuredOutput;
+    return this.post({
+      systemInstruction: systemInstructionFor(request, structured),
+      content: this.buildUserContent(request.images, buildPromptText(request)),
+      schemaName: 'solution',
+      jsonSchema: structured ? SOLUTION_JSON_SCHEMA : undefined,
+      stream,
+      temperature: temperatureFor(request)
+    }, signal);
+  }
+
+  async solve(request: SolveRequest): Promise<string> {
+    const response = await this.request(request, false);
+    const data = await response.json();
+    if (data?.choices?.[0]?.finish_reason === 'content_filter') throw new SafetyError();
+    return data?.choices?.[0]?.message?.content || '';
+  }
+
+  // Parses the server-sent events stream ("data: {...}" lines ending with "data: [DONE]")
+  async *solveStream(request: SolveRequest, signal?: AbortSignal): AsyncGenerator<string> {
+    const response = await this.request(request, true, signal);
+    if (!response.body) {
+      yield await response.text();
+      return;
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        const trimmed = line.trim();
+        if (!trimmed.startsWith('data:')) continue;
+
+        const payload = trimmed.slice('data:'.length).trim();
+        if (payload === '[DONE]') return;
+
+        const choice = JSON.parse(payload)?.choices?.[0];
+        if (choice?.finish_reason === 'content_filter') throw new SafetyError();
+        const delta = choice?.delta?.content;
+        if (delta) {
+          yield delta;
+        }
+      }
+    }
+  }
+
+  // Without structured output support the caller's prompt must ask for JSON itself
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    const { systemInstruction, prompt, images, jsonSchema } = completionPromptFor(request);
+    const response = await this.post({
+      systemInstruction,
+      content: this.buildUserContent(images, prompt),
+      schemaName: request.task.replace(/[^a-zA-Z0-9_-]/g, '_'),
+      jsonSchema: this.capabilities.structuredOutput ? jsonSchema : undefined,
+      stream: false,
+      temperature: 0.1
+    }, signal);
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  }
+}
@@ -0,0 +1,88 @@
+import { SolverProvider, SolveRequest, CompletionRequest } from '../solverProvider';
+import { CompletionResponse, SolveStreamEvent, SolverApiError, SolverApiErrorBody } from '../solverApi';
+
+interface ProxyProviderOptions {
+  // Origin of the API server; empty for the same origin (the dev server proxies /api)
+  baseUrl?: string;
+  supportsImages?: boolean;
+}
+
+const isErrorBody = (value: unknown): value is SolverApiErrorBody =>
+  typeof value === 'object' && value !== null && typeof (value as SolverApiErrorBody).error?.message === 'string';
+
+// Browser side of server/: the model and its key live on the server, the browser only calls /api
+export class ProxyProvider implements SolverProvider {
+  readonly name = 'proxy';
+  readonly modelId = 'server';
+  readonly capabilities: { images: boolean, structuredOutput: boolean };
+
+  private baseUrl: string;
+
+  constructor({ baseUrl = '', supportsImages = true }: ProxyProviderOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    // The server picks the response format; the client parses either
+    this.capabilities = { images: supportsImages, structuredOutput: true };
+  }
+
+  private async post(path: string, body: object, signal?: AbortSignal): Promise<Response> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body),
+      signal
+    });
+    if (!response.ok) {
+      const decoded = await response.json().catch(() => null);
+      throw isErrorBody(decoded)
+        ? SolverApiError.fromBody(decoded, response.status)
+        : new SolverApiError('upstream_error', `The solver server answered ${response.status}.`, response.status);
+    }
+    return response;
+  }
+
+  async solve(request: SolveRequest): Promise<string> {
+    let text = '';
+    for await (const chunk of this.solveStream(request)) {
+      text += chunk;
+    }
+    return text;
+  }
+
+  async *solveStream(
+    request: SolveRequest,
+    signal?: AbortSignal,
+    onCacheHit?: (createdAt: number) => void,
+    onModel?: (modelId: string) => void
+  ): AsyncGenerator<string> {
+    const response = await this.post('/api/solve', request, signal);
+    if (!response.body) throw new SolverApiError('upstream_error', 'The solver server sent an empty response.', response.status);
+    const cachedAt = Number(response.headers.get('X-Cache-Created'));
+    if (cachedAt) onCacheHit?.(cachedAt);
+    const model = response.headers.get('X-Solver-Model');
+    if (model) onModel?.(model);
+
+    const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+    let buffered = '';
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) break;
+      buffered += value;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() || '';
+      for (const line of lines) {
+        if (!line.trim()) continue;
+        const event = JSON.parse(line) as SolveStreamEvent;
+        if (event.type === 'chunk') yield event.text;
+        else if (event.type === 'error') throw SolverApiError.fromBody(event, response.status);
+        else return;
+      }
+    }
+    throw new SolverApiError('upstream_error', 'The connection to the solver server was interrupted.', response.status);
+  }
+
+  async complete(request: CompletionRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.post('/api/complete', request, signal);
+    const { text } = await response.json() as CompletionResponse;
+    return text;
+  }
+}
@@ -0,0 +1,34 @@
+import { PageRoute } from '../types';
+
+export interface Route {
+  page: PageRoute;
+  solutionId?: string; // Only for the 'solution' page
+}
+
+const PAGE_PATHS: Record<PageRoute, string> = {
+  home: '/',
+  history: '/history',
+  solution: '/solution',
+  about: '/about',
+  contact: '/contact',
+  privacy: '/privacy',
+  terms: '/terms',
+  disclaimer: '/disclaimer'
+};
+
+// Unknown paths fall back to the home page
+export const parsePath = (pathname: string): Route => {
+  const solution = pathname.match(/^\/solution\/([^/]+)\/?$/);
+  if (solution) {
+    return { page: 'solution', solutionId: decodeURIComponent(solution[1]) };
+  }
+
+  const path = pathname.replace(/\/+$/, '') || '/';
+  const page = (Object.keys(PAGE_PATHS) as PageRoute[]).find(key => key !== 'solution' && PAGE_PATHS[key] === path);
+  return { page: page || 'home' };
+};
+
+export const pathForRoute = ({ page, solutionId }: Route): string =>
+  page === 'solution' && solutionId
+    ? `${PAGE_PATHS.solution}/${encodeURIComponent(solutionId)}`
+    : PAGE_PATHS[page];
@@ -0,0 +1,47 @@
+import { SharedSolution } from '../types';
+import { pathForRoute } from './router';
+
+// base64url keeps the payload safe inside a URL fragment without escaping
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+};
+
+const pipe = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> =>
+  new Uint8Array(await new Response(new Blob([bytes]).stream().pipeThrough(transform)).arrayBuffer());
+
+export const encodeSharedSolution = async (solution: SharedSolution): Promise<string> => {
+  const json = new TextEncoder().encode(JSON.stringify(solution));
+  return toBase64Url(await pipe(json, new CompressionStream('deflate-raw')));
+};
+
+// Returns null for truncated or tampered fragments instead of throwing
+export const decodeSharedSolution = async (fragment: string): Promise<SharedSolution | null> => {
+  try {
+    const json = new TextDecoder().decode(await pipe(fromBase64Url(fragment), new DecompressionStream('deflate-raw')));
+    const data = JSON.parse(json);
+    return typeof data?.rawResponse === 'string'
+      ? {
+          inputText: typeof data.inputText === 'string' ? data.inputText : '',
+          language: typeof data.language === 'string' ? data.language : 'English',
+          rawResponse: data.rawResponse,
+          verification: data.verification || null
+        }
+      : null;
+  } catch {
+    return null;
+  }
+};
+
+// The id lets the owner's browser resolve the link from local history; the
+// fragment carries the whole solution so it also opens anywhere else.
+export const buildShareUrl = async (solutionId: string, solution: SharedSolution): Promise<string> =>
+  `${window.location.origin}${pathForRoute({ page: 'solution', solutionId })}#${await encodeSharedSolution(solution)}`;
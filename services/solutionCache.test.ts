@@ -0,0 +1,234 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheKeyParts, MemoryCacheStore, normalizeQuestion, sha256Hex, SolutionCache } from './solutionCache';
+
+// Stands in for the model, naming `model` as the one that answered when set. A held producer
+// yields its first chunk, then waits for `release` (or for its signal to abort) before the rest.
+const stubProducer = (chunks = ['x = ', '2'], { held = false, model = '' } = {}) => {
+  let release = () => {};
+  const gate = held ? new Promise<void>(resolve => { release = resolve; }) : Promise.resolve();
+  const producer = {
+    calls: 0,
+    signals: [] as AbortSignal[],
+    release: () => release(),
+    async *produce(signal: AbortSignal, _onHit: (createdAt: number) => void, onModel: (modelId: string) => void): AsyncGenerator<string> {
+      producer.calls++;
+      producer.signals.push(signal);
+      if (model) onModel(model);
+      for (const [index, chunk] of chunks.entries()) {
+        if (index === 1) {
+          await new Promise<void>((resolve, reject) => {
+            gate.then(resolve);
+            signal.addEventListener('abort', () => reject(signal.reason));
+          });
+        }
+        yield chunk;
+      }
+    }
+  };
+  return producer;
+};
+
+const collect = async (stream: AsyncIterable<string>) => {
+  let text = '';
+  for await (const chunk of stream) text += chunk;
+  return text;
+};
+
+// Lets the cache write that follows a finished stream land
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+const START = Date.UTC(2026, 0, 15, 18, 0, 0);
+const HOUR = 60 * 60 * 1000;
+const PARTS: CacheKeyParts = { textInput: 'Solve 2x = 4', images: [], language: 'en', modelId: 'stub-model' };
+
+let clock = START;
+let store: MemoryCacheStore;
+let cache: SolutionCache;
+
+beforeEach(() => {
+  clock = START;
+  store = new MemoryCacheStore();
+  cache = new SolutionCache({ store, hashImage: sha256Hex, ttlHours: 24, now: () => clock });
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('normalizeQuestion', () => {
+  it('ignores spacing, Unicode variants and trailing punctuation', () => {
+    expect(normalizeQuestion('  Solve 2x  +  3 = 11 ?')).toBe('Solve 2x+3=11');
+    expect(normalizeQuestion('ｘ＋１\n= 2.')).toBe('x+1=2');
+  });
+
+  it('keeps case', () => {
+    expect(normalizeQuestion('Convert 5 M to m')).not.toBe(normalizeQuestion('convert 5 m to m'));
+  });
+});
+
+describe('SolutionCache.keyFor', () => {
+  it('gives the same key to questions that only differ in spacing', async () => {
+    expect(await cache.keyFor({ ...PARTS, textInput: 'Solve  2x=4 ?' })).toBe(await cache.keyFor(PARTS));
+    expect(await cache.keyFor({ ...PARTS, mode: 'solve' })).toBe(await cache.keyFor(PARTS));
+  });
+
+  it.each<[string, Partial<CacheKeyParts>]>([
+    ['question', { textInput: 'Solve 2x = 6' }],
+    ['image', { images: ['data:image/png;base64,AAAA'] }],
+    ['language', { language: 'es' }],
+    ['model', { modelId: 'other-model' }],
+    ['mode', { mode: 'tutor' }],
+    ['subject', { subject: 'Physics' }],
+    ['sample', { sample: 2 }]
+  ])('changes the key with the %s', async (_name, changes) => {
+    expect(await cache.keyFor({ ...PARTS, ...changes })).not.toBe(await cache.keyFor(PARTS));
+  });
+});
+
+describe('SolutionCache.stream', () => {
+  it('serves a repeated question from the cache', async () => {
+    const producer = stubProducer();
+    expect(await collect(cache.stream(PARTS, producer.produce))).toBe('x = 2');
+    await settle();
+
+    clock += HOUR;
+    const onHit = vi.fn();
+    expect(await collect(cache.stream({ ...PARTS, textInput: 'Solve 2x=4' }, producer.produce, { onHit }))).toBe('x = 2');
+    expect(onHit).toHaveBeenCalledWith(START);
+    expect(producer.calls).toBe(1);
+  });
+
+  it('asks again once the entry expires and deletes the expired entry', async () => {
+    await collect(cache.stream(PARTS, stubProducer().produce));
+    await settle();
+    const key = await cache.keyFor(PARTS);
+    expect(await store.get(key)).toMatchObject({ response: 'x = 2', createdAt: START, expiresAt: START + 24 * HOUR });
+
+    clock += 24 * HOUR;
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const failing = async function* (): AsyncGenerator<string> {
+      throw new Error('Bad Gateway');
+    };
+    await expect(collect(cache.stream(PARTS, failing))).rejects.toThrow('Bad Gateway');
+    await settle();
+    expect(await store.get(key)).toBeUndefined();
+  });
+
+  it('skips the cache on bypass and replaces the cached answer', async () => {
+    await collect(cache.stream(PARTS, stubProducer().produce));
+    await settle();
+
+    clock += HOUR;
+    const producer = stubProducer(['x = ', '2 (checked)']);
+    const onHit = vi.fn();
+    expect(await collect(cache.stream(PARTS, producer.produce, { bypass: true, onHit }))).toBe('x = 2 (checked)');
+    await settle();
+    expect(producer.calls).toBe(1);
+    expect(onHit).not.toHaveBeenCalled();
+    expect(await store.get(await cache.keyFor(PARTS))).toMatchObject({ response: 'x = 2 (checked)', createdAt: START + HOUR });
+  });
+
+  it('remembers the model the producer named', async () => {
+    const producer = stubProducer(['x = ', '2'], { held: true, model: 'server-model' });
+    const first = cache.stream(PARTS, producer.produce);
+    await first.next();
+    const joinedModel = vi.fn();
+    const joined = cache.stream(PARTS, producer.produce, { onModel: joinedModel });
+    await joined.next();
+    producer.release();
+    await Promise.all([collect(first), collect(joined)]);
+    await settle();
+    expect(joinedModel).toHaveBeenCalledWith('server-model');
+
+    const cachedModel = vi.fn();
+    await collect(cache.stream(PARTS, producer.produce, { onModel: cachedModel }));
+    expect(cachedModel).toHaveBeenCalledWith('server-model');
+    expect(producer.calls).toBe(1);
+  });
+
+  it('stores nothing when the cache is off', async () => {
+    cache = new SolutionCache({ store, hashImage: sha256Hex, ttlHours: 0, now: () => clock });
+    const producer = stubProducer();
+    await collect(cache.stream(PARTS, producer.produce));
+    await collect(cache.stream(PARTS, producer.produce));
+    expect(producer.calls).toBe(2);
+  });
+
+  describe('identical requests in flight', () => {
+    it('share one upstream call and each get the whole answer', async () => {
+      const producer = stubProducer(['x = ', '2'], { held: true });
+      const first = cache.stream(PARTS, producer.produce);
+      expect((await first.next()).value).toBe('x = ');
+
+      const onShared = vi.fn();
+      const others = Array.from({ length: 3 }, () => cache.stream(PARTS, producer.produce, { onShared }));
+      // Late subscribers replay the chunks so far
+      for (const other of others) expect((await other.next()).value).toBe('x = ');
+      producer.release();
+      expect(await Promise.all([first, ...others].map(collect))).toEqual(['2', '2', '2', '2']);
+      expect(producer.calls).toBe(1);
+      expect(onShared).toHaveBeenCalledTimes(3);
+    });
+
+    it('call upstream again after the answer expires', async () => {
+      const producer = stubProducer();
+      await Promise.all([1, 2, 3].map(() => collect(cache.stream(PARTS, producer.produce))));
+      await settle();
+      expect(producer.calls).toBe(1);
+
+      clock += 24 * HOUR;
+      await Promise.all([1, 2, 3].map(() => collect(cache.stream(PARTS, producer.produce))));
+      expect(producer.calls).toBe(2);
+    });
+
+    it('are not joined by a bypass request', async () => {
+      const producer = stubProducer(['x = ', '2'], { held: true });
+      const first = cache.stream(PARTS, producer.produce);
+      await first.next();
+
+      const again = collect(cache.stream(PARTS, producer.produce, { bypass: true }));
+      producer.release();
+      await Promise.all([collect(first), again]);
+      expect(producer.calls).toBe(2);
+    });
+
+    it('keep the upstream call when one of them is cancelled', async () => {
+      const producer = stubProducer(['x = ', '2'], { held: true });
+      const controller = new AbortController();
+      const leaving = cache.stream(PARTS, producer.produce, { signal: controller.signal });
+      await leaving.next();
+      const staying = cache.stream(PARTS, producer.produce);
+      await staying.next();
+
+      const next = leaving.next();
+      controller.abort();
+      await expect(next).rejects.toMatchObject({ name: 'AbortError' });
+
+      producer.release();
+      expect(await collect(staying)).toBe('2');
+      expect(producer.calls).toBe(1);
+      expect(producer.signals[0].aborted).toBe(false);
+      await settle();
+      expect(await store.get(await cache.keyFor(PARTS))).toMatchObject({ response: 'x = 2' });
+    });
+
+    it('cancel the upstream call once all of them have left', async () => {
+      const producer = stubProducer(['x = ', '2'], { held: true });
+      const controller = new AbortController();
+      const only = cache.stream(PARTS, producer.produce, { signal: controller.signal });
+      await only.next();
+
+      const next = only.next();
+      controller.abort();
+      await expect(next).rejects.toMatchObject({ name: 'AbortError' });
+      expect(producer.signals[0].aborted).toBe(true);
+
+      // The next request starts over instead of joining the cancelled call
+      const fresh = stubProducer();
+      expect(await collect(cache.stream(PARTS, fresh.produce))).toBe('x = 2');
+      expect(fresh.calls).toBe(1);
+      await settle();
+      expect(await store.get(await cache.keyFor(PARTS))).toMatchObject({ response: 'x = 2' });
+    });
+  });
+});
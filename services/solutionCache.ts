@@ -0,0 +1,325 @@
+import { SolveMode } from '../types';
+import { STORES, withStore } from './indexedDb';
+import { perceptualHash } from './imageProcessing';
+
+// Caches finished solutions so a repeated question doesn't cost another model call.
+// The browser keeps them in memory and IndexedDB, the API server in memory and on disk (see server/).
+
+export const DEFAULT_CACHE_TTL_HOURS = 24 * 7;
+
+export interface CachedSolution {
+  key: string;
+  response: string;
+  createdAt: number;
+  expiresAt: number;
+  // Set when the producer named the model that answered (the API server's, under proxy)
+  modelId?: string;
+}
+
+export interface SolutionCacheStore {
+  get(key: string): Promise<CachedSolution | undefined>;
+  set(entry: CachedSolution): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+// Everything that changes what the model would answer
+export interface CacheKeyParts {
+  textInput: string;
+  images: string[];
+  language: string;
+  modelId: string;
+  mode?: SolveMode;
+  subject?: string;
+  // High accuracy samples are cached separately from the main answer and each other
+  sample?: number;
+}
+
+export interface CacheStreamOptions {
+  // Skips the lookup ("Solve again"); the fresh answer replaces the cached one
+  bypass?: boolean;
+  signal?: AbortSignal;
+  // Called before the first chunk when the answer comes from a cache, with the time it was solved
+  onHit?: (createdAt: number) => void;
+  // Called before the first chunk with the model that answered, when the producer names one
+  onModel?: (modelId: string) => void;
+  // Called before the first chunk when an identical request already in flight answers this one
+  onShared?: () => void;
+}
+
+type Producer = (
+  signal: AbortSignal,
+  onHit: (createdAt: number) => void,
+  onModel: (modelId: string) => void
+) => AsyncIterable<string>;
+
+// Reads an hours setting where 0 turns the cache off and anything unparseable means the default
+export const ttlHoursFrom = (value: string | undefined): number => {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) && parsed >= 0 ? parsed : DEFAULT_CACHE_TTL_HOURS;
+};
+
+// Whitespace, Unicode variants and trailing punctuation don't make a new question.
+// Case is kept: "M" and "m" are different units.
+export const normalizeQuestion = (text: string): string => text
+  .normalize('NFKC')
+  .replace(/\s+/g, ' ')
+  .replace(/ ?([=+\-*/^<>(),]) ?/g, '$1')
+  .replace(/[\s.?!]+$/, '')
+  .trim();
+
+export const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Least recently used entries are dropped past maxEntries
+export class MemoryCacheStore implements SolutionCacheStore {
+  private entries = new Map<string, CachedSolution>();
+
+  constructor(private maxEntries = 100) {}
+
+  async get(key: string) {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  async set(entry: CachedSolution) {
+    this.entries.delete(entry.key);
+    this.entries.set(entry.key, entry);
+    if (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+  }
+
+  async delete(key: string) {
+    this.entries.delete(key);
+  }
+}
+
+// A fast store in front of a persistent one; hits from the persistent store are copied forward
+export class TieredCacheStore implements SolutionCacheStore {
+  constructor(private front: SolutionCacheStore, private back: SolutionCacheStore) {}
+
+  async get(key: string) {
+    const cached = await this.front.get(key);
+    if (cached) return cached;
+    const stored = await this.back.get(key);
+    if (stored) await this.front.set(stored);
+    return stored;
+  }
+
+  async set(entry: CachedSolution) {
+    await Promise.all([this.front.set(entry), this.back.set(entry)]);
+  }
+
+  async delete(key: string) {
+    await Promise.all([this.front.delete(key), this.back.delete(key)]);
+  }
+}
+
+export class IndexedDbCacheStore implements SolutionCacheStore {
+  get(key: string): Promise<CachedSolution | undefined> {
+    return withStore(STORES.solutionCache, 'readonly', store => store.get(key));
+  }
+
+  async set(entry: CachedSolution) {
+    await withStore(STORES.solutionCache, 'readwrite', store => store.put(entry));
+  }
+
+  async delete(key: string) {
+    await withStore(STORES.solutionCache, 'readwrite', store => store.delete(key));
+  }
+}
+
+// One upstream stream shared by every identical request made while it runs. Late
+// subscribers replay the chunks so far; upstream is cancelled once all of them have left.
+class SharedStream {
+  readonly result: Promise<string | null>;
+  cachedAt: number | null = null;
+  modelId: string | null = null;
+
+  private chunks: string[] = [];
+  private done = false;
+  private error: unknown = null;
+  private waiters: (() => void)[] = [];
+  private subscribers = 0;
+  private controller = new AbortController();
+
+  constructor(produce: Producer, private onAbandon: () => void) {
+    this.result = this.pump(produce);
+  }
+
+  private wake() {
+    this.waiters.splice(0).forEach(resolve => resolve());
+  }
+
+  private async pump(produce: Producer): Promise<string | null> {
+    try {
+      const onHit = (createdAt: number) => { this.cachedAt = createdAt; };
+      const onModel = (modelId: string) => { this.modelId = modelId; };
+      for await (const chunk of produce(this.controller.signal, onHit, onModel)) {
+        this.chunks.push(chunk);
+        this.wake();
+      }
+      return this.chunks.join('');
+    } catch (error) {
+      this.error = error;
+      return null;
+    } finally {
+      this.done = true;
+      this.wake();
+    }
+  }
+
+  async *subscribe(signal?: AbortSignal, { onHit, onModel }: Pick<CacheStreamOptions, 'onHit' | 'onModel'> = {}): AsyncGenerator<string> {
+    this.subscribers++;
+    const onAbort = () => this.wake();
+    signal?.addEventListener('abort', onAbort);
+    try {
+      let index = 0;
+      let reported = false;
+      while (true) {
+        signal?.throwIfAborted();
+        if (index < this.chunks.length) {
+          if (!reported) {
+            reported = true;
+            if (this.cachedAt !== null) onHit?.(this.cachedAt);
+            if (this.modelId !== null) onModel?.(this.modelId);
+          }
+          yield this.chunks[index++];
+          continue;
+        }
+        if (this.done) {
+          if (this.error) throw this.error;
+          return;
+        }
+        await new Promise<void>(resolve => this.waiters.push(resolve));
+      }
+    } finally {
+      signal?.removeEventListener('abort', onAbort);
+      if (--this.subscribers === 0 && !this.done) {
+        this.onAbandon();
+        this.controller.abort();
+      }
+    }
+  }
+}
+
+interface SolutionCacheOptions {
+  store: SolutionCacheStore;
+  // Turns an image data URL into the part of the key that identifies it
+  hashImage: (dataUrl: string) => Promise<string>;
+  ttlHours: number;
+  now?: () => number;
+}
+
+export class SolutionCache {
+  private inFlight = new Map<string, SharedStream>();
+
+  constructor(private options: SolutionCacheOptions) {}
+
+  get enabled() {
+    return this.options.ttlHours > 0;
+  }
+
+  async keyFor({ textInput, images, language, modelId, mode, subject, sample }: CacheKeyParts): Promise<string> {
+    const imageHashes = await Promise.all(images.map(this.options.hashImage));
+    const parts = [modelId, mode || 'solve', language, subject || '', normalizeQuestion(textInput), imageHashes];
+    return sha256Hex(JSON.stringify(sample ? [...parts, sample] : parts));
+  }
+
+  // Store failures (private browsing, a full disk) only cost the cache, never the solution
+  private async lookup(key: string): Promise<CachedSolution | undefined> {
+    const { store, now = Date.now } = this.options;
+    try {
+      const entry = await store.get(key);
+      if (!entry) return undefined;
+      if (entry.expiresAt > now()) return entry;
+      await store.delete(key);
+    } catch (error) {
+      console.error("Solution Cache Error:", error);
+    }
+    return undefined;
+  }
+
+  private async save(key: string, response: string, { cachedAt, modelId }: SharedStream) {
+    const { store, ttlHours, now = Date.now } = this.options;
+    // An answer the server had cached keeps its original age
+    const createdAt = cachedAt ?? now();
+    try {
+      await store.set({ key, response, createdAt, expiresAt: createdAt + ttlHours * 60 * 60 * 1000, modelId: modelId ?? undefined });
+    } catch (error) {
+      console.error("Solution Cache Error:", error);
+    }
+  }
+
+  /**
+   * Yields the cached answer for these key parts, or streams `produce` and caches what it
+   * returns. Identical requests made while one is running share its upstream call.
+   */
+  async *stream(parts: CacheKeyParts, produce: Producer, { bypass, signal, onHit, onModel, onShared }: CacheStreamOptions = {}): AsyncGenerator<string> {
+    const uncached = () => produce(signal || new AbortController().signal, onHit || (() => {}), onModel || (() => {}));
+    if (!this.enabled) {
+      yield* uncached();
+      return;
+    }
+
+    let key: string;
+    try {
+      key = await this.keyFor(parts);
+    } catch (error) {
+      // An image the hasher can't read is still sent to the model, just uncached
+      console.error("Solution Cache Error:", error);
+      yield* uncached();
+      return;
+    }
+
+    if (!bypass) {
+      const cached = await this.lookup(key);
+      if (cached) {
+        onHit?.(cached.createdAt);
+        if (cached.modelId) onModel?.(cached.modelId);
+        yield cached.response;
+        return;
+      }
+    }
+
+    let flight = bypass ? undefined : this.inFlight.get(key);
+    if (!flight) {
+      const created: SharedStream = new SharedStream(produce, () => {
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+      });
+      this.inFlight.set(key, created);
+      created.result.then(async response => {
+        if (response) await this.save(key, response, created);
+        if (this.inFlight.get(key) === created) this.inFlight.delete(key);
+      });
+      flight = created;
+    } else {
+      onShared?.();
+    }
+    yield* flight.subscribe(signal, { onHit, onModel });
+  }
+}
+
+let activeCache: SolutionCache | null = null;
+
+// Browser default: memory in front of IndexedDB, images keyed by perceptual hash
+export const getSolutionCache = (): SolutionCache => {
+  if (!activeCache) {
+    activeCache = new SolutionCache({
+      store: new TieredCacheStore(new MemoryCacheStore(), new IndexedDbCacheStore()),
+      hashImage: perceptualHash,
+      ttlHours: ttlHoursFrom(process.env.SOLUTION_CACHE_TTL_HOURS)
+    });
+  }
+  return activeCache;
+};
+
+export const setSolutionCache = (cache: SolutionCache) => {
+  activeCache = cache;
+};
@@ -0,0 +1,68 @@
+import { readFileSync, readdirSync } from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { parseMarkdownSolution, parseSolutionResponse } from './solutionParser';
+
+// Captured raw model responses, each next to the parse it should produce
+const FIXTURES_DIR = path.join(__dirname, '__fixtures__', 'responses');
+const fixtures = readdirSync(FIXTURES_DIR).filter(name => name.endsWith('.md')).sort();
+
+describe('parseMarkdownSolution fixtures', () => {
+  it.each(fixtures)('%s', name => {
+    const raw = readFileSync(path.join(FIXTURES_DIR, name), 'utf8');
+    const expected = JSON.parse(readFileSync(path.join(FIXTURES_DIR, name.replace(/\.md$/, '.expected.json')), 'utf8'));
+
+    const parsed = parseMarkdownSolution(raw);
+
+    expect(parsed).not.toBeNull();
+    expect(parsed!.fallback).toBe(false);
+    expect(parsed!.diagnostics.strategy).toBe(expected.strategy);
+    expect(parsed!.diagnostics.finalAnswerPosition).toBe(expected.finalAnswerPosition);
+    expect(parsed!.finalAnswer).toBe(expected.finalAnswer);
+    expect(parsed!.steps).toEqual(expected.steps);
+  });
+
+  it('covers every step format', () => {
+    const strategies = fixtures.map(name =>
+      JSON.parse(readFileSync(path.join(FIXTURES_DIR, name.replace(/\.md$/, '.expected.json')), 'utf8')).strategy);
+    expect(new Set(strategies)).toEqual(new Set(['headers', 'bold', 'step-label', 'numbered-list', 'single-block']));
+  });
+});
+
+describe('parseMarkdownSolution', () => {
+  it('returns null for an empty response', () => {
+    expect(parseMarkdownSolution('')).toBeNull();
+  });
+
+  it('reports text before the steps section as dropped', () => {
+    const parsed = parseMarkdownSolution('Sure, here you go.\n\n## Solution Steps\n### Step 1: Add\n2 + 2 = 4\n\n## Final Answer\n4');
+    expect(parsed!.diagnostics.droppedFragments).toEqual(['Sure, here you go.']);
+    expect(parsed!.steps).toEqual([{ title: 'Add', content: '2 + 2 = 4' }]);
+  });
+
+  it('splits tutor hints out of the steps', () => {
+    const parsed = parseMarkdownSolution('## Hints\n1. Undo the addition\n2. Then the multiplication\n\n## Solution Steps\n### Step 1: Subtract\nx = 4\n\n## Final Answer\nx = 4');
+    expect(parsed!.hints).toEqual(['Undo the addition', 'Then the multiplication']);
+    expect(parsed!.steps).toHaveLength(1);
+  });
+});
+
+describe('parseSolutionResponse', () => {
+  it('prefers a schema-valid JSON solution over the Markdown parser', () => {
+    const raw = JSON.stringify({
+      subject: 'Mathematics',
+      problemStatement: 'Solve 2x = 8',
+      steps: [{ title: 'Divide', content: 'Divide both sides by 2: x = 4' }],
+      finalAnswer: 'x = 4'
+    });
+    const parsed = parseSolutionResponse(raw);
+    expect(parsed!.solution).not.toBeNull();
+    expect(parsed!.finalAnswer).toBe('x = 4');
+  });
+
+  it('falls back to Markdown for a non-JSON response', () => {
+    const parsed = parseSolutionResponse(readFileSync(path.join(FIXTURES_DIR, 'headers.md'), 'utf8'));
+    expect(parsed!.solution).toBeNull();
+    expect(parsed!.steps).toHaveLength(2);
+  });
+});
@@ -0,0 +1,238 @@
+import { Solution, SolutionStep } from '../types';
+import { parseStructuredSolution } from './solutionSchema';
+
+// How the step list was recognised in the raw Markdown
+export type StepStrategy =
+  | 'headers'       // ### Step 1: ...
+  | 'bold'          // **Step 1: ...**
+  | 'step-label'    // Step 1: ...
+  | 'numbered-list' // 1. ...
+  | 'single-block'  // No step structure, whole text kept as one step
+  | 'none';         // Nothing left to parse
+
+export interface ParseDiagnostics {
+  strategy: StepStrategy;
+  finalAnswerPosition: 'end' | 'before-steps' | 'missing';
+  // Fragments that were split out but discarded (e.g. a header with no content)
+  droppedFragments: string[];
+}
+
+export interface ParsedMarkdownSolution {
+  steps: SolutionStep[];
+  finalAnswer: string;
+  // From a "## Hints" section (tutor mode), in order
+  hints: string[];
+  // True when nothing usable was found and the raw Markdown should be shown as-is
+  fallback: boolean;
+  diagnostics: ParseDiagnostics;
+}
+
+const FINAL_ANSWER_REGEX = /(?:##|\*\*)\s*Final Answer/i;
+const STEPS_HEADER_REGEX = /##\s*Solution Steps/i;
+const HINTS_HEADER_REGEX = /##\s*Hints/i;
+// Any Markdown heading up to level 3 ends the final answer section
+const NEXT_SECTION_REGEX = /\n#{1,3}\s/;
+const STEP_PREFIX_REGEX = /^(?:Step\s*\d+|Step\s+[A-Z]|\d+\.)[:.\s-]*/i;
+
+// Hide fenced code blocks so headers or "Final Answer" inside them are not treated as structure
+const maskCodeBlocks = (text: string) => {
+  const blocks: string[] = [];
+  const masked = text.replace(/```[\s\S]*?(?:```|$)/g, block => {
+    blocks.push(block);
+    return `\u0000${blocks.length - 1}\u0000`;
+  });
+  const restore = (value: string) => value.replace(/\u0000(\d+)\u0000/g, (_, index) => blocks[Number(index)]);
+  return { masked, restore };
+};
+
+// Drop surrounding blank lines but keep the indentation of the first content line (nested lists)
+const trimBlankLines = (value: string) => value.replace(/^(?:[ \t]*\n)+/, '').trimEnd();
+
+const splitNumberedList = (text: string): string[] => {
+  // Only split on the next expected number, so nested or restarted lists stay inside their step
+  const chunks: string[] = [];
+  let expected = 1;
+  let current = '';
+  for (const line of text.split('\n')) {
+    const number = line.match(/^(\d+)\.\s+/);
+    if (number && Number(number[1]) === expected) {
+      if (current.trim()) chunks.push(current);
+      current = line;
+      expected++;
+    } else {
+      current = current ? `${current}\n${line}` : line;
+    }
+  }
+  if (current.trim()) chunks.push(current);
+  return chunks;
+};
+
+// One hint per list item; unnumbered paragraphs count as one hint each
+const splitHints = (text: string): string[] => {
+  const hints: string[] = [];
+  for (const line of text.split('\n')) {
+    const item = line.match(/^\s*(?:\d+[.)]|[-*])\s+(.*)$/);
+    if (item) {
+      hints.push(item[1]);
+    } else if (line.trim() && hints.length) {
+      hints[hints.length - 1] += `\n${line.trim()}`;
+    } else if (line.trim()) {
+      hints.push(line.trim());
+    }
+  }
+  return hints.map(hint => hint.trim()).filter(Boolean);
+};
+
+const splitSteps = (text: string): { strategy: StepStrategy, rawSteps: string[] } => {
+  // Determine the primary step format to avoid mixed splitting
+  // Check for Markdown headers first (### Step 1...)
+  if (/(?:^|\n)###\s+/.test(text)) {
+    return { strategy: 'headers', rawSteps: text.split(/(?:^|\n)(?=###\s+)/).filter(s => s.trim()) };
+  }
+  // Check for Bold headers (**Step 1**)
+  if (/(?:^|\n)\*\*(?:Step|Step\s+\d+).*?\*\*/i.test(text)) {
+    return { strategy: 'bold', rawSteps: text.split(/(?:^|\n)(?=\*\*(?:Step|Step\s+\d+).*?\*\*)/i).filter(s => s.trim()) };
+  }
+  // Check for "Step N:" pattern
+  if (/(?:^|\n)Step\s+\d+[:.]/i.test(text)) {
+    return { strategy: 'step-label', rawSteps: text.split(/(?:^|\n)(?=Step\s+\d+[:.])/i).filter(s => s.trim()) };
+  }
+  // Check for Numbered list "1. " pattern if it looks like steps
+  if (/(?:^|\n)1\.\s+[A-Z]/.test(text)) {
+    return { strategy: 'numbered-list', rawSteps: splitNumberedList(text) };
+  }
+  // Fallback: No obvious step structure
+  return { strategy: text.trim() ? 'single-block' : 'none', rawSteps: text.trim() ? [text] : [] };
+};
+
+const toStep = (rawStep: string): SolutionStep => {
+  // Clean up the raw step
+  const lines = rawStep.replace(/^(?:[ \t]*\n)+/, '').split('\n');
+  const header = lines[0].trim();
+  let content = trimBlankLines(lines.slice(1).join('\n'));
+
+  // Clean up the title from the header line
+  // Remove Markdown headers
+  let title = header.replace(/^###\s*/, '').replace(/\*\*/g, '');
+
+  // Identify "Step N" or "1." prefix
+  const prefixMatch = title.match(STEP_PREFIX_REGEX);
+  if (prefixMatch) {
+    title = title.substring(prefixMatch[0].length).trim();
+  }
+
+  // Handle single-line steps or empty content
+  if (!content && title.length > 0) {
+    // If the rest of the header is substantial, treat it as content
+    content = title;
+    title = "Explanation";
+  }
+
+  // Fallback for empty title
+  if (!title) {
+    title = "Step Details";
+  }
+
+  return { title, content };
+};
+
+/**
+ * Splits a free-form Markdown model response into step cards and a final answer.
+ * Used when a provider returns Markdown instead of the structured JSON solution.
+ */
+export const parseMarkdownSolution = (text: string): ParsedMarkdownSolution | null => {
+  if (!text) return null;
+
+  const { masked, restore } = maskCodeBlocks(text);
+  const diagnostics: ParseDiagnostics = { strategy: 'none', finalAnswerPosition: 'missing', droppedFragments: [] };
+  let finalAnswer = '';
+  let stepsText = masked;
+
+  // 1. Extract Final Answer
+  // Look for ## Final Answer or **Final Answer** case insensitive
+  const finalMatch = masked.match(FINAL_ANSWER_REGEX);
+  if (finalMatch && finalMatch.index !== undefined) {
+    const afterHeader = masked.substring(finalMatch.index + finalMatch[0].length);
+    // The answer runs until the next section, which matters when it is placed before the steps
+    const nextSection = afterHeader.search(NEXT_SECTION_REGEX);
+    const answerText = nextSection === -1 ? afterHeader : afterHeader.substring(0, nextSection);
+    const remainder = nextSection === -1 ? '' : afterHeader.substring(nextSection);
+
+    // Trim leading colons/whitespace/bold markers
+    finalAnswer = answerText.replace(/^[:\s*]+/, '').trim();
+    stepsText = `${masked.substring(0, finalMatch.index)}${remainder}`.trim();
+    diagnostics.finalAnswerPosition = remainder.trim() ? 'before-steps' : 'end';
+  }
+
+  // 2. Extract Hints (tutor mode); they run until the next level-2 section
+  let hints: string[] = [];
+  const hintsMatch = stepsText.match(HINTS_HEADER_REGEX);
+  if (hintsMatch && hintsMatch.index !== undefined) {
+    const afterHeader = stepsText.substring(hintsMatch.index + hintsMatch[0].length);
+    const nextSection = afterHeader.search(/\n##\s/);
+    hints = splitHints(restore(nextSection === -1 ? afterHeader : afterHeader.substring(0, nextSection)));
+    stepsText = `${stepsText.substring(0, hintsMatch.index)}${nextSection === -1 ? '' : afterHeader.substring(nextSection)}`.trim();
+  }
+
+  // 3. Extract Solution Steps section content
+  const stepsMatch = stepsText.match(STEPS_HEADER_REGEX);
+  let contentToParse = stepsText;
+  if (stepsMatch && stepsMatch.index !== undefined) {
+    const preamble = stepsText.substring(0, stepsMatch.index).trim();
+    if (preamble) diagnostics.droppedFragments.push(restore(preamble));
+    contentToParse = stepsText.substring(stepsMatch.index + stepsMatch[0].length).trim();
+  }
+
+  // 4. Robust Step Splitting
+  const { strategy, rawSteps } = splitSteps(contentToParse);
+  diagnostics.strategy = strategy;
+
+  const steps: SolutionStep[] = [];
+  for (const rawStep of rawSteps) {
+    const step = toStep(rawStep);
+    if (step.content) {
+      steps.push({ title: restore(step.title), content: restore(step.content) });
+    } else {
+      diagnostics.droppedFragments.push(restore(rawStep.trim()));
+    }
+  }
+
+  // If parsing failed to produce steps but we have text, keep it as one step,
+  // otherwise fall back to rendering the raw response.
+  let fallback = false;
+  if (steps.length === 0) {
+    if (contentToParse.trim().length > 0) {
+      steps.push({ title: "Analysis", content: restore(contentToParse) });
+      diagnostics.strategy = 'single-block';
+    } else if (!finalAnswer && hints.length === 0) {
+      fallback = true;
+    }
+  }
+
+  return { steps, finalAnswer: restore(finalAnswer), hints, fallback, diagnostics };
+};
+
+export interface ParsedSolutionResponse {
+  steps: SolutionStep[];
+  finalAnswer: string;
+  hints: string[];
+  fallback: boolean;
+  // Set when the response was schema-valid JSON rather than Markdown
+  solution: Solution | null;
+}
+
+/**
+ * Parses a raw model response of either format.
+ * Prefers the schema-validated JSON solution; the Markdown parser is only a fallback.
+ */
+export const parseSolutionResponse = (raw: string, partial = false): ParsedSolutionResponse | null => {
+  if (!raw) return null;
+
+  const solution = parseStructuredSolution(raw, partial);
+  if (solution) {
+    return { steps: solution.steps, finalAnswer: solution.finalAnswer, hints: solution.hints || [], fallback: false, solution };
+  }
+
+  const markdown = parseMarkdownSolution(raw);
+  return markdown && { steps: markdown.steps, finalAnswer: markdown.finalAnswer, hints: markdown.hints, fallback: markdown.fallback, solution: null };
+};
@@ -0,0 +1,193 @@
+import { Solution, SolutionStep } from '../types';
+import { SUBJECTS } from '../constants';
+
+// JSON Schema sent to the model. Property order matters: steps stream before the final answer.
+export const SOLUTION_JSON_SCHEMA = {
+  type: 'object',
+  properties: {
+    subject: { type: 'string', enum: SUBJECTS },
+    topic: { type: 'string' },
+    problemStatement: { type: 'string' },
+    // Only filled in tutor mode; placed before steps so hints can be shown while steps stream
+    hints: { type: 'array', items: { type: 'string' } },
+    steps: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          title: { type: 'string' },
+          content: { type: 'string' },
+          latex: { type: 'string' }
+        },
+        required: ['title', 'content']
+      }
+    },
+    finalAnswer: { type: 'string' },
+    units: { type: 'string' },
+    confidence: { type: 'number', minimum: 0, maximum: 1 }
+  },
+  required: ['subject', 'problemStatement', 'steps', 'finalAnswer']
+};
+
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const validateStep = (value: unknown, partial: boolean): SolutionStep | null => {
+  if (!isObject(value) || !isString(value.title)) return null;
+  if (!isString(value.content) && !partial) return null;
+
+  const step: SolutionStep = {
+    title: value.title.trim(),
+    content: isString(value.content) ? value.content.trim() : ''
+  };
+  if (isString(value.latex) && value.latex.trim()) {
+    step.latex = value.latex.trim();
+  }
+  return step;
+};
+
+/**
+ * Runtime check of a decoded model response against SOLUTION_JSON_SCHEMA.
+ * Returns null when the value does not describe a usable solution.
+ * In partial mode (mid-stream) missing fields are allowed and default to empty.
+ */
+export const validateSolution = (value: unknown, partial = false): Solution | null => {
+  if (!isObject(value)) return null;
+
+  const rawSteps = value.steps === undefined && partial ? [] : value.steps;
+  if (!Array.isArray(rawSteps)) return null;
+
+  const steps: SolutionStep[] = [];
+  for (const rawStep of rawSteps) {
+    const step = validateStep(rawStep, partial);
+    if (!step) {
+      if (partial) break; // Last step may not have its title yet
+      return null;
+    }
+    steps.push(step);
+  }
+
+  const finalAnswer = isString(value.finalAnswer) ? value.finalAnswer.trim() : '';
+  if (!partial && (steps.length === 0 || !finalAnswer)) return null;
+
+  const solution: Solution = {
+    subject: isString(value.subject) ? value.subject : '',
+    problemStatement: isString(value.problemStatement) ? value.problemStatement.trim() : '',
+    steps,
+    finalAnswer
+  };
+  if (isString(value.topic) && value.topic.trim()) {
+    solution.topic = value.topic.trim();
+  }
+  if (isString(value.units) && value.units.trim()) {
+    solution.units = value.units.trim();
+  }
+  if (typeof value.confidence === 'number' && Number.isFinite(value.confidence)) {
+    solution.confidence = Math.min(1, Math.max(0, value.confidence));
+  }
+  if (Array.isArray(value.hints)) {
+    const hints = value.hints.filter(isString).map(hint => hint.trim()).filter(Boolean);
+    if (hints.length) solution.hints = hints;
+  }
+  return solution;
+};
+
+// Models sometimes wrap JSON in a ```json fence despite the response MIME type
+const stripCodeFence = (text: string) =>
+  text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+// Closes open strings, arrays and objects so a truncated JSON prefix can be parsed
+const closePartialJson = (text: string): string => {
+  const closers: string[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (const char of text) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === '{') {
+      closers.push('}');
+    } else if (char === '[') {
+      closers.push(']');
+    } else if (char === '}' || char === ']') {
+      closers.pop();
+    }
+  }
+
+  let repaired = text;
+  if (inString) repaired += escaped ? '\\"' : '"';
+  repaired = repaired.replace(/[\s,]+$/, '').replace(/:\s*$/, ': null');
+  return repaired + closers.reverse().join('');
+};
+
+// Indices of commas outside strings; cutting there drops a half-written key or value
+const findCommaCuts = (text: string): number[] => {
+  const cuts: number[] = [];
+  let inString = false;
+  let escaped = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (char === '\\') escaped = true;
+      else if (char === '"') inString = false;
+    } else if (char === '"') {
+      inString = true;
+    } else if (char === ',') {
+      cuts.push(i);
+    }
+  }
+  return cuts;
+};
+
+const tryParse = (text: string): unknown => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Decodes a JSON reply from provider.complete(). Tolerates code fences and
+ * chatter around the object, which models without structured output often add.
+ */
+export const parseJsonResponse = (raw: string): unknown => {
+  const text = stripCodeFence(raw);
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+  return start === -1 || end < start ? undefined : tryParse(text.slice(start, end + 1));
+};
+
+/**
+ * Parses a structured (JSON) model response into a Solution.
+ * Returns null for non-JSON responses or when validation fails, so callers can
+ * fall back to the Markdown parser. With `partial` set, a truncated stream is
+ * repaired and parsed leniently so step cards can render while streaming.
+ */
+export const parseStructuredSolution = (raw: string, partial = false): Solution | null => {
+  const text = stripCodeFence(raw);
+  if (!text.startsWith('{')) return null;
+
+  if (!partial) {
+    return validateSolution(tryParse(text));
+  }
+
+  let decoded = tryParse(closePartialJson(text));
+  if (decoded === undefined) {
+    // The tail is mid-token (e.g. a half-written key or number); retry from recent commas
+    const cuts = findCommaCuts(text).slice(-3).reverse();
+    for (const cut of cuts) {
+      decoded = tryParse(closePartialJson(text.slice(0, cut)));
+      if (decoded !== undefined) break;
+    }
+  }
+  return validateSolution(decoded, true);
+};
@@ -0,0 +1,64 @@
+// Wire format of the /api endpoints, shared by the Node server and the browser's proxy provider
+
+export type SolverApiErrorCode =
+  | 'invalid_request'
+  | 'payload_too_large'
+  | 'unsupported_media'
+  | 'rate_limited'
+  | 'quota_exceeded'
+  | 'safety_blocked'
+  | 'upstream_auth'
+  | 'upstream_timeout'
+  | 'malformed_output'
+  | 'upstream_error'
+  | 'not_found'
+  | 'method_not_allowed';
+
+export interface SolverApiErrorBody {
+  error: {
+    code: SolverApiErrorCode;
+    message: string;
+    // Seconds until the request may be retried (rate limits and quota only)
+    retryAfter?: number;
+  };
+}
+
+// /api/solve answers with one JSON event per line
+export type SolveStreamEvent =
+  | { type: 'chunk', text: string }
+  | { type: 'done' }
+  | { type: 'error', error: SolverApiErrorBody['error'] };
+
+export interface CompletionResponse {
+  text: string;
+}
+
+export interface QuotaStatus {
+  limit: number;
+  used: number;
+  remaining: number;
+  // Epoch milliseconds
+  resetsAt: number;
+}
+
+// Thrown by the server to produce an error response, and by the client when it receives one.
+// The message is always safe to show to the student.
+export class SolverApiError extends Error {
+  constructor(
+    readonly code: SolverApiErrorCode,
+    message: string,
+    readonly status: number,
+    readonly retryAfter?: number
+  ) {
+    super(message);
+    this.name = 'SolverApiError';
+  }
+
+  toBody(): SolverApiErrorBody {
+    return { error: { code: this.code, message: this.message, ...(this.retryAfter !== undefined && { retryAfter: this.retryAfter }) } };
+  }
+
+  static fromBody(body: SolverApiErrorBody, status: number): SolverApiError {
+    return new SolverApiError(body.error.code, body.error.message, status, body.error.retryAfter);
+  }
+}
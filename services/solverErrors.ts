@@ -0,0 +1,156 @@
+import { SolverApiError, SolverApiErrorCode } from './solverApi';
+
+// What went wrong with a solve, in terms of what the student can do about it
+export type SolverErrorKind =
+  | 'auth'
+  | 'rate_limit'
+  | 'safety'
+  | 'invalid_input'
+  | 'timeout'
+  | 'network'
+  | 'malformed_output'
+  | 'unknown';
+
+// Worth another attempt after a short wait
+const TRANSIENT_KINDS: SolverErrorKind[] = ['rate_limit', 'timeout', 'network', 'malformed_output'];
+
+// A rate limit that lifts later than this is reported instead of waited out
+export const MAX_RETRY_WAIT_SECONDS = 10;
+
+interface SolverErrorOptions {
+  // Defaults to true for transient kinds
+  retryable?: boolean;
+  // Seconds the model asked us to wait before trying again
+  retryAfter?: number;
+}
+
+/**
+ * Every failure of generateSolution and generateSolutionStream is one of these.
+ * The message is safe to show to the student; the UI adds a hint per kind.
+ */
+export class SolverError extends Error {
+  readonly retryable: boolean;
+  readonly retryAfter?: number;
+
+  constructor(readonly kind: SolverErrorKind, message: string, { retryable, retryAfter }: SolverErrorOptions = {}) {
+    super(message);
+    this.name = 'SolverError';
+    this.retryAfter = retryAfter;
+    this.retryable = retryable ?? (TRANSIENT_KINDS.includes(kind) && (retryAfter === undefined || retryAfter <= MAX_RETRY_WAIT_SECONDS));
+  }
+}
+
+export class AuthError extends SolverError {
+  constructor(message = "The model rejected the API key.", options?: SolverErrorOptions) {
+    super('auth', message, options);
+    this.name = 'AuthError';
+  }
+}
+
+export class RateLimitError extends SolverError {
+  constructor(message = "Too many requests right now.", options?: SolverErrorOptions) {
+    super('rate_limit', message, options);
+    this.name = 'RateLimitError';
+  }
+}
+
+export class SafetyError extends SolverError {
+  constructor(message = "The model declined to answer this question.", options?: SolverErrorOptions) {
+    super('safety', message, options);
+    this.name = 'SafetyError';
+  }
+}
+
+export class InvalidInputError extends SolverError {
+  constructor(message = "The model could not accept this question or image.", options?: SolverErrorOptions) {
+    super('invalid_input', message, options);
+    this.name = 'InvalidInputError';
+  }
+}
+
+export class SolverTimeoutError extends SolverError {
+  constructor(message = "The model took too long to answer.", options?: SolverErrorOptions) {
+    super('timeout', message, options);
+    this.name = 'SolverTimeoutError';
+  }
+}
+
+export class NetworkError extends SolverError {
+  constructor(message = "The model could not be reached.", options?: SolverErrorOptions) {
+    super('network', message, options);
+    this.name = 'NetworkError';
+  }
+}
+
+export class MalformedOutputError extends SolverError {
+  constructor(message = "The model sent back an empty or unreadable answer.", options?: SolverErrorOptions) {
+    super('malformed_output', message, options);
+    this.name = 'MalformedOutputError';
+  }
+}
+
+// For HTTP failures from a model endpoint; `detail` is the response body or SDK message
+export const solverErrorForStatus = (status: number, detail = '', retryAfter?: number): SolverError => {
+  // Gemini answers 400 for an invalid key
+  if (status === 401 || status === 403 || /api[ _-]?key/i.test(detail)) return new AuthError();
+  if (status === 429) {
+    // Gemini puts the wait in the error details instead of a Retry-After header
+    const retryDelay = detail.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+    return new RateLimitError(undefined, { retryAfter: retryAfter ?? (retryDelay ? Math.ceil(Number(retryDelay[1])) : undefined) });
+  }
+  if (status === 408 || status === 504) return new SolverTimeoutError();
+  if (status >= 500) return new NetworkError("The model service is unavailable right now.");
+  if (status >= 400) return new InvalidInputError();
+  return new SolverError('unknown', `The model answered with status ${status}.`);
+};
+
+const KIND_BY_API_CODE: Record<SolverApiErrorCode, SolverErrorKind> = {
+  invalid_request: 'invalid_input',
+  payload_too_large: 'invalid_input',
+  unsupported_media: 'invalid_input',
+  rate_limited: 'rate_limit',
+  quota_exceeded: 'rate_limit',
+  safety_blocked: 'safety',
+  upstream_auth: 'auth',
+  upstream_timeout: 'timeout',
+  malformed_output: 'malformed_output',
+  upstream_error: 'network',
+  not_found: 'unknown',
+  method_not_allowed: 'unknown'
+};
+
+const API_ERROR_BY_KIND: Record<SolverErrorKind, { code: SolverApiErrorCode, status: number }> = {
+  auth: { code: 'upstream_auth', status: 502 },
+  rate_limit: { code: 'rate_limited', status: 429 },
+  safety: { code: 'safety_blocked', status: 422 },
+  invalid_input: { code: 'invalid_request', status: 400 },
+  timeout: { code: 'upstream_timeout', status: 504 },
+  network: { code: 'upstream_error', status: 502 },
+  malformed_output: { code: 'malformed_output', status: 502 },
+  unknown: { code: 'upstream_error', status: 502 }
+};
+
+/**
+ * Classifies anything a provider throws. Errors from the API server are never retried
+ * here: the server has already retried its own model call.
+ */
+export const toSolverError = (error: unknown): SolverError => {
+  if (error instanceof SolverError) return error;
+  if (error instanceof SolverApiError) {
+    return new SolverError(KIND_BY_API_CODE[error.code] || 'unknown', error.message, { retryable: false, retryAfter: error.retryAfter });
+  }
+  const status = (error as { status?: unknown } | null)?.status;
+  if (typeof status === 'number') return solverErrorForStatus(status, (error as Error).message);
+  // fetch() rejects with a TypeError when the request never got an answer
+  if (error instanceof TypeError) return new NetworkError();
+  // A streamed event that isn't valid JSON
+  if (error instanceof SyntaxError) return new MalformedOutputError();
+  if ((error as Error | null)?.name === 'TimeoutError') return new SolverTimeoutError();
+  return new SolverError('unknown', "Failed to generate solution. Please try again.");
+};
+
+// The server's side of toSolverError: the same failure as a /api error response
+export const toApiError = (error: SolverError): SolverApiError => {
+  const { code, status } = API_ERROR_BY_KIND[error.kind];
+  return new SolverApiError(code, error.message, status, error.retryAfter);
+};
@@ -0,0 +1,98 @@
+import {
+  SYSTEM_INSTRUCTION, STRUCTURED_SYSTEM_INSTRUCTION, TUTOR_SYSTEM_INSTRUCTION, STRUCTURED_TUTOR_SYSTEM_INSTRUCTION,
+  SUBJECT_INSTRUCTIONS
+} from '../constants';
+import { FollowUpMessage, ProblemClassification, SolutionStep, SolveMode } from '../types';
+
+export interface SolveRequest {
+  textInput: string;
+  // Data URLs, sent in the order the student arranged them
+  images: string[];
+  language: string;
+  // Correction hint from a failed verification, sent with a re-solve
+  feedback?: string;
+  // Defaults to 'solve'
+  mode?: SolveMode;
+  // Selects the subject rules appended to the system instruction
+  classification?: ProblemClassification | null;
+  // Asks the API server for a fresh answer instead of its cached one
+  bypassCache?: boolean;
+  // Set on the extra samples of high accuracy mode (1, 2, ...); picks the sample provider and a higher temperature
+  sample?: number;
+}
+
+// A single model call for work other than solving (e.g. finding the questions on a worksheet).
+// Only the inputs are sent; the system instruction, prompt and schema are built from them
+// where the model is called (see completionPrompts), so the API server never relays a client's prompt.
+export type CompletionRequest =
+  | { task: 'worksheet-segmentation', images: string[] }
+  | { task: 'classification', question: string, images: string[] }
+  | {
+    task: 'follow-up';
+    question: string;
+    // The solution as shown to the student, in Markdown
+    solution: string;
+    history: Pick<FollowUpMessage, 'role' | 'content'>[];
+    followUp: string;
+    language: string;
+    images: string[];
+  }
+  | {
+    task: 'tutor-step-check';
+    question: string;
+    // Steps the student has seen; `expected` is the hidden next one
+    revealed: SolutionStep[];
+    expected: SolutionStep;
+    attempt: string;
+    language: string;
+  }
+  | { task: 'practice-problems', question: string, solution: string, count: number, language: string };
+
+export type CompletionTask = CompletionRequest['task'];
+
+export interface SolverCapabilities {
+  images: boolean;
+  // Responds with JSON matching SOLUTION_JSON_SCHEMA instead of Markdown
+  structuredOutput: boolean;
+}
+
+// Every model backend implements this so the UI never depends on a specific SDK
+export interface SolverProvider {
+  readonly name: string;
+  readonly modelId: string;
+  readonly capabilities: SolverCapabilities;
+  solve(request: SolveRequest): Promise<string>;
+  // Yields text chunks as the model produces them; stops early when signal aborts.
+  // Providers that can answer from a cache (the API server) call onCacheHit before the first chunk,
+  // and providers that relay another model (the API server's) name it through onModel.
+  solveStream(
+    request: SolveRequest,
+    signal?: AbortSignal,
+    onCacheHit?: (createdAt: number) => void,
+    onModel?: (modelId: string) => void
+  ): AsyncGenerator<string>;
+  complete(request: CompletionRequest, signal?: AbortSignal): Promise<string>;
+}
+
+// Picks the system instruction for the request's mode and the provider's response format,
+// plus the rules for the problem's subject when it is known
+export const systemInstructionFor = ({ mode, classification }: SolveRequest, structured: boolean): string => {
+  const base = mode === 'tutor'
+    ? (structured ? STRUCTURED_TUTOR_SYSTEM_INSTRUCTION : TUTOR_SYSTEM_INSTRUCTION)
+    : (structured ? STRUCTURED_SYSTEM_INSTRUCTION : SYSTEM_INSTRUCTION);
+  const rules = classification && SUBJECT_INSTRUCTIONS[classification.subject];
+  return rules ? `${base}\n${rules}\n` : base;
+};
+
+// Low for strict factual output; extra samples need some variety to be independent
+export const temperatureFor = ({ sample }: SolveRequest): number => sample ? 0.7 : 0.1;
+
+// Shared user prompt - Simplified to prevent conversational triggers
+export const buildPromptText = ({ textInput, images, language, feedback, classification }: SolveRequest): string => `
+      Input Question: ${textInput ? textInput : '[Analyze image]'}${images.length > 1 ? `
+      Images: ${images.length} images in order, together forming one problem` : ''}${classification ? `
+      Subject: ${classification.subject}${classification.topic ? ` (${classification.topic})` : ''}` : ''}
+      Target Language: ${language}
+      Output Requirement: Provide ONLY the steps and final answer as per system instructions. Do NOT restate the problem.${feedback ? `
+      Correction Required: ${feedback}` : ''}
+    `;
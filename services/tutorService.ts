@@ -0,0 +1,51 @@
+import { SolutionStep } from '../types';
+import { getSolverProvider } from './providers';
+import { parseJsonResponse } from './solutionSchema';
+import { MalformedOutputError, toSolverError } from './solverErrors';
+
+export type StepVerdict = 'correct' | 'partial' | 'incorrect';
+
+export interface StepCheckResult {
+  verdict: StepVerdict;
+  feedback: string;
+}
+
+const VERDICTS: StepVerdict[] = ['correct', 'partial', 'incorrect'];
+
+/**
+ * Compares the student's own attempt at the next step with the one the model worked out.
+ * `revealed` are the steps the student has already seen; `expected` is hidden from them.
+ */
+export const checkStudentStep = async (
+  question: string,
+  revealed: SolutionStep[],
+  expected: SolutionStep,
+  attempt: string,
+  language: string,
+  signal?: AbortSignal
+): Promise<StepCheckResult> => {
+  const provider = getSolverProvider();
+
+  let raw: string;
+  try {
+    raw = await provider.complete({
+      task: 'tutor-step-check',
+      question,
+      revealed,
+      expected,
+      attempt,
+      language
+    }, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Step Check Error (${provider.name}):`, error);
+    throw toSolverError(error);
+  }
+
+  const decoded = parseJsonResponse(raw) as Partial<Record<keyof StepCheckResult, unknown>> | undefined;
+  const verdict = VERDICTS.find(v => v === decoded?.verdict);
+  if (!verdict || typeof decoded?.feedback !== 'string') {
+    throw new MalformedOutputError("Couldn't read the check result. Please try again.");
+  }
+  return { verdict, feedback: decoded.feedback.trim() };
+};
@@ -0,0 +1,336 @@
+// Offline units and dimensional analysis for final answers.
+// Every unit is a factor to SI base units plus its dimension exponents.
+
+// Exponents of length, mass, time, current, temperature, amount
+type Dimension = [number, number, number, number, number, number];
+
+interface UnitDefinition {
+  factor: number;
+  dimension: Dimension;
+  // Only for absolute temperatures written alone (°C, °F)
+  offset?: number;
+  // Accepts SI prefixes (km, mA, µs, ...)
+  prefixable?: boolean;
+}
+
+const D = (L = 0, M = 0, T = 0, I = 0, K = 0, N = 0): Dimension => [L, M, T, I, K, N];
+
+const UNIT_TABLE: Record<string, UnitDefinition> = {
+  // Base
+  m: { factor: 1, dimension: D(1), prefixable: true },
+  g: { factor: 1e-3, dimension: D(0, 1), prefixable: true },
+  s: { factor: 1, dimension: D(0, 0, 1), prefixable: true },
+  A: { factor: 1, dimension: D(0, 0, 0, 1), prefixable: true },
+  K: { factor: 1, dimension: D(0, 0, 0, 0, 1) },
+  mol: { factor: 1, dimension: D(0, 0, 0, 0, 0, 1), prefixable: true },
+  // Derived SI
+  N: { factor: 1, dimension: D(1, 1, -2), prefixable: true },
+  J: { factor: 1, dimension: D(2, 1, -2), prefixable: true },
+  W: { factor: 1, dimension: D(2, 1, -3), prefixable: true },
+  Pa: { factor: 1, dimension: D(-1, 1, -2), prefixable: true },
+  Hz: { factor: 1, dimension: D(0, 0, -1), prefixable: true },
+  C: { factor: 1, dimension: D(0, 0, 1, 1), prefixable: true },
+  V: { factor: 1, dimension: D(2, 1, -3, -1), prefixable: true },
+  'Ω': { factor: 1, dimension: D(2, 1, -3, -2), prefixable: true },
+  F: { factor: 1, dimension: D(-2, -1, 4, 2), prefixable: true },
+  T: { factor: 1, dimension: D(0, 1, -2, -1), prefixable: true },
+  L: { factor: 1e-3, dimension: D(3), prefixable: true },
+  // Other metric and CGS
+  t: { factor: 1000, dimension: D(0, 1) },
+  min: { factor: 60, dimension: D(0, 0, 1) },
+  h: { factor: 3600, dimension: D(0, 0, 1) },
+  dyn: { factor: 1e-5, dimension: D(1, 1, -2) },
+  erg: { factor: 1e-7, dimension: D(2, 1, -2) },
+  cal: { factor: 4.184, dimension: D(2, 1, -2), prefixable: true },
+  eV: { factor: 1.602176634e-19, dimension: D(2, 1, -2), prefixable: true },
+  Wh: { factor: 3600, dimension: D(2, 1, -2), prefixable: true },
+  bar: { factor: 1e5, dimension: D(-1, 1, -2) },
+  atm: { factor: 101325, dimension: D(-1, 1, -2) },
+  mmHg: { factor: 133.322, dimension: D(-1, 1, -2) },
+  '°C': { factor: 1, dimension: D(0, 0, 0, 0, 1), offset: 273.15 },
+  // Imperial
+  ft: { factor: 0.3048, dimension: D(1) },
+  inch: { factor: 0.0254, dimension: D(1) },
+  yd: { factor: 0.9144, dimension: D(1) },
+  mi: { factor: 1609.344, dimension: D(1) },
+  lb: { factor: 0.45359237, dimension: D(0, 1) },
+  oz: { factor: 0.028349523125, dimension: D(0, 1) },
+  lbf: { factor: 4.4482216153, dimension: D(1, 1, -2) },
+  psi: { factor: 6894.757, dimension: D(-1, 1, -2) },
+  hp: { factor: 745.69987, dimension: D(2, 1, -3) },
+  BTU: { factor: 1055.056, dimension: D(2, 1, -2) },
+  mph: { factor: 0.44704, dimension: D(1, 0, -1) },
+  '°F': { factor: 5 / 9, dimension: D(0, 0, 0, 0, 1), offset: 459.67 * 5 / 9 }
+};
+
+// Spelled-out and alternative spellings, matched case-insensitively
+const UNIT_ALIASES: Record<string, string> = {
+  meter: 'm', meters: 'm', metre: 'm', metres: 'm',
+  kilometer: 'km', kilometers: 'km', kilometre: 'km', kilometres: 'km',
+  centimeter: 'cm', centimeters: 'cm', centimetre: 'cm', centimetres: 'cm',
+  gram: 'g', grams: 'g', kilogram: 'kg', kilograms: 'kg',
+  second: 's', seconds: 's', sec: 's', minute: 'min', minutes: 'min', hour: 'h', hours: 'h', hr: 'h',
+  newton: 'N', newtons: 'N', joule: 'J', joules: 'J', watt: 'W', watts: 'W',
+  pascal: 'Pa', pascals: 'Pa', hertz: 'Hz', coulomb: 'C', coulombs: 'C', volt: 'V', volts: 'V',
+  ohm: 'Ω', ohms: 'Ω', farad: 'F', tesla: 'T', ampere: 'A', amperes: 'A', amp: 'A', amps: 'A',
+  kelvin: 'K', liter: 'L', liters: 'L', litre: 'L', litres: 'L', l: 'L', ml: 'mL',
+  mole: 'mol', moles: 'mol', foot: 'ft', feet: 'ft', inches: 'inch', yard: 'yd', yards: 'yd',
+  mile: 'mi', miles: 'mi', pound: 'lb', pounds: 'lb', lbs: 'lb', ounce: 'oz', ounces: 'oz',
+  kph: 'km/h', degc: '°C', degf: '°F'
+};
+
+const PREFIXES: Record<string, number> = {
+  T: 1e12, G: 1e9, M: 1e6, k: 1e3, c: 1e-2, m: 1e-3, 'µ': 1e-6, 'μ': 1e-6, u: 1e-6, n: 1e-9, p: 1e-12
+};
+
+export interface ParsedUnit {
+  // As written, normalised (e.g. "m/s^2")
+  symbol: string;
+  factor: number;
+  dimension: Dimension;
+  offset: number;
+}
+
+export interface Quantity {
+  value: number;
+  unit: ParsedUnit | null;
+  // Value in SI base units
+  si: number;
+}
+
+const lookupToken = (token: string): UnitDefinition | null => {
+  if (UNIT_TABLE[token]) return UNIT_TABLE[token];
+  const prefix = PREFIXES[token[0]];
+  const base = UNIT_TABLE[token.slice(1)];
+  if (prefix && base?.prefixable) return { ...base, factor: base.factor * prefix, offset: undefined };
+  return null;
+};
+
+// LaTeX and typography -> plain "kg m/s^2" style text
+const normalizeUnitText = (text: string): string =>
+  text
+    .replace(/\\(?:text|mathrm|rm|operatorname)\s*\{([^}]*)\}/g, ' $1 ')
+    .replace(/\^\s*\\circ\s*|\\degree|°\s*/g, '°')
+    .replace(/\\Omega/g, 'Ω')
+    .replace(/\\mu\s*/g, 'µ')
+    .replace(/\\[,;:!]|\\(?:cdot|times)|[·⋅*]/g, ' ')
+    .replace(/\^\s*\{\s*([-−]?\d+)\s*\}/g, '^$1')
+    .replace(/[−]/g, '-')
+    .replace(/²/g, '^2').replace(/³/g, '^3').replace(/⁻¹/g, '^-1').replace(/⁻²/g, '^-2')
+    .replace(/\bper\b/gi, '/')
+    .replace(/[{}()$\\]/g, ' ')
+    .replace(/\s*\^\s*/g, '^')
+    .replace(/\s*\/\s*/g, ' / ')
+    .replace(/°\s*([CF])\b/g, '°$1')
+    .replace(/\s+/g, ' ')
+    .trim();
+
+/**
+ * Parses a unit expression such as "m/s^2", "kg·m/s" or "\text{N m}".
+ * Everything after a "/" is in the denominator. Stops at the first word that
+ * isn't a unit, so "g of water" reads as grams. Returns null if no unit is found.
+ */
+export const parseUnit = (text: string): ParsedUnit | null => {
+  const tokens = normalizeUnitText(text).split(' ').filter(Boolean);
+  let factor = 1;
+  let offset = 0;
+  const dimension = D();
+  const written: string[] = [];
+  let sign = 1;
+  let count = 0;
+
+  for (const token of tokens) {
+    if (token === '/') {
+      if (count === 0) break;
+      sign = -1;
+      written.push('/');
+      continue;
+    }
+    const match = token.match(/^([^\^]+)(?:\^(-?\d+))?$/);
+    if (!match) break;
+    const [, name, power] = match;
+    const aliased = UNIT_ALIASES[name.toLowerCase()];
+    // Aliases like "kph" expand to a whole expression
+    const alias = aliased?.includes('/') ? parseUnit(aliased) : null;
+    const definition = alias
+      ? { factor: alias.factor, dimension: alias.dimension }
+      : lookupToken(aliased || name);
+    if (!definition) break;
+
+    const exponent = sign * (power ? Number(power) : 1);
+    factor *= definition.factor ** exponent;
+    definition.dimension.forEach((d, i) => { dimension[i] += d * exponent; });
+    if ('offset' in definition && definition.offset && tokens.length === 1) offset = definition.offset;
+    written.push(power ? `${aliased || name}^${power}` : aliased || name);
+    count++;
+  }
+
+  if (count === 0) return null;
+  if (written[written.length - 1] === '/') written.pop();
+  return { symbol: written.join(' ').replace(/ \/ /g, '/'), factor, dimension, offset };
+};
+
+const NUMBER_REGEX = /([-−]?\d+(?:\.\d+)?)(?:\s*(?:\\times|×|\*|x)\s*10\s*\^\s*\{?\s*([-−]?\d+)\s*\}?|[eE]([-−]?\d+))?/;
+
+const toNumber = (mantissa: string, exponent?: string) =>
+  Number(mantissa.replace('−', '-')) * 10 ** Number((exponent || '0').replace('−', '-'));
+
+const toQuantity = (value: number, unit: ParsedUnit | null): Quantity => ({
+  value,
+  unit,
+  si: unit ? value * unit.factor + unit.offset : value
+});
+
+/**
+ * Reads the value and unit of a final answer such as "$v = 10\,\text{m/s}$".
+ * `units` is the structured response's separate units field, used when the answer has none.
+ */
+export const parseAnswerQuantity = (finalAnswer: string, units?: string): Quantity | null => {
+  const rightHandSide = finalAnswer.replace(/\$/g, ' ').split(/=|\\approx|≈/).pop() || '';
+  const match = rightHandSide.match(NUMBER_REGEX);
+  if (!match || match.index === undefined) return null;
+
+  const value = toNumber(match[1], match[2] || match[3]);
+  const rest = rightHandSide.slice(match.index + match[0].length);
+  return toQuantity(value, parseUnit(rest) || (units ? parseUnit(units) : null));
+};
+
+/**
+ * Every "number unit" pair in the problem text, e.g. "a 2 kg block at 5 m/s".
+ */
+export const extractGivens = (problem: string): Quantity[] => {
+  const text = problem.replace(/\$/g, ' ');
+  const regex = new RegExp(NUMBER_REGEX.source, 'g');
+  const givens: Quantity[] = [];
+  for (const match of text.matchAll(regex)) {
+    const rest = text.slice((match.index || 0) + match[0].length, (match.index || 0) + match[0].length + 40);
+    const unit = parseUnit(rest.split(/[,;]|\band\b|\.(?!\d)/)[0]);
+    if (unit) givens.push(toQuantity(toNumber(match[1], match[2] || match[3]), unit));
+  }
+  return givens;
+};
+
+// What the question asks for, by keyword, and its SI unit
+const QUANTITIES: { name: string, pattern: RegExp, unit: string }[] = [
+  { name: 'acceleration', pattern: /\bacceleration|\bdecelerat/i, unit: 'm/s^2' },
+  { name: 'velocity', pattern: /\bvelocity|\bspeed\b|\bhow fast\b/i, unit: 'm/s' },
+  { name: 'momentum', pattern: /\bmomentum\b|\bimpulse\b/i, unit: 'kg m/s' },
+  { name: 'force', pattern: /\bforce\b|\btension\b|\bweight\b|\bthrust\b/i, unit: 'N' },
+  { name: 'pressure', pattern: /\bpressure\b/i, unit: 'Pa' },
+  { name: 'power', pattern: /\bpower\b/i, unit: 'W' },
+  { name: 'energy', pattern: /\benergy\b|\bwork\b(?: done)?|\bheat\b/i, unit: 'J' },
+  { name: 'torque', pattern: /\btorque\b|\bmoment of force/i, unit: 'N m' },
+  { name: 'frequency', pattern: /\bfrequency\b/i, unit: 'Hz' },
+  { name: 'current', pattern: /\bcurrent\b/i, unit: 'A' },
+  { name: 'voltage', pattern: /\bvoltage\b|\bpotential difference\b|\bemf\b/i, unit: 'V' },
+  { name: 'resistance', pattern: /\bresistance\b/i, unit: 'Ω' },
+  { name: 'charge', pattern: /\bcharge\b/i, unit: 'C' },
+  { name: 'capacitance', pattern: /\bcapacitance\b/i, unit: 'F' },
+  { name: 'density', pattern: /\bdensity\b/i, unit: 'kg/m^3' },
+  { name: 'volume', pattern: /\bvolume\b/i, unit: 'm^3' },
+  { name: 'area', pattern: /\barea\b/i, unit: 'm^2' },
+  { name: 'mass', pattern: /\bmass\b|\bhow heavy\b/i, unit: 'kg' },
+  { name: 'time', pattern: /\btime\b|\bperiod\b|\bhow long\b/i, unit: 's' },
+  { name: 'temperature', pattern: /\btemperature\b/i, unit: 'K' },
+  { name: 'length', pattern: /\bdistance\b|\bdisplacement\b|\bheight\b|\brange\b|\blength\b|\bwavelength\b|\bhow (?:far|high)\b/i, unit: 'm' }
+];
+
+/**
+ * The quantity the question asks for, looking only after its last "find",
+ * "calculate", "what is", ... so quantities among the givens don't count.
+ */
+export const expectedQuantity = (problem: string): { name: string, unit: ParsedUnit } | null => {
+  const asks = Array.from(problem.matchAll(/\b(?:find|calculate|compute|determine|what(?: is|'s| are)|how (?:much|many|fast|far|high|long|heavy))\b/gi));
+  const question = asks.length ? problem.slice(asks[asks.length - 1].index) : problem;
+
+  let best: { name: string, unit: string, index: number } | null = null;
+  for (const { name, pattern, unit } of QUANTITIES) {
+    const match = question.match(pattern);
+    if (match && match.index !== undefined && (!best || match.index < best.index)) {
+      best = { name, unit, index: match.index };
+    }
+  }
+  const unit = best && parseUnit(best.unit);
+  return best && unit ? { name: best.name, unit } : null;
+};
+
+const sameDimension = (a: Dimension, b: Dimension) => a.every((value, i) => value === b[i]);
+
+const isDimensionless = (dimension: Dimension) => dimension.every(value => value === 0);
+
+// Offered conversions per dimension; keyed by the dimension exponents
+const CONVERSIONS: Record<string, { system: 'SI' | 'CGS' | 'Imperial', unit: string }[]> = {
+  [D(1).join()]: [{ system: 'SI', unit: 'm' }, { system: 'SI', unit: 'km' }, { system: 'CGS', unit: 'cm' }, { system: 'Imperial', unit: 'ft' }, { system: 'Imperial', unit: 'mi' }],
+  [D(0, 1).join()]: [{ system: 'SI', unit: 'kg' }, { system: 'CGS', unit: 'g' }, { system: 'Imperial', unit: 'lb' }],
+  [D(0, 0, 1).join()]: [{ system: 'SI', unit: 's' }, { system: 'SI', unit: 'min' }, { system: 'SI', unit: 'h' }],
+  [D(1, 0, -1).join()]: [{ system: 'SI', unit: 'm/s' }, { system: 'SI', unit: 'km/h' }, { system: 'CGS', unit: 'cm/s' }, { system: 'Imperial', unit: 'ft/s' }, { system: 'Imperial', unit: 'mph' }],
+  [D(1, 0, -2).join()]: [{ system: 'SI', unit: 'm/s^2' }, { system: 'CGS', unit: 'cm/s^2' }, { system: 'Imperial', unit: 'ft/s^2' }],
+  [D(1, 1, -2).join()]: [{ system: 'SI', unit: 'N' }, { system: 'SI', unit: 'kN' }, { system: 'CGS', unit: 'dyn' }, { system: 'Imperial', unit: 'lbf' }],
+  [D(2, 1, -2).join()]: [{ system: 'SI', unit: 'J' }, { system: 'SI', unit: 'kJ' }, { system: 'SI', unit: 'kWh' }, { system: 'CGS', unit: 'erg' }, { system: 'Imperial', unit: 'BTU' }, { system: 'SI', unit: 'eV' }, { system: 'SI', unit: 'kcal' }],
+  [D(2, 1, -3).join()]: [{ system: 'SI', unit: 'W' }, { system: 'SI', unit: 'kW' }, { system: 'CGS', unit: 'erg/s' }, { system: 'Imperial', unit: 'hp' }],
+  [D(-1, 1, -2).join()]: [{ system: 'SI', unit: 'Pa' }, { system: 'SI', unit: 'kPa' }, { system: 'SI', unit: 'bar' }, { system: 'SI', unit: 'atm' }, { system: 'CGS', unit: 'dyn/cm^2' }, { system: 'Imperial', unit: 'psi' }],
+  [D(1, 1, -1).join()]: [{ system: 'SI', unit: 'kg m/s' }, { system: 'CGS', unit: 'g cm/s' }, { system: 'Imperial', unit: 'lb ft/s' }],
+  [D(-3, 1).join()]: [{ system: 'SI', unit: 'kg/m^3' }, { system: 'CGS', unit: 'g/cm^3' }, { system: 'Imperial', unit: 'lb/ft^3' }],
+  [D(2).join()]: [{ system: 'SI', unit: 'm^2' }, { system: 'CGS', unit: 'cm^2' }, { system: 'Imperial', unit: 'ft^2' }],
+  [D(3).join()]: [{ system: 'SI', unit: 'm^3' }, { system: 'SI', unit: 'L' }, { system: 'CGS', unit: 'cm^3' }, { system: 'Imperial', unit: 'ft^3' }],
+  [D(0, 0, 0, 0, 1).join()]: [{ system: 'SI', unit: 'K' }, { system: 'SI', unit: '°C' }, { system: 'Imperial', unit: '°F' }]
+};
+
+export interface UnitConversion {
+  system: 'SI' | 'CGS' | 'Imperial';
+  unit: string;
+  value: number;
+}
+
+const formatNumber = (value: number) =>
+  Math.abs(value) >= 1e6 || (value !== 0 && Math.abs(value) < 1e-3) ? value.toExponential(3) : String(Number(value.toPrecision(4)));
+
+export const formatQuantity = (value: number, unit: string) => `${formatNumber(value)} ${unit}`;
+
+// The answer in the other units of its dimension; empty when it has no unit or an unusual one
+export const convertQuantity = (quantity: Quantity): UnitConversion[] => {
+  if (!quantity.unit) return [];
+  const targets = CONVERSIONS[quantity.unit.dimension.join()] || [];
+  return targets.flatMap(({ system, unit }) => {
+    const target = parseUnit(unit);
+    if (!target || target.symbol === quantity.unit!.symbol) return [];
+    return [{ system, unit, value: (quantity.si - target.offset) / target.factor }];
+  });
+};
+
+export type UnitCheckStatus = 'consistent' | 'mismatch' | 'missing' | 'unchecked';
+
+export interface UnitCheck {
+  status: UnitCheckStatus;
+  detail: string;
+  answer: Quantity | null;
+  givens: Quantity[];
+  conversions: UnitConversion[];
+}
+
+/**
+ * Dimensional analysis of a final answer against what the problem asks for.
+ * "missing" is only reported when the givens carry units, so pure-math answers
+ * are left alone. Returns null when there is nothing to say about units.
+ */
+export const checkAnswerUnits = (problem: string, finalAnswer: string, units?: string): UnitCheck | null => {
+  const answer = parseAnswerQuantity(finalAnswer, units);
+  const givens = extractGivens(problem);
+  const expected = expectedQuantity(problem);
+  const conversions = answer ? convertQuantity(answer) : [];
+  const base = { answer, givens, conversions };
+
+  if (!answer?.unit) {
+    if (answer && expected && givens.length && !isDimensionless(expected.unit.dimension)) {
+      return { ...base, status: 'missing', detail: `The answer has no units; a ${expected.name} should be in ${expected.unit.symbol} or equivalent.` };
+    }
+    return null;
+  }
+
+  if (!expected) {
+    return { ...base, status: 'unchecked', detail: `Answer is in ${answer.unit.symbol}.` };
+  }
+  return sameDimension(answer.unit.dimension, expected.unit.dimension)
+    ? { ...base, status: 'consistent', detail: `${answer.unit.symbol} is a unit of ${expected.name}.` }
+    : { ...base, status: 'mismatch', detail: `The question asks for a ${expected.name} (${expected.unit.symbol}), but ${answer.unit.symbol} is not a unit of ${expected.name}.` };
+};
@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { verifySolution } from './verificationService';
+
+describe('verifySolution', () => {
+  describe('equations worded around a lone variable', () => {
+    const problems: [string, string, string][] = [
+      ['Solve for x in 2x + 3 = 11', 'x = 4', 'x = 5'],
+      ['Find x if 3x = 12', 'x = 4', 'x = 3'],
+      ['Find x such that x + 2 = 5', 'x = 3', 'x = 7'],
+      ['Find the value of x when 5x - 10 = 0', 'x = 2', 'x = -2'],
+      ['Solve 2x + 3 = 11 for x', 'x = 4', 'x = 14']
+    ];
+
+    it.each(problems)('%s: accepts %s', (problem, correct) => {
+      expect(verifySolution(problem, correct).status).toBe('verified');
+    });
+
+    it.each(problems)('%s: rejects %s', (problem, _correct, wrong) => {
+      expect(verifySolution(problem, wrong).status).toBe('contradicted');
+    });
+  });
+
+  it('checks every root of a quadratic', () => {
+    expect(verifySolution('Solve $x^2 - 5x + 6 = 0$', 'x = 2 \\text{ or } x = 3').status).toBe('verified');
+    expect(verifySolution('Solve $x^2 - 5x + 6 = 0$', 'x = 2 \\text{ or } x = 4').status).toBe('contradicted');
+  });
+
+  it('flags answers that leave out real roots', () => {
+    expect(verifySolution('Solve $x^2 - 2 = 0$', 'x \\approx 1.41').status).toBe('unverified');
+    expect(verifySolution('Solve $x^3 - x = 0$', 'x = 0 \\text{ or } x = 1').status).toBe('unverified');
+    expect(verifySolution('Solve $x^2 - 2 = 0$', 'x = \\pm 1.41').status).toBe('verified');
+  });
+
+  it('counts a repeated root once', () => {
+    expect(verifySolution('Solve $x^2 - 6x + 9 = 0$', 'x = 3').status).toBe('verified');
+    expect(verifySolution('Solve $x^3 - 3x^2 = 0$', 'x = 0 \\text{ or } x = 3').status).toBe('verified');
+  });
+
+  it('leaves equations in two variables unverified', () => {
+    expect(verifySolution('Solve x + y = 3', 'x = 1').status).toBe('unverified');
+  });
+});
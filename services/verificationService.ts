@@ -0,0 +1,401 @@
+import { parse, derivative, rationalize, MathNode, isSymbolNode, isFunctionNode } from 'mathjs';
+import { VerificationResult } from '../types';
+import { latexToExpression, expandPlusMinus } from './latexMath';
+
+// Avoid integers and zero so removable singularities (e.g. x - 1 in a denominator) don't hit
+const SAMPLE_POINTS = [-2.7, -1.3, -0.4, 0.6, 1.7, 2.9, 4.1];
+const MIN_VALID_SAMPLES = 3;
+const RELATIVE_TOLERANCE = 1e-6;
+const CONSTANTS = new Set(['pi', 'e', 'i', 'Infinity']);
+// English words kept when pulling math out of a plain-text question
+const MATH_WORDS = new Set(['sin', 'cos', 'tan', 'sec', 'csc', 'cot', 'log', 'ln', 'exp', 'sqrt', 'pi', 'arcsin', 'arccos', 'arctan']);
+
+const unverified = (detail: string): VerificationResult => ({ status: 'unverified', method: 'none', detail });
+
+const evaluateAt = (node: MathNode, scope: Record<string, number>): number | null => {
+  try {
+    const value = node.compile().evaluate(scope);
+    return typeof value === 'number' && Number.isFinite(value) ? value : null;
+  } catch {
+    return null;
+  }
+};
+
+const toNode = (latex: string): MathNode | null => {
+  try {
+    return parse(latexToExpression(latex));
+  } catch {
+    return null;
+  }
+};
+
+const variablesOf = (node: MathNode): string[] => {
+  const names = node
+    .filter((child, path, parent) => isSymbolNode(child) && !(isFunctionNode(parent) && path === 'fn'))
+    .map(child => (child as unknown as { name: string }).name)
+    .filter(name => !CONSTANTS.has(name));
+  return Array.from(new Set(names));
+};
+
+// Decimal places in a rounded answer widen the tolerance to match its precision
+const toleranceFor = (answer: string, value: number): number => {
+  const decimals = answer.match(/\d\.(\d+)/);
+  const relative = RELATIVE_TOLERANCE * Math.max(1, Math.abs(value));
+  return decimals ? Math.max(relative, 0.5 * 10 ** -decimals[1].length) : relative;
+};
+
+const approxEqual = (a: number, b: number, tolerance: number) =>
+  Math.abs(a - b) <= Math.max(tolerance, RELATIVE_TOLERANCE * Math.max(1, Math.abs(a), Math.abs(b)));
+
+// Compares two single-variable expressions numerically; null when too few points could be evaluated
+const sameFunction = (left: MathNode, right: MathNode, variable: string): boolean | null => {
+  let valid = 0;
+  for (const point of SAMPLE_POINTS) {
+    const a = evaluateAt(left, { [variable]: point });
+    const b = evaluateAt(right, { [variable]: point });
+    if (a === null || b === null) continue;
+    if (!approxEqual(a, b, 0)) return false;
+    valid++;
+  }
+  return valid >= MIN_VALID_SAMPLES ? true : null;
+};
+
+// Pulls the math out of a question: prefers $...$ segments, otherwise strips English words
+const extractProblemMath = (problem: string): string => {
+  const segments = Array.from(
+    problem.matchAll(/\$\$([\s\S]+?)\$\$|\$([^$]+)\$|\\\(([\s\S]+?)\\\)|\\\[([\s\S]+?)\\\]/g),
+    match => match[1] || match[2] || match[3] || match[4]
+  );
+  if (segments.length > 0) {
+    return segments.reduce((longest, segment) => segment.length > longest.length ? segment : longest, '');
+  }
+
+  // Words split the text like punctuation does, so the "x" in "Solve for x in 2x + 3 = 11"
+  // stays out of the equation instead of reading as x·2x + 3 = 11
+  const clauses = problem
+    .replace(/with respect to [a-z]|d\/d[a-z]/gi, ' ')
+    .replace(/\b[a-zA-Z]{2,}\b/g, word => MATH_WORDS.has(word.toLowerCase()) ? word : '\n')
+    .split(/[,;:?!\n]|\.(?!\d)/);
+  return clauses.find(clause => clause.includes('=')) || clauses.reduce((a, b) => b.trim().length > a.trim().length ? b : a, '');
+};
+
+// "f'(x) = 9x^2 + 2" -> "9x^2 + 2"
+const rightHandSide = (latex: string) => latex.split('=').pop() || '';
+
+const stripConstantOfIntegration = (latex: string) => latex.replace(/\+\s*[CcK]\b\s*$/, '');
+
+// "x = 2 \text{ or } x = -3" -> ["2", "-3"]; ± answers are expanded into both values
+const answerValues = (answer: string): string[] =>
+  answer
+    .replace(/\$/g, '')
+    .replace(/\\(?:in|approx)\b|≈/g, '=')
+    .replace(/\\[{}]/g, '')
+    .split(/\\text\{\s*(?:or|and)\s*\}|\bor\b|\band\b|,|;|\\quad/)
+    .map(part => rightHandSide(part).trim())
+    .filter(Boolean)
+    .flatMap(expandPlusMinus);
+
+// Coefficients of a polynomial residual, constant term first; null for anything else (sqrt, sin, 1/x, ...)
+const polynomialCoefficients = (residual: MathNode): number[] | null => {
+  try {
+    const result = rationalize(residual, {}, true);
+    // Set for rational functions such as 1/x - 2, whose numerator's roots may not solve the equation
+    const { denominator } = result as unknown as { denominator: MathNode | null };
+    const coefficients = result.coefficients.map(Number);
+    if (denominator || !coefficients.every(Number.isFinite)) return null;
+    while (coefficients.length > 1 && coefficients[coefficients.length - 1] === 0) coefficients.pop();
+    return coefficients;
+  } catch {
+    return null;
+  }
+};
+
+const evaluatePolynomial = (coefficients: number[], x: number) =>
+  coefficients.reduceRight((sum, coefficient) => sum * x + coefficient, 0);
+
+const differentiatePolynomial = (coefficients: number[]) =>
+  coefficients.slice(1).map((coefficient, power) => coefficient * (power + 1));
+
+const MAX_POLYNOMIAL_DEGREE = 12;
+
+// Distinct real roots of a polynomial. The derivative's roots split the line into monotonic
+// pieces holding at most one root each; a critical point where it is zero is a repeated root.
+// Null when the degree is too high to trust.
+const polynomialRealRoots = (coefficients: number[]): number[] | null => {
+  const degree = coefficients.length - 1;
+  if (degree < 1 || degree > MAX_POLYNOMIAL_DEGREE) return null;
+  if (degree === 1) return [-coefficients[0] / coefficients[1]];
+
+  const critical = polynomialRealRoots(differentiatePolynomial(coefficients));
+  if (!critical) return null;
+
+  // Cauchy's bound: every root lies within it
+  const leading = coefficients[degree];
+  const bound = 1 + Math.max(...coefficients.slice(0, degree).map(coefficient => Math.abs(coefficient / leading)));
+  const scale = Math.max(...coefficients.map(Math.abs));
+  const points = [-bound, ...critical.filter(x => Math.abs(x) < bound).sort((a, b) => a - b), bound];
+
+  const roots: number[] = [];
+  points.forEach((point, index) => {
+    const value = evaluatePolynomial(coefficients, point);
+    if (Math.abs(value) <= RELATIVE_TOLERANCE * scale) {
+      roots.push(point);
+      return;
+    }
+    const next = points[index + 1];
+    if (next === undefined || Math.abs(evaluatePolynomial(coefficients, next)) <= RELATIVE_TOLERANCE * scale) return;
+    if (Math.sign(value) === Math.sign(evaluatePolynomial(coefficients, next))) return;
+
+    let [low, high] = [point, next];
+    for (let i = 0; i < 200 && high - low > 1e-12 * Math.max(1, Math.abs(low)); i++) {
+      const middle = (low + high) / 2;
+      if (Math.sign(evaluatePolynomial(coefficients, middle)) === Math.sign(value)) low = middle;
+      else high = middle;
+    }
+    roots.push((low + high) / 2);
+  });
+  return roots.filter((root, index) => index === 0 || !approxEqual(root, roots[index - 1], 1e-9));
+};
+
+const verifyRoots = (equation: string, finalAnswer: string): VerificationResult => {
+  const [lhs, rhs] = equation.split('=');
+  const residual = toNode(`(${lhs})-(${rhs})`);
+  if (!residual) return unverified('Could not read the equation.');
+
+  const variables = variablesOf(residual);
+  if (variables.length !== 1) return unverified('Only single-variable equations can be checked.');
+  const [variable] = variables;
+
+  if (/no (?:real )?solution|\\emptyset|∅/i.test(finalAnswer)) {
+    return unverified('The answer states there is no solution.');
+  }
+
+  const candidates = answerValues(finalAnswer);
+
+  if (candidates.length === 0) return unverified('No roots found in the final answer.');
+
+  const values: number[] = [];
+  for (const candidate of candidates) {
+    const root = toNode(candidate);
+    const value = root && evaluateAt(root, {});
+    if (value === null || value === undefined) {
+      return unverified(`Could not evaluate the root "${candidate}".`);
+    }
+    if (!values.some(other => approxEqual(other, value, toleranceFor(candidate, value)))) values.push(value);
+
+    const tolerance = toleranceFor(candidate, value);
+    const atRoot = evaluateAt(residual, { [variable]: value });
+    if (atRoot === null) return unverified(`The equation is undefined at ${variable} = ${candidate}.`);
+    if (Math.abs(atRoot) <= RELATIVE_TOLERANCE) continue;
+
+    // A rounded root passes if the equation changes sign within its precision
+    const below = evaluateAt(residual, { [variable]: value - tolerance });
+    const above = evaluateAt(residual, { [variable]: value + tolerance });
+    if (below !== null && above !== null && Math.sign(below) !== Math.sign(above)) continue;
+
+    return {
+      status: 'contradicted',
+      method: 'roots',
+      detail: `Substituting ${variable} = ${candidate} leaves ${atRoot.toPrecision(4)} instead of 0.`
+    };
+  }
+
+  // Every given root checks out; a polynomial also says how many there should be
+  const coefficients = polynomialCoefficients(residual);
+  if (!coefficients) {
+    return { status: 'verified', method: 'roots', detail: `Each of the ${values.length} given root(s) satisfies the equation.` };
+  }
+  const roots = polynomialRealRoots(coefficients);
+  if (!roots) return unverified('The given roots satisfy the equation, but some roots may be missing.');
+  if (values.length < roots.length) {
+    return unverified(`The answer gives ${values.length} of the equation's ${roots.length} real roots; some roots may be missing.`);
+  }
+  return { status: 'verified', method: 'roots', detail: `All ${roots.length} real root(s) satisfy the equation.` };
+};
+
+const verifyDerivative = (problemMath: string, finalAnswer: string): VerificationResult => {
+  const functionLatex = rightHandSide(
+    problemMath.replace(/\\frac\{d\}\{d([a-z])\}|d\/d([a-z])/, ' ')
+  );
+  const original = toNode(functionLatex);
+  const answer = toNode(rightHandSide(finalAnswer));
+  if (!original || !answer) return unverified('Could not read the function or its derivative.');
+
+  const variables = variablesOf(original);
+  if (variables.length !== 1) return unverified('Only single-variable functions can be checked.');
+
+  let expected: MathNode;
+  try {
+    expected = derivative(original, variables[0]);
+  } catch {
+    return unverified('Could not differentiate the function.');
+  }
+
+  const same = sameFunction(expected, answer, variables[0]);
+  if (same === null) return unverified('Too few sample points could be evaluated.');
+  return same
+    ? { status: 'verified', method: 'derivative', detail: `Matches d/d${variables[0]} of the function at sample points.` }
+    : { status: 'contradicted', method: 'derivative', detail: `Differs from the computed derivative ${expected.toString()}.` };
+};
+
+// Composite Simpson's rule on an even number of intervals
+const integrate = (integrand: MathNode, variable: string, from: number, to: number): number | null => {
+  const intervals = 200;
+  const h = (to - from) / intervals;
+  let sum = 0;
+  for (let k = 0; k <= intervals; k++) {
+    const value = evaluateAt(integrand, { [variable]: from + k * h });
+    if (value === null) return null;
+    sum += value * (k === 0 || k === intervals ? 1 : k % 2 === 0 ? 2 : 4);
+  }
+  return (sum * h) / 3;
+};
+
+const verifyIntegral = (problemMath: string, finalAnswer: string): VerificationResult => {
+  const integral = problemMath.match(
+    /\\int(?:_(\{[^}]*\}|\S)\s*\^(\{[^}]*\}|\S))?\s*([\s\S]+?)\s*(?:\\[,;!]\s*)?d([a-z])\b/
+  );
+  const integrandLatex = integral ? integral[3] : problemMath.replace(/\\int|∫/g, ' ');
+  const integrand = toNode(integrandLatex);
+  if (!integrand) return unverified('Could not read the integrand.');
+
+  const variables = variablesOf(integrand);
+  const variable = integral?.[4] || variables[0] || 'x';
+  if (variables.some(name => name !== variable)) return unverified('Only single-variable integrals can be checked.');
+
+  // Definite integral: compare against a numeric integration
+  if (integral?.[1] && integral[2]) {
+    const from = evaluateAt(toNode(integral[1]) || parse('NaN'), {});
+    const to = evaluateAt(toNode(integral[2]) || parse('NaN'), {});
+    const answerLatex = rightHandSide(finalAnswer);
+    const answer = toNode(answerLatex);
+    const claimed = answer && evaluateAt(answer, {});
+    if (from === null || to === null || claimed === null || claimed === undefined) {
+      return unverified('Could not evaluate the bounds or the answer.');
+    }
+
+    const numeric = integrate(integrand, variable, from, to);
+    if (numeric === null) return unverified('The integrand is undefined on the interval.');
+    return approxEqual(numeric, claimed, Math.max(toleranceFor(answerLatex, claimed), 1e-6))
+      ? { status: 'verified', method: 'definite-integral', detail: `Numeric integration gives ${numeric.toPrecision(6)}.` }
+      : { status: 'contradicted', method: 'definite-integral', detail: `Numeric integration gives ${numeric.toPrecision(6)}, not ${claimed}.` };
+  }
+
+  // Indefinite integral: the derivative of the answer must give back the integrand
+  const antiderivative = toNode(stripConstantOfIntegration(rightHandSide(finalAnswer)));
+  if (!antiderivative) return unverified('Could not read the antiderivative.');
+
+  let differentiated: MathNode;
+  try {
+    differentiated = derivative(antiderivative, variable);
+  } catch {
+    return unverified('Could not differentiate the answer.');
+  }
+
+  const same = sameFunction(differentiated, integrand, variable);
+  if (same === null) return unverified('Too few sample points could be evaluated.');
+  return same
+    ? { status: 'verified', method: 'antiderivative', detail: 'Differentiating the answer gives back the integrand.' }
+    : { status: 'contradicted', method: 'antiderivative', detail: `Differentiating the answer gives ${differentiated.toString()}.` };
+};
+
+const verifyExpression = (problemMath: string, finalAnswer: string): VerificationResult => {
+  const original = toNode(problemMath);
+  const answerLatex = rightHandSide(finalAnswer);
+  const answer = toNode(answerLatex);
+  if (!original || !answer) return unverified('Could not read the expression or the answer.');
+
+  const variables = variablesOf(original);
+  if (variables.length === 0) {
+    const expected = evaluateAt(original, {});
+    const claimed = evaluateAt(answer, {});
+    if (expected === null || claimed === null) return unverified('Could not evaluate the expression.');
+    return approxEqual(expected, claimed, toleranceFor(answerLatex, claimed))
+      ? { status: 'verified', method: 'expression', detail: `The expression evaluates to ${expected}.` }
+      : { status: 'contradicted', method: 'expression', detail: `The expression evaluates to ${expected}, not ${claimed}.` };
+  }
+  if (variables.length !== 1) return unverified('Only single-variable expressions can be checked.');
+
+  const same = sameFunction(original, answer, variables[0]);
+  if (same === null) return unverified('Too few sample points could be evaluated.');
+  return same
+    ? { status: 'verified', method: 'expression', detail: 'The answer equals the original expression at sample points.' }
+    : { status: 'contradicted', method: 'expression', detail: 'The answer differs from the original expression at sample points.' };
+};
+
+/**
+ * Checks a Mathematics final answer against the problem with math.js:
+ * roots are substituted back, derivatives and antiderivatives are compared
+ * numerically at sample points, and simplifications are evaluated.
+ */
+export const verifySolution = (problem: string, finalAnswer: string): VerificationResult => {
+  if (!problem.trim() || !finalAnswer.trim()) return unverified('The problem text or final answer is missing.');
+
+  const problemMath = extractProblemMath(problem);
+
+  if (/\\int|∫|integra|antiderivative/i.test(problem)) {
+    return verifyIntegral(problemMath, finalAnswer);
+  }
+  if (/derivative|differentiate|\\frac\{d\}\{d[a-z]\}|d\/d[a-z]/i.test(problem)) {
+    return verifyDerivative(problemMath, finalAnswer);
+  }
+  if ((problemMath.match(/=/g) || []).length === 1) {
+    return verifyRoots(problemMath, finalAnswer);
+  }
+  if (/simplify|evaluate|calculate|compute|expand|factor/i.test(problem)) {
+    return verifyExpression(problemMath, finalAnswer);
+  }
+  return unverified('This kind of problem cannot be checked automatically.');
+};
+
+// Message appended to the prompt when an automatic re-solve is triggered
+export const buildVerificationFeedback = (finalAnswer: string, result: VerificationResult): string =>
+  `A previous attempt gave the final answer "${finalAnswer}", but an automatic check failed: ${result.detail} ` +
+  `Re-check every step and correct the answer.`;
+
+// Same value, or the same single-variable expression at sample points; null when either can't be read
+const sameValue = (expected: string, given: string): boolean | null => {
+  const left = toNode(expected);
+  const right = toNode(given);
+  if (!left || !right) return null;
+
+  const variables = Array.from(new Set([...variablesOf(left), ...variablesOf(right)]));
+  if (variables.length === 0) {
+    const a = evaluateAt(left, {});
+    const b = evaluateAt(right, {});
+    if (a === null || b === null) return null;
+    // The coarser of the two roundings decides, so "3.14" matches an exact \pi
+    return approxEqual(a, b, Math.max(toleranceFor(expected, a), toleranceFor(given, b)));
+  }
+  return variables.length === 1 ? sameFunction(left, right, variables[0]) : null;
+};
+
+const normalizeAnswer = (answer: string) =>
+  answer.replace(/\$|\\[,;!]|\\(?:left|right)|\s+/g, '').toLowerCase();
+
+/**
+ * Compares a student's answer with a known final answer: numbers within their rounding,
+ * expressions by value at sample points, and several roots in any order.
+ * Returns null when the answers could not be compared automatically.
+ */
+export const compareAnswers = (expected: string, given: string): boolean | null => {
+  if (!given.trim()) return false;
+  if (normalizeAnswer(expected) === normalizeAnswer(given)) return true;
+
+  const expectedValues = answerValues(stripConstantOfIntegration(expected.replace(/\$/g, '').trim()));
+  const givenValues = answerValues(stripConstantOfIntegration(given.replace(/\$/g, '').trim()));
+  if (expectedValues.length === 0 || givenValues.length === 0) return null;
+
+  let unreadable = false;
+  const unmatched = [...givenValues];
+  for (const value of expectedValues) {
+    const index = unmatched.findIndex(candidate => {
+      const same = sameValue(value, candidate);
+      if (same === null) unreadable = true;
+      return same === true;
+    });
+    if (index === -1) return unreadable ? null : false;
+    unmatched.splice(index, 1);
+  }
+  return unmatched.length === 0;
+};
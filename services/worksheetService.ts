@@ -0,0 +1,118 @@
+import { getSolverProvider } from './providers';
+import { parseJsonResponse } from './solutionSchema';
+import { CropRect, editImage } from './imageProcessing';
+import { generateSolution } from './geminiService';
+import { classifyByKeywords } from './classificationService';
+import { InvalidInputError, toSolverError } from './solverErrors';
+
+export interface WorksheetQuestion {
+  id: string;
+  number: string;
+  text: string;
+  // The uploaded image the question is on and its bounding box there; null region means the whole image
+  imageIndex: number;
+  region: CropRect | null;
+}
+
+// Questions solved at the same time; keeps a 20-question worksheet under provider rate limits
+export const WORKSHEET_CONCURRENCY = 3;
+
+const clampFraction = (value: unknown) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.min(1, Math.max(0, value)) : null;
+
+// Models sometimes answer in pixels or percent; anything that doesn't fit in the image is dropped
+const toRegion = (value: unknown): CropRect | null => {
+  if (typeof value !== 'object' || value === null) return null;
+  const { x, y, width, height } = value as Record<string, unknown>;
+  const [left, top, w, h] = [x, y, width, height].map(clampFraction);
+  if (left === null || top === null || !w || !h) return null;
+  return { x: left, y: top, width: Math.min(w, 1 - left), height: Math.min(h, 1 - top) };
+};
+
+const parseQuestions = (raw: string, imageCount: number): WorksheetQuestion[] => {
+  const decoded = parseJsonResponse(raw) as { questions?: unknown } | undefined;
+  if (!decoded || !Array.isArray(decoded.questions)) return [];
+
+  return decoded.questions.flatMap((item, index): WorksheetQuestion[] => {
+    if (typeof item !== 'object' || item === null) return [];
+    const { number, text, imageIndex, region } = item as Record<string, unknown>;
+    if (typeof text !== 'string' || !text.trim()) return [];
+
+    const page = typeof imageIndex === 'number' && imageIndex >= 0 && imageIndex < imageCount ? Math.floor(imageIndex) : 0;
+    return [{
+      id: crypto.randomUUID(),
+      number: typeof number === 'string' && number.trim() ? number.trim() : String(index + 1),
+      text: text.trim(),
+      imageIndex: page,
+      region: toRegion(region)
+    }];
+  });
+};
+
+/**
+ * Segmentation pass: asks the model to list the separate questions on the worksheet images.
+ * Failures are SolverErrors.
+ */
+export const detectWorksheetQuestions = async (images: string[], signal?: AbortSignal): Promise<WorksheetQuestion[]> => {
+  const provider = getSolverProvider();
+  if (!provider.capabilities.images) {
+    throw new InvalidInputError(`The configured model (${provider.modelId}) cannot read images, so worksheets can't be split into questions.`);
+  }
+
+  let raw: string;
+  try {
+    raw = await provider.complete({
+      task: 'worksheet-segmentation',
+      images
+    }, signal);
+  } catch (error) {
+    if (signal?.aborted) throw error;
+    console.error(`Segmentation Error (${provider.name}):`, error);
+    throw toSolverError(error);
+  }
+
+  const questions = parseQuestions(raw, images.length);
+  if (questions.length === 0) {
+    throw new InvalidInputError("No separate questions were found on this worksheet. Try a clearer photo or solve it as a single question.");
+  }
+  return questions;
+};
+
+/**
+ * Solves one worksheet question from its transcribed text plus a crop of its region,
+ * so diagrams next to the question still reach the model.
+ */
+export const solveWorksheetQuestion = async (
+  question: WorksheetQuestion,
+  images: string[],
+  language: string,
+  signal?: AbortSignal
+): Promise<string> => {
+  const source = images[question.imageIndex];
+  const crop = source && question.region
+    ? await editImage(source, { rotation: 0, crop: question.region, contrast: 1 })
+    : source;
+  // Keywords only: a model classification per question would double the calls for a worksheet
+  return generateSolution(`Question ${question.number}: ${question.text}`, crop ? [crop] : [], language, classifyByKeywords(question.text), signal);
+};
+
+/**
+ * Runs `worker` over every item with at most `limit` calls in flight.
+ * Worker failures are the worker's to handle; one rejection does not stop the others.
+ * Once `signal` aborts, the lanes take no new items.
+ */
+export const runWithConcurrency = async <T>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<void>,
+  signal?: AbortSignal
+): Promise<void> => {
+  let next = 0;
+  const lane = async () => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      await worker(item).catch(() => undefined);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, lane));
+};
@@ -1,13 +1,100 @@
 export interface SolutionStep {
   title: string;
-  content: string;
+  content: string; // Markdown content
+  latex?: string; // Key equation of the step, without $ delimiters
 }
 
 export interface Solution {
   subject: string;
+  topic?: string; // Finer than subject, e.g. "Projectile motion"
   problemStatement: string;
-  steps: string; // Markdown content
+  steps: SolutionStep[];
   finalAnswer: string;
+  units?: string;
+  confidence?: number; // 0 - 1, as reported by the model
+  hints?: string[]; // Tutor mode only, from a gentle nudge to nearly the next step
+}
+
+export type VerificationStatus = 'verified' | 'unverified' | 'contradicted';
+
+export interface VerificationResult {
+  status: VerificationStatus;
+  method: 'roots' | 'derivative' | 'antiderivative' | 'definite-integral' | 'expression' | 'none';
+  detail: string;
+}
+
+// One independent solve in high accuracy mode
+export interface ConsensusSample {
+  modelId: string;
+  rawResponse: string;
+  finalAnswer: string; // '' when the response had none
+}
+
+export interface ConsensusResult {
+  samples: ConsensusSample[];
+  groups: number[][]; // Indexes into samples with equivalent final answers, largest group first
+  failed: number; // Samples that errored and are not in samples
+}
+
+export interface HistoryEntry {
+  id: string;
+  createdAt: number; // ms since epoch
+  inputText: string;
+  thumbnail: string | null; // Small JPEG data URL of the uploaded image
+  language: string;
+  subject: string; // '' when neither the response nor classification gave one
+  topic?: string;
+  rawResponse: string;
+  steps: SolutionStep[];
+  finalAnswer: string;
+  verification: VerificationResult | null;
+  favorite: boolean;
+  followUps?: FollowUpMessage[]; // Absent on entries saved before follow-up chat existed
+  mode?: SolveMode; // Absent means 'solve'
+  consensus?: ConsensusResult; // High accuracy mode only
+}
+
+// Running practice-quiz score for one topic, keyed by the lower-cased topic name
+export interface TopicScore {
+  id: string;
+  topic: string;
+  subject: string;
+  attempted: number;
+  correct: number;
+  updatedAt: number; // ms since epoch
+}
+
+// Subject (one of SUBJECTS) and topic of a problem, decided before solving
+export interface ProblemClassification {
+  subject: string;
+  topic: string;
+  // 'keywords' is the offline guess; 'user' means the student edited the chip
+  source: 'model' | 'keywords' | 'user';
+}
+
+// 'tutor' asks for graded hints and reveals the steps one at a time
+export type SolveMode = 'solve' | 'tutor';
+
+export interface FollowUpMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  createdAt: number;
+}
+
+// One image in the solve input; PDF pages become one attachment each
+export interface InputAttachment {
+  id: string;
+  dataUrl: string;
+  // File name, with the page number for PDF pages
+  label: string;
+}
+
+// What a share link carries in its URL fragment
+export interface SharedSolution {
+  inputText: string;
+  language: string;
+  rawResponse: string;
+  verification: VerificationResult | null;
 }
 
 export interface AdConfig {
@@ -19,7 +106,7 @@ export interface AdConfig {
   };
 }
 
-export type PageRoute = 'home' | 'about' | 'contact' | 'privacy' | 'terms' | 'disclaimer';
+export type PageRoute = 'home' | 'history' | 'solution' | 'about' | 'contact' | 'privacy' | 'terms' | 'disclaimer';
 
 export enum SolveStatus {
   IDLE = 'IDLE',
@@ -0,0 +1,35 @@
+import path from 'path';
+import { defineConfig, loadEnv } from 'vite';
+import react from '@vitejs/plugin-react';
+
+export default defineConfig(({ mode }) => {
+    const env = loadEnv(mode, '.', '');
+    return {
+      server: {
+        port: 3000,
+        host: '0.0.0.0',
+        // The model runs behind the API server (npm run server); only its /api endpoints reach the browser
+        proxy: {
+          '/api': `http://localhost:${env.API_PORT || 8787}`
+        }
+      },
+      plugins: [react()],
+      // No keys here: everything in define ends up in the client bundle
+      define: {
+        'process.env.SOLVER_PROVIDER': JSON.stringify(env.SOLVER_PROVIDER === 'mock' ? 'mock' : 'proxy'),
+        'process.env.SOLVER_API_URL': JSON.stringify(env.SOLVER_API_URL || ''),
+        'process.env.SOLVER_SUPPORTS_IMAGES': JSON.stringify(env.SOLVER_SUPPORTS_IMAGES || ''),
+        'process.env.IMAGE_MAX_DIMENSION': JSON.stringify(env.IMAGE_MAX_DIMENSION || ''),
+        'process.env.SOLUTION_CACHE_TTL_HOURS': JSON.stringify(env.SOLUTION_CACHE_TTL_HOURS || ''),
+        'process.env.SOLVER_TIMEOUT_MS': JSON.stringify(env.SOLVER_TIMEOUT_MS || ''),
+        'process.env.CAMERA_TEST_FRAMES': JSON.stringify(env.CAMERA_TEST_FRAMES || ''),
+        // High accuracy samples are spread over models by the API server, not the browser
+        'process.env.SOLVER_SAMPLE_PROVIDERS': JSON.stringify('')
+      },
+      resolve: {
+        alias: {
+          '@': path.resolve(__dirname, '.'),
+        }
+      }
+    };
+});